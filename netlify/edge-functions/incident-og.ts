@@ -0,0 +1,94 @@
+// Serves /incidents/:id with Open Graph tags for that incident, so links shared
+// in WhatsApp and other chat apps render a preview. Crawlers don't run the SPA,
+// so the tags are written into index.html before it is returned.
+//
+// The incident is read with the public anon key, so RLS only ever exposes
+// approved incidents here; pending reports fall back to the site defaults.
+// The site name comes from the public site_name setting.
+
+declare const Netlify: { env: { get: (name: string) => string | undefined } };
+
+interface EdgeContext {
+  next: () => Promise<Response>;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function setMetaTag(html: string, attribute: "name" | "property", key: string, content: string) {
+  const tag = `<meta ${attribute}="${key}" content="${escapeHtml(content)}" />`;
+  const pattern = new RegExp(`<meta ${attribute}="${key}"[^>]*>`);
+
+  // Replacer functions, so "$&" and the like in user text are inserted as is
+  return pattern.test(html)
+    ? html.replace(pattern, () => tag)
+    : html.replace("</head>", () => `    ${tag}\n  </head>`);
+}
+
+const DEFAULT_SITE_NAME = "SafetyWatch";
+
+async function fetchRows<T>(path: string): Promise<T[] | null> {
+  const supabaseUrl = Netlify.env.get("VITE_SUPABASE_URL");
+  const anonKey = Netlify.env.get("VITE_SUPABASE_PUBLISHABLE_KEY");
+  if (!supabaseUrl || !anonKey) return null;
+
+  const res = await fetch(`${supabaseUrl}/rest/v1/${path}`, {
+    headers: { apikey: anonKey, Authorization: `Bearer ${anonKey}` },
+  });
+  return res.ok ? res.json() : null;
+}
+
+async function fetchIncident(id: string) {
+  const rows = await fetchRows<{ title: string; description: string; location: string }>(
+    `incidents?id=eq.${id}&select=title,description,location&limit=1`
+  );
+  return rows?.[0] ?? null;
+}
+
+async function fetchSiteName() {
+  const rows = await fetchRows<{ value: unknown }>("site_settings?key=eq.site_name&select=value&limit=1");
+  const value = rows?.[0]?.value;
+  return typeof value === "string" && value.trim() ? value : DEFAULT_SITE_NAME;
+}
+
+export default async (request: Request, context: EdgeContext) => {
+  const response = await context.next();
+  const id = new URL(request.url).pathname.split("/")[2];
+
+  if (!id || !UUID_PATTERN.test(id) || !response.headers.get("content-type")?.includes("text/html")) {
+    return response;
+  }
+
+  const [incident, siteName] = await Promise.all([
+    fetchIncident(id).catch(() => null),
+    fetchSiteName().catch(() => DEFAULT_SITE_NAME),
+  ]);
+  if (!incident) return response;
+
+  const title = `${incident.title} · ${siteName}`;
+  const description = `${incident.location} — ${incident.description}`.slice(0, 200);
+
+  let html = await response.text();
+  html = html.replace(/<title>[^<]*<\/title>/, () => `<title>${escapeHtml(title)}</title>`);
+  html = setMetaTag(html, "name", "description", description);
+  html = setMetaTag(html, "property", "og:title", title);
+  html = setMetaTag(html, "property", "og:description", description);
+  html = setMetaTag(html, "property", "og:type", "article");
+  html = setMetaTag(html, "property", "og:url", request.url);
+  html = setMetaTag(html, "name", "twitter:title", title);
+  html = setMetaTag(html, "name", "twitter:description", description);
+
+  const headers = new Headers(response.headers);
+  headers.delete("content-length");
+
+  return new Response(html, { status: response.status, headers });
+};
+
+export const config = { path: "/incidents/*" };
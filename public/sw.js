@@ -0,0 +1,35 @@
+// Service worker for browser push notifications. Registered from
+// src/lib/push.ts; payloads come from the send-push Supabase Edge Function as
+// JSON with title, body, url and tag; send-push always sets the title.
+
+self.addEventListener("push", (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    // Not from send-push; still show something, as browsers expect
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || "New notification", {
+      body: payload.body,
+      icon: "/favicon.ico",
+      // One notification per incident and kind, replaced rather than stacked
+      tag: payload.tag,
+      data: { url: payload.url || "/" },
+    })
+  );
+});
+
+// Focus a tab already showing the notification's page, or open a new one
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data.url, self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
+      const existing = clients.find((client) => client.url === url);
+      return existing ? existing.focus() : self.clients.openWindow(url);
+    })
+  );
+});
@@ -11,6 +11,13 @@ import Admin from "./pages/Admin";
 import NotFound from "./pages/NotFound";
 import UsersPage from "./pages/Users";
 import SettingsPage from "./pages/Settings";
+import NeighborhoodsPage from "./pages/Neighborhoods";
+import IncidentDetailPage from "./pages/IncidentDetail";
+import ModerationLogPage from "./pages/ModerationLog";
+import MyReportsPage from "./pages/MyReports";
+import ReviewQueuePage from "./pages/ReviewQueue";
+import AlertsPage from "./pages/Alerts";
+import UnsubscribePage from "./pages/Unsubscribe";
 
 const queryClient = new QueryClient();
 
@@ -24,7 +31,14 @@ const App = () => (
           <Routes>
             <Route path="/" element={<Index />} />
             <Route path="/auth" element={<Auth />} />
+            <Route path="/incidents/:id" element={<IncidentDetailPage />} />
+            <Route path="/me/reports" element={<MyReportsPage />} />
+            <Route path="/me/alerts" element={<AlertsPage />} />
+            <Route path="/unsubscribe" element={<UnsubscribePage />} />
             <Route path="/admin" element={<Admin />} />
+            <Route path="/admin/neighborhoods" element={<NeighborhoodsPage />} />
+            <Route path="/admin/moderation-log" element={<ModerationLogPage />} />
+            <Route path="/admin/review" element={<ReviewQueuePage />} />
 
             {/* CUSTOM PAGES */}
             <Route path="/users" element={<UsersPage />} />
@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import { addDays, format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "@/hooks/use-toast";
+import { AdminUserAction, SUSPENSION_OPTIONS, runAdminUserAction } from "@/lib/accounts";
+
+export type AccountAction = "suspend" | "ban" | "delete";
+
+interface AccountActionDialogProps {
+  // The account being acted on; null closes the dialog
+  target: { id: string; email: string; action: AccountAction } | null;
+  onOpenChange: (open: boolean) => void;
+  onDone: () => void;
+}
+
+const actionConfig: Record<AccountAction, { title: string; description: string; confirm: string; done: string }> = {
+  suspend: {
+    title: "Suspend account",
+    description: "They can still sign in and read, but can't report, comment or confirm until the suspension ends.",
+    confirm: "Suspend",
+    done: "Account suspended",
+  },
+  ban: {
+    title: "Ban account",
+    description: "They're signed out and can't sign in again until the ban is lifted.",
+    confirm: "Ban",
+    done: "Account banned",
+  },
+  delete: {
+    title: "Delete account",
+    description: "The account, profile, comments and confirmations are removed for good.",
+    confirm: "Delete",
+    done: "Account deleted",
+  },
+};
+
+const AccountActionDialog = ({ target, onOpenChange, onDone }: AccountActionDialogProps) => {
+  const [days, setDays] = useState(String(SUSPENSION_OPTIONS[0].days));
+  const [incidents, setIncidents] = useState<"anonymize" | "delete">("anonymize");
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (target) {
+      setDays(String(SUSPENSION_OPTIONS[0].days));
+      setIncidents("anonymize");
+      setReason("");
+    }
+  }, [target]);
+
+  const config = target && actionConfig[target.action];
+  const until = addDays(new Date(), Number(days));
+
+  async function submit() {
+    const base = { userId: target.id, reason };
+    const request: AdminUserAction =
+      target.action === "suspend"
+        ? { ...base, action: "suspend", until: until.toISOString() }
+        : target.action === "delete"
+          ? { ...base, action: "delete", incidents }
+          : { ...base, action: "ban" };
+
+    setSaving(true);
+    const { error } = await runAdminUserAction(request);
+    setSaving(false);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: config.done, description: target.email });
+    onOpenChange(false);
+    onDone();
+  }
+
+  return (
+    <Dialog open={target !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{config?.title}</DialogTitle>
+          <DialogDescription>
+            {target?.email}. {config?.description}
+          </DialogDescription>
+        </DialogHeader>
+
+        {target?.action === "suspend" && (
+          <div className="space-y-2">
+            <Label>Duration</Label>
+            <Select value={days} onValueChange={setDays}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUSPENSION_OPTIONS.map((option) => (
+                  <SelectItem key={option.days} value={String(option.days)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">Until {format(until, "PPp")}</p>
+          </div>
+        )}
+
+        {target?.action === "delete" && (
+          <RadioGroup value={incidents} onValueChange={(v) => setIncidents(v as "anonymize" | "delete")} className="space-y-2">
+            <div className="flex items-start gap-2">
+              <RadioGroupItem value="anonymize" id="incidents-anonymize" className="mt-1" />
+              <Label htmlFor="incidents-anonymize" className="font-normal">
+                <span className="font-medium">Keep their incidents, anonymized</span>
+                <span className="block text-xs text-muted-foreground">
+                  Reports, media and comments stay up without their name attached.
+                </span>
+              </Label>
+            </div>
+            <div className="flex items-start gap-2">
+              <RadioGroupItem value="delete" id="incidents-delete" className="mt-1" />
+              <Label htmlFor="incidents-delete" className="font-normal">
+                <span className="font-medium">Delete their incidents</span>
+                <span className="block text-xs text-muted-foreground">
+                  Removes every report they made, with its media, and blanks their comments.
+                </span>
+              </Label>
+            </div>
+          </RadioGroup>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="account-action-reason">Reason for the moderation log (optional)</Label>
+          <Textarea
+            id="account-action-reason"
+            rows={2}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={submit} disabled={saving}>
+            {saving ? "Saving..." : config?.confirm}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AccountActionDialog;
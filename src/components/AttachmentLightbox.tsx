@@ -0,0 +1,76 @@
+import { useEffect } from "react";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import type { IncidentAttachment } from "@/lib/media";
+
+interface AttachmentLightboxProps {
+  attachments: IncidentAttachment[];
+  index: number | null;
+  onIndexChange: (index: number | null) => void;
+}
+
+const AttachmentLightbox = ({ attachments, index, onIndexChange }: AttachmentLightboxProps) => {
+  const current = index !== null ? attachments[index] : undefined;
+  const hasMany = attachments.length > 1;
+
+  const step = (delta: number) => {
+    if (index === null) return;
+    onIndexChange((index + delta + attachments.length) % attachments.length);
+  };
+
+  useEffect(() => {
+    if (index === null || !hasMany) return;
+
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "ArrowLeft") step(-1);
+      if (e.key === "ArrowRight") step(1);
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
+
+  return (
+    <Dialog open={!!current} onOpenChange={(open) => !open && onIndexChange(null)}>
+      <DialogContent className="max-w-5xl p-2 bg-black/95 border-none">
+        <DialogTitle className="sr-only">Attachment {index !== null ? index + 1 : ""}</DialogTitle>
+
+        {current && (
+          <div className="relative flex items-center justify-center min-h-[50vh]">
+            {current.kind === "video" ? (
+              <video src={current.url} controls autoPlay className="max-h-[85vh] max-w-full" />
+            ) : (
+              <img src={current.url} alt="" className="max-h-[85vh] max-w-full object-contain" />
+            )}
+
+            {hasMany && (
+              <>
+                <Button
+                  variant="secondary"
+                  size="icon"
+                  className="absolute left-2 top-1/2 -translate-y-1/2"
+                  onClick={() => step(-1)}
+                >
+                  <ChevronLeft className="h-5 w-5" />
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="icon"
+                  className="absolute right-2 top-1/2 -translate-y-1/2"
+                  onClick={() => step(1)}
+                >
+                  <ChevronRight className="h-5 w-5" />
+                </Button>
+                <span className="absolute bottom-2 left-1/2 -translate-x-1/2 text-xs text-white/80">
+                  {index + 1} / {attachments.length}
+                </span>
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AttachmentLightbox;
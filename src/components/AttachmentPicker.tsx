@@ -0,0 +1,111 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ImagePlus, MapPin, PlayCircle, X } from "lucide-react";
+import { toast } from "sonner";
+import { ACCEPTED_MEDIA_TYPES, MAX_ATTACHMENTS, PreparedAttachment, prepareAttachment } from "@/lib/media";
+import type { Coordinates } from "@/lib/incidents";
+
+interface AttachmentPickerProps {
+  attachments: PreparedAttachment[];
+  onChange: (attachments: PreparedAttachment[]) => void;
+  // Shown when a photo carries GPS data and no map location has been picked yet
+  onUseLocation?: (coords: Coordinates) => void;
+}
+
+const AttachmentPicker = ({ attachments, onChange, onUseLocation }: AttachmentPickerProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [processing, setProcessing] = useState(false);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+
+    const room = MAX_ATTACHMENTS - attachments.length;
+    if (files.length > room) toast.error(`You can attach up to ${MAX_ATTACHMENTS} files`);
+
+    setProcessing(true);
+    const prepared: PreparedAttachment[] = [];
+    for (const file of Array.from(files).slice(0, room)) {
+      try {
+        prepared.push(await prepareAttachment(file));
+      } catch (e) {
+        toast.error(`${file.name}: ${e instanceof Error ? e.message : "could not be read"}`);
+      }
+    }
+    setProcessing(false);
+
+    onChange([...attachments, ...prepared]);
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  const remove = (id: string) => {
+    const removed = attachments.find((a) => a.id === id);
+    if (removed) URL.revokeObjectURL(removed.previewUrl);
+    onChange(attachments.filter((a) => a.id !== id));
+  };
+
+  const withGps = attachments.find((a) => a.gps);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {attachments.map((a) => (
+          <div
+            key={a.id}
+            className="relative h-20 w-20 overflow-hidden rounded-md border border-border bg-muted"
+          >
+            {a.kind === "video" ? (
+              <PlayCircle className="absolute inset-0 m-auto h-8 w-8 text-muted-foreground" />
+            ) : (
+              <img src={a.previewUrl} alt="" className="h-full w-full object-cover" />
+            )}
+            <button
+              type="button"
+              onClick={() => remove(a.id)}
+              className="absolute right-1 top-1 rounded-full bg-background/80 p-0.5"
+              aria-label="Remove attachment"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        ))}
+
+        {attachments.length < MAX_ATTACHMENTS && (
+          <Button
+            type="button"
+            variant="outline"
+            className="h-20 w-20 flex-col gap-1"
+            onClick={() => inputRef.current?.click()}
+            disabled={processing}
+          >
+            <ImagePlus className="h-5 w-5" />
+            <span className="text-xs">{processing ? "Reading..." : "Add"}</span>
+          </Button>
+        )}
+      </div>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_MEDIA_TYPES}
+        multiple
+        className="hidden"
+        onChange={(e) => handleFiles(e.target.files)}
+      />
+
+      {withGps && onUseLocation && (
+        <div className="flex items-center justify-between gap-2 rounded-lg border border-border p-2 text-sm">
+          <span className="text-muted-foreground">A photo includes its location.</span>
+          <Button type="button" size="sm" variant="secondary" onClick={() => onUseLocation(withGps.gps)}>
+            <MapPin className="mr-1 h-4 w-4" /> Use photo location
+          </Button>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Photos are resized, and location data is removed from photos and videos before upload.
+      </p>
+    </div>
+  );
+};
+
+export default AttachmentPicker;
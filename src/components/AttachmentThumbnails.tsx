@@ -0,0 +1,60 @@
+import { useState } from "react";
+import { PlayCircle } from "lucide-react";
+import AttachmentLightbox from "./AttachmentLightbox";
+import type { IncidentAttachment } from "@/lib/media";
+
+interface AttachmentThumbnailsProps {
+  attachments: IncidentAttachment[];
+  // How many tiles to show before collapsing the rest into "+N"
+  max?: number;
+  className?: string;
+}
+
+const AttachmentThumbnails = ({ attachments, max = 3, className }: AttachmentThumbnailsProps) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  if (attachments.length === 0) return null;
+
+  const shown = attachments.slice(0, max);
+  const hidden = attachments.length - shown.length;
+
+  return (
+    <>
+      <div className={`flex gap-2 ${className ?? ""}`}>
+        {shown.map((attachment, i) => (
+          <button
+            key={attachment.id}
+            type="button"
+            onClick={() => setOpenIndex(i)}
+            className="relative h-16 w-16 overflow-hidden rounded-md border border-border bg-muted"
+          >
+            {attachment.kind === "video" ? (
+              <PlayCircle className="absolute inset-0 m-auto h-6 w-6 text-muted-foreground" />
+            ) : (
+              <img
+                src={attachment.thumbnailUrl ?? attachment.url}
+                alt=""
+                loading="lazy"
+                className="h-full w-full object-cover"
+              />
+            )}
+
+            {i === shown.length - 1 && hidden > 0 && (
+              <span className="absolute inset-0 flex items-center justify-center bg-black/50 text-sm font-semibold text-white">
+                +{hidden}
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      <AttachmentLightbox
+        attachments={attachments}
+        index={openIndex}
+        onIndexChange={setOpenIndex}
+      />
+    </>
+  );
+};
+
+export default AttachmentThumbnails;
@@ -0,0 +1,93 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Eye } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { isPublicIncidentStatus } from "@/lib/incidents";
+import type { Incident } from "./IncidentCard";
+
+interface ConfirmIncidentButtonProps {
+  incident: Incident;
+}
+
+// "I saw this too" toggle; one confirmation per user, never on your own report
+const ConfirmIncidentButton = ({ incident }: ConfirmIncidentButtonProps) => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [confirmed, setConfirmed] = useState(false);
+  const [count, setCount] = useState(incident.confirmationCount ?? 0);
+  const [saving, setSaving] = useState(false);
+
+  const isOwn = !!user && user.id === incident.reporterId;
+
+  useEffect(() => {
+    setCount(incident.confirmationCount ?? 0);
+  }, [incident.id, incident.confirmationCount]);
+
+  useEffect(() => {
+    if (!user) {
+      setConfirmed(false);
+      return;
+    }
+
+    supabase
+      .from("incident_confirmations")
+      .select("incident_id")
+      .eq("incident_id", incident.id)
+      .eq("user_id", user.id)
+      .maybeSingle()
+      .then(({ data }) => setConfirmed(!!data));
+  }, [incident.id, user]);
+
+  const toggle = async () => {
+    if (!user) {
+      navigate("/auth");
+      return;
+    }
+
+    setSaving(true);
+
+    const { error } = confirmed
+      ? await supabase
+          .from("incident_confirmations")
+          .delete()
+          .eq("incident_id", incident.id)
+          .eq("user_id", user.id)
+      : await supabase
+          .from("incident_confirmations")
+          .insert({ incident_id: incident.id, user_id: user.id });
+
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Could not save your confirmation.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setCount((c) => c + (confirmed ? -1 : 1));
+    setConfirmed(!confirmed);
+  };
+
+  if (!isPublicIncidentStatus(incident.status)) return null;
+
+  return (
+    <Button
+      variant={confirmed ? "default" : "outline"}
+      onClick={toggle}
+      disabled={saving || isOwn}
+      title={isOwn ? "You can't confirm your own report" : undefined}
+    >
+      <Eye className="mr-2 h-4 w-4" />
+      {confirmed ? "You saw this too" : "I saw this too"}
+      {count > 0 && ` · ${count}`}
+    </Button>
+  );
+};
+
+export default ConfirmIncidentButton;
@@ -0,0 +1,158 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { useIncidentCategories } from "@/hooks/useIncidentCategories";
+import { IncidentRow } from "@/lib/incidents";
+
+interface EditReportDialogProps {
+  incident: IncidentRow | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (incident: IncidentRow) => void;
+}
+
+// Pending reports are edited in place; rejected ones go back to the queue
+const EditReportDialog = ({ incident, onOpenChange, onSaved }: EditReportDialogProps) => {
+  const [formData, setFormData] = useState({ type: "", title: "", description: "", location: "" });
+  const [saving, setSaving] = useState(false);
+  const { activeCategories, getCategory } = useIncidentCategories();
+
+  const resubmit = incident?.status === "rejected";
+
+  useEffect(() => {
+    if (incident) {
+      setFormData({
+        type: incident.type,
+        title: incident.title,
+        description: incident.description,
+        location: incident.location,
+      });
+    }
+  }, [incident]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.type || !formData.title.trim() || !formData.description.trim() || !formData.location.trim()) {
+      toast({ title: "Please fill in all fields", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    const { data, error } = await supabase.rpc(resubmit ? "resubmit_incident" : "update_pending_incident", {
+      _incident_id: incident.id,
+      _type: formData.type,
+      _title: formData.title,
+      _description: formData.description,
+      _location: formData.location,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: resubmit ? "Failed to resubmit report." : "Failed to save report.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast(
+      resubmit
+        ? { title: "Report resubmitted", description: "It's back in the queue for review." }
+        : { title: "Report updated" }
+    );
+    onSaved(data);
+    onOpenChange(false);
+  };
+
+  // Keep the current type selectable even if it has since been retired
+  const typeOptions = activeCategories.map((category) => [category.id, category.label]);
+  if (incident && !activeCategories.some((category) => category.id === incident.type)) {
+    typeOptions.push([incident.type, getCategory(incident.type).label]);
+  }
+
+  return (
+    <Dialog open={incident !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{resubmit ? "Edit & resubmit" : "Edit report"}</DialogTitle>
+          <DialogDescription>
+            {resubmit
+              ? "Address the moderator's feedback, then send the report back for review."
+              : "You can change your report until a moderator starts reviewing it."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form id="edit-report" onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="edit-type">Incident Type</Label>
+            <Select value={formData.type} onValueChange={(type) => setFormData({ ...formData, type })}>
+              <SelectTrigger id="edit-type">
+                <SelectValue placeholder="Select incident type" />
+              </SelectTrigger>
+              <SelectContent>
+                {typeOptions.map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-title">Title</Label>
+            <Input
+              id="edit-title"
+              value={formData.title}
+              onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-location">Location</Label>
+            <Input
+              id="edit-location"
+              value={formData.location}
+              onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-description">Description</Label>
+            <Textarea
+              id="edit-description"
+              rows={5}
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            />
+          </div>
+        </form>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="submit" form="edit-report" disabled={saving}>
+            {saving ? "Saving..." : resubmit ? "Resubmit" : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditReportDialog;
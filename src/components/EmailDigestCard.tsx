@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { useNeighborhoods } from "@/hooks/useNeighborhoods";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { DigestFrequency, EmailDigestRow } from "@/lib/notifications";
+import { Mail } from "lucide-react";
+
+// Opt-in daily or weekly email summaries for the Alerts page
+const EmailDigestCard = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { neighborhoods } = useNeighborhoods();
+
+  const digestKey = ["email_digests", user?.id];
+  const { data: saved, isLoading } = useQuery({
+    queryKey: digestKey,
+    enabled: !!user,
+    queryFn: async (): Promise<EmailDigestRow | null> => {
+      const { data, error } = await supabase.from("email_digests").select("*").maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const [frequency, setFrequency] = useState<DigestFrequency | "off">("off");
+  // Empty means every neighborhood
+  const [neighborhoodIds, setNeighborhoodIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setFrequency((saved?.frequency as DigestFrequency) ?? "off");
+    setNeighborhoodIds(saved?.neighborhood_ids ?? []);
+  }, [saved]);
+
+  const toggleNeighborhood = (id: string, checked: boolean) =>
+    setNeighborhoodIds((prev) => (checked ? [...prev, id] : prev.filter((n) => n !== id)));
+
+  async function save() {
+    setSaving(true);
+    const { error } =
+      frequency === "off"
+        ? await supabase.from("email_digests").delete().eq("user_id", user.id)
+        : await supabase.from("email_digests").upsert({ frequency, neighborhood_ids: neighborhoodIds });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to save email digest", variant: "destructive" });
+      return;
+    }
+
+    toast({ title: frequency === "off" ? "Email digest turned off" : "Email digest saved" });
+    queryClient.invalidateQueries({ queryKey: digestKey });
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5 text-primary" /> Email Digest
+        </CardTitle>
+        <CardDescription>A summary of newly published incidents, sent to the address you signed in with.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="digest-frequency">How often</Label>
+          <Select value={frequency} onValueChange={(value) => setFrequency(value as DigestFrequency | "off")}>
+            <SelectTrigger id="digest-frequency" className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="off">Never</SelectItem>
+              <SelectItem value="daily">Every morning</SelectItem>
+              <SelectItem value="weekly">Every Monday</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {frequency !== "off" && neighborhoods.length > 0 && (
+          <div className="space-y-2">
+            <Label>Neighborhoods</Label>
+            <p className="text-xs text-muted-foreground">Leave all unticked to cover the whole site.</p>
+            <div className="grid grid-cols-2 gap-2">
+              {neighborhoods.map((n) => (
+                <label key={n.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={neighborhoodIds.includes(n.id)}
+                    onCheckedChange={(checked) => toggleNeighborhood(n.id, checked === true)}
+                  />
+                  {n.name}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <Button onClick={save} disabled={isLoading || saving}>
+          {saving ? "Saving..." : "Save digest"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EmailDigestCard;
@@ -0,0 +1,37 @@
+import { useEffect, useRef } from "react";
+import { useMap } from "react-leaflet";
+import L from "leaflet";
+import "leaflet.heat";
+import type { Incident } from "./IncidentCard";
+import { incidentHeatWeight } from "@/lib/incidents";
+
+interface HeatmapLayerProps {
+  incidents: Incident[];
+}
+
+// react-leaflet has no heatmap component, so drive leaflet.heat directly
+export default function HeatmapLayer({ incidents }: HeatmapLayerProps) {
+  const map = useMap();
+  const layerRef = useRef<L.HeatLayer | null>(null);
+
+  useEffect(() => {
+    const layer = L.heatLayer([], { radius: 28, blur: 20, maxZoom: 16, max: 1 });
+    layer.addTo(map);
+    layerRef.current = layer;
+
+    return () => {
+      layer.remove();
+      layerRef.current = null;
+    };
+  }, [map]);
+
+  useEffect(() => {
+    layerRef.current?.setLatLngs(
+      incidents
+        .filter((i) => i.coordinates)
+        .map((i) => [i.coordinates.lat, i.coordinates.lng, incidentHeatWeight(i)] as L.HeatLatLngTuple)
+    );
+  }, [incidents]);
+
+  return null;
+}
@@ -1,5 +1,6 @@
 import { Button } from "@/components/ui/button";
 import { Shield } from "lucide-react";
+import { useSiteSettings } from "@/hooks/useSiteSettings";
 import heroImage from "@/assets/hero-neighborhood.jpg";
 
 interface HeroProps {
@@ -8,6 +9,8 @@ interface HeroProps {
 }
 
 const Hero = ({ onReportClick, onViewReportsClick }: HeroProps) => {
+  const { settings } = useSiteSettings();
+
   return (
     <section className="relative overflow-hidden bg-gradient-to-b from-primary/5 to-background py-20 md:py-32">
       <div className="container mx-auto px-4">
@@ -15,7 +18,7 @@ const Hero = ({ onReportClick, onViewReportsClick }: HeroProps) => {
           <div className="space-y-8">
             <div className="inline-flex items-center gap-2 rounded-full bg-primary/10 px-4 py-2 text-sm font-medium text-primary">
               <Shield className="h-4 w-4" />
-              Community Safety Platform
+              {settings.site_name} · Community Safety Platform
             </div>
 
             <h1 className="text-4xl font-bold tracking-tight text-foreground sm:text-5xl md:text-6xl">
@@ -0,0 +1,96 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/hooks/use-toast";
+import MapPicker from "./MapPicker";
+import type { HomeLocation } from "@/hooks/useHomeLocation";
+import type { Coordinates } from "@/lib/incidents";
+
+interface HomeLocationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  home: HomeLocation | null;
+  onSave: (home: HomeLocation) => Promise<{ error: Error | null }>;
+}
+
+const HomeLocationDialog = ({ open, onOpenChange, home, onSave }: HomeLocationDialogProps) => {
+  const [label, setLabel] = useState(home?.label ?? "");
+  const [coordinates, setCoordinates] = useState<Coordinates | undefined>(home?.coordinates);
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!coordinates) {
+      toast({
+        title: "Pick a location",
+        description: "Click the map to mark your address.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await onSave({ label: label.trim() || "Home", coordinates });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save your address.",
+        variant: "destructive",
+      });
+    } else {
+      toast({ title: "Address saved" });
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Saved address</DialogTitle>
+          <DialogDescription>
+            Used to show incidents near you. Only you can see it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="home-label">Name</Label>
+            <Input
+              id="home-label"
+              placeholder="Home"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Location</Label>
+            <MapPicker value={coordinates} onSelectLocation={setCoordinates} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save address"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HomeLocationDialog;
@@ -1,49 +1,89 @@
+import { Link, useNavigate } from "react-router-dom";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { MapPin, Clock } from "lucide-react";
+import { MapPin, Clock, Navigation, MessageSquare, Eye } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
+import {
+  Coordinates,
+  IncidentRow,
+  IncidentSeverity,
+  formatDistance,
+  incidentSeverityConfig,
+  incidentStatusConfig,
+  openStreetMapUrl,
+} from "@/lib/incidents";
+import type { IncidentAttachment } from "@/lib/media";
+import { useIncidentCategories } from "@/hooks/useIncidentCategories";
+import AttachmentThumbnails from "./AttachmentThumbnails";
 
 export interface Incident {
   id: string;
-  type: "suspicious" | "theft" | "vandalism" | "noise" | "emergency" | "other";
+  // incident_categories id
+  type: string;
+  severity: IncidentSeverity;
   title: string;
   description: string;
   location: string;
+  status?: IncidentRow["status"];
+  reporterId?: string;
+  coordinates?: Coordinates;
+  neighborhoodId?: string;
+  duplicateOfId?: string;
+  confirmationCount?: number;
+  attachments?: IncidentAttachment[];
+  commentCount?: number;
   timestamp: Date;
 }
 
-const typeConfig = {
-  suspicious: { label: "Suspicious Activity", color: "bg-amber-500" },
-  theft: { label: "Theft", color: "bg-destructive" },
-  vandalism: { label: "Vandalism", color: "bg-orange-500" },
-  noise: { label: "Noise Complaint", color: "bg-blue-500" },
-  emergency: { label: "Emergency", color: "bg-red-600" },
-  other: { label: "Other", color: "bg-muted-foreground" },
-};
-
 interface IncidentCardProps {
   incident: Incident;
+  // Distance from the point the feed is centered on, when filtering "near me"
+  distanceMeters?: number;
 }
 
-const IncidentCard = ({ incident }: IncidentCardProps) => {
-  const config = typeConfig[incident.type];
-  
+const IncidentCard = ({ incident, distanceMeters }: IncidentCardProps) => {
+  const navigate = useNavigate();
+  const category = useIncidentCategories().getCategory(incident.type);
+
+  // Links, thumbnails and the lightbox inside the card handle their own clicks
+  const stopPropagation = (e: React.MouseEvent) => e.stopPropagation();
+
   return (
-    <Card className="p-6 hover:shadow-card transition-shadow">
+    <Card
+      className={`p-6 hover:shadow-card transition-shadow cursor-pointer ${
+        incident.status === "resolved" ? "opacity-75" : ""
+      }`}
+      onClick={() => navigate(`/incidents/${incident.id}`)}
+    >
       <div className="space-y-4">
         <div className="flex items-start justify-between gap-4">
           <div className="flex-1">
             <div className="flex items-center gap-2 mb-2">
-              <Badge className={`${config.color} text-white`}>
-                {config.label}
+              <Badge className="text-white" style={{ backgroundColor: category.color }}>
+                {category.label}
               </Badge>
+              <Badge className={incidentSeverityConfig[incident.severity].className}>
+                {incidentSeverityConfig[incident.severity].label}
+              </Badge>
+              {(incident.status === "active" || incident.status === "resolved") && (
+                <Badge variant={incidentStatusConfig[incident.status].variant}>
+                  {incidentStatusConfig[incident.status].label}
+                </Badge>
+              )}
             </div>
             <h3 className="text-lg font-semibold text-foreground mb-1">
-              {incident.title}
+              <Link to={`/incidents/${incident.id}`} onClick={stopPropagation} className="hover:underline">
+                {incident.title}
+              </Link>
             </h3>
             <p className="text-muted-foreground text-sm line-clamp-2">
               {incident.description}
             </p>
+            {incident.attachments && (
+              <div onClick={stopPropagation}>
+                <AttachmentThumbnails attachments={incident.attachments} className="mt-3" />
+              </div>
+            )}
           </div>
         </div>
         
@@ -52,10 +92,36 @@ const IncidentCard = ({ incident }: IncidentCardProps) => {
             <MapPin className="h-4 w-4" />
             <span>{incident.location}</span>
           </div>
+          {incident.coordinates && (
+            <a
+              href={openStreetMapUrl(incident.coordinates)}
+              target="_blank"
+              rel="noopener noreferrer"
+              onClick={stopPropagation}
+              className="flex items-center gap-1 hover:text-primary"
+            >
+              <Navigation className="h-4 w-4" />
+              <span>
+                {distanceMeters !== undefined ? `${formatDistance(distanceMeters)} away` : "Map"}
+              </span>
+            </a>
+          )}
           <div className="flex items-center gap-1">
             <Clock className="h-4 w-4" />
             <span>{formatDistanceToNow(incident.timestamp, { addSuffix: true })}</span>
           </div>
+          {incident.confirmationCount > 0 && (
+            <div className="flex items-center gap-1" title="Neighbors who saw this too">
+              <Eye className="h-4 w-4" />
+              <span>{incident.confirmationCount}</span>
+            </div>
+          )}
+          {incident.commentCount > 0 && (
+            <div className="flex items-center gap-1">
+              <MessageSquare className="h-4 w-4" />
+              <span>{incident.commentCount}</span>
+            </div>
+          )}
         </div>
       </div>
     </Card>
@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Save, Tags } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { useIncidentCategories } from "@/hooks/useIncidentCategories";
+import { CATEGORY_ICONS, IncidentCategory } from "@/lib/categories";
+import { INCIDENT_SEVERITIES, incidentSeverityConfig } from "@/lib/incidents";
+
+function toCategoryId(label: string) {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+}
+
+// Categories are retired rather than deleted so older reports keep their label and color
+const IncidentCategoriesCard = () => {
+  const { categories, refetch } = useIncidentCategories();
+  const [drafts, setDrafts] = useState<Record<string, Partial<IncidentCategory>>>({});
+  const [newLabel, setNewLabel] = useState("");
+
+  const draftFor = (category: IncidentCategory) => ({ ...category, ...drafts[category.id] });
+
+  const setDraft = (id: string, values: Partial<IncidentCategory>) =>
+    setDrafts((prev) => ({ ...prev, [id]: { ...prev[id], ...values } }));
+
+  async function save(category: IncidentCategory) {
+    const draft = draftFor(category);
+    const { error } = await supabase
+      .from("incident_categories")
+      .update({
+        label: draft.label.trim(),
+        color: draft.color,
+        icon: draft.icon,
+        default_severity: draft.default_severity,
+        is_active: draft.is_active,
+      })
+      .eq("id", category.id);
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to save category", variant: "destructive" });
+      return;
+    }
+
+    setDrafts((prev) => {
+      const next = { ...prev };
+      delete next[category.id];
+      return next;
+    });
+    refetch();
+  }
+
+  async function add() {
+    const id = toCategoryId(newLabel);
+    if (!id) return;
+
+    if (categories.some((category) => category.id === id)) {
+      toast({ title: "Error", description: "A category with that name already exists", variant: "destructive" });
+      return;
+    }
+
+    const { error } = await supabase.from("incident_categories").insert({
+      id,
+      label: newLabel.trim(),
+      sort_order: (categories[categories.length - 1]?.sort_order ?? 0) + 10,
+    });
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to add category", variant: "destructive" });
+      return;
+    }
+
+    setNewLabel("");
+    refetch();
+  }
+
+  return (
+    <Card className="md:col-span-2 lg:col-span-3">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tags className="h-5 w-5 text-primary" /> Incident Categories
+        </CardTitle>
+        <CardDescription>
+          Offered when reporting an incident. Switch a category off to stop offering it; existing reports keep it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {categories.map((category) => {
+          const draft = draftFor(category);
+
+          return (
+            <div key={category.id} className="flex flex-wrap items-center gap-2">
+              <Switch
+                checked={draft.is_active}
+                onCheckedChange={(is_active) => setDraft(category.id, { is_active })}
+                aria-label="Active"
+              />
+              <Input
+                type="color"
+                value={draft.color}
+                onChange={(e) => setDraft(category.id, { color: e.target.value })}
+                className="w-12 p-1"
+                aria-label="Color"
+              />
+              <Input
+                value={draft.label}
+                onChange={(e) => setDraft(category.id, { label: e.target.value })}
+                className="flex-1 min-w-40"
+              />
+              <Select value={draft.icon} onValueChange={(icon) => setDraft(category.id, { icon })}>
+                <SelectTrigger className="w-20" aria-label="Icon">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CATEGORY_ICONS).map(([name, Icon]) => (
+                    <SelectItem key={name} value={name}>
+                      <Icon className="h-4 w-4" />
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={draft.default_severity}
+                onValueChange={(severity) =>
+                  setDraft(category.id, { default_severity: severity as IncidentCategory["default_severity"] })
+                }
+              >
+                <SelectTrigger className="w-32" aria-label="Default severity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INCIDENT_SEVERITIES.map((severity) => (
+                    <SelectItem key={severity} value={severity}>
+                      {incidentSeverityConfig[severity].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="icon"
+                variant="outline"
+                disabled={!drafts[category.id] || !draft.label.trim()}
+                onClick={() => save(category)}
+                aria-label="Save"
+              >
+                <Save className="h-4 w-4" />
+              </Button>
+            </div>
+          );
+        })}
+
+        <div className="flex items-center gap-2 border-t border-border pt-4">
+          <Input
+            placeholder="New category"
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            className="flex-1"
+          />
+          <Button onClick={add} disabled={!toCategoryId(newLabel)}>
+            <Plus className="mr-1 h-4 w-4" /> Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default IncidentCategoriesCard;
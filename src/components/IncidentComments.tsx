@@ -0,0 +1,419 @@
+import { useEffect, useId, useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { format, formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Megaphone } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import {
+  CommentRow,
+  IncidentComment,
+  MAX_COMMENT_LENGTH,
+  MAX_THREAD_INDENT,
+  buildCommentThreads,
+} from "@/lib/comments";
+import { isPublicIncidentStatus } from "@/lib/incidents";
+import { withModerationReason } from "@/lib/moderation";
+import type { Incident } from "./IncidentCard";
+
+interface CommentFormProps {
+  initialBody?: string;
+  submitLabel: string;
+  // Only offered to the reporter and admins
+  allowOfficial?: boolean;
+  initialOfficial?: boolean;
+  autoFocus?: boolean;
+  onSubmit: (body: string, isOfficialUpdate: boolean) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+const CommentForm = ({
+  initialBody = "",
+  submitLabel,
+  allowOfficial,
+  initialOfficial = false,
+  autoFocus,
+  onSubmit,
+  onCancel,
+}: CommentFormProps) => {
+  const [body, setBody] = useState(initialBody);
+  const [official, setOfficial] = useState(initialOfficial);
+  const [submitting, setSubmitting] = useState(false);
+  const officialId = useId();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    setSubmitting(true);
+    const ok = await onSubmit(body.trim(), allowOfficial && official);
+    setSubmitting(false);
+
+    if (ok && !initialBody) {
+      setBody("");
+      setOfficial(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        maxLength={MAX_COMMENT_LENGTH}
+        placeholder="Add what you know, e.g. the car was seen again at 9pm"
+        rows={3}
+        autoFocus={autoFocus}
+      />
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        {allowOfficial ? (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={officialId}
+              checked={official}
+              onCheckedChange={(checked) => setOfficial(checked === true)}
+            />
+            <Label htmlFor={officialId} className="text-sm font-normal">
+              Post as official update
+            </Label>
+          </div>
+        ) : (
+          <span />
+        )}
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" size="sm" disabled={submitting || !body.trim()}>
+            {submitting ? "Saving..." : submitLabel}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+interface CommentItemProps {
+  comment: IncidentComment;
+  depth: number;
+  reporterId?: string;
+  canReply: boolean;
+  canPostOfficial: boolean;
+  canModerate: boolean;
+  onReply: (parentId: string, body: string, isOfficialUpdate: boolean) => Promise<boolean>;
+  onEdit: (id: string, body: string, isOfficialUpdate: boolean) => Promise<boolean>;
+  onDelete: (id: string) => void;
+}
+
+const CommentItem = ({
+  comment,
+  depth,
+  reporterId,
+  canReply,
+  canPostOfficial,
+  canModerate,
+  onReply,
+  onEdit,
+  onDelete,
+}: CommentItemProps) => {
+  const { user } = useAuth();
+  const [mode, setMode] = useState<"view" | "reply" | "edit">("view");
+
+  const isOwn = user?.id === comment.authorId;
+  const author = isOwn ? "You" : comment.authorId && comment.authorId === reporterId ? "Reporter" : "Neighbor";
+
+  return (
+    <div className={depth > 0 && depth <= MAX_THREAD_INDENT ? "ml-4 pl-4 border-l border-border" : ""}>
+      <div
+        className={`rounded-lg p-3 ${
+          comment.isOfficialUpdate ? "bg-primary/5 border border-primary/30" : ""
+        }`}
+      >
+        {comment.isDeleted ? (
+          <p className="text-sm italic text-muted-foreground">This comment was deleted.</p>
+        ) : mode === "edit" ? (
+          <CommentForm
+            initialBody={comment.body}
+            initialOfficial={comment.isOfficialUpdate}
+            allowOfficial={canPostOfficial}
+            submitLabel="Save"
+            autoFocus
+            onSubmit={async (body, official) => {
+              const ok = await onEdit(comment.id, body, official);
+              if (ok) setMode("view");
+              return ok;
+            }}
+            onCancel={() => setMode("view")}
+          />
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <span className="font-medium text-foreground">{author}</span>
+              {comment.isOfficialUpdate && (
+                <Badge variant="secondary" className="gap-1">
+                  <Megaphone className="h-3 w-3" /> Official update
+                </Badge>
+              )}
+              <span title={format(comment.timestamp, "PPp")}>
+                {formatDistanceToNow(comment.timestamp, { addSuffix: true })}
+              </span>
+              {comment.editedAt && (
+                <span title={format(comment.editedAt, "PPp")}>(edited)</span>
+              )}
+            </div>
+            <p className="mt-1 whitespace-pre-line text-sm text-foreground">{comment.body}</p>
+            <div className="mt-1 flex gap-1">
+              {canReply && (
+                <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setMode("reply")}>
+                  Reply
+                </Button>
+              )}
+              {isOwn && (
+                <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setMode("edit")}>
+                  Edit
+                </Button>
+              )}
+              {(isOwn || canModerate) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-destructive"
+                  onClick={() => onDelete(comment.id)}
+                >
+                  Delete
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      {mode === "reply" && (
+        <div className="ml-4 mt-2">
+          <CommentForm
+            submitLabel="Reply"
+            allowOfficial={canPostOfficial}
+            autoFocus
+            onSubmit={async (body, official) => {
+              const ok = await onReply(comment.id, body, official);
+              if (ok) setMode("view");
+              return ok;
+            }}
+            onCancel={() => setMode("view")}
+          />
+        </div>
+      )}
+
+      {comment.replies.length > 0 && (
+        <div className="mt-2 space-y-2">
+          {comment.replies.map((reply) => (
+            <CommentItem
+              key={reply.id}
+              comment={reply}
+              depth={depth + 1}
+              reporterId={reporterId}
+              canReply={canReply}
+              canPostOfficial={canPostOfficial}
+              canModerate={canModerate}
+              onReply={onReply}
+              onEdit={onEdit}
+              onDelete={onDelete}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface IncidentCommentsProps {
+  incident: Incident;
+  // Lets the parent show the count, e.g. in a section heading
+  onCountChange?: (count: number) => void;
+}
+
+const IncidentComments = ({ incident, onCountChange }: IncidentCommentsProps) => {
+  const { user, isAdmin, canIn } = useAuth();
+  const [rows, setRows] = useState<CommentRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const threads = useMemo(() => buildCommentThreads(rows), [rows]);
+  const isPublished = isPublicIncidentStatus(incident.status);
+  const canReply = !!user && isPublished;
+  const canPostOfficial = !!user && (isAdmin || user.id === incident.reporterId);
+  const canModerate = canIn("comments.moderate", incident.neighborhoodId);
+
+  // Latest callback, so a parent passing a new function each render doesn't
+  // re-report the same count
+  const countChanged = useRef(onCountChange);
+  countChanged.current = onCountChange;
+
+  useEffect(() => {
+    // Drops the response if another incident was opened in the meantime
+    let ignore = false;
+    setLoading(true);
+
+    supabase
+      .from("incident_comments")
+      .select("*")
+      .eq("incident_id", incident.id)
+      .order("created_at")
+      .then(({ data, error }) => {
+        if (ignore) return;
+        if (error) console.error("Error fetching comments:", error);
+        setRows(data || []);
+        setLoading(false);
+      });
+
+    return () => {
+      ignore = true;
+    };
+  }, [incident.id]);
+
+  useEffect(() => {
+    countChanged.current?.(rows.filter((row) => !row.deleted_at).length);
+  }, [rows]);
+
+  const addComment = async (body: string, isOfficialUpdate: boolean, parentId: string | null = null) => {
+    if (!user) return false;
+
+    const { data, error } = await supabase
+      .from("incident_comments")
+      .insert({
+        incident_id: incident.id,
+        parent_id: parentId,
+        user_id: user.id,
+        body,
+        is_official_update: isOfficialUpdate,
+      })
+      .select("*")
+      .single();
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to post comment.",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    setRows((prev) => [...prev, data]);
+    return true;
+  };
+
+  const editComment = async (id: string, body: string, isOfficialUpdate: boolean) => {
+    const { data, error } = await supabase
+      .from("incident_comments")
+      .update({ body, is_official_update: isOfficialUpdate })
+      .eq("id", id)
+      .select("*")
+      .single();
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update comment.",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    setRows((prev) => prev.map((row) => (row.id === id ? data : row)));
+    return true;
+  };
+
+  // Soft delete: the row stays so replies keep their place in the thread
+  const deleteComment = async (id: string) => {
+    const isOwn = rows.find((row) => row.id === id)?.user_id === user?.id;
+    let reason: string | null = null;
+
+    // Removing someone else's comment is a moderation action and gets logged
+    if (isOwn) {
+      if (!confirm("Delete this comment?")) return;
+    } else {
+      reason = prompt("Remove this comment? Add a reason for the moderation log (optional).");
+      if (reason === null) return;
+    }
+
+    const { data, error } = await withModerationReason(
+      supabase
+        .from("incident_comments")
+        .update({ deleted_at: new Date().toISOString() })
+        .eq("id", id)
+        .select("*")
+        .single(),
+      reason
+    );
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete comment.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setRows((prev) => prev.map((row) => (row.id === id ? data : row)));
+  };
+
+  return (
+    <div className="space-y-4">
+      {canReply && (
+        <CommentForm
+          submitLabel="Post comment"
+          allowOfficial={canPostOfficial}
+          onSubmit={(body, official) => addComment(body, official)}
+        />
+      )}
+
+      {!user && isPublished && (
+        <p className="text-sm text-muted-foreground">
+          <Link to="/auth" className="text-primary hover:underline">
+            Sign in
+          </Link>{" "}
+          to add what you know.
+        </p>
+      )}
+
+      {!isPublished && (
+        <p className="text-sm text-muted-foreground">
+          Comments are only open on published reports.
+        </p>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading comments...</p>
+      ) : threads.length === 0 ? (
+        isPublished && <p className="text-sm text-muted-foreground">No comments yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {threads.map((comment) => (
+            <CommentItem
+              key={comment.id}
+              comment={comment}
+              depth={0}
+              reporterId={incident.reporterId}
+              canReply={canReply}
+              canPostOfficial={canPostOfficial}
+              canModerate={canModerate}
+              onReply={(parentId, body, official) => addComment(body, official, parentId)}
+              onEdit={editComment}
+              onDelete={deleteComment}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IncidentComments;
@@ -0,0 +1,129 @@
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { List, Map as MapIcon, Search } from "lucide-react";
+import NearbyControl from "./NearbyControl";
+import { useIncidentCategories } from "@/hooks/useIncidentCategories";
+import { useNeighborhoods } from "@/hooks/useNeighborhoods";
+import { INCIDENT_SEVERITIES, IncidentFilterState, IncidentScope, incidentSeverityConfig } from "@/lib/incidents";
+
+export type IncidentView = "list" | "map";
+
+interface IncidentFiltersProps {
+  filters: IncidentFilterState;
+  onChange: (filters: IncidentFilterState) => void;
+  scope: IncidentScope;
+  onScopeChange: (scope: IncidentScope) => void;
+  view: IncidentView;
+  onViewChange: (view: IncidentView) => void;
+}
+
+const IncidentFilters = ({
+  filters,
+  onChange,
+  scope,
+  onScopeChange,
+  view,
+  onViewChange,
+}: IncidentFiltersProps) => {
+  const { neighborhoods } = useNeighborhoods();
+  const { categories } = useIncidentCategories();
+
+  return (
+    <div className="flex flex-col md:flex-row md:flex-wrap md:items-center gap-3 mb-6">
+      <div className="relative flex-1 max-w-md">
+        <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search reports..."
+          value={filters.search}
+          onChange={(e) => onChange({ ...filters, search: e.target.value })}
+          className="pl-10"
+        />
+      </div>
+
+      <Select value={filters.type} onValueChange={(type) => onChange({ ...filters, type })}>
+        <SelectTrigger className="md:w-56">
+          <SelectValue placeholder="All types" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All types</SelectItem>
+          {categories.map((category) => (
+            <SelectItem key={category.id} value={category.id}>
+              {category.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.severity}
+        onValueChange={(severity) => onChange({ ...filters, severity: severity as IncidentFilterState["severity"] })}
+      >
+        <SelectTrigger className="md:w-44">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Any severity</SelectItem>
+          {/* "Low and above" would be the same as any */}
+          {INCIDENT_SEVERITIES.slice(1).map((severity) => (
+            <SelectItem key={severity} value={severity}>
+              {severity === "critical" ? "Critical only" : `${incidentSeverityConfig[severity].label} and above`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.status}
+        onValueChange={(status) => onChange({ ...filters, status: status as IncidentFilterState["status"] })}
+      >
+        <SelectTrigger className="md:w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Any status</SelectItem>
+          <SelectItem value="open">Open</SelectItem>
+          <SelectItem value="resolved">Resolved</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {neighborhoods.length > 0 && (
+        <Select
+          value={filters.neighborhoodId}
+          onValueChange={(neighborhoodId) => onChange({ ...filters, neighborhoodId })}
+        >
+          <SelectTrigger className="md:w-48">
+            <SelectValue placeholder="All neighborhoods" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All neighborhoods</SelectItem>
+            {neighborhoods.map((n) => (
+              <SelectItem key={n.id} value={n.id}>
+                {n.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <NearbyControl scope={scope} onScopeChange={onScopeChange} />
+
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        value={view}
+        onValueChange={(value) => value && onViewChange(value as IncidentView)}
+        className="md:ml-auto"
+      >
+        <ToggleGroupItem value="list" aria-label="List view">
+          <List className="mr-2 h-4 w-4" /> List
+        </ToggleGroupItem>
+        <ToggleGroupItem value="map" aria-label="Map view">
+          <MapIcon className="mr-2 h-4 w-4" /> Map
+        </ToggleGroupItem>
+      </ToggleGroup>
+    </div>
+  );
+};
+
+export default IncidentFilters;
@@ -0,0 +1,224 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { MapContainer, TileLayer, Marker, Popup, Circle, useMap, useMapEvents } from "react-leaflet";
+import MarkerClusterGroup from "react-leaflet-cluster";
+import "leaflet/dist/leaflet.css";
+import L from "leaflet";
+import IncidentCard, { Incident } from "./IncidentCard";
+import HeatmapLayer from "./HeatmapLayer";
+import TimelinePlayback from "./TimelinePlayback";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Toggle } from "@/components/ui/toggle";
+import { Flame, History, MapPin, Search } from "lucide-react";
+import { useIncidentCategories } from "@/hooks/useIncidentCategories";
+import { IncidentScope, MapBounds } from "@/lib/incidents";
+
+interface IncidentMapProps {
+  incidents: Incident[];
+  scope?: IncidentScope;
+  onSearchArea?: (bounds: MapBounds) => void;
+}
+
+type MappedIncident = Incident & { coordinates: NonNullable<Incident["coordinates"]> };
+
+const iconCache = new Map<string, L.DivIcon>();
+
+// Colored dot marker so incident types can be told apart at a glance
+function markerIcon(color: string) {
+  const cached = iconCache.get(color);
+  if (cached) return cached;
+
+  const icon = L.divIcon({
+    className: "",
+    html: `<span style="display:block;width:18px;height:18px;border-radius:9999px;background:${color};border:2px solid white;box-shadow:0 1px 4px rgba(0,0,0,.4)"></span>`,
+    iconSize: [18, 18],
+    iconAnchor: [9, 9],
+    popupAnchor: [0, -10],
+  });
+
+  iconCache.set(color, icon);
+  return icon;
+}
+
+// Zoom the map to the plotted incidents whenever the visible set changes
+const FitBounds = ({ incidents, enabled }: { incidents: MappedIncident[]; enabled: boolean }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (!enabled || incidents.length === 0) return;
+
+    const bounds = L.latLngBounds(
+      incidents.map((i) => [i.coordinates.lat, i.coordinates.lng] as [number, number])
+    );
+    map.fitBounds(bounds, { padding: [40, 40], maxZoom: 16 });
+  }, [incidents, enabled, map]);
+
+  return null;
+};
+
+// Offers to reload the feed for the current viewport once the user pans the map
+const SearchAreaButton = ({ onSearchArea }: { onSearchArea: (bounds: MapBounds) => void }) => {
+  const [moved, setMoved] = useState(false);
+  const map = useMapEvents({
+    dragend: () => setMoved(true),
+  });
+
+  if (!moved) return null;
+
+  const search = () => {
+    const bounds = map.getBounds();
+    onSearchArea({
+      south: bounds.getSouth(),
+      west: bounds.getWest(),
+      north: bounds.getNorth(),
+      east: bounds.getEast(),
+    });
+    setMoved(false);
+  };
+
+  return (
+    <div className="leaflet-top left-1/2 -translate-x-1/2 pt-3">
+      <div className="leaflet-control">
+        <Button size="sm" onClick={search}>
+          <Search className="mr-1 h-4 w-4" /> Search this area
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default function IncidentMap({ incidents, scope, onSearchArea }: IncidentMapProps) {
+  const { getCategory } = useIncidentCategories();
+  const mapped = useMemo(
+    () => incidents.filter((i): i is MappedIncident => !!i.coordinates),
+    [incidents]
+  );
+  const unmappedCount = incidents.length - mapped.length;
+
+  const [layer, setLayer] = useState<"markers" | "heatmap">("markers");
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [playing, setPlaying] = useState(false);
+  const [range, setRange] = useState<{ from: Date; to: Date } | null>(null);
+  const [cursor, setCursor] = useState<Date | null>(null);
+
+  // Default the replay window to the span of the reports on the map
+  const openTimeline = (open: boolean) => {
+    setShowTimeline(open);
+    setPlaying(false);
+    if (!open) return;
+
+    const times = mapped.map((i) => i.timestamp.getTime());
+    const now = Date.now();
+    const from = new Date(times.length ? Math.min(...times) : now);
+    const to = new Date(times.length ? Math.max(...times, from.getTime() + 1) : now);
+    setRange({ from, to });
+    setCursor(from);
+  };
+
+  const handleRangeChange = useCallback((from: Date, to: Date) => {
+    setRange({ from, to });
+    setCursor(from);
+    setPlaying(false);
+  }, []);
+
+  const visible = useMemo(() => {
+    if (!showTimeline || !range || !cursor) return mapped;
+
+    return mapped.filter(
+      (i) => i.timestamp >= range.from && i.timestamp <= cursor && i.timestamp <= range.to
+    );
+  }, [mapped, showTimeline, range, cursor]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={layer}
+          onValueChange={(value) => value && setLayer(value as "markers" | "heatmap")}
+        >
+          <ToggleGroupItem value="markers" aria-label="Markers">
+            <MapPin className="mr-1 h-4 w-4" /> Markers
+          </ToggleGroupItem>
+          <ToggleGroupItem value="heatmap" aria-label="Heatmap">
+            <Flame className="mr-1 h-4 w-4" /> Heatmap
+          </ToggleGroupItem>
+        </ToggleGroup>
+
+        <Toggle
+          variant="outline"
+          size="sm"
+          pressed={showTimeline}
+          onPressedChange={openTimeline}
+          aria-label="Timeline playback"
+        >
+          <History className="mr-1 h-4 w-4" /> Timeline
+        </Toggle>
+      </div>
+
+      {showTimeline && range && cursor && (
+        <TimelinePlayback
+          from={range.from}
+          to={range.to}
+          cursor={cursor}
+          playing={playing}
+          onRangeChange={handleRangeChange}
+          onCursorChange={setCursor}
+          onPlayingChange={setPlaying}
+        />
+      )}
+
+      <div className="w-full h-[32rem] rounded-xl overflow-hidden border border-border">
+        <MapContainer
+          center={{ lat: 20.5937, lng: 78.9629 }} // India center
+          zoom={5}
+          scrollWheelZoom={true}
+          className="h-full w-full z-0"
+        >
+          <TileLayer
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+            attribution="&copy; OpenStreetMap contributors"
+          />
+
+          {layer === "heatmap" ? (
+            <HeatmapLayer incidents={visible} />
+          ) : (
+            <MarkerClusterGroup chunkedLoading>
+              {visible.map((incident) => (
+                <Marker
+                  key={incident.id}
+                  position={[incident.coordinates.lat, incident.coordinates.lng]}
+                  icon={markerIcon(getCategory(incident.type).color)}
+                >
+                  <Popup minWidth={280} maxWidth={320}>
+                    <IncidentCard incident={incident} />
+                  </Popup>
+                </Marker>
+              ))}
+            </MarkerClusterGroup>
+          )}
+
+          {scope?.kind === "radius" && (
+            <Circle
+              center={[scope.center.lat, scope.center.lng]}
+              radius={scope.radiusMeters}
+              pathOptions={{ weight: 1, fillOpacity: 0.05 }}
+            />
+          )}
+
+          <FitBounds incidents={mapped} enabled={scope?.kind !== "bounds"} />
+          {onSearchArea && <SearchAreaButton onSearchArea={onSearchArea} />}
+        </MapContainer>
+      </div>
+
+      {unmappedCount > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {unmappedCount} {unmappedCount === 1 ? "report has" : "reports have"} no map
+          location and {unmappedCount === 1 ? "is" : "are"} only shown in the list.
+        </p>
+      )}
+    </div>
+  );
+}
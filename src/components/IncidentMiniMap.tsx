@@ -0,0 +1,42 @@
+import { MapContainer, TileLayer, Marker, Circle } from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+import L from "leaflet";
+import type { Coordinates } from "@/lib/incidents";
+
+const defaultIcon = L.icon({
+  iconUrl:
+    "https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.9.4/images/marker-icon.png",
+  iconSize: [25, 41],
+  iconAnchor: [12, 41],
+});
+
+interface IncidentMiniMapProps {
+  coordinates: Coordinates;
+}
+
+// Small read-only map centered on a single incident
+export default function IncidentMiniMap({ coordinates }: IncidentMiniMapProps) {
+  return (
+    <div className="w-full h-56 rounded-xl overflow-hidden border border-border">
+      <MapContainer
+        center={{ lat: coordinates.lat, lng: coordinates.lng }}
+        zoom={16}
+        scrollWheelZoom={false}
+        className="h-full w-full z-0"
+      >
+        <TileLayer
+          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          attribution="&copy; OpenStreetMap contributors"
+        />
+        <Marker position={[coordinates.lat, coordinates.lng]} icon={defaultIcon} />
+        {coordinates.accuracy && (
+          <Circle
+            center={[coordinates.lat, coordinates.lng]}
+            radius={coordinates.accuracy}
+            pathOptions={{ weight: 1, fillOpacity: 0.1 }}
+          />
+        )}
+      </MapContainer>
+    </div>
+  );
+}
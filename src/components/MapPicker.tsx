@@ -1,7 +1,11 @@
-import { useState } from "react";
-import { MapContainer, TileLayer, Marker, useMapEvents } from "react-leaflet";
+import { useEffect, useRef, useState } from "react";
+import { MapContainer, TileLayer, Marker, Circle, useMap, useMapEvents } from "react-leaflet";
 import "leaflet/dist/leaflet.css";
 import L from "leaflet";
+import { Button } from "@/components/ui/button";
+import { LocateFixed } from "lucide-react";
+import { toast } from "sonner";
+import type { Coordinates } from "@/lib/incidents";
 
 // Fix default icon issue in Leaflet
 const defaultIcon = L.icon({
@@ -12,7 +16,10 @@ const defaultIcon = L.icon({
 });
 
 interface MapPickerProps {
-  onSelectLocation: (coords: { lat: number; lng: number }) => void;
+  value?: Coordinates | null;
+  onSelectLocation: (coords: Coordinates) => void;
+  // Draws this radius around the marker instead of the location accuracy
+  radiusMeters?: number;
 }
 
 // Component that listens for clicks on the map
@@ -20,10 +27,12 @@ const LocationMarker = ({
   marker,
   setMarker,
   onSelectLocation,
+  radiusMeters,
 }: {
-  marker: { lat: number; lng: number } | null;
-  setMarker: (c: { lat: number; lng: number }) => void;
-  onSelectLocation: (coords: { lat: number; lng: number }) => void;
+  marker: Coordinates | null;
+  setMarker: (c: Coordinates) => void;
+  onSelectLocation: (coords: Coordinates) => void;
+  radiusMeters?: number;
 }) => {
   useMapEvents({
     click(e) {
@@ -33,21 +42,109 @@ const LocationMarker = ({
     },
   });
 
+  const radius = radiusMeters ?? marker?.accuracy;
+
   return marker ? (
-    <Marker position={[marker.lat, marker.lng]} icon={defaultIcon} />
+    <>
+      <Marker position={[marker.lat, marker.lng]} icon={defaultIcon} />
+      {radius && (
+        <Circle
+          center={[marker.lat, marker.lng]}
+          radius={radius}
+          pathOptions={{ weight: 1, fillOpacity: 0.1 }}
+        />
+      )}
+    </>
   ) : null;
 };
 
-export default function MapPicker({ onSelectLocation }: MapPickerProps) {
-  const [marker, setMarker] = useState<{ lat: number; lng: number } | null>(
-    null
+// Button that fills the marker from browser geolocation, keeping its accuracy
+const LocateButton = ({
+  setMarker,
+  onSelectLocation,
+}: {
+  setMarker: (c: Coordinates) => void;
+  onSelectLocation: (coords: Coordinates) => void;
+}) => {
+  const map = useMap();
+  const controlRef = useRef<HTMLDivElement>(null);
+  const [locating, setLocating] = useState(false);
+
+  // Keep clicks on the control from dropping a marker underneath it
+  useEffect(() => {
+    if (controlRef.current) L.DomEvent.disableClickPropagation(controlRef.current);
+  }, []);
+
+  const locate = () => {
+    if (!navigator.geolocation) {
+      toast.error("Geolocation is not supported by your browser");
+      return;
+    }
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        const coords = {
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+        };
+        setMarker(coords);
+        onSelectLocation(coords);
+        map.flyTo([coords.lat, coords.lng], 17);
+        setLocating(false);
+      },
+      () => {
+        toast.error("Could not get your current location");
+        setLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  };
+
+  return (
+    <div className="leaflet-top leaflet-right">
+      <div ref={controlRef} className="leaflet-control">
+        <Button
+          type="button"
+          size="sm"
+          variant="secondary"
+          onClick={locate}
+          disabled={locating}
+        >
+          <LocateFixed className="mr-1 h-4 w-4" />
+          {locating ? "Locating..." : "Use my location"}
+        </Button>
+      </div>
+    </div>
   );
+};
+
+// Follow a location set from outside the map (e.g. a photo's GPS position)
+const FollowValue = ({ value }: { value?: Coordinates | null }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (value && !map.getBounds().contains([value.lat, value.lng])) {
+      map.flyTo([value.lat, value.lng], 16);
+    }
+  }, [value, map]);
+
+  return null;
+};
+
+export default function MapPicker({ value, onSelectLocation, radiusMeters }: MapPickerProps) {
+  const [marker, setMarker] = useState<Coordinates | null>(value ?? null);
+
+  useEffect(() => {
+    if (value) setMarker(value);
+  }, [value]);
 
   return (
     <div className="w-full h-64 rounded-xl overflow-hidden border border-border">
       <MapContainer
-        center={{ lat: 20.5937, lng: 78.9629 }} // India center
-        zoom={5}
+        center={value ? { lat: value.lat, lng: value.lng } : { lat: 20.5937, lng: 78.9629 }} // India center
+        zoom={value ? 16 : 5}
         scrollWheelZoom={true}
         className="h-full w-full"
       >
@@ -60,7 +157,10 @@ export default function MapPicker({ onSelectLocation }: MapPickerProps) {
           marker={marker}
           setMarker={setMarker}
           onSelectLocation={onSelectLocation}
+          radiusMeters={radiusMeters}
         />
+        <LocateButton setMarker={setMarker} onSelectLocation={onSelectLocation} />
+        <FollowValue value={value} />
       </MapContainer>
     </div>
   );
@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { useNeighborhoods } from "@/hooks/useNeighborhoods";
+import { ModeratorScope, scopeFromRows } from "@/lib/permissions";
+
+interface ModeratorScopeDialogProps {
+  // The moderator being edited; null closes the dialog
+  moderator: { id: string; email: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ModeratorScopeDialog = ({ moderator, onOpenChange }: ModeratorScopeDialogProps) => {
+  const { neighborhoods } = useNeighborhoods();
+  const [scope, setScope] = useState<ModeratorScope>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!moderator) return;
+
+    supabase
+      .from("moderator_scopes")
+      .select("neighborhood_id")
+      .eq("user_id", moderator.id)
+      .then(({ data, error }) => {
+        if (error) console.error("Error fetching moderator scopes:", error);
+        setScope(scopeFromRows(data || []));
+      });
+  }, [moderator]);
+
+  const toggle = (id: string, checked: boolean) =>
+    setScope((prev) => (checked ? [...(prev ?? []), id] : (prev ?? []).filter((n) => n !== id)));
+
+  async function save() {
+    setSaving(true);
+
+    // Replace the whole scope; a single null row means every neighborhood
+    const rows = (scope ?? [null]).map((neighborhood_id) => ({ user_id: moderator.id, neighborhood_id }));
+    let { error } = await supabase.from("moderator_scopes").delete().eq("user_id", moderator.id);
+    if (!error && rows.length > 0) {
+      ({ error } = await supabase.from("moderator_scopes").insert(rows));
+    }
+
+    setSaving(false);
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to save moderator scope", variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Scope saved" });
+    onOpenChange(false);
+  }
+
+  return (
+    <Dialog open={moderator !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Moderator scope</DialogTitle>
+          <DialogDescription>
+            Neighborhoods {moderator?.email} can moderate. With none selected they can't moderate anything.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="scope-all"
+              checked={scope === null}
+              onCheckedChange={(checked) => setScope(checked === true ? null : [])}
+            />
+            <Label htmlFor="scope-all" className="font-medium">
+              All neighborhoods
+            </Label>
+          </div>
+
+          {neighborhoods.map((n) => (
+            <div key={n.id} className="flex items-center gap-2 pl-6">
+              <Checkbox
+                id={`scope-${n.id}`}
+                disabled={scope === null}
+                checked={scope === null || scope.includes(n.id)}
+                onCheckedChange={(checked) => toggle(n.id, checked === true)}
+              />
+              <Label htmlFor={`scope-${n.id}`} className="font-normal">
+                {n.name}
+              </Label>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={saving}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ModeratorScopeDialog;
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Home } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useHomeLocation } from "@/hooks/useHomeLocation";
+import HomeLocationDialog from "./HomeLocationDialog";
+import { IncidentScope, NEARBY_RADIUS_OPTIONS, formatDistance } from "@/lib/incidents";
+
+interface NearbyControlProps {
+  scope: IncidentScope;
+  onScopeChange: (scope: IncidentScope) => void;
+}
+
+const DEFAULT_RADIUS = 1000;
+
+const NearbyControl = ({ scope, onScopeChange }: NearbyControlProps) => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { home, saveHome } = useHomeLocation();
+  const [showHomeDialog, setShowHomeDialog] = useState(false);
+  const [locating, setLocating] = useState(false);
+
+  const radiusMeters = scope.kind === "radius" ? scope.radiusMeters : DEFAULT_RADIUS;
+  const mode = scope.kind === "radius" ? scope.source : scope.kind;
+
+  const locateDevice = () => {
+    if (!navigator.geolocation) {
+      toast({
+        title: "Location unavailable",
+        description: "Your browser does not support geolocation.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLocating(false);
+        onScopeChange({
+          kind: "radius",
+          source: "device",
+          center: { lat: position.coords.latitude, lng: position.coords.longitude },
+          radiusMeters,
+        });
+      },
+      () => {
+        setLocating(false);
+        toast({
+          title: "Location unavailable",
+          description: "Allow location access or use a saved address instead.",
+          variant: "destructive",
+        });
+      },
+      { timeout: 10000 }
+    );
+  };
+
+  const selectHome = () => {
+    if (!user) {
+      navigate("/auth");
+      return;
+    }
+    if (!home) {
+      setShowHomeDialog(true);
+      return;
+    }
+
+    onScopeChange({ kind: "radius", source: "home", center: home.coordinates, radiusMeters });
+  };
+
+  const handleModeChange = (value: string) => {
+    if (value === "all") onScopeChange({ kind: "all" });
+    else if (value === "device") locateDevice();
+    else if (value === "home") selectHome();
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={mode} onValueChange={handleModeChange} disabled={locating}>
+        <SelectTrigger className="w-48">
+          <SelectValue placeholder="Anywhere" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Anywhere</SelectItem>
+          <SelectItem value="device">{locating ? "Locating..." : "Near me"}</SelectItem>
+          <SelectItem value="home">Near {home?.label ?? "saved address"}</SelectItem>
+          {scope.kind === "bounds" && <SelectItem value="bounds">Map area</SelectItem>}
+        </SelectContent>
+      </Select>
+
+      {scope.kind === "radius" && (
+        <Select
+          value={String(scope.radiusMeters)}
+          onValueChange={(value) => onScopeChange({ ...scope, radiusMeters: Number(value) })}
+        >
+          <SelectTrigger className="w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {NEARBY_RADIUS_OPTIONS.map((r) => (
+              <SelectItem key={r} value={String(r)}>
+                {formatDistance(r)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {user && (
+        <Button variant="ghost" size="sm" onClick={() => setShowHomeDialog(true)}>
+          <Home className="mr-1 h-4 w-4" />
+          {home ? "Edit address" : "Save address"}
+        </Button>
+      )}
+
+      {showHomeDialog && (
+        <HomeLocationDialog
+          open={showHomeDialog}
+          onOpenChange={setShowHomeDialog}
+          home={home}
+          onSave={async (next) => {
+            const result = await saveHome(next);
+            if (!result.error) {
+              onScopeChange({
+                kind: "radius",
+                source: "home",
+                center: next.coordinates,
+                radiusMeters,
+              });
+            }
+            return result;
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default NearbyControl;
@@ -0,0 +1,132 @@
+import { useEffect } from "react";
+import { MapContainer, TileLayer, Polygon, Marker, Tooltip, useMap, useMapEvents } from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+import L from "leaflet";
+import type { Coordinates } from "@/lib/incidents";
+import type { Neighborhood } from "@/lib/neighborhoods";
+
+interface NeighborhoodEditorMapProps {
+  neighborhoods: Neighborhood[];
+  editingId: string | null;
+  draftPoints: Coordinates[];
+  draftColor: string;
+  onDraftChange: (points: Coordinates[]) => void;
+  onSelect: (id: string) => void;
+}
+
+const vertexIcon = L.divIcon({
+  className: "",
+  html: '<span style="display:block;width:12px;height:12px;border-radius:9999px;background:white;border:2px solid #2563eb"></span>',
+  iconSize: [12, 12],
+  iconAnchor: [6, 6],
+});
+
+// Clicking the map adds a vertex to the polygon being edited
+const AddVertexOnClick = ({
+  points,
+  onChange,
+}: {
+  points: Coordinates[];
+  onChange: (points: Coordinates[]) => void;
+}) => {
+  useMapEvents({
+    click(e) {
+      onChange([...points, { lat: e.latlng.lat, lng: e.latlng.lng }]);
+    },
+  });
+
+  return null;
+};
+
+// Frame every saved neighborhood once they have loaded
+const FitNeighborhoods = ({ neighborhoods }: { neighborhoods: Neighborhood[] }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const points = neighborhoods.flatMap((n) => n.points);
+    if (points.length === 0) return;
+
+    map.fitBounds(L.latLngBounds(points.map((p) => [p.lat, p.lng] as [number, number])), {
+      padding: [30, 30],
+    });
+  }, [neighborhoods, map]);
+
+  return null;
+};
+
+export default function NeighborhoodEditorMap({
+  neighborhoods,
+  editingId,
+  draftPoints,
+  draftColor,
+  onDraftChange,
+  onSelect,
+}: NeighborhoodEditorMapProps) {
+  const moveVertex = (index: number, coords: Coordinates) =>
+    onDraftChange(draftPoints.map((p, i) => (i === index ? coords : p)));
+
+  const removeVertex = (index: number) =>
+    onDraftChange(draftPoints.filter((_, i) => i !== index));
+
+  return (
+    <div className="w-full h-[28rem] rounded-xl overflow-hidden border border-border">
+      <MapContainer
+        center={{ lat: 20.5937, lng: 78.9629 }} // India center
+        zoom={5}
+        scrollWheelZoom={true}
+        className="h-full w-full z-0"
+      >
+        <TileLayer
+          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          attribution="&copy; OpenStreetMap contributors"
+        />
+
+        {neighborhoods
+          .filter((n) => n.id !== editingId)
+          .map((n) => (
+            <Polygon
+              key={n.id}
+              positions={n.points.map((p) => [p.lat, p.lng] as [number, number])}
+              pathOptions={{ color: n.color, weight: 2, fillOpacity: 0.15 }}
+              eventHandlers={{
+                click: (e) => {
+                  // Selecting a neighborhood should not also drop a vertex
+                  L.DomEvent.stopPropagation(e);
+                  onSelect(n.id);
+                },
+              }}
+            >
+              <Tooltip sticky>{n.name}</Tooltip>
+            </Polygon>
+          ))}
+
+        {draftPoints.length > 1 && (
+          <Polygon
+            positions={draftPoints.map((p) => [p.lat, p.lng] as [number, number])}
+            pathOptions={{ color: draftColor, weight: 3, dashArray: "6 4", fillOpacity: 0.25 }}
+            interactive={false}
+          />
+        )}
+
+        {draftPoints.map((p, index) => (
+          <Marker
+            key={index}
+            position={[p.lat, p.lng]}
+            icon={vertexIcon}
+            draggable
+            eventHandlers={{
+              dragend: (e) => {
+                const { lat, lng } = (e.target as L.Marker).getLatLng();
+                moveVertex(index, { lat, lng });
+              },
+              contextmenu: () => removeVertex(index),
+            }}
+          />
+        ))}
+
+        <AddVertexOnClick points={draftPoints} onChange={onDraftChange} />
+        <FitNeighborhoods neighborhoods={neighborhoods} />
+      </MapContainer>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Bell, Settings2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useNotifications } from "@/hooks/useNotifications";
+import { NotificationRow, notificationLink } from "@/lib/notifications";
+
+const NotificationBell = () => {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, markRead } = useNotifications();
+
+  const open = (notification: NotificationRow) => {
+    markRead([notification.id]);
+    const link = notificationLink(notification);
+    if (link) navigate(link);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <Badge variant="destructive" className="absolute -top-1 -right-1 h-5 min-w-5 justify-center px-1 text-xs">
+              {unreadCount}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b border-border px-4 py-2">
+          <span className="font-medium">Notifications</span>
+          {unreadCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0"
+              onClick={() => markRead(notifications.filter((n) => !n.read_at).map((n) => n.id))}
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">
+              Nothing yet. Add a watch zone to hear about incidents near places you care about.
+            </p>
+          ) : (
+            notifications.map((notification) => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => open(notification)}
+                className={`block w-full border-b border-border px-4 py-3 text-left last:border-0 hover:bg-muted ${
+                  notification.read_at ? "" : "bg-primary/5"
+                }`}
+              >
+                <p className={`text-sm ${notification.read_at ? "" : "font-semibold"}`}>{notification.title}</p>
+                {notification.body && <p className="text-sm text-muted-foreground line-clamp-2">{notification.body}</p>}
+                <p className="mt-1 text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                </p>
+              </button>
+            ))
+          )}
+        </div>
+
+        <div className="border-t border-border p-2">
+          <Button variant="ghost" size="sm" className="w-full" onClick={() => navigate("/me/alerts")}>
+            <Settings2 className="mr-2 h-4 w-4" /> Watch zones & alerts
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
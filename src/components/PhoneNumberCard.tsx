@@ -0,0 +1,251 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { usePhoneNumber } from "@/hooks/usePhoneNumber";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import {
+  VERIFICATION_CODE_LENGTH,
+  isValidPhoneNumber,
+  normalizePhoneNumber,
+  runSmsVerify,
+  toTimeInputValue,
+} from "@/lib/sms";
+import { Smartphone } from "lucide-react";
+
+const DEFAULT_QUIET_HOURS = { start: "22:00", end: "07:00" };
+
+// Adding and verifying the number text alerts go to, and the hours they don't
+const PhoneNumberCard = () => {
+  const { phoneNumber, loading, refetch } = usePhoneNumber();
+
+  const [changing, setChanging] = useState(false);
+  const [phone, setPhone] = useState("");
+  // Set once a code has been sent to the number being added
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [working, setWorking] = useState(false);
+
+  const [quietHours, setQuietHours] = useState(false);
+  const [quietStart, setQuietStart] = useState(DEFAULT_QUIET_HOURS.start);
+  const [quietEnd, setQuietEnd] = useState(DEFAULT_QUIET_HOURS.end);
+
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const verifying = !phoneNumber || changing;
+
+  useEffect(() => {
+    setQuietHours(!!phoneNumber?.quiet_hours_start);
+    setQuietStart(toTimeInputValue(phoneNumber?.quiet_hours_start) || DEFAULT_QUIET_HOURS.start);
+    setQuietEnd(toTimeInputValue(phoneNumber?.quiet_hours_end) || DEFAULT_QUIET_HOURS.end);
+  }, [phoneNumber]);
+
+  function resetVerification() {
+    setChanging(false);
+    setPhone("");
+    setCodeSentTo(null);
+    setCode("");
+  }
+
+  async function sendCode() {
+    const normalized = normalizePhoneNumber(phone);
+    if (!isValidPhoneNumber(normalized)) {
+      toast({
+        title: "Error",
+        description: "Enter the number with its country code, like +14155550123",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setWorking(true);
+    const { error } = await runSmsVerify({ action: "start", phone: normalized });
+    setWorking(false);
+
+    if (error) {
+      toast({ title: "Error", description: error.message || "Failed to send a code", variant: "destructive" });
+      return;
+    }
+
+    setCodeSentTo(normalized);
+    setCode("");
+    toast({ title: "Code sent", description: `Enter the code we texted to ${normalized}` });
+  }
+
+  async function verify() {
+    setWorking(true);
+    const { error } = await runSmsVerify({ action: "confirm", code });
+    setWorking(false);
+
+    if (error) {
+      toast({ title: "Error", description: error.message || "Failed to verify the code", variant: "destructive" });
+      setCode("");
+      return;
+    }
+
+    toast({ title: "Phone number verified" });
+    resetVerification();
+    refetch();
+  }
+
+  async function saveQuietHours() {
+    setWorking(true);
+    const { error } = await supabase
+      .from("phone_numbers")
+      .update({
+        quiet_hours_start: quietHours ? quietStart : null,
+        quiet_hours_end: quietHours ? quietEnd : null,
+        time_zone: timeZone,
+      })
+      .eq("user_id", phoneNumber.user_id);
+    setWorking(false);
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to save quiet hours", variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Quiet hours saved" });
+    refetch();
+  }
+
+  async function removeNumber() {
+    if (!confirm("Remove your phone number? You won't get text alerts anymore.")) return;
+
+    setWorking(true);
+    const { error } = await supabase.from("phone_numbers").delete().eq("user_id", phoneNumber.user_id);
+    setWorking(false);
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to remove phone number", variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Phone number removed" });
+    refetch();
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Smartphone className="h-5 w-5 text-primary" /> Text Messages
+        </CardTitle>
+        <CardDescription>
+          Critical incidents can be texted to you. Turn on text messages for each kind of alert above.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="text-center py-6">Loading...</div>
+        ) : verifying ? (
+          codeSentTo ? (
+            <div className="space-y-3">
+              <Label>Code sent to {codeSentTo}</Label>
+              <InputOTP maxLength={VERIFICATION_CODE_LENGTH} value={code} onChange={setCode}>
+                <InputOTPGroup>
+                  {Array.from({ length: VERIFICATION_CODE_LENGTH }, (_, i) => (
+                    <InputOTPSlot key={i} index={i} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+              <div className="flex flex-wrap gap-2">
+                <Button onClick={verify} disabled={working || code.length < VERIFICATION_CODE_LENGTH}>
+                  {working ? "Checking..." : "Verify"}
+                </Button>
+                <Button variant="outline" onClick={sendCode} disabled={working}>
+                  Send a new code
+                </Button>
+                <Button variant="ghost" onClick={() => setCodeSentTo(null)} disabled={working}>
+                  Use a different number
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div className="space-y-2">
+                <Label htmlFor="sms-phone">Mobile number</Label>
+                <Input
+                  id="sms-phone"
+                  type="tel"
+                  autoComplete="tel"
+                  placeholder="+14155550123"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  className="max-w-xs"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Include the country code. We'll text a code to check it's yours.
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button onClick={sendCode} disabled={working || !phone.trim()}>
+                  {working ? "Sending..." : "Send code"}
+                </Button>
+                {changing && (
+                  <Button variant="ghost" onClick={resetVerification} disabled={working}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </div>
+          )
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-3 rounded-lg border border-border p-3">
+              <p className="text-sm">
+                Texts go to <span className="font-medium">{phoneNumber.phone}</span>
+              </p>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => setChanging(true)} disabled={working}>
+                  Change
+                </Button>
+                <Button size="sm" variant="outline" onClick={removeNumber} disabled={working}>
+                  Remove
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-sm font-medium">
+                <Switch checked={quietHours} onCheckedChange={setQuietHours} />
+                Quiet hours
+              </label>
+              <p className="text-xs text-muted-foreground">
+                Texts that would arrive during these hours aren't sent. Times are in {timeZone}.
+              </p>
+              {quietHours && (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="time"
+                    value={quietStart}
+                    onChange={(e) => setQuietStart(e.target.value)}
+                    className="w-32"
+                    aria-label="From"
+                  />
+                  <span className="text-sm text-muted-foreground">to</span>
+                  <Input
+                    type="time"
+                    value={quietEnd}
+                    onChange={(e) => setQuietEnd(e.target.value)}
+                    className="w-32"
+                    aria-label="Until"
+                  />
+                </div>
+              )}
+            </div>
+
+            <Button onClick={saveQuietHours} disabled={working || (quietHours && (!quietStart || !quietEnd))}>
+              {working ? "Saving..." : "Save quiet hours"}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PhoneNumberCard;
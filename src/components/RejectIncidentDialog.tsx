@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { useRejectionReasons } from "@/hooks/useRejectionReasons";
+
+export interface IncidentRejection {
+  reasonId: string | null;
+  note: string;
+}
+
+interface RejectIncidentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  incidentTitle?: string;
+  // Bulk rejections apply the same reason to every selected report
+  count?: number;
+  onReject: (rejection: IncidentRejection) => Promise<boolean>;
+}
+
+const OTHER = "other";
+
+// Both the reason and the note are shown to the reporter in "My reports"
+const RejectIncidentDialog = ({ open, onOpenChange, incidentTitle, count = 1, onReject }: RejectIncidentDialogProps) => {
+  const { reasons } = useRejectionReasons();
+  const [reasonId, setReasonId] = useState("");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setReasonId("");
+      setNote("");
+    }
+  }, [open]);
+
+  const canSubmit = (reasonId && reasonId !== OTHER) || (reasonId === OTHER && note.trim());
+
+  const handleReject = async () => {
+    setSaving(true);
+    const ok = await onReject({ reasonId: reasonId === OTHER ? null : reasonId, note: note.trim() });
+    setSaving(false);
+
+    if (ok) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{count > 1 ? `Reject ${count} reports` : "Reject report"}</DialogTitle>
+          <DialogDescription>
+            {count === 1 && incidentTitle ? `"${incidentTitle}" ` : ""}
+            {count > 1 ? "Each reporter" : "The reporter"} will see this reason and can edit and resubmit.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={reasonId} onValueChange={setReasonId} className="space-y-2">
+          {reasons.map((reason) => (
+            <div key={reason.id} className="flex items-start gap-2">
+              <RadioGroupItem value={reason.id} id={`reason-${reason.id}`} className="mt-1" />
+              <Label htmlFor={`reason-${reason.id}`} className="font-normal">
+                <span className="font-medium">{reason.label}</span>
+                {reason.description && (
+                  <span className="block text-xs text-muted-foreground">{reason.description}</span>
+                )}
+              </Label>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value={OTHER} id="reason-other" />
+            <Label htmlFor="reason-other" className="font-medium">
+              Other (explain below)
+            </Label>
+          </div>
+        </RadioGroup>
+
+        <div className="space-y-2">
+          <Label htmlFor="rejection-note">Note to the reporter {reasonId !== OTHER && "(optional)"}</Label>
+          <Textarea
+            id="rejection-note"
+            rows={3}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="What should they change before resubmitting?"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleReject} disabled={!canSubmit || saving}>
+            {saving ? "Rejecting..." : "Reject"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RejectIncidentDialog;
@@ -0,0 +1,144 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Save } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { RejectionReason, useRejectionReasons } from "@/hooks/useRejectionReasons";
+
+interface RejectionReasonsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function toCode(label: string) {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+}
+
+// Reasons are retired rather than deleted so rejected reports keep their label
+const RejectionReasonsDialog = ({ open, onOpenChange }: RejectionReasonsDialogProps) => {
+  const { reasons, refetch } = useRejectionReasons({ includeInactive: true });
+  const [drafts, setDrafts] = useState<Record<string, Partial<RejectionReason>>>({});
+  const [newLabel, setNewLabel] = useState("");
+  const [newDescription, setNewDescription] = useState("");
+
+  const draftFor = (reason: RejectionReason) => ({ ...reason, ...drafts[reason.id] });
+
+  const setDraft = (id: string, values: Partial<RejectionReason>) =>
+    setDrafts((prev) => ({ ...prev, [id]: { ...prev[id], ...values } }));
+
+  async function save(reason: RejectionReason) {
+    const draft = draftFor(reason);
+    const { error } = await supabase
+      .from("rejection_reasons")
+      .update({ label: draft.label.trim(), description: draft.description?.trim() || null, is_active: draft.is_active })
+      .eq("id", reason.id);
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to save reason", variant: "destructive" });
+      return;
+    }
+
+    setDrafts((prev) => {
+      const next = { ...prev };
+      delete next[reason.id];
+      return next;
+    });
+    refetch();
+  }
+
+  async function add() {
+    if (!newLabel.trim()) return;
+
+    const { error } = await supabase.from("rejection_reasons").insert({
+      code: toCode(newLabel),
+      label: newLabel.trim(),
+      description: newDescription.trim() || null,
+      sort_order: (reasons[reasons.length - 1]?.sort_order ?? 0) + 10,
+    });
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to add reason", variant: "destructive" });
+      return;
+    }
+
+    setNewLabel("");
+    setNewDescription("");
+    refetch();
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Rejection Reasons</DialogTitle>
+          <DialogDescription>
+            Offered when rejecting a report and shown to the reporter. Switch a reason off to stop offering it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+          {reasons.map((reason) => {
+            const draft = draftFor(reason);
+
+            return (
+              <div key={reason.id} className="flex items-start gap-2">
+                <Switch
+                  checked={draft.is_active}
+                  onCheckedChange={(is_active) => setDraft(reason.id, { is_active })}
+                  className="mt-2"
+                  aria-label="Active"
+                />
+                <div className="flex-1 space-y-1">
+                  <Input value={draft.label} onChange={(e) => setDraft(reason.id, { label: e.target.value })} />
+                  <Input
+                    value={draft.description ?? ""}
+                    placeholder="Explanation for the reporter"
+                    onChange={(e) => setDraft(reason.id, { description: e.target.value })}
+                  />
+                </div>
+                <Button
+                  size="icon"
+                  variant="outline"
+                  disabled={!drafts[reason.id] || !draft.label.trim()}
+                  onClick={() => save(reason)}
+                  aria-label="Save"
+                >
+                  <Save className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-start gap-2 border-t border-border pt-4">
+          <div className="flex-1 space-y-1">
+            <Input placeholder="New reason" value={newLabel} onChange={(e) => setNewLabel(e.target.value)} />
+            <Input
+              placeholder="Explanation for the reporter (optional)"
+              value={newDescription}
+              onChange={(e) => setNewDescription(e.target.value)}
+            />
+          </div>
+          <Button onClick={add} disabled={!newLabel.trim()}>
+            <Plus className="mr-1 h-4 w-4" /> Add
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RejectionReasonsDialog;
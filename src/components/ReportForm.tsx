@@ -8,38 +8,50 @@ import { Card } from "@/components/ui/card";
 import { AlertCircle, X } from "lucide-react";
 import { toast } from "sonner";
 import MapPicker from "./MapPicker";
+import AttachmentPicker from "./AttachmentPicker";
+import { useIncidentCategories } from "@/hooks/useIncidentCategories";
+import { getCategoryIcon } from "@/lib/categories";
+import {
+  Coordinates,
+  INCIDENT_SEVERITIES,
+  IncidentSeverity,
+  NewIncidentReport,
+  incidentSeverityConfig,
+} from "@/lib/incidents";
+import type { PreparedAttachment } from "@/lib/media";
 
 interface ReportFormProps {
   onClose: () => void;
-  onSubmit: (report: {
-    type: string;
-    title: string;
-    description: string;
-    location: string;
-    coordinates?: { lat: number; lng: number };
-  }) => void;
+  // Resolves to true once the report (and its files) have been saved
+  onSubmit: (report: NewIncidentReport) => Promise<boolean>;
 }
 
 const ReportForm = ({ onClose, onSubmit }: ReportFormProps) => {
   const [formData, setFormData] = useState({
     type: "",
+    severity: "" as "" | IncidentSeverity,
     title: "",
     description: "",
     location: "",
-    coordinates: undefined as undefined | { lat: number; lng: number },
+    coordinates: undefined as undefined | Coordinates,
+    attachments: [] as PreparedAttachment[],
   });
+  const [submitting, setSubmitting] = useState(false);
+  const { activeCategories, getCategory } = useIncidentCategories();
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!formData.type || !formData.title || !formData.description || !formData.location) {
+    if (!formData.type || !formData.severity || !formData.title || !formData.description || !formData.location) {
       toast.error("Please fill in all fields");
       return;
     }
 
-    onSubmit(formData);
-    toast.success("Incident reported successfully");
-    onClose();
+    setSubmitting(true);
+    const saved = await onSubmit({ ...formData, severity: formData.severity as IncidentSeverity });
+    setSubmitting(false);
+
+    if (saved) onClose();
   };
 
   return (
@@ -75,25 +87,57 @@ const ReportForm = ({ onClose, onSubmit }: ReportFormProps) => {
                 <Label htmlFor="type">Incident Type *</Label>
                 <Select
                   value={formData.type}
-                  onValueChange={(value) => setFormData({ ...formData, type: value })}
+                  onValueChange={(value) =>
+                    // Suggest the category's usual severity; the reporter can still change it
+                    setFormData({ ...formData, type: value, severity: getCategory(value).default_severity })
+                  }
                 >
                   <SelectTrigger id="type">
                     <SelectValue placeholder="Select incident type" />
                   </SelectTrigger>
 
                   <SelectContent>
-                    <SelectItem value="suspicious">Suspicious Activity</SelectItem>
-                    <SelectItem value="theft">Theft</SelectItem>
-                    <SelectItem value="vandalism">Vandalism</SelectItem>
-                    <SelectItem value="assault">Assault</SelectItem>
-                    <SelectItem value="noise">Noise Complaint</SelectItem>
-                    <SelectItem value="emergency">Emergency</SelectItem>
-                    <SelectItem value="road_hazard">Road Hazard</SelectItem>
-                    <SelectItem value="other">Other</SelectItem>
+                    {activeCategories.map((category) => {
+                      const Icon = getCategoryIcon(category.icon);
+                      return (
+                        <SelectItem key={category.id} value={category.id}>
+                          <span className="flex items-center gap-2">
+                            <Icon className="h-4 w-4" style={{ color: category.color }} />
+                            {category.label}
+                          </span>
+                        </SelectItem>
+                      );
+                    })}
                   </SelectContent>
                 </Select>
               </div>
 
+              {/* SEVERITY */}
+              <div className="space-y-2">
+                <Label htmlFor="severity">Severity *</Label>
+                <Select
+                  value={formData.severity}
+                  onValueChange={(value) => setFormData({ ...formData, severity: value as IncidentSeverity })}
+                >
+                  <SelectTrigger id="severity">
+                    <SelectValue placeholder="How serious is it?" />
+                  </SelectTrigger>
+
+                  <SelectContent>
+                    {INCIDENT_SEVERITIES.map((severity) => (
+                      <SelectItem key={severity} value={severity}>
+                        {incidentSeverityConfig[severity].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {formData.severity === "critical" && (
+                  <p className="text-xs text-muted-foreground">
+                    Critical reports are reviewed first. If someone is in danger, call emergency services.
+                  </p>
+                )}
+              </div>
+
               {/* TITLE */}
               <div className="space-y-2">
                 <Label htmlFor="title">Title *</Label>
@@ -120,8 +164,21 @@ const ReportForm = ({ onClose, onSubmit }: ReportFormProps) => {
               <div className="space-y-2">
                 <Label>Select Exact Location on Map (Optional)</Label>
                 <MapPicker
+                  value={formData.coordinates}
                   onSelectLocation={(coords) =>
-                    setFormData({ ...formData, coordinates: coords })
+                    setFormData((prev) => ({ ...prev, coordinates: coords }))
+                  }
+                />
+              </div>
+
+              {/* ATTACHMENTS */}
+              <div className="space-y-2">
+                <Label>Photos & Videos (Optional)</Label>
+                <AttachmentPicker
+                  attachments={formData.attachments}
+                  onChange={(attachments) => setFormData((prev) => ({ ...prev, attachments }))}
+                  onUseLocation={(coords) =>
+                    setFormData((prev) => ({ ...prev, coordinates: coords }))
                   }
                 />
               </div>
@@ -150,8 +207,8 @@ const ReportForm = ({ onClose, onSubmit }: ReportFormProps) => {
 
               {/* FORM BUTTONS */}
               <div className="flex gap-3 pt-2">
-                <Button type="submit" className="flex-1">
-                  Submit Report
+                <Button type="submit" className="flex-1" disabled={submitting}>
+                  {submitting ? "Submitting..." : "Submit Report"}
                 </Button>
                 <Button type="button" variant="outline" onClick={onClose}>
                   Cancel
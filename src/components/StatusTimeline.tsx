@@ -0,0 +1,56 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { incidentStatusConfig } from "@/lib/incidents";
+
+// changed_by isn't readable by clients
+type HistoryRow = Pick<Tables<"incident_status_history">, "id" | "from_status" | "to_status" | "created_at">;
+
+interface StatusTimelineProps {
+  incidentId: string;
+}
+
+const StatusTimeline = ({ incidentId }: StatusTimelineProps) => {
+  const [history, setHistory] = useState<HistoryRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    supabase
+      .from("incident_status_history")
+      .select("id, from_status, to_status, created_at")
+      .eq("incident_id", incidentId)
+      .order("created_at")
+      .then(({ data, error }) => {
+        if (error) console.error("Error fetching status history:", error);
+        setHistory(data || []);
+        setLoading(false);
+      });
+  }, [incidentId]);
+
+  if (loading) return <p className="text-sm text-muted-foreground">Loading history...</p>;
+  if (history.length === 0) return <p className="text-sm text-muted-foreground">No history yet.</p>;
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-4">
+      {history.map((entry) => (
+        <li key={entry.id} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-background bg-primary" />
+          <p className="text-sm font-medium text-foreground">
+            {entry.from_status
+              ? `${incidentStatusConfig[entry.from_status]?.label ?? entry.from_status} → ${
+                  incidentStatusConfig[entry.to_status]?.label ?? entry.to_status
+                }`
+              : `Reported (${incidentStatusConfig[entry.to_status]?.label ?? entry.to_status})`}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {entry.created_at ? format(new Date(entry.created_at), "PPp") : ""}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default StatusTimeline;
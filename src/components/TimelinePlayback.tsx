@@ -0,0 +1,117 @@
+import { useEffect } from "react";
+import { format, parseISO, endOfDay, startOfDay } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Pause, Play, RotateCcw } from "lucide-react";
+
+interface TimelinePlaybackProps {
+  from: Date;
+  to: Date;
+  cursor: Date;
+  playing: boolean;
+  onRangeChange: (from: Date, to: Date) => void;
+  onCursorChange: (cursor: Date) => void;
+  onPlayingChange: (playing: boolean) => void;
+}
+
+// A full replay takes STEPS ticks of TICK_MS, whatever the date range
+const STEPS = 200;
+const TICK_MS = 100;
+
+const TimelinePlayback = ({
+  from,
+  to,
+  cursor,
+  playing,
+  onRangeChange,
+  onCursorChange,
+  onPlayingChange,
+}: TimelinePlaybackProps) => {
+  const span = Math.max(to.getTime() - from.getTime(), 1);
+
+  useEffect(() => {
+    if (!playing) return;
+
+    const timer = setInterval(() => {
+      const next = cursor.getTime() + span / STEPS;
+      if (next >= to.getTime()) {
+        onCursorChange(to);
+        onPlayingChange(false);
+      } else {
+        onCursorChange(new Date(next));
+      }
+    }, TICK_MS);
+
+    return () => clearInterval(timer);
+  }, [playing, cursor, span, to, onCursorChange, onPlayingChange]);
+
+  const togglePlay = () => {
+    // Restart from the beginning when play is pressed at the end of the range
+    if (!playing && cursor.getTime() >= to.getTime()) onCursorChange(from);
+    onPlayingChange(!playing);
+  };
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-4 space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="timeline-from">From</Label>
+          <Input
+            id="timeline-from"
+            type="date"
+            value={format(from, "yyyy-MM-dd")}
+            max={format(to, "yyyy-MM-dd")}
+            onChange={(e) => e.target.value && onRangeChange(startOfDay(parseISO(e.target.value)), to)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="timeline-to">To</Label>
+          <Input
+            id="timeline-to"
+            type="date"
+            value={format(to, "yyyy-MM-dd")}
+            min={format(from, "yyyy-MM-dd")}
+            onChange={(e) => e.target.value && onRangeChange(from, endOfDay(parseISO(e.target.value)))}
+          />
+        </div>
+
+        <div className="flex gap-2 md:ml-auto">
+          <Button size="sm" onClick={togglePlay}>
+            {playing ? <Pause className="mr-1 h-4 w-4" /> : <Play className="mr-1 h-4 w-4" />}
+            {playing ? "Pause" : "Play"}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => {
+              onPlayingChange(false);
+              onCursorChange(to);
+            }}
+          >
+            <RotateCcw className="mr-1 h-4 w-4" /> Show all
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Slider
+          min={0}
+          max={STEPS}
+          step={1}
+          value={[Math.round(((cursor.getTime() - from.getTime()) / span) * STEPS)]}
+          onValueChange={([step]) => {
+            onPlayingChange(false);
+            onCursorChange(new Date(from.getTime() + (span * step) / STEPS));
+          }}
+        />
+        <p className="text-sm text-muted-foreground">
+          Showing reports up to <span className="font-medium text-foreground">{format(cursor, "PPp")}</span>
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default TimelinePlayback;
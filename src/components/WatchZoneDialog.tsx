@@ -0,0 +1,248 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { useHomeLocation } from "@/hooks/useHomeLocation";
+import { useIncidentCategories } from "@/hooks/useIncidentCategories";
+import { useNeighborhoods } from "@/hooks/useNeighborhoods";
+import MapPicker from "./MapPicker";
+import {
+  Coordinates,
+  INCIDENT_SEVERITIES,
+  IncidentSeverity,
+  formatDistance,
+  incidentSeverityConfig,
+} from "@/lib/incidents";
+import { WATCH_ZONE_RADIUS_OPTIONS, WatchZoneRow } from "@/lib/notifications";
+
+interface WatchZoneDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The zone being edited, or nothing to add a new one
+  zone?: WatchZoneRow | null;
+  onSaved: () => void;
+}
+
+type ZoneArea = "point" | "neighborhood";
+
+const WatchZoneDialog = ({ open, onOpenChange, zone, onSaved }: WatchZoneDialogProps) => {
+  const { home } = useHomeLocation();
+  const { neighborhoods } = useNeighborhoods();
+  const { activeCategories, getCategory } = useIncidentCategories();
+
+  const [name, setName] = useState("");
+  const [area, setArea] = useState<ZoneArea>("point");
+  const [coordinates, setCoordinates] = useState<Coordinates | undefined>();
+  const [radius, setRadius] = useState(500);
+  const [neighborhoodId, setNeighborhoodId] = useState("");
+  // Empty means every category
+  const [categories, setCategories] = useState<string[]>([]);
+  const [minSeverity, setMinSeverity] = useState<IncidentSeverity>("low");
+  const [saving, setSaving] = useState(false);
+  // Read when the dialog opens; the address loading later shouldn't reset it
+  const homeCoordinates = useRef(home?.coordinates);
+  homeCoordinates.current = home?.coordinates;
+
+  // Start from the zone being edited, or from the saved address for a new one
+  useEffect(() => {
+    if (!open) return;
+
+    setName(zone?.name ?? "");
+    setArea(zone?.neighborhood_id ? "neighborhood" : "point");
+    setCoordinates(
+      zone?.latitude != null ? { lat: zone.latitude, lng: zone.longitude } : zone ? undefined : homeCoordinates.current
+    );
+    setRadius(zone?.radius_meters ?? 500);
+    setNeighborhoodId(zone?.neighborhood_id ?? "");
+    setCategories(zone?.categories ?? []);
+    setMinSeverity(zone?.min_severity ?? "low");
+  }, [open, zone]);
+
+  // Retired categories stay listed on zones that already use them
+  const categoryOptions = [
+    ...activeCategories,
+    ...categories.filter((id) => !activeCategories.some((c) => c.id === id)).map(getCategory),
+  ];
+
+  const toggleCategory = (id: string, checked: boolean) =>
+    setCategories((prev) => (checked ? [...prev, id] : prev.filter((c) => c !== id)));
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({ title: "Name your zone", description: "For example Home, School or Shop.", variant: "destructive" });
+      return;
+    }
+    if (area === "point" && !coordinates) {
+      toast({ title: "Pick a location", description: "Click the map to mark the center.", variant: "destructive" });
+      return;
+    }
+    if (area === "neighborhood" && !neighborhoodId) {
+      toast({ title: "Pick a neighborhood", variant: "destructive" });
+      return;
+    }
+
+    const values = {
+      name: name.trim(),
+      latitude: area === "point" ? coordinates.lat : null,
+      longitude: area === "point" ? coordinates.lng : null,
+      radius_meters: area === "point" ? radius : null,
+      neighborhood_id: area === "neighborhood" ? neighborhoodId : null,
+      categories,
+      min_severity: minSeverity,
+    };
+
+    setSaving(true);
+    const { error } = zone
+      ? await supabase.from("watch_zones").update(values).eq("id", zone.id)
+      : await supabase.from("watch_zones").insert(values);
+    setSaving(false);
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to save watch zone.", variant: "destructive" });
+      return;
+    }
+
+    toast({ title: zone ? "Watch zone updated" : "Watch zone added" });
+    onSaved();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{zone ? "Edit watch zone" : "New watch zone"}</DialogTitle>
+          <DialogDescription>
+            You'll be notified when an incident here is approved. Only you can see your zones.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="zone-name">Name</Label>
+            <Input
+              id="zone-name"
+              placeholder="Home, school, shop..."
+              maxLength={60}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Area</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={area}
+              onValueChange={(value) => value && setArea(value as ZoneArea)}
+              className="justify-start"
+            >
+              <ToggleGroupItem value="point">Around a point</ToggleGroupItem>
+              <ToggleGroupItem value="neighborhood" disabled={neighborhoods.length === 0}>
+                A neighborhood
+              </ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+
+          {area === "point" ? (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <Label>Center</Label>
+                <Select value={String(radius)} onValueChange={(value) => setRadius(Number(value))}>
+                  <SelectTrigger className="w-36" aria-label="Radius">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WATCH_ZONE_RADIUS_OPTIONS.map((meters) => (
+                      <SelectItem key={meters} value={String(meters)}>
+                        Within {formatDistance(meters)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <MapPicker value={coordinates} onSelectLocation={setCoordinates} radiusMeters={radius} />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="zone-neighborhood">Neighborhood</Label>
+              <Select value={neighborhoodId} onValueChange={setNeighborhoodId}>
+                <SelectTrigger id="zone-neighborhood">
+                  <SelectValue placeholder="Select a neighborhood" />
+                </SelectTrigger>
+                <SelectContent>
+                  {neighborhoods.map((n) => (
+                    <SelectItem key={n.id} value={n.id}>
+                      {n.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Categories</Label>
+            <p className="text-xs text-muted-foreground">Leave all unticked to hear about every category.</p>
+            <div className="grid grid-cols-2 gap-2">
+              {categoryOptions.map((category) => (
+                <label key={category.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={categories.includes(category.id)}
+                    onCheckedChange={(checked) => toggleCategory(category.id, checked === true)}
+                  />
+                  {category.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="zone-severity">Minimum severity</Label>
+            <Select value={minSeverity} onValueChange={(value) => setMinSeverity(value as IncidentSeverity)}>
+              <SelectTrigger id="zone-severity">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INCIDENT_SEVERITIES.map((severity) => (
+                  <SelectItem key={severity} value={severity}>
+                    {severity === "low"
+                      ? "Any severity"
+                      : severity === "critical"
+                        ? "Critical only"
+                        : `${incidentSeverityConfig[severity].label} and above`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save zone"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WatchZoneDialog;
@@ -1,10 +1,20 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import { AccountRestrictionRow, isRestrictionActive } from "@/lib/accounts";
+import { AppRole, ModeratorScope, Permission, scopeFromRows } from "@/lib/permissions";
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
+  roles: AppRole[];
+  permissions: Set<Permission>;
+  // Neighborhoods the user moderates; null when not limited to any
+  moderatorScope: ModeratorScope;
+  can: (permission: Permission) => boolean;
+  canIn: (permission: Permission, neighborhoodId?: string | null) => boolean;
+  // Set while the account is suspended or banned
+  restriction: AccountRestrictionRow | null;
   isAdmin: boolean;
   isLoading: boolean;
   signUp: (email: string, password: string) => Promise<{ error: Error | null }>;
@@ -17,10 +27,52 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
-  const [isAdmin, setIsAdmin] = useState(false);
+  const [roles, setRoles] = useState<AppRole[]>([]);
+  const [permissions, setPermissions] = useState(new Set<Permission>());
+  const [moderatorScope, setModeratorScope] = useState<ModeratorScope>(null);
+  const [restriction, setRestriction] = useState<AccountRestrictionRow | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
+    // Whose permissions are wanted; a load for anyone else arrives too late
+    let currentUserId: string | null = null;
+
+    const resetPermissions = () => {
+      setRoles([]);
+      setPermissions(new Set());
+      setModeratorScope(null);
+      setRestriction(null);
+    };
+
+    const loadPermissions = async (userId: string) => {
+      currentUserId = userId;
+      try {
+        const [rolesResult, permissionsResult, scopesResult, restrictionResult] = await Promise.all([
+          supabase.from("user_roles").select("role").eq("user_id", userId),
+          supabase.rpc("get_my_permissions"),
+          supabase.from("moderator_scopes").select("neighborhood_id").eq("user_id", userId),
+          supabase.from("account_restrictions").select("*").eq("user_id", userId).maybeSingle(),
+        ]);
+        if (userId !== currentUserId) return;
+
+        if (rolesResult.error || permissionsResult.error) {
+          resetPermissions();
+          return;
+        }
+
+        const userRoles = rolesResult.data.map((row) => row.role);
+        setRoles(userRoles);
+        setPermissions(new Set(permissionsResult.data as Permission[]));
+        // Admins act everywhere regardless of scope rows
+        setModeratorScope(userRoles.includes("admin") ? null : scopeFromRows(scopesResult.data ?? []));
+        setRestriction(isRestrictionActive(restrictionResult.data) ? restrictionResult.data : null);
+      } catch {
+        if (userId === currentUserId) resetPermissions();
+      } finally {
+        if (userId === currentUserId) setIsLoading(false);
+      }
+    };
+
     // Set up auth state listener FIRST
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       (event, session) => {
@@ -30,10 +82,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         // Defer role check with setTimeout to avoid deadlock
         if (session?.user) {
           setTimeout(() => {
-            checkAdminRole(session.user.id);
+            loadPermissions(session.user.id);
           }, 0);
         } else {
-          setIsAdmin(false);
+          currentUserId = null;
+          resetPermissions();
           setIsLoading(false);
         }
       }
@@ -45,7 +98,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setUser(session?.user ?? null);
       
       if (session?.user) {
-        checkAdminRole(session.user.id);
+        loadPermissions(session.user.id);
       } else {
         setIsLoading(false);
       }
@@ -54,22 +107,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => subscription.unsubscribe();
   }, []);
 
-  const checkAdminRole = async (userId: string) => {
-    try {
-      const { data, error } = await supabase
-        .from("user_roles")
-        .select("role")
-        .eq("user_id", userId)
-        .eq("role", "admin")
-        .maybeSingle();
-
-      setIsAdmin(!!data && !error);
-    } catch {
-      setIsAdmin(false);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  const can = (permission: Permission) => permissions.has(permission);
+  // Mirrors has_scoped_permission: the permission plus a matching moderator scope
+  const canIn = (permission: Permission, neighborhoodId?: string | null) =>
+    can(permission) && (moderatorScope === null || moderatorScope.includes(neighborhoodId));
+  const isAdmin = roles.includes("admin");
 
   const signUp = async (email: string, password: string) => {
     const redirectUrl = `${window.location.origin}/`;
@@ -94,7 +136,23 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, isAdmin, isLoading, signUp, signIn, signOut }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        session,
+        roles,
+        permissions,
+        moderatorScope,
+        can,
+        canIn,
+        restriction,
+        isAdmin,
+        isLoading,
+        signUp,
+        signIn,
+        signOut,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Coordinates } from "@/lib/incidents";
+
+export interface HomeLocation {
+  label: string;
+  coordinates: Coordinates;
+}
+
+// The signed-in user's saved address, stored on their profile
+export function useHomeLocation() {
+  const { user } = useAuth();
+  const [home, setHome] = useState<HomeLocation | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!user) {
+      setHome(null);
+      return;
+    }
+
+    setLoading(true);
+    supabase
+      .from("profiles")
+      .select("home_label, home_latitude, home_longitude")
+      .eq("id", user.id)
+      .maybeSingle()
+      .then(({ data }) => {
+        setHome(
+          data && data.home_latitude != null && data.home_longitude != null
+            ? {
+                label: data.home_label || "Home",
+                coordinates: { lat: data.home_latitude, lng: data.home_longitude },
+              }
+            : null
+        );
+        setLoading(false);
+      });
+  }, [user]);
+
+  const saveHome = useCallback(
+    async (next: HomeLocation) => {
+      if (!user) return { error: new Error("Not signed in") };
+
+      const { error } = await supabase
+        .from("profiles")
+        .update({
+          home_label: next.label,
+          home_latitude: next.coordinates.lat,
+          home_longitude: next.coordinates.lng,
+        })
+        .eq("id", user.id);
+
+      if (!error) setHome(next);
+      return { error };
+    },
+    [user]
+  );
+
+  return { home, loading, saveHome };
+}
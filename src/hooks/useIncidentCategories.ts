@@ -0,0 +1,28 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { fallbackCategory, fetchIncidentCategories } from "@/lib/categories";
+
+export const INCIDENT_CATEGORIES_KEY = ["incident_categories"];
+
+// Every category, retired ones included so older incidents keep their label.
+// Forms offer activeCategories only.
+export function useIncidentCategories() {
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: INCIDENT_CATEGORIES_KEY,
+    queryFn: fetchIncidentCategories,
+    staleTime: 10 * 60 * 1000,
+  });
+
+  return useMemo(() => {
+    const categories = data ?? [];
+    const byId = new Map(categories.map((category) => [category.id, category]));
+
+    return {
+      categories,
+      activeCategories: categories.filter((category) => category.is_active),
+      getCategory: (id: string) => byId.get(id) ?? fallbackCategory(id),
+      loading: isLoading,
+      refetch,
+    };
+  }, [data, isLoading, refetch]);
+}
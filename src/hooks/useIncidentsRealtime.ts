@@ -0,0 +1,72 @@
+import { useEffect, useRef } from "react";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { IncidentRow } from "@/lib/incidents";
+
+export type IncidentChange = RealtimePostgresChangesPayload<IncidentRow>;
+
+interface IncidentsRealtimeOptions {
+  // Every insert, update and delete the signed-in user is allowed to see
+  onChange: (change: IncidentChange) => void;
+  // Realtime doesn't replay changes made while the connection was down, so
+  // callers should refetch here
+  onReconnect?: () => void;
+  // Also call onReconnect this often while the page is visible. A change is
+  // only sent to those who can still see the row afterwards, so anyone who
+  // can only see published reports never hears about one being unpublished.
+  resyncIntervalMs?: number;
+  enabled?: boolean;
+}
+
+// supabase.channel() hands back the existing channel for a topic it already
+// knows, so each subscriber needs its own name to be removed independently
+let channelCount = 0;
+
+export function useIncidentsRealtime({
+  onChange,
+  onReconnect,
+  resyncIntervalMs,
+  enabled = true,
+}: IncidentsRealtimeOptions) {
+  // Latest callbacks, so re-renders don't tear down the subscription
+  const handlers = useRef({ onChange, onReconnect });
+  handlers.current = { onChange, onReconnect };
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let subscribed = false;
+    let dropped = false;
+
+    // The client rejoins on its own after errors and socket drops; all that's
+    // left here is noticing when it comes back
+    const channel = supabase
+      .channel(`incidents-${++channelCount}`)
+      .on<IncidentRow>("postgres_changes", { event: "*", schema: "public", table: "incidents" }, (change) =>
+        handlers.current.onChange(change)
+      )
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") {
+          if (dropped) handlers.current.onReconnect?.();
+          subscribed = true;
+          dropped = false;
+        } else if (subscribed) {
+          dropped = true;
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled || !resyncIntervalMs) return;
+
+    const timer = setInterval(() => {
+      if (!document.hidden) handlers.current.onReconnect?.();
+    }, resyncIntervalMs);
+
+    return () => clearInterval(timer);
+  }, [enabled, resyncIntervalMs]);
+}
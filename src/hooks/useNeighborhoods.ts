@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Neighborhood, toNeighborhood } from "@/lib/neighborhoods";
+
+export function useNeighborhoods() {
+  const [neighborhoods, setNeighborhoods] = useState<Neighborhood[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refetch = useCallback(async () => {
+    setLoading(true);
+
+    const { data, error } = await supabase
+      .from("neighborhoods")
+      .select("id, name, color, boundary")
+      .order("name");
+
+    if (error) console.error("Error fetching neighborhoods:", error);
+    else setNeighborhoods((data || []).map(toNeighborhood));
+
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return { neighborhoods, loading, refetch };
+}
@@ -0,0 +1,79 @@
+import { useCallback, useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { NotificationRow } from "@/lib/notifications";
+
+const NOTIFICATIONS_LIMIT = 30;
+
+// Each mounted list needs its own channel; see useIncidentsRealtime
+let channelCount = 0;
+
+// The signed-in user's latest in-app notifications, kept live over realtime
+export function useNotifications() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["notifications", user?.id],
+    enabled: !!user,
+    queryFn: async (): Promise<NotificationRow[]> => {
+      const { data, error } = await supabase
+        .from("notifications")
+        .select("*")
+        .contains("channels", ["in_app"])
+        .order("created_at", { ascending: false })
+        .limit(NOTIFICATIONS_LIMIT);
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  useEffect(() => {
+    if (!user) return;
+
+    // Refetching on every change (and after a reconnect) keeps this simple
+    // and can't leave duplicates behind
+    const refresh = () => queryClient.invalidateQueries({ queryKey: ["notifications", user.id] });
+    let subscribed = false;
+
+    const channel = supabase
+      .channel(`notifications-${++channelCount}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "notifications", filter: `user_id=eq.${user.id}` },
+        refresh
+      )
+      .subscribe((status) => {
+        if (status !== "SUBSCRIBED") return;
+        if (subscribed) refresh();
+        subscribed = true;
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient]);
+
+  const markRead = useCallback(
+    async (ids: string[]) => {
+      if (ids.length === 0) return;
+
+      queryClient.setQueryData<NotificationRow[]>(["notifications", user?.id], (prev) =>
+        prev?.map((n) => (ids.includes(n.id) ? { ...n, read_at: n.read_at ?? new Date().toISOString() } : n))
+      );
+      await supabase.from("notifications").update({ read_at: new Date().toISOString() }).in("id", ids);
+    },
+    [user, queryClient]
+  );
+
+  const notifications = data ?? [];
+
+  return {
+    notifications,
+    unreadCount: notifications.filter((n) => !n.read_at).length,
+    loading: isLoading,
+    markRead,
+  };
+}
@@ -0,0 +1,50 @@
+import { useEffect } from "react";
+
+interface PageMeta {
+  title?: string;
+  description?: string;
+  image?: string;
+}
+
+function setMeta(attribute: "name" | "property", key: string, content: string) {
+  let tag = document.head.querySelector<HTMLMetaElement>(`meta[${attribute}="${key}"]`);
+  if (!tag) {
+    tag = document.createElement("meta");
+    tag.setAttribute(attribute, key);
+    document.head.appendChild(tag);
+  }
+  tag.setAttribute("content", content);
+}
+
+// Updates the document title and Open Graph tags for the current page, and
+// restores the previous values on unmount. Link previews in chat apps are served
+// by the incident-og edge function, since crawlers don't run this script.
+export function usePageMeta({ title, description, image }: PageMeta) {
+  useEffect(() => {
+    const previousTitle = document.title;
+    const previous = new Map<string, string | null>();
+
+    const apply = (attribute: "name" | "property", key: string, content?: string) => {
+      if (!content) return;
+      const existing = document.head.querySelector(`meta[${attribute}="${key}"]`);
+      previous.set(`${attribute}|${key}`, existing?.getAttribute("content") ?? null);
+      setMeta(attribute, key, content);
+    };
+
+    if (title) document.title = title;
+    apply("name", "description", description);
+    apply("property", "og:title", title);
+    apply("property", "og:description", description);
+    apply("property", "og:image", image);
+    apply("property", "og:url", window.location.href);
+
+    return () => {
+      document.title = previousTitle;
+      previous.forEach((content, id) => {
+        const [attribute, key] = id.split("|") as ["name" | "property", string];
+        if (content === null) document.head.querySelector(`meta[${attribute}="${key}"]`)?.remove();
+        else setMeta(attribute, key, content);
+      });
+    };
+  }, [title, description, image]);
+}
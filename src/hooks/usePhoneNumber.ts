@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { PhoneNumberRow } from "@/lib/sms";
+
+export const PHONE_NUMBER_KEY = ["phone_numbers"];
+
+// The signed-in user's verified phone number, if they've added one
+export function usePhoneNumber() {
+  const { user } = useAuth();
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: [...PHONE_NUMBER_KEY, user?.id],
+    enabled: !!user,
+    queryFn: async (): Promise<PhoneNumberRow | null> => {
+      const { data, error } = await supabase.from("phone_numbers").select("*").maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  return { phoneNumber: data ?? null, loading: isLoading, refetch };
+}
@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "@/hooks/use-toast";
+import { PushState, disablePush, enablePush, getPushState } from "@/lib/push";
+
+// Whether this browser gets push notifications, with actions to change it
+export function usePushNotifications() {
+  const [state, setState] = useState<PushState>("unsupported");
+  const [busy, setBusy] = useState(true);
+
+  useEffect(() => {
+    getPushState()
+      .then(setState)
+      .finally(() => setBusy(false));
+  }, []);
+
+  const run = useCallback(async (action: () => Promise<PushState>, failure: string) => {
+    setBusy(true);
+    try {
+      setState(await action());
+    } catch {
+      toast({ title: "Error", description: failure, variant: "destructive" });
+    }
+    setBusy(false);
+  }, []);
+
+  const enable = useCallback(() => run(enablePush, "Failed to turn on browser notifications"), [run]);
+  const disable = useCallback(() => run(disablePush, "Failed to turn off browser notifications"), [run]);
+
+  return { state, busy, enable, disable };
+}
@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type RejectionReason = Tables<"rejection_reasons">;
+
+// Admin screens pass includeInactive to manage retired reasons too
+export function useRejectionReasons({ includeInactive = false } = {}) {
+  const [reasons, setReasons] = useState<RejectionReason[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refetch = useCallback(async () => {
+    setLoading(true);
+
+    const query = supabase.from("rejection_reasons").select("*").order("sort_order").order("label");
+    if (!includeInactive) query.eq("is_active", true);
+
+    const { data, error } = await query;
+
+    if (error) console.error("Error fetching rejection reasons:", error);
+    else setReasons(data || []);
+
+    setLoading(false);
+  }, [includeInactive]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return { reasons, loading, refetch };
+}
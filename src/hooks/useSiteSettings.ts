@@ -0,0 +1,48 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { DEFAULT_SITE_SETTINGS, SiteSettings, fetchSiteSettings, saveSiteSettings } from "@/lib/settings";
+
+const SITE_SETTINGS_KEY = ["site_settings"];
+
+// Private settings are only visible to some users, so cache per user
+const siteSettingsKey = (userId?: string) => [...SITE_SETTINGS_KEY, userId ?? null];
+
+// Defaults are returned while loading, so callers can always render
+export function useSiteSettings() {
+  const { user } = useAuth();
+  const { data, isLoading } = useQuery({
+    queryKey: siteSettingsKey(user?.id),
+    queryFn: fetchSiteSettings,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return { settings: data ?? DEFAULT_SITE_SETTINGS, loading: isLoading };
+}
+
+// Applies the patch to the cache straight away and rolls back if the save fails
+export function useUpdateSiteSettings() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const queryKey = siteSettingsKey(user?.id);
+
+  return useMutation({
+    mutationFn: saveSiteSettings,
+    onMutate: async (patch: Partial<SiteSettings>) => {
+      await queryClient.cancelQueries({ queryKey: SITE_SETTINGS_KEY });
+      const previous = queryClient.getQueryData<SiteSettings>(queryKey);
+      queryClient.setQueryData<SiteSettings>(queryKey, { ...DEFAULT_SITE_SETTINGS, ...previous, ...patch });
+      return { previous };
+    },
+    onError: (_error, _patch, context) => {
+      queryClient.setQueryData(queryKey, context?.previous);
+      toast({ title: "Error", description: "Failed to save settings", variant: "destructive" });
+    },
+    onSuccess: () => {
+      toast({ title: "Settings saved" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: SITE_SETTINGS_KEY });
+    },
+  });
+}
@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { WatchZoneRow } from "@/lib/notifications";
+
+export const WATCH_ZONES_KEY = ["watch_zones"];
+
+// The signed-in user's watch zones, oldest first
+export function useWatchZones() {
+  const { user } = useAuth();
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: [...WATCH_ZONES_KEY, user?.id],
+    enabled: !!user,
+    queryFn: async (): Promise<WatchZoneRow[]> => {
+      const { data, error } = await supabase.from("watch_zones").select("*").order("created_at");
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  return { zones: data ?? [], loading: isLoading, refetch };
+}
@@ -14,38 +14,671 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_restrictions: {
+        Row: {
+          banned_at: string | null
+          created_at: string
+          created_by: string | null
+          reason: string | null
+          suspended_until: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          banned_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          reason?: string | null
+          suspended_until?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          banned_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          reason?: string | null
+          suspended_until?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      email_digests: {
+        Row: {
+          created_at: string
+          frequency: string
+          last_sent_at: string | null
+          neighborhood_ids: string[]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          frequency: string
+          last_sent_at?: string | null
+          neighborhood_ids?: string[]
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          frequency?: string
+          last_sent_at?: string | null
+          neighborhood_ids?: string[]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      email_unsubscribe_tokens: {
+        Row: {
+          created_at: string
+          kind: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          kind: string
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          kind?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      incident_attachments: {
+        Row: {
+          created_at: string | null
+          height: number | null
+          id: string
+          incident_id: string
+          mime_type: string
+          size_bytes: number
+          storage_path: string
+          thumbnail_path: string | null
+          user_id: string | null
+          width: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          height?: number | null
+          id?: string
+          incident_id: string
+          mime_type: string
+          size_bytes: number
+          storage_path: string
+          thumbnail_path?: string | null
+          user_id?: string | null
+          width?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          height?: number | null
+          id?: string
+          incident_id?: string
+          mime_type?: string
+          size_bytes?: number
+          storage_path?: string
+          thumbnail_path?: string | null
+          user_id?: string | null
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "incident_attachments_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "incidents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      incident_categories: {
+        Row: {
+          color: string
+          created_at: string | null
+          default_severity: Database["public"]["Enums"]["incident_severity"]
+          icon: string
+          id: string
+          is_active: boolean
+          label: string
+          sort_order: number
+        }
+        Insert: {
+          color?: string
+          created_at?: string | null
+          default_severity?: Database["public"]["Enums"]["incident_severity"]
+          icon?: string
+          id: string
+          is_active?: boolean
+          label: string
+          sort_order?: number
+        }
+        Update: {
+          color?: string
+          created_at?: string | null
+          default_severity?: Database["public"]["Enums"]["incident_severity"]
+          icon?: string
+          id?: string
+          is_active?: boolean
+          label?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      incident_comments: {
+        Row: {
+          body: string
+          created_at: string | null
+          deleted_at: string | null
+          edited_at: string | null
+          id: string
+          incident_id: string
+          is_official_update: boolean
+          parent_id: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          body: string
+          created_at?: string | null
+          deleted_at?: string | null
+          edited_at?: string | null
+          id?: string
+          incident_id: string
+          is_official_update?: boolean
+          parent_id?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          body?: string
+          created_at?: string | null
+          deleted_at?: string | null
+          edited_at?: string | null
+          id?: string
+          incident_id?: string
+          is_official_update?: boolean
+          parent_id?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "incident_comments_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "incidents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incident_comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "incident_comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      incident_confirmations: {
+        Row: {
+          created_at: string | null
+          incident_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          incident_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          incident_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "incident_confirmations_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "incidents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      incident_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string | null
+          from_status: Database["public"]["Enums"]["incident_status"] | null
+          id: string
+          incident_id: string
+          to_status: Database["public"]["Enums"]["incident_status"]
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string | null
+          from_status?: Database["public"]["Enums"]["incident_status"] | null
+          id?: string
+          incident_id: string
+          to_status: Database["public"]["Enums"]["incident_status"]
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string | null
+          from_status?: Database["public"]["Enums"]["incident_status"] | null
+          id?: string
+          incident_id?: string
+          to_status?: Database["public"]["Enums"]["incident_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "incident_status_history_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "incidents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      incident_status_transitions: {
+        Row: {
+          from_status: Database["public"]["Enums"]["incident_status"]
+          to_status: Database["public"]["Enums"]["incident_status"]
+        }
+        Insert: {
+          from_status: Database["public"]["Enums"]["incident_status"]
+          to_status: Database["public"]["Enums"]["incident_status"]
+        }
+        Update: {
+          from_status?: Database["public"]["Enums"]["incident_status"]
+          to_status?: Database["public"]["Enums"]["incident_status"]
+        }
+        Relationships: []
+      }
       incidents: {
         Row: {
+          confirmation_count: number
           created_at: string | null
           description: string
+          duplicate_of: string | null
+          geo: unknown | null
           id: string
+          latitude: number | null
           location: string
+          location_accuracy: number | null
+          longitude: number | null
+          neighborhood_id: string | null
+          rejection_note: string | null
+          rejection_reason_id: string | null
+          severity: Database["public"]["Enums"]["incident_severity"]
           status: Database["public"]["Enums"]["incident_status"]
           title: string
-          type: Database["public"]["Enums"]["incident_type"]
+          type: string
           updated_at: string | null
-          user_id: string
+          user_id: string | null
         }
         Insert: {
+          confirmation_count?: number
           created_at?: string | null
           description: string
+          duplicate_of?: string | null
+          geo?: never
           id?: string
+          latitude?: number | null
           location: string
+          location_accuracy?: number | null
+          longitude?: number | null
+          neighborhood_id?: string | null
+          rejection_note?: string | null
+          rejection_reason_id?: string | null
+          severity?: Database["public"]["Enums"]["incident_severity"]
           status?: Database["public"]["Enums"]["incident_status"]
           title: string
-          type: Database["public"]["Enums"]["incident_type"]
+          type: string
           updated_at?: string | null
-          user_id: string
+          user_id?: string | null
         }
         Update: {
+          confirmation_count?: number
           created_at?: string | null
           description?: string
+          duplicate_of?: string | null
+          geo?: never
           id?: string
+          latitude?: number | null
           location?: string
+          location_accuracy?: number | null
+          longitude?: number | null
+          neighborhood_id?: string | null
+          rejection_note?: string | null
+          rejection_reason_id?: string | null
+          severity?: Database["public"]["Enums"]["incident_severity"]
           status?: Database["public"]["Enums"]["incident_status"]
           title?: string
-          type?: Database["public"]["Enums"]["incident_type"]
+          type?: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "incidents_duplicate_of_fkey"
+            columns: ["duplicate_of"]
+            isOneToOne: false
+            referencedRelation: "incidents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incidents_neighborhood_id_fkey"
+            columns: ["neighborhood_id"]
+            isOneToOne: false
+            referencedRelation: "neighborhoods"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incidents_rejection_reason_id_fkey"
+            columns: ["rejection_reason_id"]
+            isOneToOne: false
+            referencedRelation: "rejection_reasons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incidents_type_fkey"
+            columns: ["type"]
+            isOneToOne: false
+            referencedRelation: "incident_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      moderation_events: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          after: Json | null
+          before: Json | null
+          changes: Json | null
+          created_at: string
+          id: string
+          reason: string | null
+          target_id: string | null
+          target_table: string
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          after?: Json | null
+          before?: Json | null
+          changes?: Json | null
+          created_at?: string
+          id?: string
+          reason?: string | null
+          target_id?: string | null
+          target_table: string
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          after?: Json | null
+          before?: Json | null
+          changes?: Json | null
+          created_at?: string
+          id?: string
+          reason?: string | null
+          target_id?: string | null
+          target_table?: string
+        }
+        Relationships: []
+      }
+      moderator_scopes: {
+        Row: {
+          created_at: string | null
+          id: string
+          neighborhood_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          neighborhood_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          neighborhood_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "moderator_scopes_neighborhood_id_fkey"
+            columns: ["neighborhood_id"]
+            isOneToOne: false
+            referencedRelation: "neighborhoods"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      neighborhoods: {
+        Row: {
+          boundary: Json
+          color: string
+          created_at: string | null
+          geo: unknown | null
+          id: string
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          boundary: Json
+          color?: string
+          created_at?: string | null
+          geo?: never
+          id?: string
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          boundary?: Json
+          color?: string
+          created_at?: string | null
+          geo?: never
+          id?: string
+          name?: string
           updated_at?: string | null
+        }
+        Relationships: []
+      }
+      notification_deliveries: {
+        Row: {
+          attempts: number
+          channel: Database["public"]["Enums"]["notification_channel"]
+          claimed_at: string | null
+          created_at: string
+          last_error: string | null
+          notification_id: string
+          sent_at: string | null
+          status: string
+        }
+        Insert: {
+          attempts?: number
+          channel: Database["public"]["Enums"]["notification_channel"]
+          claimed_at?: string | null
+          created_at?: string
+          last_error?: string | null
+          notification_id: string
+          sent_at?: string | null
+          status?: string
+        }
+        Update: {
+          attempts?: number
+          channel?: Database["public"]["Enums"]["notification_channel"]
+          claimed_at?: string | null
+          created_at?: string
+          last_error?: string | null
+          notification_id?: string
+          sent_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_deliveries_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          channels: Database["public"]["Enums"]["notification_channel"][]
+          kind: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          channels?: Database["public"]["Enums"]["notification_channel"][]
+          kind: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          channels?: Database["public"]["Enums"]["notification_channel"][]
+          kind?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          channels: Database["public"]["Enums"]["notification_channel"][]
+          created_at: string
+          data: Json | null
+          id: string
+          incident_id: string | null
+          kind: string
+          read_at: string | null
+          recipient_email: string | null
+          recipient_phone: string | null
+          title: string
+          user_id: string | null
+          watch_zone_id: string | null
+        }
+        Insert: {
+          body?: string | null
+          channels: Database["public"]["Enums"]["notification_channel"][]
+          created_at?: string
+          data?: Json | null
+          id?: string
+          incident_id?: string | null
+          kind: string
+          read_at?: string | null
+          recipient_email?: string | null
+          recipient_phone?: string | null
+          title: string
+          user_id?: string | null
+          watch_zone_id?: string | null
+        }
+        Update: {
+          body?: string | null
+          channels?: Database["public"]["Enums"]["notification_channel"][]
+          created_at?: string
+          data?: Json | null
+          id?: string
+          incident_id?: string | null
+          kind?: string
+          read_at?: string | null
+          recipient_email?: string | null
+          recipient_phone?: string | null
+          title?: string
+          user_id?: string | null
+          watch_zone_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "incidents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_watch_zone_id_fkey"
+            columns: ["watch_zone_id"]
+            isOneToOne: false
+            referencedRelation: "watch_zones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      phone_numbers: {
+        Row: {
+          created_at: string
+          phone: string
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          time_zone: string
+          updated_at: string
+          user_id: string
+          verified_at: string
+        }
+        Insert: {
+          created_at?: string
+          phone: string
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          time_zone?: string
+          updated_at?: string
+          user_id: string
+          verified_at?: string
+        }
+        Update: {
+          created_at?: string
+          phone?: string
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          time_zone?: string
+          updated_at?: string
+          user_id?: string
+          verified_at?: string
+        }
+        Relationships: []
+      }
+      phone_verifications: {
+        Row: {
+          attempts: number
+          code_hash: string
+          created_at: string
+          expires_at: string
+          phone: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          code_hash: string
+          created_at?: string
+          expires_at: string
+          phone: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          code_hash?: string
+          created_at?: string
+          expires_at?: string
+          phone?: string
           user_id?: string
         }
         Relationships: []
@@ -54,17 +687,158 @@ export type Database = {
         Row: {
           created_at: string | null
           email: string | null
+          home_label: string | null
+          home_latitude: number | null
+          home_longitude: number | null
           id: string
         }
         Insert: {
           created_at?: string | null
           email?: string | null
+          home_label?: string | null
+          home_latitude?: number | null
+          home_longitude?: number | null
           id: string
         }
         Update: {
           created_at?: string | null
           email?: string | null
+          home_label?: string | null
+          home_latitude?: number | null
+          home_longitude?: number | null
+          id?: string
+        }
+        Relationships: []
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          last_used_at: string | null
+          p256dh: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          last_used_at?: string | null
+          p256dh: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          last_used_at?: string | null
+          p256dh?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      rejection_reasons: {
+        Row: {
+          code: string
+          created_at: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          label: string
+          sort_order: number
+          updated_at: string | null
+        }
+        Insert: {
+          code: string
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          label: string
+          sort_order?: number
+          updated_at?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string | null
+          description?: string | null
           id?: string
+          is_active?: boolean
+          label?: string
+          sort_order?: number
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      role_permissions: {
+        Row: {
+          permission: string
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Insert: {
+          permission: string
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Update: {
+          permission?: string
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Relationships: []
+      }
+      site_settings: {
+        Row: {
+          is_public: boolean
+          key: string
+          updated_at: string
+          updated_by: string | null
+          value: Json
+        }
+        Insert: {
+          is_public?: boolean
+          key: string
+          updated_at?: string
+          updated_by?: string | null
+          value: Json
+        }
+        Update: {
+          is_public?: boolean
+          key?: string
+          updated_at?: string
+          updated_by?: string | null
+          value?: Json
+        }
+        Relationships: []
+      }
+      sms_messages: {
+        Row: {
+          created_at: string
+          id: string
+          phone: string
+          provider_message_id: string | null
+          purpose: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          phone: string
+          provider_message_id?: string | null
+          purpose: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          phone?: string
+          provider_message_id?: string | null
+          purpose?: string
+          user_id?: string | null
         }
         Relationships: []
       }
@@ -86,11 +860,178 @@ export type Database = {
         }
         Relationships: []
       }
+      watch_zones: {
+        Row: {
+          categories: string[]
+          created_at: string
+          geo: unknown | null
+          id: string
+          is_active: boolean
+          latitude: number | null
+          longitude: number | null
+          min_severity: Database["public"]["Enums"]["incident_severity"]
+          name: string
+          neighborhood_id: string | null
+          radius_meters: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          categories?: string[]
+          created_at?: string
+          geo?: never
+          id?: string
+          is_active?: boolean
+          latitude?: number | null
+          longitude?: number | null
+          min_severity?: Database["public"]["Enums"]["incident_severity"]
+          name: string
+          neighborhood_id?: string | null
+          radius_meters?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          categories?: string[]
+          created_at?: string
+          geo?: never
+          id?: string
+          is_active?: boolean
+          latitude?: number | null
+          longitude?: number | null
+          min_severity?: Database["public"]["Enums"]["incident_severity"]
+          name?: string
+          neighborhood_id?: string | null
+          radius_meters?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "watch_zones_neighborhood_id_fkey"
+            columns: ["neighborhood_id"]
+            isOneToOne: false
+            referencedRelation: "neighborhoods"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      incidents_with_confidence: {
+        Row: {
+          confidence_score: number | null
+          confirmation_count: number | null
+          created_at: string | null
+          description: string | null
+          duplicate_of: string | null
+          geo: unknown | null
+          id: string | null
+          is_urgent: boolean | null
+          latitude: number | null
+          location: string | null
+          location_accuracy: number | null
+          longitude: number | null
+          nearby_count: number | null
+          neighborhood_id: string | null
+          rejection_note: string | null
+          rejection_reason_id: string | null
+          reporter_approved_count: number | null
+          reporter_rejected_count: number | null
+          severity: Database["public"]["Enums"]["incident_severity"] | null
+          status: Database["public"]["Enums"]["incident_status"] | null
+          title: string | null
+          type: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "incidents_neighborhood_id_fkey"
+            columns: ["neighborhood_id"]
+            isOneToOne: false
+            referencedRelation: "neighborhoods"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incidents_rejection_reason_id_fkey"
+            columns: ["rejection_reason_id"]
+            isOneToOne: false
+            referencedRelation: "rejection_reasons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incidents_type_fkey"
+            columns: ["type"]
+            isOneToOne: false
+            referencedRelation: "incident_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      admin_list_users: {
+        Args: {
+          _search?: string
+        }
+        Returns: {
+          approval_rate: number
+          approved_count: number
+          banned_at: string
+          created_at: string
+          email: string
+          id: string
+          last_sign_in_at: string
+          rejected_count: number
+          report_count: number
+          roles: Database["public"]["Enums"]["app_role"][]
+          status: string
+          suspended_until: string
+        }[]
+      }
+      can_post_official_update: {
+        Args: {
+          _incident_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      claim_notification_deliveries: {
+        Args: {
+          _channel: Database["public"]["Enums"]["notification_channel"]
+          _limit?: number
+        }
+        Returns: Database["public"]["Tables"]["notification_deliveries"]["Row"][]
+        SetofOptions: {
+          from: "*"
+          to: "notification_deliveries"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      current_moderation_reason: {
+        Args: never
+        Returns: string
+      }
+      email_unsubscribe_token: {
+        Args: {
+          _kind: string
+          _user_id: string
+        }
+        Returns: string
+      }
+      get_my_permissions: {
+        Args: never
+        Returns: string[]
+      }
+      has_permission: {
+        Args: {
+          _permission: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -98,20 +1039,182 @@ export type Database = {
         }
         Returns: boolean
       }
+      has_scoped_permission: {
+        Args: {
+          _neighborhood_id: string
+          _permission: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      incident_comment_counts: {
+        Args: {
+          _incident_ids: string[]
+        }
+        Returns: {
+          comment_count: number
+          incident_id: string
+        }[]
+      }
+      incidents_in_bounds: {
+        Args: {
+          _east: number
+          _north: number
+          _south: number
+          _west: number
+        }
+        Returns: Database["public"]["Tables"]["incidents"]["Row"][]
+        SetofOptions: {
+          from: "*"
+          to: "incidents"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      incidents_near: {
+        Args: {
+          _lat: number
+          _lng: number
+          _radius_meters: number
+        }
+        Returns: Database["public"]["Tables"]["incidents"]["Row"][]
+        SetofOptions: {
+          from: "*"
+          to: "incidents"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      is_account_restricted: {
+        Args: {
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_public_incident_status: {
+        Args: {
+          _status: Database["public"]["Enums"]["incident_status"]
+        }
+        Returns: boolean
+      }
+      is_selectable_incident_category: {
+        Args: {
+          _category: string
+          _current?: string
+        }
+        Returns: boolean
+      }
+      neighborhood_at: {
+        Args: {
+          _lat: number
+          _lng: number
+        }
+        Returns: string
+      }
+      notification_channels: {
+        Args: {
+          _kind: string
+          _user_id: string
+        }
+        Returns: Database["public"]["Enums"]["notification_channel"][]
+      }
+      prepare_account_deletion: {
+        Args: {
+          _delete_incidents: boolean
+          _user_id: string
+        }
+        Returns: string[]
+      }
+      queue_email_digests: {
+        Args: {
+          _frequency: string
+        }
+        Returns: number
+      }
+      register_push_subscription: {
+        Args: {
+          _auth: string
+          _endpoint: string
+          _p256dh: string
+          _user_agent?: string
+        }
+        Returns: Database["public"]["Tables"]["push_subscriptions"]["Row"]
+        SetofOptions: {
+          from: "*"
+          to: "push_subscriptions"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      resubmit_incident: {
+        Args: {
+          _description: string
+          _incident_id: string
+          _location: string
+          _title: string
+          _type: string
+        }
+        Returns: Database["public"]["Tables"]["incidents"]["Row"]
+        SetofOptions: {
+          from: "*"
+          to: "incidents"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      site_setting: {
+        Args: {
+          _key: string
+        }
+        Returns: string
+      }
+      unsubscribe_email: {
+        Args: {
+          _token: string
+        }
+        Returns: string
+      }
+      update_pending_incident: {
+        Args: {
+          _description: string
+          _incident_id: string
+          _location: string
+          _title: string
+          _type: string
+        }
+        Returns: Database["public"]["Tables"]["incidents"]["Row"]
+        SetofOptions: {
+          from: "*"
+          to: "incidents"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      withdraw_incident: {
+        Args: { _incident_id: string }
+        Returns: Database["public"]["Tables"]["incidents"]["Row"]
+        SetofOptions: {
+          from: "*"
+          to: "incidents"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
     }
     Enums: {
-      app_role: "admin" | "user"
-      incident_status: "pending" | "approved" | "rejected"
-      incident_type:
-  | "suspicious"
-  | "theft"
-  | "vandalism"
-  | "assault"
-  | "noise"
-  | "emergency"
-  | "road_hazard"
-  | "other";
-
+      app_role: "admin" | "moderator" | "user"
+      incident_status:
+        | "pending"
+        | "under_review"
+        | "approved"
+        | "active"
+        | "resolved"
+        | "rejected"
+        | "archived"
+        | "duplicate"
+        | "withdrawn"
+      incident_severity: "low" | "medium" | "high" | "critical"
+      notification_channel: "in_app" | "push" | "email" | "sms"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -239,19 +1342,20 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "user"],
-      incident_status: ["pending", "approved", "rejected"],
-      incident_type: [
-  "suspicious",
-  "theft",
-  "vandalism",
-  "assault",
-  "noise",
-  "emergency",
-  "road_hazard",
-  "other",
-],
-
+      app_role: ["admin", "moderator", "user"],
+      incident_status: [
+        "pending",
+        "under_review",
+        "approved",
+        "active",
+        "resolved",
+        "rejected",
+        "archived",
+        "duplicate",
+        "withdrawn",
+      ],
+      incident_severity: ["low", "medium", "high", "critical"],
+      notification_channel: ["in_app", "push", "email", "sms"],
     },
   },
 } as const
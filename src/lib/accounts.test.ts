@@ -0,0 +1,31 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { isRestrictionActive, type AccountRestrictionRow } from "@/lib/accounts";
+
+function restriction(fields: Partial<AccountRestrictionRow>) {
+  return { user_id: "user-1", suspended_until: null, banned_at: null, ...fields } as AccountRestrictionRow;
+}
+
+describe("isRestrictionActive", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-10-10T12:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("is inactive without a restriction", () => {
+    expect(isRestrictionActive(null)).toBe(false);
+    expect(isRestrictionActive(undefined)).toBe(false);
+  });
+
+  it("treats a ban as active until it's lifted", () => {
+    expect(isRestrictionActive(restriction({ banned_at: "2025-01-01T00:00:00Z" }))).toBe(true);
+  });
+
+  it("treats a suspension as active until it ends", () => {
+    expect(isRestrictionActive(restriction({ suspended_until: "2026-10-11T00:00:00Z" }))).toBe(true);
+    expect(isRestrictionActive(restriction({ suspended_until: "2026-10-10T11:59:59Z" }))).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import type { AppRole } from "@/lib/permissions";
+
+export type AccountRestrictionRow = Tables<"account_restrictions">;
+
+// One row of the admin_list_users RPC
+export type UserListRow = Database["public"]["Functions"]["admin_list_users"]["Returns"][number];
+
+export type UserSortColumn = "email" | "created_at" | "last_sign_in_at" | "report_count" | "approval_rate" | "status";
+
+export type AccountStatus = "active" | "suspended" | "banned";
+
+export const accountStatusConfig: Record<AccountStatus, { label: string; variant: "secondary" | "outline" | "destructive" }> = {
+  active: { label: "Active", variant: "secondary" },
+  suspended: { label: "Suspended", variant: "outline" },
+  banned: { label: "Banned", variant: "destructive" },
+};
+
+// Requests understood by the admin-users edge function
+export type AdminUserAction =
+  | { action: "set_role"; userId: string; role: AppRole; reason?: string }
+  | { action: "suspend"; userId: string; until: string; reason?: string }
+  | { action: "ban"; userId: string; reason?: string }
+  | { action: "lift_restriction"; userId: string; reason?: string }
+  | { action: "delete"; userId: string; incidents: "anonymize" | "delete"; reason?: string };
+
+export const SUSPENSION_OPTIONS = [
+  { days: 1, label: "1 day" },
+  { days: 3, label: "3 days" },
+  { days: 7, label: "1 week" },
+  { days: 30, label: "30 days" },
+];
+
+export async function runAdminUserAction(request: AdminUserAction): Promise<{ error: Error | null }> {
+  const { error } = await supabase.functions.invoke("admin-users", { body: request });
+  if (!error) return { error: null };
+
+  // Surface the function's own message rather than the generic non-2xx one
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    if (body?.error) return { error: new Error(body.error) };
+  }
+  return { error };
+}
+
+// Expired suspensions stay in the table until lifted, but no longer apply
+export function isRestrictionActive(restriction: AccountRestrictionRow | null | undefined) {
+  if (!restriction) return false;
+  return !!restriction.banned_at || new Date(restriction.suspended_until) > new Date();
+}
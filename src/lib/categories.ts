@@ -0,0 +1,67 @@
+import {
+  Car,
+  CircleHelp,
+  Construction,
+  Dog,
+  Droplets,
+  Eye,
+  Flame,
+  Lightbulb,
+  ShieldAlert,
+  Siren,
+  SprayCan,
+  Tag,
+  Trash2,
+  TriangleAlert,
+  Volume2,
+  Wallet,
+  type LucideIcon,
+} from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type IncidentCategory = Tables<"incident_categories">;
+
+// Icons offered in Settings, keyed by the lucide name stored in incident_categories.icon
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  eye: Eye,
+  wallet: Wallet,
+  "spray-can": SprayCan,
+  "shield-alert": ShieldAlert,
+  "volume-2": Volume2,
+  siren: Siren,
+  construction: Construction,
+  "triangle-alert": TriangleAlert,
+  car: Car,
+  flame: Flame,
+  dog: Dog,
+  droplets: Droplets,
+  lightbulb: Lightbulb,
+  "trash-2": Trash2,
+  "circle-help": CircleHelp,
+  tag: Tag,
+};
+
+export function getCategoryIcon(name: string) {
+  return CATEGORY_ICONS[name] ?? Tag;
+}
+
+// Stand-in while categories load, or for a type with no row
+export function fallbackCategory(id: string): IncidentCategory {
+  return {
+    id,
+    label: id.replace(/_/g, " ").replace(/^./, (c) => c.toUpperCase()),
+    color: "#64748b",
+    icon: "tag",
+    default_severity: "medium",
+    is_active: false,
+    sort_order: 0,
+    created_at: null,
+  };
+}
+
+export async function fetchIncidentCategories(): Promise<IncidentCategory[]> {
+  const { data, error } = await supabase.from("incident_categories").select("*").order("sort_order").order("label");
+  if (error) throw error;
+  return data || [];
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { buildCommentThreads, type CommentRow } from "@/lib/comments";
+
+let minute = 0;
+
+function comment(id: string, parentId: string | null = null, fields: Partial<CommentRow> = {}): CommentRow {
+  minute += 1;
+  return {
+    id,
+    incident_id: "incident-1",
+    parent_id: parentId,
+    user_id: "user-1",
+    body: `Comment ${id}`,
+    is_official_update: false,
+    deleted_at: null,
+    edited_at: null,
+    created_at: new Date(Date.UTC(2026, 9, 1, 12, minute)).toISOString(),
+    ...fields,
+  } as CommentRow;
+}
+
+const ids = (list: { id: string; replies: unknown[] }[]): unknown =>
+  list.map((c) => (c.replies.length ? { [c.id]: ids(c.replies as typeof list) } : c.id));
+
+describe("buildCommentThreads", () => {
+  it("nests replies under their parents", () => {
+    const a = comment("a");
+    const b = comment("b", "a");
+    const c = comment("c", "b");
+    const d = comment("d");
+
+    expect(ids(buildCommentThreads([c, d, b, a]))).toEqual([{ a: [{ b: ["c"] }] }, "d"]);
+  });
+
+  it("orders every level oldest first", () => {
+    const a = comment("a");
+    const b = comment("b");
+    const late = comment("late", "a");
+    const early = comment("early", "a", { created_at: "2026-01-01T00:00:00Z" });
+
+    expect(ids(buildCommentThreads([b, late, a, early]))).toEqual([{ a: ["early", "late"] }, "b"]);
+  });
+
+  it("shows replies to a missing parent at the top level", () => {
+    expect(ids(buildCommentThreads([comment("orphan", "gone")]))).toEqual(["orphan"]);
+  });
+
+  it("keeps deleted comments only as placeholders for their replies", () => {
+    const a = comment("a", null, { deleted_at: "2026-10-02T00:00:00Z" });
+    const b = comment("b", "a");
+    const c = comment("c", null, { deleted_at: "2026-10-02T00:00:00Z" });
+    const d = comment("d", "c", { deleted_at: "2026-10-02T00:00:00Z" });
+
+    const threads = buildCommentThreads([a, b, c, d]);
+
+    expect(ids(threads)).toEqual([{ a: ["b"] }]);
+    expect(threads[0].isDeleted).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type CommentRow = Tables<"incident_comments">;
+
+export const MAX_COMMENT_LENGTH = 2000;
+
+// Replies deeper than this are still shown, just without further indentation
+export const MAX_THREAD_INDENT = 3;
+
+export interface IncidentComment {
+  id: string;
+  incidentId: string;
+  parentId: string | null;
+  // Null once the author's account is deleted
+  authorId: string | null;
+  body: string;
+  isOfficialUpdate: boolean;
+  isDeleted: boolean;
+  editedAt: Date | null;
+  timestamp: Date;
+  replies: IncidentComment[];
+}
+
+export function toIncidentComment(row: CommentRow): IncidentComment {
+  return {
+    id: row.id,
+    incidentId: row.incident_id,
+    parentId: row.parent_id,
+    authorId: row.user_id,
+    body: row.body,
+    isOfficialUpdate: row.is_official_update,
+    isDeleted: row.deleted_at !== null,
+    editedAt: row.edited_at ? new Date(row.edited_at) : null,
+    timestamp: new Date(row.created_at),
+    replies: [],
+  };
+}
+
+// Nests replies under their parents, oldest first at every level. Rows whose
+// parent isn't in the list are treated as top-level so nothing gets lost.
+export function buildCommentThreads(rows: CommentRow[]): IncidentComment[] {
+  const byId = new Map(rows.map((row) => [row.id, toIncidentComment(row)]));
+  const roots: IncidentComment[] = [];
+
+  byId.forEach((comment) => {
+    const parent = comment.parentId ? byId.get(comment.parentId) : undefined;
+    if (parent) parent.replies.push(comment);
+    else roots.push(comment);
+  });
+
+  const sortThread = (list: IncidentComment[]) => {
+    list.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    list.forEach((comment) => sortThread(comment.replies));
+  };
+  sortThread(roots);
+
+  // Deleted comments only stay as placeholders when they still have replies
+  const prune = (list: IncidentComment[]): IncidentComment[] =>
+    list
+      .map((comment) => ({ ...comment, replies: prune(comment.replies) }))
+      .filter((comment) => !comment.isDeleted || comment.replies.length > 0);
+
+  return prune(roots);
+}
+
+export async function loadCommentCounts(incidentIds: string[]) {
+  const counts = new Map<string, number>();
+  if (incidentIds.length === 0) return counts;
+
+  const { data, error } = await supabase.rpc("incident_comment_counts", {
+    _incident_ids: incidentIds,
+  });
+
+  if (error) {
+    console.error("Error fetching comment counts:", error);
+    return counts;
+  }
+
+  (data || []).forEach((row) => counts.set(row.incident_id, row.comment_count));
+  return counts;
+}
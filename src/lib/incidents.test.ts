@@ -0,0 +1,191 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyIncidentFilters,
+  defaultIncidentFilters,
+  distanceMeters,
+  formatDistance,
+  getIncidentCoordinates,
+  isAtLeastSeverity,
+  isInIncidentScope,
+  toIncident,
+  toIncidentInsert,
+  type IncidentFilterState,
+  type IncidentRow,
+  type IncidentScope,
+} from "@/lib/incidents";
+
+const row = {
+  id: "incident-1",
+  user_id: "user-1",
+  type: "category-1",
+  severity: "high",
+  title: "Broken streetlight",
+  description: "Out since Monday",
+  location: "Main St",
+  status: "approved",
+  latitude: 52.37,
+  longitude: 4.89,
+  location_accuracy: 12,
+  neighborhood_id: null,
+  duplicate_of: null,
+  confirmation_count: 2,
+  created_at: "2026-10-01T12:00:00Z",
+} as IncidentRow;
+
+describe("getIncidentCoordinates", () => {
+  it("returns the stored point with its accuracy", () => {
+    expect(getIncidentCoordinates(row)).toEqual({ lat: 52.37, lng: 4.89, accuracy: 12 });
+  });
+
+  it("leaves accuracy out when it wasn't recorded", () => {
+    expect(getIncidentCoordinates({ ...row, location_accuracy: null })).toEqual({ lat: 52.37, lng: 4.89 });
+  });
+
+  it("returns nothing for reports without a location", () => {
+    expect(getIncidentCoordinates({ ...row, latitude: null })).toBeUndefined();
+    expect(getIncidentCoordinates({ ...row, longitude: null })).toBeUndefined();
+  });
+
+  it("keeps coordinates of zero", () => {
+    expect(getIncidentCoordinates({ ...row, latitude: 0, longitude: 0 })).toMatchObject({ lat: 0, lng: 0 });
+  });
+});
+
+describe("toIncident", () => {
+  it("maps a row to the card shape", () => {
+    const incident = toIncident(row);
+
+    expect(incident).toMatchObject({
+      id: "incident-1",
+      reporterId: "user-1",
+      coordinates: { lat: 52.37, lng: 4.89, accuracy: 12 },
+      neighborhoodId: undefined,
+      confirmationCount: 2,
+    });
+    expect(incident.timestamp).toEqual(new Date("2026-10-01T12:00:00Z"));
+  });
+});
+
+describe("toIncidentInsert", () => {
+  const report = {
+    type: "category-1",
+    severity: "medium" as const,
+    title: "Fallen tree",
+    description: "Blocking the cycle path",
+    location: "Park Ln",
+  };
+
+  it("stores the picked point and accuracy", () => {
+    expect(toIncidentInsert({ ...report, coordinates: { lat: 1.5, lng: -2.5, accuracy: 30 } }, "user-1")).toEqual({
+      ...report,
+      user_id: "user-1",
+      latitude: 1.5,
+      longitude: -2.5,
+      location_accuracy: 30,
+    });
+  });
+
+  it("stores nulls when no point was picked", () => {
+    expect(toIncidentInsert(report, "user-1")).toMatchObject({
+      latitude: null,
+      longitude: null,
+      location_accuracy: null,
+    });
+  });
+
+  it("doesn't pass attachments to the insert", () => {
+    const insert = toIncidentInsert({ ...report, attachments: [] }, "user-1");
+    expect(insert).not.toHaveProperty("attachments");
+  });
+});
+
+describe("distanceMeters", () => {
+  it("is zero for the same point", () => {
+    expect(distanceMeters({ lat: 52.37, lng: 4.89 }, { lat: 52.37, lng: 4.89 })).toBe(0);
+  });
+
+  it("measures one degree of latitude as about 111 km", () => {
+    expect(distanceMeters({ lat: 0, lng: 0 }, { lat: 1, lng: 0 })).toBeCloseTo(111_195, -1);
+  });
+
+  it("shrinks longitude distances away from the equator", () => {
+    const atEquator = distanceMeters({ lat: 0, lng: 0 }, { lat: 0, lng: 1 });
+    const at60 = distanceMeters({ lat: 60, lng: 0 }, { lat: 60, lng: 1 });
+    expect(at60 / atEquator).toBeCloseTo(0.5, 2);
+  });
+});
+
+describe("formatDistance", () => {
+  it("shows meters below a kilometer and kilometers above", () => {
+    expect(formatDistance(420.4)).toBe("420 m");
+    expect(formatDistance(1250)).toBe("1.3 km");
+  });
+});
+
+describe("isInIncidentScope", () => {
+  const center = { lat: 52.37, lng: 4.89 };
+  const radius: IncidentScope = { kind: "radius", source: "device", center, radiusMeters: 500 };
+  const bounds: IncidentScope = { kind: "bounds", bounds: { south: 52, west: 4, north: 53, east: 5 } };
+
+  it("accepts everything for the whole feed, located or not", () => {
+    expect(isInIncidentScope({ latitude: null, longitude: null }, { kind: "all" })).toBe(true);
+  });
+
+  it("keeps reports within the radius", () => {
+    // About 445 m and 556 m north of the center
+    expect(isInIncidentScope({ latitude: 52.374, longitude: 4.89 }, radius)).toBe(true);
+    expect(isInIncidentScope({ latitude: 52.375, longitude: 4.89 }, radius)).toBe(false);
+  });
+
+  it("keeps reports inside the bounds, edges included", () => {
+    expect(isInIncidentScope({ latitude: 52.5, longitude: 4.5 }, bounds)).toBe(true);
+    expect(isInIncidentScope({ latitude: 53, longitude: 5 }, bounds)).toBe(true);
+    expect(isInIncidentScope({ latitude: 53.1, longitude: 4.5 }, bounds)).toBe(false);
+  });
+
+  it("leaves out reports without a location from spatial scopes", () => {
+    expect(isInIncidentScope({ latitude: null, longitude: null }, radius)).toBe(false);
+    expect(isInIncidentScope({ latitude: null, longitude: null }, bounds)).toBe(false);
+  });
+});
+
+describe("isAtLeastSeverity", () => {
+  it("orders severities from low to critical", () => {
+    expect(isAtLeastSeverity("critical", "high")).toBe(true);
+    expect(isAtLeastSeverity("high", "high")).toBe(true);
+    expect(isAtLeastSeverity("medium", "high")).toBe(false);
+  });
+});
+
+describe("applyIncidentFilters", () => {
+  const incidents = [
+    toIncident({ ...row, id: "low", severity: "low", status: "approved", title: "Graffiti" }),
+    toIncident({ ...row, id: "high", severity: "high", status: "active", neighborhood_id: "n-1" }),
+    toIncident({ ...row, id: "critical", severity: "critical", status: "resolved", type: "category-2" }),
+  ];
+  const filter = (filters: Partial<IncidentFilterState>) =>
+    applyIncidentFilters(incidents, { ...defaultIncidentFilters, ...filters }).map((i) => i.id);
+
+  it("keeps everything by default", () => {
+    expect(filter({})).toEqual(["low", "high", "critical"]);
+  });
+
+  it("treats the severity filter as a minimum", () => {
+    expect(filter({ severity: "high" })).toEqual(["high", "critical"]);
+  });
+
+  it("splits open and resolved incidents", () => {
+    expect(filter({ status: "open" })).toEqual(["low", "high"]);
+    expect(filter({ status: "resolved" })).toEqual(["critical"]);
+  });
+
+  it("filters by type and neighborhood", () => {
+    expect(filter({ type: "category-2" })).toEqual(["critical"]);
+    expect(filter({ neighborhoodId: "n-1" })).toEqual(["high"]);
+  });
+
+  it("searches title, description and location, ignoring case", () => {
+    expect(filter({ search: "  GRAFF " })).toEqual(["low"]);
+    expect(filter({ search: "main st" })).toEqual(["low", "high", "critical"]);
+  });
+});
@@ -0,0 +1,270 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Tables, TablesInsert } from "@/integrations/supabase/types";
+import type { Incident } from "@/components/IncidentCard";
+import type { IncidentAttachment, PreparedAttachment } from "@/lib/media";
+
+export type IncidentRow = Tables<"incidents">;
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+  // Radius in meters, only known when the point came from device geolocation
+  accuracy?: number;
+}
+
+export interface NewIncidentReport {
+  type: string;
+  severity: IncidentSeverity;
+  title: string;
+  description: string;
+  location: string;
+  coordinates?: Coordinates;
+  attachments?: PreparedAttachment[];
+}
+
+export type IncidentSeverity = Database["public"]["Enums"]["incident_severity"];
+
+// heatWeight: how strongly one report at this severity shows up on the heatmap (0-1)
+export const incidentSeverityConfig: Record<
+  IncidentSeverity,
+  { label: string; className: string; heatWeight: number }
+> = {
+  low: { label: "Low", className: "bg-muted text-muted-foreground", heatWeight: 0.3 },
+  medium: { label: "Medium", className: "bg-amber-500 text-white", heatWeight: 0.5 },
+  high: { label: "High", className: "bg-orange-600 text-white", heatWeight: 0.8 },
+  critical: { label: "Critical", className: "bg-red-700 text-white", heatWeight: 1 },
+};
+
+// Least to most severe, the same order as the incident_severity enum
+export const INCIDENT_SEVERITIES = Object.keys(incidentSeverityConfig) as IncidentSeverity[];
+
+export function isAtLeastSeverity(severity: IncidentSeverity, minimum: IncidentSeverity) {
+  return INCIDENT_SEVERITIES.indexOf(severity) >= INCIDENT_SEVERITIES.indexOf(minimum);
+}
+
+export type IncidentStatus = IncidentRow["status"];
+
+export const incidentStatusConfig: Record<
+  IncidentStatus,
+  {
+    label: string;
+    variant: "default" | "secondary" | "destructive" | "outline";
+    // Button label for moving an incident into this status
+    action: string;
+  }
+> = {
+  pending: { label: "Pending review", variant: "secondary", action: "Back to pending" },
+  under_review: { label: "Under review", variant: "secondary", action: "Start review" },
+  approved: { label: "Approved", variant: "default", action: "Approve" },
+  active: { label: "Active", variant: "destructive", action: "Mark active" },
+  resolved: { label: "Resolved", variant: "outline", action: "Resolve" },
+  rejected: { label: "Rejected", variant: "destructive", action: "Reject" },
+  archived: { label: "Archived", variant: "outline", action: "Archive" },
+  duplicate: { label: "Duplicate", variant: "outline", action: "Mark duplicate" },
+  withdrawn: { label: "Withdrawn", variant: "outline", action: "Withdraw" },
+};
+
+// Mirrors the incident_status_transitions table, which the database enforces
+export const INCIDENT_STATUS_TRANSITIONS: Record<IncidentStatus, IncidentStatus[]> = {
+  pending: ["under_review", "approved", "active", "rejected", "duplicate", "withdrawn"],
+  under_review: ["approved", "active", "rejected", "duplicate"],
+  approved: ["active", "resolved", "archived", "duplicate"],
+  active: ["resolved", "archived", "duplicate"],
+  resolved: ["active", "archived"],
+  rejected: ["under_review", "archived", "pending"],
+  duplicate: ["under_review", "archived"],
+  archived: [],
+  withdrawn: [],
+};
+
+// Only the reporter can move an incident here (see withdraw_incident)
+export const REPORTER_ONLY_STATUSES: IncidentStatus[] = ["withdrawn"];
+
+// Matches an incident id on its own or inside a pasted /incidents/<id> link
+export const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i;
+
+// Statuses shown in the public feed (see is_public_incident_status)
+export const PUBLIC_INCIDENT_STATUSES: IncidentStatus[] = ["approved", "active", "resolved"];
+
+export function isPublicIncidentStatus(status?: IncidentStatus) {
+  return PUBLIC_INCIDENT_STATUSES.includes(status);
+}
+
+export type IncidentWithConfidence = Tables<"incidents_with_confidence">;
+
+// Buckets for the 0-100 score computed by the incidents_with_confidence view
+export function getConfidenceLevel(score: number) {
+  if (score >= 70) return { label: "High confidence", className: "bg-green-600 text-white" };
+  if (score >= 40) return { label: "Medium confidence", className: "bg-amber-500 text-white" };
+  return { label: "Low confidence", className: "bg-muted text-muted-foreground" };
+}
+
+export function incidentHeatWeight(incident: Incident) {
+  return incidentSeverityConfig[incident.severity].heatWeight;
+}
+
+export function getIncidentCoordinates(
+  row: Pick<IncidentRow, "latitude" | "longitude" | "location_accuracy">
+): Coordinates | undefined {
+  if (row.latitude == null || row.longitude == null) return undefined;
+
+  return {
+    lat: row.latitude,
+    lng: row.longitude,
+    accuracy: row.location_accuracy ?? undefined,
+  };
+}
+
+export function toIncident(row: IncidentRow, attachments?: IncidentAttachment[]): Incident {
+  return {
+    id: row.id,
+    type: row.type,
+    severity: row.severity,
+    title: row.title,
+    description: row.description,
+    location: row.location,
+    status: row.status,
+    reporterId: row.user_id,
+    coordinates: getIncidentCoordinates(row),
+    neighborhoodId: row.neighborhood_id ?? undefined,
+    duplicateOfId: row.duplicate_of ?? undefined,
+    confirmationCount: row.confirmation_count ?? 0,
+    attachments,
+    timestamp: new Date(row.created_at),
+  };
+}
+
+export function toIncidentInsert(
+  report: NewIncidentReport,
+  userId: string
+): TablesInsert<"incidents"> {
+  const { coordinates, attachments, ...fields } = report;
+
+  return {
+    user_id: userId,
+    type: fields.type,
+    severity: fields.severity,
+    title: fields.title,
+    description: fields.description,
+    location: fields.location,
+    latitude: coordinates?.lat ?? null,
+    longitude: coordinates?.lng ?? null,
+    location_accuracy: coordinates?.accuracy ?? null,
+  };
+}
+
+export interface MapBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+// Which part of the world the feed is loaded for
+export type IncidentScope =
+  | { kind: "all" }
+  | { kind: "radius"; source: "device" | "home"; center: Coordinates; radiusMeters: number }
+  | { kind: "bounds"; bounds: MapBounds };
+
+// Base select for a scope. Spatial scopes go through RPCs that return rows
+// nearest first, so callers should only add their own order for "all".
+export function selectIncidentsInScope(scope: IncidentScope) {
+  if (scope.kind === "radius") {
+    return supabase
+      .rpc("incidents_near", {
+        _lat: scope.center.lat,
+        _lng: scope.center.lng,
+        _radius_meters: scope.radiusMeters,
+      })
+      .select("*");
+  }
+
+  if (scope.kind === "bounds") {
+    return supabase
+      .rpc("incidents_in_bounds", {
+        _south: scope.bounds.south,
+        _west: scope.bounds.west,
+        _north: scope.bounds.north,
+        _east: scope.bounds.east,
+      })
+      .select("*");
+  }
+
+  return supabase.from("incidents").select("*");
+}
+
+// Client-side version of the scope RPCs, for rows that arrive over realtime
+export function isInIncidentScope(row: Pick<IncidentRow, "latitude" | "longitude">, scope: IncidentScope) {
+  if (scope.kind === "all") return true;
+  if (row.latitude == null || row.longitude == null) return false;
+
+  const point = { lat: row.latitude, lng: row.longitude };
+  if (scope.kind === "radius") return distanceMeters(scope.center, point) <= scope.radiusMeters;
+
+  const { south, west, north, east } = scope.bounds;
+  return point.lat >= south && point.lat <= north && point.lng >= west && point.lng <= east;
+}
+
+export const NEARBY_RADIUS_OPTIONS = [250, 500, 1000, 2000, 5000];
+
+// Great-circle distance in meters (haversine), good enough for display
+export function distanceMeters(a: Coordinates, b: Coordinates) {
+  const R = 6371000;
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * R * Math.asin(Math.sqrt(h));
+}
+
+export function formatDistance(meters: number) {
+  return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+}
+
+export interface IncidentFilterState {
+  search: string;
+  type: string;
+  // Minimum severity
+  severity: "all" | IncidentSeverity;
+  neighborhoodId: string;
+  // "open" covers approved and active incidents
+  status: "all" | "open" | "resolved";
+}
+
+export const defaultIncidentFilters: IncidentFilterState = {
+  search: "",
+  type: "all",
+  severity: "all",
+  neighborhoodId: "all",
+  status: "all",
+};
+
+export function applyIncidentFilters(incidents: Incident[], filters: IncidentFilterState) {
+  const q = filters.search.trim().toLowerCase();
+
+  return incidents.filter((incident) => {
+    if (filters.type !== "all" && incident.type !== filters.type) return false;
+    if (filters.severity !== "all" && !isAtLeastSeverity(incident.severity, filters.severity)) return false;
+    if (filters.status === "open" && incident.status === "resolved") return false;
+    if (filters.status === "resolved" && incident.status !== "resolved") return false;
+    if (filters.neighborhoodId !== "all" && incident.neighborhoodId !== filters.neighborhoodId) {
+      return false;
+    }
+    if (!q) return true;
+
+    return [incident.title, incident.description, incident.location].some((field) =>
+      field.toLowerCase().includes(q)
+    );
+  });
+}
+
+export function formatCoordinates({ lat, lng }: Coordinates) {
+  return `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
+}
+
+export function openStreetMapUrl({ lat, lng }: Coordinates) {
+  return `https://www.openstreetmap.org/?mlat=${lat}&mlon=${lng}#map=18/${lat}/${lng}`;
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import { MAX_VIDEO_BYTES, prepareAttachment, readExifGps } from "@/lib/media";
+
+const ascii = (text: string) => [...text].map((c) => c.charCodeAt(0));
+
+function u16(value: number) {
+  return [value >> 8, value & 0xff];
+}
+
+function u32(value: number) {
+  return [...u16(value >>> 16), ...u16(value & 0xffff)];
+}
+
+// Big-endian TIFF with just a GPS IFD, wrapped in a JPEG APP1 segment
+function jpegWithGps(lat: [number, number, number], latRef: string, lng: [number, number, number], lngRef: string) {
+  const entry = (tag: number, type: number, count: number, value: number[]) => [
+    ...u16(tag),
+    ...u16(type),
+    ...u32(count),
+    ...value,
+  ];
+  const rationals = (dms: [number, number, number]) => dms.flatMap((v) => [...u32(v * 100), ...u32(100)]);
+
+  const tiff = [
+    ...ascii("MM"), ...u16(0x2a), ...u32(8),
+    // IFD0 at 8: a pointer to the GPS IFD at 26
+    ...u16(1), ...entry(0x8825, 4, 1, u32(26)), ...u32(0),
+    // GPS IFD at 26, rationals at 80 and 104
+    ...u16(4),
+    ...entry(0x0001, 2, 2, [...ascii(latRef), 0, 0, 0]),
+    ...entry(0x0002, 5, 3, u32(80)),
+    ...entry(0x0003, 2, 2, [...ascii(lngRef), 0, 0, 0]),
+    ...entry(0x0004, 5, 3, u32(104)),
+    ...u32(0),
+    ...rationals(lat),
+    ...rationals(lng),
+  ];
+
+  return new Blob([
+    new Uint8Array([0xff, 0xd8, 0xff, 0xe1, ...u16(2 + 6 + tiff.length), ...ascii("Exif"), 0, 0, ...tiff]),
+  ]);
+}
+
+function box(type: string, ...children: number[][]) {
+  const body = children.flat();
+  return [...u32(8 + body.length), ...ascii(type), ...body];
+}
+
+async function bytesOf(blob: Blob) {
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+function containsText(bytes: Uint8Array, text: string) {
+  return new TextDecoder("latin1").decode(bytes).includes(text);
+}
+
+describe("readExifGps", () => {
+  it("reads the position from the EXIF GPS tags", async () => {
+    const gps = await readExifGps(jpegWithGps([52, 22, 12], "N", [4, 53, 24], "E"));
+
+    expect(gps.lat).toBeCloseTo(52.37, 6);
+    expect(gps.lng).toBeCloseTo(4.89, 6);
+  });
+
+  it("makes southern and western positions negative", async () => {
+    const gps = await readExifGps(jpegWithGps([33, 51, 0], "S", [151, 12, 0], "W"));
+
+    expect(gps.lat).toBeCloseTo(-33.85, 6);
+    expect(gps.lng).toBeCloseTo(-151.2, 6);
+  });
+
+  it("treats a 0, 0 position as no position", async () => {
+    expect(await readExifGps(jpegWithGps([0, 0, 0], "N", [0, 0, 0], "E"))).toBeUndefined();
+  });
+
+  it("returns nothing for files that aren't JPEGs or have no EXIF block", async () => {
+    expect(await readExifGps(new Blob([new Uint8Array([0x89, 0x50, 0x4e, 0x47])]))).toBeUndefined();
+    expect(await readExifGps(new Blob([new Uint8Array([0xff, 0xd8, 0xff, 0xd9])]))).toBeUndefined();
+  });
+});
+
+describe("prepareAttachment", () => {
+  const location = ascii("+52.3700+004.8900/");
+
+  it("blanks MP4 metadata boxes without moving the media data", async () => {
+    const input = new Uint8Array([
+      ...box("ftyp", ascii("isom"), u32(0x200)),
+      ...box("moov", box("mvhd", new Array(12).fill(1)), box("udta", box("©xyz", location))),
+      ...box("mdat", [1, 2, 3, 4]),
+    ]);
+    const attachment = await prepareAttachment(new File([input], "clip.mp4", { type: "video/mp4" }));
+    const output = await bytesOf(attachment.blob);
+
+    expect(attachment).toMatchObject({ kind: "video", mimeType: "video/mp4" });
+    expect(output.length).toBe(input.length);
+    expect(containsText(output, "+52.3700")).toBe(false);
+    expect(containsText(output, "udta")).toBe(false);
+    expect(containsText(output, "free")).toBe(true);
+    expect(output.slice(-4)).toEqual(new Uint8Array([1, 2, 3, 4]));
+  });
+
+  it("rejects MP4 files whose boxes don't add up", async () => {
+    const input = new Uint8Array([...box("ftyp", ascii("isom")), ...u32(400), ...ascii("moov")]);
+
+    await expect(prepareAttachment(new File([input], "clip.mp4", { type: "video/mp4" }))).rejects.toThrow(
+      "This video couldn't be read"
+    );
+  });
+
+  it("turns WebM tags into a void element of the same length", async () => {
+    const tags = [0x12, 0x54, 0xc3, 0x67, 0x80 | location.length, ...location];
+    const input = new Uint8Array([
+      // EBML header
+      0x1a, 0x45, 0xdf, 0xa3, 0x84, 0x42, 0x86, 0x81, 0x01,
+      // Segment of unknown size
+      0x18, 0x53, 0x80, 0x67, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff,
+      ...tags,
+      // Live-recorded cluster
+      0x1f, 0x43, 0xb6, 0x75, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xa3, 0x81, 0x00,
+    ]);
+    const attachment = await prepareAttachment(new File([input], "clip.webm", { type: "video/webm" }));
+    const output = await bytesOf(attachment.blob);
+
+    expect(output.length).toBe(input.length);
+    expect(containsText(output, "+52.3700")).toBe(false);
+    expect(output.slice(21, 30)).toEqual(new Uint8Array([0xec, 0x01, 0, 0, 0, 0, 0, 0, tags.length - 9]));
+    expect(output.slice(21 + tags.length)).toEqual(input.slice(21 + tags.length));
+  });
+
+  it("only takes the video formats the bucket accepts", async () => {
+    await expect(prepareAttachment(new File([], "clip.avi", { type: "video/x-msvideo" }))).rejects.toThrow(
+      "Videos must be MP4, WebM or MOV"
+    );
+  });
+
+  it("refuses videos over the size limit", async () => {
+    const file = new File([], "clip.mp4", { type: "video/mp4" });
+    Object.defineProperty(file, "size", { value: MAX_VIDEO_BYTES + 1 });
+
+    await expect(prepareAttachment(file)).rejects.toThrow("Videos must be 50 MB or smaller");
+  });
+
+  it("refuses files that aren't photos or videos", async () => {
+    await expect(prepareAttachment(new File([], "notes.pdf", { type: "application/pdf" }))).rejects.toThrow(
+      "Only photos and videos can be attached"
+    );
+  });
+});
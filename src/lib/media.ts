@@ -0,0 +1,393 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { Coordinates } from "@/lib/incidents";
+
+export const MEDIA_BUCKET = "incident-media";
+export const MAX_ATTACHMENTS = 6;
+export const MAX_VIDEO_BYTES = 50 * 1024 * 1024;
+
+// Same list as the incident-media bucket's allowed_mime_types. Photos are
+// re-encoded as JPEG whatever they start as.
+const VIDEO_TYPES = ["video/mp4", "video/webm", "video/quicktime"];
+export const ACCEPTED_MEDIA_TYPES = ["image/jpeg", "image/png", "image/webp", ...VIDEO_TYPES].join(",");
+
+const MAX_IMAGE_DIMENSION = 1920;
+const THUMBNAIL_DIMENSION = 400;
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export type AttachmentRow = Tables<"incident_attachments">;
+
+export interface IncidentAttachment {
+  id: string;
+  kind: "image" | "video";
+  url: string;
+  thumbnailUrl?: string;
+  width?: number;
+  height?: number;
+}
+
+// A file picked in the report form, already resized and stripped of metadata
+export interface PreparedAttachment {
+  id: string;
+  kind: "image" | "video";
+  blob: Blob;
+  thumbnail?: Blob;
+  mimeType: string;
+  width?: number;
+  height?: number;
+  previewUrl: string;
+  gps?: Coordinates;
+}
+
+/* ---------- EXIF ---------- */
+
+// Reads the GPS position from a JPEG's EXIF block, if it has one.
+// Only the handful of tags needed for a location are parsed.
+export async function readExifGps(file: Blob): Promise<Coordinates | undefined> {
+  const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return undefined;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+
+    // APP1 with an "Exif\0\0" header
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+      return parseTiffGps(view, offset + 10);
+    }
+    if ((marker & 0xff00) !== 0xff00) return undefined;
+    offset += 2 + length;
+  }
+
+  return undefined;
+}
+
+function parseTiffGps(view: DataView, tiff: number): Coordinates | undefined {
+  if (tiff + 8 > view.byteLength) return undefined;
+
+  const little = view.getUint16(tiff) === 0x4949;
+  const u16 = (o: number) => view.getUint16(tiff + o, little);
+  const u32 = (o: number) => view.getUint32(tiff + o, little);
+
+  const findTag = (ifd: number, tag: number) => {
+    const count = u16(ifd);
+    for (let i = 0; i < count; i++) {
+      const entry = ifd + 2 + i * 12;
+      if (u16(entry) === tag) return entry;
+    }
+    return undefined;
+  };
+
+  const gpsPointer = findTag(u32(4), 0x8825);
+  if (gpsPointer === undefined) return undefined;
+  const gpsIfd = u32(gpsPointer + 8);
+
+  const readRef = (tag: number) => {
+    const entry = findTag(gpsIfd, tag);
+    return entry === undefined ? undefined : String.fromCharCode(view.getUint8(tiff + entry + 8));
+  };
+
+  // Degrees, minutes, seconds stored as three RATIONALs
+  const readDms = (tag: number) => {
+    const entry = findTag(gpsIfd, tag);
+    if (entry === undefined) return undefined;
+    const values = u32(entry + 8);
+    const rational = (i: number) => u32(values + i * 8) / (u32(values + i * 8 + 4) || 1);
+    return rational(0) + rational(1) / 60 + rational(2) / 3600;
+  };
+
+  const lat = readDms(0x0002);
+  const lng = readDms(0x0004);
+  if (lat === undefined || lng === undefined || (lat === 0 && lng === 0)) return undefined;
+
+  return {
+    lat: readRef(0x0001) === "S" ? -lat : lat,
+    lng: readRef(0x0003) === "W" ? -lng : lng,
+  };
+}
+
+/* ---------- Video metadata ---------- */
+
+// MP4 and MOV boxes that can hold the recording location: user data (©xyz),
+// Apple's metadata keys and vendor uuid boxes such as XMP
+const MP4_METADATA_BOXES = new Set(["udta", "meta", "uuid"]);
+const MP4_CONTAINER_BOXES = new Set(["moov", "trak", "mdia", "minf"]);
+
+// Turns metadata boxes into free space rather than cutting them out, so the
+// sample offsets in the rest of the file stay right. Returns false when the
+// boxes don't add up, i.e. the file isn't one it can vouch for.
+function blankMp4Metadata(bytes: Uint8Array, start: number, end: number): boolean {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = start;
+
+  while (offset < end) {
+    if (offset + 8 > end) return false;
+    let size = view.getUint32(offset);
+    let header = 8;
+    if (size === 1) {
+      if (offset + 16 > end) return false;
+      size = view.getUint32(offset + 8) * 2 ** 32 + view.getUint32(offset + 12);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) return false;
+
+    const type = String.fromCharCode(bytes[offset + 4], bytes[offset + 5], bytes[offset + 6], bytes[offset + 7]);
+    if (MP4_METADATA_BOXES.has(type)) {
+      bytes.set([0x66, 0x72, 0x65, 0x65], offset + 4); // "free"
+      bytes.fill(0, offset + header, offset + size);
+    } else if (MP4_CONTAINER_BOXES.has(type) && !blankMp4Metadata(bytes, offset + header, offset + size)) {
+      return false;
+    }
+    offset += size;
+  }
+
+  return true;
+}
+
+// EBML variable-length integer. IDs keep their length marker, sizes don't.
+function readVint(bytes: Uint8Array, offset: number, keepMarker: boolean) {
+  const first = bytes[offset];
+  if (!first) return undefined;
+  const length = Math.clz32(first) - 23;
+  if (offset + length > bytes.length) return undefined;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let unknown = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    if (bytes[offset + i] !== 0xff) unknown = false;
+  }
+  return { value, length, unknown: !keepMarker && unknown };
+}
+
+const EBML_SEGMENT = 0x18538067;
+const EBML_TAGS = 0x1254c367;
+const EBML_VOID = 0xec;
+
+// Overwrites the segment's Tags, where WebM keeps location and other metadata,
+// with a Void element of the same length. Stops at the first element of
+// unknown size (a live-recorded cluster), which leaves nothing to find after it.
+function blankWebmMetadata(bytes: Uint8Array): boolean {
+  let offset = 0;
+  while (offset < bytes.length) {
+    const id = readVint(bytes, offset, true);
+    const size = id && readVint(bytes, offset + id.length, false);
+    if (!size) return false;
+    const dataStart = offset + id.length + size.length;
+
+    if (id.value !== EBML_SEGMENT) {
+      if (size.unknown || dataStart + size.value > bytes.length) return false;
+      offset = dataStart + size.value;
+      continue;
+    }
+
+    const segmentEnd = size.unknown ? bytes.length : Math.min(bytes.length, dataStart + size.value);
+    let child = dataStart;
+    while (child < segmentEnd) {
+      const childId = readVint(bytes, child, true);
+      const childSize = childId && readVint(bytes, child + childId.length, false);
+      if (!childSize) return false;
+      if (childSize.unknown) return true;
+
+      const total = childId.length + childSize.length + childSize.value;
+      if (child + total > segmentEnd) return false;
+      if (childId.value === EBML_TAGS && total >= 9) {
+        // One-byte Void ID, then an eight-byte size covering the rest
+        bytes[child] = EBML_VOID;
+        bytes[child + 1] = 0x01;
+        let remaining = total - 9;
+        for (let i = 8; i >= 2; i--) {
+          bytes[child + i] = remaining % 256;
+          remaining = Math.floor(remaining / 256);
+        }
+        bytes.fill(0, child + 9, child + total);
+      }
+      child += total;
+    }
+    return true;
+  }
+
+  return true;
+}
+
+// Phones write the recording location into videos as well as photos
+async function stripVideoMetadata(file: File): Promise<Blob> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const clean = file.type === "video/webm" ? blankWebmMetadata(bytes) : blankMp4Metadata(bytes, 0, bytes.length);
+  if (!clean) throw new Error("This video couldn't be read");
+  return new Blob([bytes], { type: file.type });
+}
+
+/* ---------- Resizing ---------- */
+
+// Re-encoding through a canvas drops every metadata block, EXIF GPS included
+async function drawScaled(bitmap: ImageBitmap, maxDimension: number) {
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext("2d").drawImage(bitmap, 0, 0, width, height);
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/jpeg", 0.85)
+  );
+  if (!blob) throw new Error("Could not encode image");
+
+  return { blob, width, height };
+}
+
+export async function prepareAttachment(file: File): Promise<PreparedAttachment> {
+  const id = crypto.randomUUID();
+
+  if (file.type.startsWith("video/")) {
+    if (!VIDEO_TYPES.includes(file.type)) throw new Error("Videos must be MP4, WebM or MOV");
+    if (file.size > MAX_VIDEO_BYTES) throw new Error("Videos must be 50 MB or smaller");
+
+    const blob = await stripVideoMetadata(file);
+    return {
+      id,
+      kind: "video",
+      blob,
+      mimeType: file.type,
+      previewUrl: URL.createObjectURL(blob),
+    };
+  }
+
+  if (!file.type.startsWith("image/")) throw new Error("Only photos and videos can be attached");
+
+  // A malformed EXIF block just means no location to offer
+  const gps = await readExifGps(file).catch(() => undefined);
+  const bitmap = await createImageBitmap(file);
+  try {
+    const image = await drawScaled(bitmap, MAX_IMAGE_DIMENSION);
+    const thumbnail = await drawScaled(bitmap, THUMBNAIL_DIMENSION);
+
+    return {
+      id,
+      kind: "image",
+      blob: image.blob,
+      thumbnail: thumbnail.blob,
+      mimeType: "image/jpeg",
+      width: image.width,
+      height: image.height,
+      previewUrl: URL.createObjectURL(thumbnail.blob),
+      gps,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/* ---------- Storage ---------- */
+
+function extensionFor(mimeType: string) {
+  return mimeType.split("/")[1]?.replace("quicktime", "mov") ?? "bin";
+}
+
+export async function uploadAttachments(
+  incidentId: string,
+  userId: string,
+  attachments: PreparedAttachment[]
+) {
+  for (const attachment of attachments) {
+    const path = `${incidentId}/${attachment.id}.${extensionFor(attachment.mimeType)}`;
+    const thumbnailPath = attachment.thumbnail ? `${incidentId}/${attachment.id}_thumb.jpg` : null;
+
+    const { error: uploadError } = await supabase.storage
+      .from(MEDIA_BUCKET)
+      .upload(path, attachment.blob, { contentType: attachment.mimeType });
+    if (uploadError) return { error: uploadError };
+
+    if (thumbnailPath) {
+      const { error } = await supabase.storage
+        .from(MEDIA_BUCKET)
+        .upload(thumbnailPath, attachment.thumbnail, { contentType: "image/jpeg" });
+      if (error) return { error };
+    }
+
+    const { error } = await supabase.from("incident_attachments").insert({
+      incident_id: incidentId,
+      user_id: userId,
+      storage_path: path,
+      thumbnail_path: thumbnailPath,
+      mime_type: attachment.mimeType,
+      size_bytes: attachment.blob.size,
+      width: attachment.width ?? null,
+      height: attachment.height ?? null,
+    });
+    if (error) return { error };
+  }
+
+  return { error: null };
+}
+
+// Attachment rows cascade with the incident, but stored files have to be removed explicitly
+export async function removeIncidentMedia(incidentId: string) {
+  const { data, error } = await supabase.storage.from(MEDIA_BUCKET).list(incidentId);
+  if (error || !data?.length) return { error };
+
+  return supabase.storage
+    .from(MEDIA_BUCKET)
+    .remove(data.map((file) => `${incidentId}/${file.name}`));
+}
+
+// The bucket is private, so every view needs short-lived signed URLs
+export async function signAttachments(
+  rows: AttachmentRow[]
+): Promise<Map<string, IncidentAttachment[]>> {
+  const byIncident = new Map<string, IncidentAttachment[]>();
+  if (rows.length === 0) return byIncident;
+
+  const paths = rows.flatMap((r) => [r.storage_path, r.thumbnail_path].filter(Boolean));
+  const { data, error } = await supabase.storage
+    .from(MEDIA_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+
+  if (error) {
+    console.error("Error signing attachment URLs:", error);
+    return byIncident;
+  }
+
+  const urls = new Map(data.filter((d) => d.signedUrl).map((d) => [d.path, d.signedUrl]));
+
+  for (const row of rows) {
+    const url = urls.get(row.storage_path);
+    if (!url) continue;
+
+    const list = byIncident.get(row.incident_id) ?? [];
+    list.push({
+      id: row.id,
+      kind: row.mime_type.startsWith("video/") ? "video" : "image",
+      url,
+      thumbnailUrl: row.thumbnail_path ? urls.get(row.thumbnail_path) : undefined,
+      width: row.width ?? undefined,
+      height: row.height ?? undefined,
+    });
+    byIncident.set(row.incident_id, list);
+  }
+
+  return byIncident;
+}
+
+export async function loadIncidentAttachments(incidentIds: string[]) {
+  if (incidentIds.length === 0) return new Map<string, IncidentAttachment[]>();
+
+  const { data, error } = await supabase
+    .from("incident_attachments")
+    .select("*")
+    .in("incident_id", incidentIds)
+    .order("created_at");
+
+  if (error) {
+    console.error("Error fetching attachments:", error);
+    return new Map<string, IncidentAttachment[]>();
+  }
+
+  return signAttachments(data || []);
+}
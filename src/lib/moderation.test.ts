@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  describeModerationEvent,
+  moderationEventsToCsv,
+  withModerationReason,
+  type ModerationEventRow,
+} from "@/lib/moderation";
+
+function event(fields: Partial<ModerationEventRow>): ModerationEventRow {
+  return {
+    id: "event-1",
+    created_at: "2026-10-01T12:00:00Z",
+    actor_id: "user-1",
+    actor_email: "mod@example.com",
+    action: "incident.updated",
+    target_table: "incidents",
+    target_id: "incident-1",
+    before: null,
+    after: null,
+    changes: null,
+    reason: null,
+    ...fields,
+  } as ModerationEventRow;
+}
+
+describe("withModerationReason", () => {
+  it("sends the reason base64-encoded so any text is a valid header", () => {
+    const query = { setHeader: vi.fn() };
+    withModerationReason(query, "  Doublon signalé  ");
+
+    const [name, value] = query.setHeader.mock.calls[0];
+    expect(name).toBe("x-moderation-reason");
+    expect(new TextDecoder().decode(Uint8Array.from(atob(value), (c) => c.charCodeAt(0)))).toBe("Doublon signalé");
+  });
+
+  it("sends nothing for a blank reason", () => {
+    const query = { setHeader: vi.fn() };
+    withModerationReason(query, "   ");
+    withModerationReason(query, null);
+
+    expect(query.setHeader).not.toHaveBeenCalled();
+  });
+});
+
+describe("describeModerationEvent", () => {
+  it("summarises a status change", () => {
+    expect(
+      describeModerationEvent(
+        event({
+          action: "incident.status_changed",
+          changes: { status: { from: "pending", to: "approved" } },
+          after: { title: "Broken streetlight" },
+        })
+      )
+    ).toBe("pending → approved: Broken streetlight");
+  });
+
+  it("lists the fields changed on an incident", () => {
+    expect(
+      describeModerationEvent(
+        event({ changes: { severity: { from: "low", to: "high" } }, after: { title: "Broken streetlight" } })
+      )
+    ).toBe("Broken streetlight (severity)");
+  });
+
+  it("names the scope of a moderator scope change", () => {
+    expect(
+      describeModerationEvent(
+        event({ action: "moderator_scope.created", target_table: "moderator_scopes", after: { neighborhood_id: null } })
+      )
+    ).toBe("all neighborhoods");
+  });
+});
+
+describe("moderationEventsToCsv", () => {
+  it("writes a header and one row per event", () => {
+    const csv = moderationEventsToCsv([event({ after: { title: "Streetlight" } })]);
+
+    expect(csv.split("\n")).toEqual([
+      "created_at,actor_email,actor_id,action,target_table,target_id,summary,reason,changes",
+      "2026-10-01T12:00:00Z,mod@example.com,user-1,incident.updated,incidents,incident-1,Streetlight,,",
+    ]);
+  });
+
+  it("quotes cells with commas, quotes and line breaks", () => {
+    const csv = moderationEventsToCsv([event({ reason: 'Said "fake", twice\nagain' })]);
+
+    expect(csv).toContain(',"Said ""fake"", twice\nagain",');
+  });
+
+  it("keeps spreadsheet apps from running cells as formulas", () => {
+    const csv = moderationEventsToCsv([event({ reason: "=HYPERLINK(\"http://evil\")" })]);
+
+    expect(csv).toContain(`,"'=HYPERLINK(""http://evil"")",`);
+  });
+
+  it("writes changes as JSON", () => {
+    const csv = moderationEventsToCsv([event({ changes: { severity: { from: "low", to: "high" } } })]);
+
+    expect(csv).toContain(`"{""severity"":{""from"":""low"",""to"":""high""}}"`);
+  });
+});
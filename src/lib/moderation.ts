@@ -0,0 +1,119 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
+
+export type ModerationEventRow = Tables<"moderation_events">;
+
+export type ModerationChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Actions written by the log_moderation_event trigger, plus account.deleted
+// from prepare_account_deletion
+export const moderationActionConfig: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  "incident.status_changed": { label: "Status changed", variant: "default" },
+  "incident.updated": { label: "Incident edited", variant: "secondary" },
+  "incident.deleted": { label: "Incident deleted", variant: "destructive" },
+  "user_role.granted": { label: "Role granted", variant: "default" },
+  "user_role.updated": { label: "Role changed", variant: "secondary" },
+  "user_role.revoked": { label: "Role revoked", variant: "destructive" },
+  "comment.removed": { label: "Comment removed", variant: "destructive" },
+  "comment.updated": { label: "Comment edited", variant: "secondary" },
+  "moderator_scope.created": { label: "Scope granted", variant: "outline" },
+  "moderator_scope.deleted": { label: "Scope removed", variant: "outline" },
+  "account_restriction.created": { label: "Account restricted", variant: "destructive" },
+  "account_restriction.updated": { label: "Restriction changed", variant: "secondary" },
+  "account_restriction.deleted": { label: "Restriction lifted", variant: "outline" },
+  "account.deleted": { label: "Account deleted", variant: "destructive" },
+  "neighborhood.created": { label: "Neighborhood created", variant: "outline" },
+  "neighborhood.updated": { label: "Neighborhood edited", variant: "outline" },
+  "neighborhood.deleted": { label: "Neighborhood deleted", variant: "destructive" },
+};
+
+export function getModerationActionConfig(action: string) {
+  return moderationActionConfig[action] ?? { label: action, variant: "outline" as const };
+}
+
+// Attaches an optional reason to a single PostgREST request; the audit trigger
+// reads it back through current_moderation_reason(). Base64 keeps non-ASCII
+// reasons valid as an HTTP header value.
+export function withModerationReason<T extends { setHeader: (name: string, value: string) => unknown }>(
+  query: T,
+  reason?: string | null
+): T {
+  const trimmed = reason?.trim();
+  if (!trimmed) return query;
+
+  let binary = "";
+  new TextEncoder().encode(trimmed).forEach((b) => (binary += String.fromCharCode(b)));
+  query.setHeader("x-moderation-reason", btoa(binary));
+  return query;
+}
+
+// Moves one or more incidents to a new status in a single request. The
+// database rejects the whole batch if any row's transition isn't allowed.
+export function updateIncidentStatuses(ids: string[], values: TablesUpdate<"incidents">, reason?: string | null) {
+  return withModerationReason(supabase.from("incidents").update(values).in("id", ids), reason);
+}
+
+// Short human summary of a trigger row, for the log table and exports
+export function describeModerationEvent(event: ModerationEventRow) {
+  const changes = (event.changes ?? {}) as ModerationChanges;
+  const snapshot = (event.after ?? event.before ?? {}) as Record<string, unknown>;
+
+  if (event.action === "incident.status_changed") {
+    return `${changes.status?.from} → ${changes.status?.to}: ${snapshot.title ?? ""}`.trim();
+  }
+  if (event.target_table === "incidents" || event.target_table === "neighborhoods") {
+    const name = (snapshot.title ?? snapshot.name ?? "") as string;
+    const fields = Object.keys(changes);
+    return fields.length > 0 ? `${name} (${fields.join(", ")})` : name;
+  }
+  if (event.target_table === "user_roles") {
+    return `${snapshot.role ?? ""} role`;
+  }
+  if (event.target_table === "moderator_scopes") {
+    return snapshot.neighborhood_id ? `neighborhood ${snapshot.neighborhood_id}` : "all neighborhoods";
+  }
+  if (event.target_table === "account_restrictions") {
+    return snapshot.banned_at ? "ban" : `suspended until ${snapshot.suspended_until}`;
+  }
+  if (event.action === "account.deleted") {
+    return `${snapshot.email ?? ""} (incidents ${snapshot.incidents})`.trim();
+  }
+  return Object.keys(changes).join(", ");
+}
+
+function csvCell(value: unknown) {
+  let text = value === null || value === undefined ? "" : typeof value === "string" ? value : JSON.stringify(value);
+  // Keep spreadsheet apps from evaluating cells as formulas
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function moderationEventsToCsv(events: ModerationEventRow[]) {
+  const header = ["created_at", "actor_email", "actor_id", "action", "target_table", "target_id", "summary", "reason", "changes"];
+  const rows = events.map((e) =>
+    [
+      e.created_at,
+      e.actor_email,
+      e.actor_id,
+      e.action,
+      e.target_table,
+      e.target_id,
+      describeModerationEvent(e),
+      e.reason,
+      e.changes,
+    ]
+      .map(csvCell)
+      .join(",")
+  );
+
+  return [header.join(","), ...rows].join("\n");
+}
+
+export function downloadTextFile(filename: string, content: string, type = "text/csv") {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
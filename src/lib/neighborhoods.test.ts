@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { fromPolygonGeoJson, toNeighborhood, toPolygonGeoJson } from "@/lib/neighborhoods";
+
+const points = [
+  { lat: 52.0, lng: 4.0 },
+  { lat: 52.0, lng: 4.1 },
+  { lat: 52.1, lng: 4.1 },
+];
+
+describe("toPolygonGeoJson", () => {
+  it("writes a closed ring in lng, lat order", () => {
+    expect(toPolygonGeoJson(points)).toEqual({
+      type: "Polygon",
+      coordinates: [
+        [
+          [4.0, 52.0],
+          [4.1, 52.0],
+          [4.1, 52.1],
+          [4.0, 52.0],
+        ],
+      ],
+    });
+  });
+
+  it("doesn't close an empty ring", () => {
+    expect(toPolygonGeoJson([])).toEqual({ type: "Polygon", coordinates: [[]] });
+  });
+});
+
+describe("fromPolygonGeoJson", () => {
+  it("reads back what toPolygonGeoJson wrote", () => {
+    expect(fromPolygonGeoJson(toPolygonGeoJson(points))).toEqual(points);
+  });
+
+  it("returns no points for a missing boundary", () => {
+    expect(fromPolygonGeoJson(null)).toEqual([]);
+    expect(fromPolygonGeoJson({ type: "Polygon" })).toEqual([]);
+  });
+});
+
+describe("toNeighborhood", () => {
+  it("unpacks the boundary into points", () => {
+    expect(
+      toNeighborhood({ id: "n-1", name: "Old Town", color: "#ff0000", boundary: toPolygonGeoJson(points) })
+    ).toEqual({ id: "n-1", name: "Old Town", color: "#ff0000", points });
+  });
+});
@@ -0,0 +1,43 @@
+import type { Json, Tables } from "@/integrations/supabase/types";
+import type { Coordinates } from "@/lib/incidents";
+
+export type NeighborhoodRow = Tables<"neighborhoods">;
+
+export interface Neighborhood {
+  id: string;
+  name: string;
+  color: string;
+  // Outer ring vertices, without the repeated closing point
+  points: Coordinates[];
+}
+
+interface PolygonGeoJson {
+  type: "Polygon";
+  coordinates: [number, number][][];
+}
+
+export function toPolygonGeoJson(points: Coordinates[]): Json {
+  const ring = points.map((p) => [p.lng, p.lat] as [number, number]);
+  if (ring.length > 0) ring.push(ring[0]);
+
+  const polygon: PolygonGeoJson = { type: "Polygon", coordinates: [ring] };
+  return polygon as unknown as Json;
+}
+
+export function fromPolygonGeoJson(boundary: Json): Coordinates[] {
+  const polygon = boundary as unknown as PolygonGeoJson | null;
+  const ring = polygon?.coordinates?.[0] ?? [];
+
+  return ring.slice(0, -1).map(([lng, lat]) => ({ lat, lng }));
+}
+
+export function toNeighborhood(
+  row: Pick<NeighborhoodRow, "id" | "name" | "color" | "boundary">
+): Neighborhood {
+  return {
+    id: row.id,
+    name: row.name,
+    color: row.color,
+    points: fromPolygonGeoJson(row.boundary),
+  };
+}
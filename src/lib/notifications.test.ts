@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { describeWatchZoneArea, notificationLink, type WatchZoneRow } from "@/lib/notifications";
+
+describe("notificationLink", () => {
+  it("opens the incident for watch zone alerts", () => {
+    expect(notificationLink({ kind: "watch_zone", incident_id: "incident-1" })).toBe("/incidents/incident-1");
+  });
+
+  it("sends reporters to their reports and moderators to the queue", () => {
+    expect(notificationLink({ kind: "report_status", incident_id: "incident-1" })).toBe("/me/reports");
+    expect(notificationLink({ kind: "pending_report", incident_id: "incident-1" })).toBe("/admin/review");
+  });
+
+  it("has nowhere to go once the incident is gone", () => {
+    expect(notificationLink({ kind: "watch_zone", incident_id: null })).toBeNull();
+  });
+});
+
+describe("describeWatchZoneArea", () => {
+  const zone = { neighborhood_id: null, radius_meters: 1500 } as WatchZoneRow;
+
+  it("describes a radius zone by its distance", () => {
+    expect(describeWatchZoneArea(zone)).toBe("Within 1.5 km of a point");
+  });
+
+  it("names the neighborhood of a neighborhood zone", () => {
+    expect(describeWatchZoneArea({ ...zone, neighborhood_id: "n-1" }, "Old Town")).toBe("Anywhere in Old Town");
+    expect(describeWatchZoneArea({ ...zone, neighborhood_id: "n-1" })).toBe("Anywhere in a neighborhood");
+  });
+});
@@ -0,0 +1,82 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import { formatDistance } from "@/lib/incidents";
+
+export type NotificationRow = Tables<"notifications">;
+export type WatchZoneRow = Tables<"watch_zones">;
+export type EmailDigestRow = Tables<"email_digests">;
+export type NotificationChannel = Database["public"]["Enums"]["notification_channel"];
+
+// Matches the notification_preferences.kind check constraint
+export type NotificationKind = "watch_zone" | "report_status" | "pending_report";
+
+// Channels are the ones users can pick for each kind; texts are kept for
+// critical incidents, which your own reports' status changes aren't. Defaults
+// match the notification_channels database function.
+export const notificationKindConfig: Record<
+  NotificationKind,
+  { label: string; description: string; channels: NotificationChannel[]; defaultChannels: NotificationChannel[] }
+> = {
+  watch_zone: {
+    label: "Watch zone alerts",
+    description: "Incidents approved in your watch zones",
+    channels: ["in_app", "push", "email", "sms"],
+    defaultChannels: ["in_app"],
+  },
+  report_status: {
+    label: "Your reports",
+    description: "When a moderator approves, rejects or resolves one of your reports",
+    channels: ["in_app", "push", "email"],
+    defaultChannels: ["in_app"],
+  },
+  pending_report: {
+    label: "Review queue",
+    description: "New and resubmitted reports waiting for review in your neighborhoods",
+    channels: ["in_app", "push", "email", "sms"],
+    defaultChannels: [],
+  },
+};
+
+export const notificationChannelConfig: Record<NotificationChannel, { label: string; description: string }> = {
+  in_app: { label: "In the app", description: "Listed under the bell at the top of the page" },
+  push: { label: "Browser notifications", description: "Shown by your browser, even when the site is closed" },
+  email: { label: "Email", description: "Sent to the address you signed in with" },
+  sms: { label: "Text message", description: "Critical incidents only, sent to your verified phone number" },
+};
+
+export type NotificationPreferences = Record<NotificationKind, NotificationChannel[]>;
+
+// Matches the email_digests.frequency check constraint
+export type DigestFrequency = "daily" | "weekly";
+
+export const WATCH_ZONE_RADIUS_OPTIONS = [250, 500, 1000, 2000, 5000];
+
+export function describeWatchZoneArea(zone: WatchZoneRow, neighborhoodName?: string) {
+  if (zone.neighborhood_id) return `Anywhere in ${neighborhoodName ?? "a neighborhood"}`;
+  return `Within ${formatDistance(zone.radius_meters)} of a point`;
+}
+
+// Where a notification leads when it's opened
+export function notificationLink(notification: Pick<NotificationRow, "kind" | "incident_id">) {
+  if (notification.kind === "report_status") return "/me/reports";
+  if (notification.kind === "pending_report") return "/admin/review";
+  return notification.incident_id ? `/incidents/${notification.incident_id}` : null;
+}
+
+// Every kind, with defaults filled in for the ones the user hasn't saved
+export async function fetchNotificationPreferences(): Promise<NotificationPreferences> {
+  const { data, error } = await supabase.from("notification_preferences").select("kind, channels");
+  if (error) throw error;
+
+  const preferences = Object.fromEntries(
+    Object.entries(notificationKindConfig).map(([kind, config]) => [kind, config.defaultChannels])
+  ) as NotificationPreferences;
+  for (const row of data || []) preferences[row.kind as NotificationKind] = row.channels;
+  return preferences;
+}
+
+export async function saveNotificationPreferences(preferences: Partial<NotificationPreferences>) {
+  const rows = Object.entries(preferences).map(([kind, channels]) => ({ kind, channels }));
+  const { error } = await supabase.from("notification_preferences").upsert(rows);
+  if (error) throw error;
+}
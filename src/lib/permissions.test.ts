@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { primaryRole, scopeFromRows } from "@/lib/permissions";
+
+describe("primaryRole", () => {
+  it("picks the highest role", () => {
+    expect(primaryRole(["user", "moderator"])).toBe("moderator");
+    expect(primaryRole(["moderator", "admin", "user"])).toBe("admin");
+  });
+
+  it("falls back to user without any roles", () => {
+    expect(primaryRole([])).toBe("user");
+  });
+});
+
+describe("scopeFromRows", () => {
+  it("lists the neighborhoods a moderator covers", () => {
+    expect(scopeFromRows([{ neighborhood_id: "n-1" }, { neighborhood_id: "n-2" }])).toEqual(["n-1", "n-2"]);
+  });
+
+  it("treats a scope without a neighborhood as every neighborhood", () => {
+    expect(scopeFromRows([{ neighborhood_id: "n-1" }, { neighborhood_id: null }])).toBeNull();
+  });
+
+  it("gives a moderator without scopes no neighborhoods", () => {
+    expect(scopeFromRows([])).toEqual([]);
+  });
+});
@@ -0,0 +1,36 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+
+// Mirrors the role_permissions table; the database enforces these through RLS
+export type Permission =
+  | "incidents.moderate"
+  | "incidents.delete"
+  | "comments.moderate"
+  | "users.view"
+  | "users.manage"
+  | "neighborhoods.manage"
+  | "rejection_reasons.manage"
+  | "moderation_log.view"
+  | "settings.manage";
+
+export const roleConfig: Record<AppRole, { label: string; variant: "default" | "secondary" | "outline" }> = {
+  admin: { label: "Admin", variant: "default" },
+  moderator: { label: "Moderator", variant: "outline" },
+  user: { label: "User", variant: "secondary" },
+};
+
+// Highest role first, for showing a single role per user
+export const ROLE_ORDER: AppRole[] = ["admin", "moderator", "user"];
+
+export function primaryRole(roles: AppRole[]): AppRole {
+  return ROLE_ORDER.find((role) => roles.includes(role)) ?? "user";
+}
+
+// A moderator's neighborhoods; null means every neighborhood
+export type ModeratorScope = string[] | null;
+
+export function scopeFromRows(rows: { neighborhood_id: string | null }[]): ModeratorScope {
+  if (rows.some((row) => row.neighborhood_id === null)) return null;
+  return rows.map((row) => row.neighborhood_id);
+}
@@ -0,0 +1,71 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Public half of the VAPID key pair the send-push function signs with
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+
+const SERVICE_WORKER_URL = "/sw.js";
+
+export type PushState = "unsupported" | "denied" | "off" | "on";
+
+export function isPushSupported() {
+  return !!VAPID_PUBLIC_KEY && "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+// The key comes base64url encoded; the Push API wants the raw bytes
+function decodeKey(key: string) {
+  const base64 = (key + "=".repeat((4 - (key.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+async function currentSubscription() {
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+export async function getPushState(): Promise<PushState> {
+  if (!isPushSupported()) return "unsupported";
+  if (Notification.permission === "denied") return "denied";
+  return (await currentSubscription()) ? "on" : "off";
+}
+
+// Asks for permission, subscribes this browser and saves it for the signed-in user
+export async function enablePush(): Promise<PushState> {
+  if (!isPushSupported()) return "unsupported";
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") return permission === "denied" ? "denied" : "off";
+
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  await navigator.serviceWorker.ready;
+
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeKey(VAPID_PUBLIC_KEY),
+    }));
+
+  const { endpoint, keys } = subscription.toJSON();
+  const { error } = await supabase.rpc("register_push_subscription", {
+    _endpoint: endpoint,
+    _p256dh: keys.p256dh,
+    _auth: keys.auth,
+    _user_agent: navigator.userAgent,
+  });
+
+  if (error) {
+    await subscription.unsubscribe();
+    throw error;
+  }
+  return "on";
+}
+
+export async function disablePush(): Promise<PushState> {
+  const subscription = await currentSubscription();
+  if (subscription) {
+    const { error } = await supabase.from("push_subscriptions").delete().eq("endpoint", subscription.endpoint);
+    if (error) throw error;
+    await subscription.unsubscribe();
+  }
+  return getPushState();
+}
@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+const optionalEmail = z.string().trim().max(255).email("Enter a valid email address").or(z.literal(""));
+
+// One entry per site_settings key
+export const siteSettingsSchema = z.object({
+  site_name: z.string().trim().min(1, "Site name is required").max(60, "Site name is too long"),
+  support_email: optionalEmail,
+  admin_alert_email: optionalEmail,
+  admin_alert_sms: z
+    .string()
+    .trim()
+    // Texts need the full international number, so the + is required
+    .regex(/^\+[0-9][0-9 ()-]{6,19}$/, "Enter a phone number starting with + and the country code")
+    .or(z.literal("")),
+});
+
+export type SiteSettings = z.infer<typeof siteSettingsSchema>;
+
+export const DEFAULT_SITE_SETTINGS: SiteSettings = {
+  site_name: "SafetyWatch",
+  support_email: "",
+  admin_alert_email: "",
+  admin_alert_sms: "",
+};
+
+// Readable by everyone; the rest only by settings managers
+const PUBLIC_SETTINGS: (keyof SiteSettings)[] = ["site_name", "support_email"];
+
+// Missing or invalid values fall back to the defaults, key by key, so one bad
+// row can't take the whole app down
+export async function fetchSiteSettings(): Promise<SiteSettings> {
+  const { data, error } = await supabase.from("site_settings").select("key, value");
+  if (error) throw error;
+
+  const settings = { ...DEFAULT_SITE_SETTINGS };
+  for (const row of data || []) {
+    const field = siteSettingsSchema.shape[row.key as keyof SiteSettings];
+    const parsed = field?.safeParse(row.value);
+    if (parsed?.success) settings[row.key] = parsed.data;
+  }
+  return settings;
+}
+
+export async function saveSiteSettings(patch: Partial<SiteSettings>) {
+  const rows = Object.entries(patch).map(([key, value]) => ({
+    key,
+    value: value as Json,
+    is_public: PUBLIC_SETTINGS.includes(key as keyof SiteSettings),
+  }));
+
+  const { error } = await supabase.from("site_settings").upsert(rows);
+  if (error) throw error;
+}
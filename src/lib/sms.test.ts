@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { isValidPhoneNumber, normalizePhoneNumber, toTimeInputValue } from "@/lib/sms";
+
+describe("normalizePhoneNumber", () => {
+  it("drops the separators people type", () => {
+    expect(normalizePhoneNumber("+31 (0)6-12.34 56 78")).toBe("+310612345678");
+  });
+});
+
+describe("isValidPhoneNumber", () => {
+  it("accepts numbers with a country code", () => {
+    expect(isValidPhoneNumber("+31612345678")).toBe(true);
+    expect(isValidPhoneNumber("+14155550123")).toBe(true);
+  });
+
+  it("refuses numbers without a country code or of the wrong length", () => {
+    expect(isValidPhoneNumber("0612345678")).toBe(false);
+    expect(isValidPhoneNumber("+0612345678")).toBe(false);
+    expect(isValidPhoneNumber("+1234567")).toBe(false);
+    expect(isValidPhoneNumber("+1234567890123456")).toBe(false);
+  });
+
+  it("refuses numbers that weren't normalized", () => {
+    expect(isValidPhoneNumber("+31 6 12345678")).toBe(false);
+  });
+});
+
+describe("toTimeInputValue", () => {
+  it("trims seconds from database times", () => {
+    expect(toTimeInputValue("22:30:00")).toBe("22:30");
+  });
+
+  it("is empty without a time", () => {
+    expect(toTimeInputValue(null)).toBe("");
+  });
+});
@@ -0,0 +1,38 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type PhoneNumberRow = Tables<"phone_numbers">;
+
+// Requests understood by the sms-verify edge function
+export type SmsVerifyAction = { action: "start"; phone: string } | { action: "confirm"; code: string };
+
+export const VERIFICATION_CODE_LENGTH = 6;
+
+// Drops the spaces, dashes, dots and brackets people type; the number still
+// needs its country code
+export function normalizePhoneNumber(phone: string) {
+  return phone.replace(/[\s\-().]/g, "");
+}
+
+// Same shape as phone_numbers.phone
+export function isValidPhoneNumber(phone: string) {
+  return /^\+[1-9][0-9]{7,14}$/.test(phone);
+}
+
+// Postgres sends times back as "HH:MM:SS"; time inputs want "HH:MM"
+export function toTimeInputValue(time: string | null) {
+  return time ? time.slice(0, 5) : "";
+}
+
+export async function runSmsVerify(request: SmsVerifyAction): Promise<{ error: Error | null }> {
+  const { error } = await supabase.functions.invoke("sms-verify", { body: request });
+  if (!error) return { error: null };
+
+  // Surface the function's own message rather than the generic non-2xx one
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    if (body?.error) return { error: new Error(body.error) };
+  }
+  return { error };
+}
@@ -0,0 +1,27 @@
+let context: AudioContext | null = null;
+
+// A short chime generated with the Web Audio API, so there's no audio file to
+// ship. Browsers keep audio blocked until the user has interacted with the
+// page, and until then this stays silent.
+export function playAlertSound(urgent = false) {
+  try {
+    context ??= new AudioContext();
+    if (context.state === "suspended") context.resume();
+
+    const tones = urgent ? [880, 660, 880, 660] : [660, 880];
+    tones.forEach((frequency, i) => {
+      const start = context.currentTime + i * 0.18;
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.15, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.16);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.16);
+    });
+  } catch {
+    // No Web Audio support
+  }
+}
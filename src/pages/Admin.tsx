@@ -1,5 +1,5 @@
 // src/pages/Admin.tsx
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import {
   Button
@@ -12,6 +12,8 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   Shield,
   Check,
@@ -23,74 +25,164 @@ import {
   Users,
   Settings,
   List,
+  MapPinned,
+  Eye,
+  Flame,
+  CheckCheck,
+  Archive,
+  Copy,
+  ScrollText,
+  MessageSquareX,
+  Undo2,
+  Keyboard,
+  Siren,
+  Volume2,
+  VolumeX,
 } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import { useSiteSettings } from "@/hooks/useSiteSettings";
+import { useNeighborhoods } from "@/hooks/useNeighborhoods";
+import { useIncidentCategories } from "@/hooks/useIncidentCategories";
+import { IncidentChange, useIncidentsRealtime } from "@/hooks/useIncidentsRealtime";
+import AttachmentThumbnails from "@/components/AttachmentThumbnails";
+import { IncidentAttachment, loadIncidentAttachments, removeIncidentMedia } from "@/lib/media";
 import { supabase } from "@/integrations/supabase/client";
+import type { TablesUpdate } from "@/integrations/supabase/types";
+import { useRejectionReasons } from "@/hooks/useRejectionReasons";
+import RejectIncidentDialog, { IncidentRejection } from "@/components/RejectIncidentDialog";
+import RejectionReasonsDialog from "@/components/RejectionReasonsDialog";
+import { updateIncidentStatuses, withModerationReason } from "@/lib/moderation";
+import type { Permission } from "@/lib/permissions";
 import { toast } from "@/hooks/use-toast";
 import { format } from "date-fns";
+import { playAlertSound } from "@/lib/sound";
+import {
+  INCIDENT_STATUS_TRANSITIONS,
+  INCIDENT_SEVERITIES,
+  REPORTER_ONLY_STATUSES,
+  UUID_PATTERN,
+  IncidentSeverity,
+  IncidentStatus,
+  IncidentWithConfidence,
+  formatCoordinates,
+  getConfidenceLevel,
+  getIncidentCoordinates,
+  incidentSeverityConfig,
+  incidentStatusConfig,
+  openStreetMapUrl,
+} from "@/lib/incidents";
+
+const STATUS_TABS: { key: IncidentStatus | "all"; label: string; icon: typeof List }[] = [
+  { key: "all", label: "All", icon: List },
+  { key: "pending", label: "Pending", icon: Clock },
+  { key: "under_review", label: "Under review", icon: Eye },
+  { key: "approved", label: "Approved", icon: Check },
+  { key: "active", label: "Active", icon: Flame },
+  { key: "resolved", label: "Resolved", icon: CheckCheck },
+  { key: "rejected", label: "Rejected", icon: X },
+  { key: "archived", label: "Archived", icon: Archive },
+  { key: "duplicate", label: "Duplicate", icon: Copy },
+  { key: "withdrawn", label: "Withdrawn", icon: Undo2 },
+];
 
-type IncidentRow = {
-  id: string;
-  user_id: string;
-  title: string;
-  description: string;
-  location: string;
-  type: string;
-  status: "pending" | "approved" | "rejected";
-  created_at: string | null;
-  updated_at: string | null;
+const STATUS_ACTION_ICONS: Partial<Record<IncidentStatus, typeof List>> = {
+  under_review: Eye,
+  approved: Check,
+  active: Flame,
+  resolved: CheckCheck,
+  rejected: X,
+  archived: Archive,
+  duplicate: Copy,
 };
 
-const STATUS_TABS = [
-  { key: "all", label: "All" },
-  { key: "pending", label: "Pending" },
-  { key: "approved", label: "Approved" },
-  { key: "rejected", label: "Rejected" },
+const SOUND_STORAGE_KEY = "admin-alert-sound";
+
+// Admin Tools entries; moderators usually only have the user list
+const ADMIN_TOOL_PERMISSIONS: Permission[] = [
+  "users.view",
+  "neighborhoods.manage",
+  "moderation_log.view",
+  "rejection_reasons.manage",
+  "settings.manage",
 ];
 
-const typeColors: Record<string, string> = {
-  theft: "bg-destructive text-destructive-foreground",
-  vandalism: "bg-amber-500 text-white",
-  suspicious: "bg-yellow-500 text-black",
-  assault: "bg-red-700 text-white",
-  noise: "bg-violet-600 text-white",
-  emergency: "bg-red-600 text-white",
-  road_hazard: "bg-sky-600 text-white",
-  other: "bg-muted text-muted-foreground",
-};
+const SORT_OPTIONS = [
+  { key: "newest", label: "Newest" },
+  { key: "oldest", label: "Oldest" },
+  { key: "confidence", label: "Confidence" },
+];
 
 export default function Admin() {
   const navigate = useNavigate();
-  const { user, isAdmin, isLoading } = useAuth();
-
-  const [incidents, setIncidents] = useState<IncidentRow[]>([]);
+  const { user, can, isAdmin, moderatorScope, isLoading } = useAuth();
+  const { settings } = useSiteSettings();
+  const { getCategory } = useIncidentCategories();
+  const canModerate = can("incidents.moderate");
+  const canDelete = can("incidents.delete");
+  const hasAdminTools = ADMIN_TOOL_PERMISSIONS.some(can);
+
+  const [incidents, setIncidents] = useState<IncidentWithConfidence[]>([]);
+  const [attachments, setAttachments] = useState(new Map<string, IncidentAttachment[]>());
   const [loading, setLoading] = useState(true);
 
-  const [statusFilter, setStatusFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState<IncidentStatus | "all">("all");
   const [search, setSearch] = useState("");
   const [page, setPage] = useState(1);
   const [perPage] = useState(8);
   const [totalCount, setTotalCount] = useState(0);
-  const [sortDesc, setSortDesc] = useState(true);
-
-  useEffect(() => {
-    if (!isLoading && (!user || !isAdmin)) navigate("/");
-  }, [user, isAdmin, isLoading]);
+  const [sortBy, setSortBy] = useState("newest");
+  const [neighborhoodFilter, setNeighborhoodFilter] = useState("all");
+  const [stats, setStats] = useState({
+    pending: 0,
+    under_review: 0,
+    approved: 0,
+    active: 0,
+    resolved: 0,
+    rejected: 0,
+    total: 0,
+    urgent: 0,
+  });
+
+  const [selected, setSelected] = useState(new Set<string>());
+  const [rejecting, setRejecting] = useState<IncidentWithConfidence[] | null>(null);
+  const [showReasons, setShowReasons] = useState(false);
+  const [soundOn, setSoundOn] = useState(() => localStorage.getItem(SOUND_STORAGE_KEY) !== "off");
+
+  const refreshTimer = useRef<ReturnType<typeof setTimeout>>();
+  // Only the latest fetch of each kind is shown, so a slow response for an
+  // earlier filter or page can't replace a newer one
+  const incidentsRequest = useRef(0);
+  const statsRequest = useRef(0);
+  // Reports already announced, so a change delivered twice only alerts once
+  const announced = useRef(new Set<string>());
+
+  const { neighborhoods } = useNeighborhoods();
+  const { reasons: rejectionReasons } = useRejectionReasons({ includeInactive: true });
+  const neighborhoodNames = new Map(neighborhoods.map((n) => [n.id, n.name]));
+  const scopedNeighborhoods =
+    moderatorScope === null ? neighborhoods : neighborhoods.filter((n) => moderatorScope.includes(n.id));
 
   useEffect(() => {
-    if (isAdmin) fetchIncidents();
-  }, [statusFilter, page, search, sortDesc]);
+    if (!isLoading && (!user || !canModerate)) navigate("/");
+  }, [user, canModerate, isLoading, navigate]);
 
-  async function fetchIncidents() {
-    setLoading(true);
+  // Live refreshes keep the current list on screen instead of the loading state
+  const fetchIncidents = useCallback(async (background = false) => {
+    const request = ++incidentsRequest.current;
+    if (!background) setLoading(true);
 
     const query = supabase
-      .from("incidents")
+      .from("incidents_with_confidence")
       .select("*", { count: "exact" })
-      .order("created_at", { ascending: !sortDesc })
       .range((page - 1) * perPage, page * perPage - 1);
 
+    // Critical reports awaiting a decision come first whatever the sort
+    query.order("is_urgent", { ascending: false });
+    if (sortBy === "confidence") query.order("confidence_score", { ascending: false });
+    query.order("created_at", { ascending: sortBy === "oldest" });
+
     if (statusFilter !== "all") query.eq("status", statusFilter);
+    if (neighborhoodFilter !== "all") query.eq("neighborhood_id", neighborhoodFilter);
 
     if (search.trim()) {
       const q = `%${search.trim()}%`;
@@ -98,6 +190,7 @@ export default function Admin() {
     }
 
     const { data, count, error } = await query;
+    if (request !== incidentsRequest.current) return;
 
     if (error) {
       toast({
@@ -108,44 +201,187 @@ export default function Admin() {
     } else {
       setIncidents(data || []);
       setTotalCount(count || 0);
+      // Live refreshes shouldn't drop a selection the moderator is working on
+      const ids = new Set((data || []).map((i) => i.id));
+      setSelected((prev) => new Set([...prev].filter((id) => ids.has(id))));
+      const loaded = await loadIncidentAttachments((data || []).map((i) => i.id));
+      if (request !== incidentsRequest.current) return;
+      setAttachments(loaded);
     }
 
     setLoading(false);
+  }, [statusFilter, page, perPage, search, sortBy, neighborhoodFilter]);
+
+  // Counts across every page, scoped to the selected neighborhood
+  const fetchStats = useCallback(async () => {
+    const request = ++statsRequest.current;
+    const countWhere = (status?: IncidentStatus) => {
+      const query = supabase.from("incidents").select("id", { count: "exact", head: true });
+      if (status) query.eq("status", status);
+      if (neighborhoodFilter !== "all") query.eq("neighborhood_id", neighborhoodFilter);
+      return query;
+    };
+
+    const [pending, underReview, approved, active, resolved, rejected, total, urgent] = await Promise.all([
+      countWhere("pending"),
+      countWhere("under_review"),
+      countWhere("approved"),
+      countWhere("active"),
+      countWhere("resolved"),
+      countWhere("rejected"),
+      countWhere(),
+      countWhere().eq("severity", "critical").in("status", ["pending", "under_review"]),
+    ]);
+    if (request !== statsRequest.current) return;
+
+    setStats({
+      pending: pending.count || 0,
+      under_review: underReview.count || 0,
+      approved: approved.count || 0,
+      active: active.count || 0,
+      resolved: resolved.count || 0,
+      rejected: rejected.count || 0,
+      total: total.count || 0,
+      urgent: urgent.count || 0,
+    });
+  }, [neighborhoodFilter]);
+
+  useEffect(() => {
+    if (canModerate) fetchIncidents();
+  }, [canModerate, fetchIncidents]);
+
+  useEffect(() => {
+    if (canModerate) fetchStats();
+  }, [canModerate, fetchStats]);
+
+  // Bulk actions arrive as one change per row, so batch the refetch
+  function scheduleRefresh() {
+    clearTimeout(refreshTimer.current);
+    refreshTimer.current = setTimeout(() => {
+      fetchIncidents(true);
+      fetchStats();
+    }, 500);
   }
 
-  const stats = useMemo(() => {
-    return {
-      pending: incidents.filter((i) => i.status === "pending").length,
-      approved: incidents.filter((i) => i.status === "approved").length,
-      rejected: incidents.filter((i) => i.status === "rejected").length,
-      total: totalCount,
-    };
-  }, [incidents, totalCount]);
+  useEffect(() => () => clearTimeout(refreshTimer.current), []);
+
+  // New reports, and rejected ones sent back for review
+  function announceIncident(change: IncidentChange) {
+    if (change.eventType === "DELETE" || change.new.status !== "pending") return;
+    if (change.eventType === "UPDATE" && change.old.status === "pending") return;
+
+    const key = `${change.new.id}:${change.new.updated_at}`;
+    if (announced.current.has(key)) return;
+    announced.current.add(key);
+
+    const critical = change.new.severity === "critical";
+    toast({
+      title: critical ? "Critical report" : "New report",
+      description: change.new.title,
+      variant: critical ? "destructive" : "default",
+    });
+    if (soundOn) playAlertSound(critical);
+  }
+
+  useIncidentsRealtime({
+    enabled: canModerate,
+    onChange: (change) => {
+      announceIncident(change);
+      scheduleRefresh();
+    },
+    onReconnect: scheduleRefresh,
+  });
+
+  function toggleSound() {
+    const next = !soundOn;
+    setSoundOn(next);
+    localStorage.setItem(SOUND_STORAGE_KEY, next ? "on" : "off");
+    if (next) playAlertSound();
+  }
+
+  async function updateIncidentSeverity(id: string, severity: IncidentSeverity) {
+    const { error } = await supabase.from("incidents").update({ severity }).eq("id", id);
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to change severity", variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Success", description: `Severity set to ${incidentSeverityConfig[severity].label.toLowerCase()}` });
+    fetchIncidents();
+    fetchStats();
+  }
 
-  async function updateIncidentStatus(id: string, newStatus: "approved" | "rejected") {
-    if (!confirm(`Are you sure to ${newStatus} this report?`)) return;
+  async function updateIncidentStatus(id: string, newStatus: IncidentStatus) {
+    const label = incidentStatusConfig[newStatus].label.toLowerCase();
+    let duplicateOf: string | null = null;
+    let reason: string | null = null;
 
-    const { error } = await supabase
-      .from("incidents")
-      .update({ status: newStatus })
-      .eq("id", id);
+    if (newStatus === "rejected") {
+      setRejecting(incidents.filter((inc) => inc.id === id));
+      return;
+    }
+
+    if (newStatus === "duplicate") {
+      const original = prompt("Paste the link or ID of the original incident");
+      if (original === null) return;
+
+      duplicateOf = original.match(UUID_PATTERN)?.[0] ?? null;
+      if (!duplicateOf || duplicateOf === id) {
+        toast({
+          title: "Error",
+          description: "That doesn't look like another incident's link or ID",
+          variant: "destructive",
+        });
+        return;
+      }
+    } else {
+      reason = prompt(`Mark this report as ${label}? Add a reason for the moderation log (optional).`);
+      if (reason === null) return;
+    }
+
+    return saveIncidentStatus([id], { status: newStatus, duplicate_of: duplicateOf }, reason);
+  }
+
+  async function rejectIncidents({ reasonId, note }: IncidentRejection) {
+    const reasonLabel = rejectionReasons.find((r) => r.id === reasonId)?.label;
+
+    return saveIncidentStatus(
+      rejecting.map((inc) => inc.id),
+      { status: "rejected", rejection_reason_id: reasonId, rejection_note: note || null },
+      [reasonLabel, note].filter(Boolean).join(": ")
+    );
+  }
+
+  async function saveIncidentStatus(ids: string[], values: TablesUpdate<"incidents">, reason: string | null) {
+    const label = incidentStatusConfig[values.status].label.toLowerCase();
+    const subject = ids.length === 1 ? "Incident" : `${ids.length} incidents`;
+    const { error } = await updateIncidentStatuses(ids, values, reason);
 
     if (error) {
       toast({
         title: "Error",
-        description: `Could not ${newStatus} incident`,
+        description: `Could not mark ${subject.toLowerCase()} as ${label}`,
         variant: "destructive",
       });
-    } else {
-      toast({ title: "Success", description: `Incident ${newStatus}` });
-      fetchIncidents();
+      return false;
     }
+
+    toast({ title: "Success", description: `${subject} marked as ${label}` });
+    fetchIncidents();
+    fetchStats();
+    return true;
   }
 
-  async function deleteIncident(id: string) {
-    if (!confirm("Delete this incident permanently?")) return;
+  async function deleteIncidents(ids: string[]) {
+    const subject = ids.length === 1 ? "this incident" : `${ids.length} incidents`;
+    const reason = prompt(`Delete ${subject} permanently? Add a reason for the moderation log (optional).`);
+    if (reason === null) return;
 
-    const { error } = await supabase.from("incidents").delete().eq("id", id);
+    const { data: deleted, error } = await withModerationReason(
+      supabase.from("incidents").delete().in("id", ids).select("id"),
+      reason
+    );
 
     if (error) {
       toast({
@@ -153,13 +389,64 @@ export default function Admin() {
         description: "Failed to delete",
         variant: "destructive",
       });
-    } else {
-      toast({ title: "Deleted", description: "Incident removed" });
-      fetchIncidents();
+      return;
+    }
+
+    // Only once the rows are gone, so a failed delete keeps its evidence
+    await Promise.all(deleted.map(({ id }) => removeIncidentMedia(id)));
+
+    toast({
+      title: "Deleted",
+      description: deleted.length === 1 ? "Incident removed" : `${deleted.length} incidents removed`,
+    });
+    fetchIncidents();
+    fetchStats();
+  }
+
+  function toggleSelected(id: string, checked: boolean) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  }
+
+  // Selected incidents that can move to `status`, so one row in the wrong
+  // state doesn't make the database reject the whole batch
+  function selectedAllowing(status: IncidentStatus) {
+    const allowed = incidents.filter(
+      (inc) => selected.has(inc.id) && INCIDENT_STATUS_TRANSITIONS[inc.status]?.includes(status)
+    );
+
+    if (allowed.length < selected.size) {
+      toast({
+        title: `${selected.size - allowed.length} skipped`,
+        description: `Only incidents that can be marked as ${incidentStatusConfig[status].label.toLowerCase()} are included.`,
+      });
     }
+    return allowed;
+  }
+
+  function bulkApprove() {
+    const targets = selectedAllowing("approved");
+    if (targets.length === 0) return;
+
+    const reason = prompt(
+      `Approve ${targets.length} incident${targets.length === 1 ? "" : "s"}? Add a reason for the moderation log (optional).`
+    );
+    if (reason === null) return;
+
+    saveIncidentStatus(targets.map((inc) => inc.id), { status: "approved" }, reason);
+  }
+
+  function bulkReject() {
+    const targets = selectedAllowing("rejected");
+    if (targets.length > 0) setRejecting(targets);
   }
 
   const totalPages = Math.ceil(totalCount / perPage);
+  const allSelected = incidents.length > 0 && incidents.every((inc) => selected.has(inc.id));
 
   return (
     <div className="min-h-screen flex bg-background overflow-hidden">
@@ -168,8 +455,8 @@ export default function Admin() {
         <div className="flex items-center gap-3 mb-6">
           <Shield className="h-8 w-8 text-primary" />
           <div>
-            <div className="font-bold text-lg">SafetyWatch</div>
-            <div className="text-sm text-muted-foreground">Admin Panel</div>
+            <div className="font-bold text-lg">{settings.site_name}</div>
+            <div className="text-sm text-muted-foreground">{isAdmin ? "Admin Panel" : "Moderation"}</div>
           </div>
         </div>
 
@@ -185,10 +472,7 @@ export default function Admin() {
                     setPage(1);
                   }}
                 >
-                  {tab.key === "all" && <List className="h-4 w-4" />}
-                  {tab.key === "pending" && <Clock className="h-4 w-4" />}
-                  {tab.key === "approved" && <Check className="h-4 w-4" />}
-                  {tab.key === "rejected" && <X className="h-4 w-4" />}
+                  <tab.icon className="h-4 w-4" />
                   {tab.label}
                 </Button>
               </li>
@@ -210,6 +494,18 @@ export default function Admin() {
               <ArrowLeft className="h-5 w-5" />
             </Button>
             <h1 className="text-2xl font-bold">Incident Management</h1>
+            <Button variant="outline" size="sm" onClick={() => navigate("/admin/review")}>
+              <Keyboard className="h-4 w-4 mr-1" /> Review mode
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={toggleSound}
+              aria-label={soundOn ? "Mute new report alerts" : "Play a sound for new reports"}
+              title={soundOn ? "Mute new report alerts" : "Play a sound for new reports"}
+            >
+              {soundOn ? <Volume2 className="h-5 w-5" /> : <VolumeX className="h-5 w-5" />}
+            </Button>
           </div>
 
           <div className="flex items-center gap-3">
@@ -222,9 +518,43 @@ export default function Admin() {
               }}
               className="max-w-md"
             />
-            <Button onClick={() => setSortDesc(!sortDesc)}>
-              {sortDesc ? "Newest" : "Oldest"}
-            </Button>
+            <Select
+              value={neighborhoodFilter}
+              onValueChange={(value) => {
+                setNeighborhoodFilter(value);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="All neighborhoods" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All neighborhoods</SelectItem>
+                {scopedNeighborhoods.map((n) => (
+                  <SelectItem key={n.id} value={n.id}>
+                    {n.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={sortBy}
+              onValueChange={(value) => {
+                setSortBy(value);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map((o) => (
+                  <SelectItem key={o.key} value={o.key}>
+                    {o.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
         </div>
 
@@ -252,6 +582,50 @@ export default function Admin() {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* INCIDENT LIST */}
           <section className="lg:col-span-2 space-y-4">
+            {stats.urgent > 0 && (
+              <div className="flex items-center gap-3 rounded-lg border border-destructive bg-destructive/10 px-4 py-3 text-destructive">
+                <Siren className="h-5 w-5 animate-pulse" />
+                <span className="font-medium">
+                  {stats.urgent} critical report{stats.urgent === 1 ? "" : "s"} awaiting review
+                </span>
+                <Button size="sm" variant="destructive" className="ml-auto" onClick={() => navigate("/admin/review")}>
+                  Review now
+                </Button>
+              </div>
+            )}
+
+            {/* BULK ACTIONS */}
+            {!loading && incidents.length > 0 && (
+              <div className="flex items-center gap-3 flex-wrap rounded-lg border border-border px-4 py-2">
+                <Checkbox
+                  checked={allSelected ? true : selected.size > 0 ? "indeterminate" : false}
+                  onCheckedChange={(checked) =>
+                    setSelected(checked === true ? new Set(incidents.map((inc) => inc.id)) : new Set())
+                  }
+                  aria-label="Select all on this page"
+                />
+                <span className="text-sm text-muted-foreground">
+                  {selected.size > 0 ? `${selected.size} selected` : "Select all on this page"}
+                </span>
+
+                {selected.size > 0 && (
+                  <div className="ml-auto flex items-center gap-2">
+                    <Button size="sm" onClick={bulkApprove}>
+                      <Check className="h-4 w-4 mr-1" /> Approve
+                    </Button>
+                    <Button size="sm" variant="destructive" onClick={bulkReject}>
+                      <X className="h-4 w-4 mr-1" /> Reject
+                    </Button>
+                    {canDelete && (
+                      <Button size="sm" variant="outline" onClick={() => deleteIncidents([...selected])}>
+                        <Trash2 className="h-4 w-4 mr-1" /> Delete
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
             {loading ? (
               <div className="p-8 border rounded-lg text-center">Loading...</div>
             ) : incidents.length === 0 ? (
@@ -259,26 +633,45 @@ export default function Admin() {
                 No incidents found
               </div>
             ) : (
-              incidents.map((inc) => (
-                <Card key={inc.id} className="relative">
+              incidents.map((inc) => {
+                const coordinates = getIncidentCoordinates(inc);
+                const confidence = getConfidenceLevel(inc.confidence_score);
+
+                return (
+                <Card key={inc.id} className={`relative ${inc.is_urgent ? "border-destructive ring-2 ring-destructive/30" : ""}`}>
                   <CardContent className="flex flex-col md:flex-row gap-4">
                     <div className="flex-1">
                       <div className="flex items-center gap-3 mb-2">
-                        <Badge className={typeColors[inc.type] || typeColors.other}>
-                          {inc.type.replace("_", " ")}
+                        <Checkbox
+                          checked={selected.has(inc.id)}
+                          onCheckedChange={(checked) => toggleSelected(inc.id, checked === true)}
+                          aria-label={`Select ${inc.title}`}
+                        />
+                        <Badge className="text-white" style={{ backgroundColor: getCategory(inc.type).color }}>
+                          {getCategory(inc.type).label}
                         </Badge>
                         <Badge
-                          variant={
-                            inc.status === "approved"
-                              ? "default"
-                              : inc.status === "rejected"
-                              ? "destructive"
-                              : "secondary"
-                          }
+                          className={`${incidentSeverityConfig[inc.severity].className} ${inc.is_urgent ? "animate-pulse" : ""}`}
                         >
-                          {inc.status}
+                          {incidentSeverityConfig[inc.severity].label}
+                        </Badge>
+                        <Badge variant={incidentStatusConfig[inc.status]?.variant ?? "secondary"}>
+                          {incidentStatusConfig[inc.status]?.label ?? inc.status}
                         </Badge>
 
+                        <Badge
+                          className={confidence.className}
+                          title={`${inc.confirmation_count} confirmations · reporter ${inc.reporter_approved_count} approved / ${inc.reporter_rejected_count} rejected · ${inc.nearby_count} nearby reports`}
+                        >
+                          {confidence.label} · {inc.confidence_score}
+                        </Badge>
+
+                        {inc.neighborhood_id && neighborhoodNames.has(inc.neighborhood_id) && (
+                          <Badge variant="outline">
+                            {neighborhoodNames.get(inc.neighborhood_id)}
+                          </Badge>
+                        )}
+
                         <div className="ml-auto text-xs text-muted-foreground">
                           {inc.created_at
                             ? format(new Date(inc.created_at), "PPp")
@@ -292,43 +685,89 @@ export default function Admin() {
                       </p>
                       <p className="text-xs text-muted-foreground mt-2">
                         {inc.location}
+                        {coordinates && (
+                          <>
+                            {" · "}
+                            <a
+                              href={openStreetMapUrl(coordinates)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="underline hover:text-primary"
+                            >
+                              {formatCoordinates(coordinates)}
+                            </a>
+                            {coordinates.accuracy && ` (±${Math.round(coordinates.accuracy)} m)`}
+                          </>
+                        )}
                       </p>
+                      {inc.status === "rejected" && (inc.rejection_reason_id || inc.rejection_note) && (
+                        <p className="text-xs text-destructive mt-2">
+                          Rejected:{" "}
+                          {[
+                            rejectionReasons.find((r) => r.id === inc.rejection_reason_id)?.label,
+                            inc.rejection_note,
+                          ]
+                            .filter(Boolean)
+                            .join(" — ")}
+                        </p>
+                      )}
+                      {attachments.has(inc.id) && (
+                        <AttachmentThumbnails
+                          attachments={attachments.get(inc.id)}
+                          max={6}
+                          className="mt-3"
+                        />
+                      )}
                     </div>
 
                     <div className="flex flex-col items-end gap-2">
-                      {inc.status === "pending" && (
-                        <>
-                          <Button
-                            size="sm"
-                            onClick={() =>
-                              updateIncidentStatus(inc.id, "approved")
-                            }
-                          >
-                            <Check className="h-4 w-4 mr-1" /> Approve
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant="destructive"
-                            onClick={() =>
-                              updateIncidentStatus(inc.id, "rejected")
-                            }
-                          >
-                            <X className="h-4 w-4 mr-1" /> Reject
-                          </Button>
-                        </>
-                      )}
-
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => deleteIncident(inc.id)}
+                      <Select
+                        value={inc.severity}
+                        onValueChange={(severity) => updateIncidentSeverity(inc.id, severity as IncidentSeverity)}
                       >
-                        <Trash2 className="h-4 w-4 mr-1" /> Delete
-                      </Button>
+                        <SelectTrigger className="h-9 w-36" aria-label="Severity">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {INCIDENT_SEVERITIES.map((severity) => (
+                            <SelectItem key={severity} value={severity}>
+                              {incidentSeverityConfig[severity].label} severity
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+
+                      {(INCIDENT_STATUS_TRANSITIONS[inc.status] ?? [])
+                        .filter((next) => !REPORTER_ONLY_STATUSES.includes(next))
+                        .map((next) => {
+                          const Icon = STATUS_ACTION_ICONS[next] ?? Clock;
+
+                          return (
+                            <Button
+                              key={next}
+                              size="sm"
+                              variant={next === "rejected" ? "destructive" : next === "approved" ? "default" : "secondary"}
+                              onClick={() => updateIncidentStatus(inc.id, next)}
+                            >
+                              <Icon className="h-4 w-4 mr-1" /> {incidentStatusConfig[next].action}
+                            </Button>
+                          );
+                        })}
+
+                      {canDelete && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => deleteIncidents([inc.id])}
+                        >
+                          <Trash2 className="h-4 w-4 mr-1" /> Delete
+                        </Button>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
-              ))
+                );
+              })
             )}
 
             {/* PAGINATION */}
@@ -354,27 +793,63 @@ export default function Admin() {
           {/* RIGHT SIDEBAR */}
           <aside className="space-y-4 relative z-10 pointer-events-auto">
             {/* Quick Actions Card */}
-            <Card className="pointer-events-auto">
-              <CardHeader>
-                <CardTitle>Admin Tools</CardTitle>
-              </CardHeader>
-              <CardContent className="flex flex-col gap-2">
-                <Button
-                  className="pointer-events-auto"
-                  onClick={() => navigate("/users")}
-                >
-                  <Users className="mr-2 h-4 w-4" /> Manage Users
-                </Button>
-
-                <Button
-                  className="pointer-events-auto"
-                  variant="outline"
-                  onClick={() => navigate("/settings")}
-                >
-                  <Settings className="mr-2 h-4 w-4" /> Settings
-                </Button>
-              </CardContent>
-            </Card>
+            {hasAdminTools && (
+              <Card className="pointer-events-auto">
+                <CardHeader>
+                  <CardTitle>Admin Tools</CardTitle>
+                </CardHeader>
+                <CardContent className="flex flex-col gap-2">
+                  {can("users.view") && (
+                    <Button
+                      className="pointer-events-auto"
+                      onClick={() => navigate("/users")}
+                    >
+                      <Users className="mr-2 h-4 w-4" /> {can("users.manage") ? "Manage Users" : "Users"}
+                    </Button>
+                  )}
+
+                  {can("neighborhoods.manage") && (
+                    <Button
+                      className="pointer-events-auto"
+                      variant="outline"
+                      onClick={() => navigate("/admin/neighborhoods")}
+                    >
+                      <MapPinned className="mr-2 h-4 w-4" /> Neighborhoods
+                    </Button>
+                  )}
+
+                  {can("moderation_log.view") && (
+                    <Button
+                      className="pointer-events-auto"
+                      variant="outline"
+                      onClick={() => navigate("/admin/moderation-log")}
+                    >
+                      <ScrollText className="mr-2 h-4 w-4" /> Moderation Log
+                    </Button>
+                  )}
+
+                  {can("rejection_reasons.manage") && (
+                    <Button
+                      className="pointer-events-auto"
+                      variant="outline"
+                      onClick={() => setShowReasons(true)}
+                    >
+                      <MessageSquareX className="mr-2 h-4 w-4" /> Rejection Reasons
+                    </Button>
+                  )}
+
+                  {can("settings.manage") && (
+                    <Button
+                      className="pointer-events-auto"
+                      variant="outline"
+                      onClick={() => navigate("/settings")}
+                    >
+                      <Settings className="mr-2 h-4 w-4" /> Settings
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            )}
 
             {/* Stats */}
             <Card>
@@ -387,10 +862,22 @@ export default function Admin() {
                     <p className="text-muted-foreground text-sm">Pending</p>
                     <p className="text-xl font-semibold text-amber-500">{stats.pending}</p>
                   </div>
+                  <div>
+                    <p className="text-muted-foreground text-sm">Under review</p>
+                    <p className="text-xl font-semibold text-amber-500">{stats.under_review}</p>
+                  </div>
                   <div>
                     <p className="text-muted-foreground text-sm">Approved</p>
                     <p className="text-xl font-semibold text-green-500">{stats.approved}</p>
                   </div>
+                  <div>
+                    <p className="text-muted-foreground text-sm">Active</p>
+                    <p className="text-xl font-semibold text-red-500">{stats.active}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground text-sm">Resolved</p>
+                    <p className="text-xl font-semibold text-green-700">{stats.resolved}</p>
+                  </div>
                   <div>
                     <p className="text-muted-foreground text-sm">Rejected</p>
                     <p className="text-xl font-semibold text-destructive">{stats.rejected}</p>
@@ -405,6 +892,15 @@ export default function Admin() {
           </aside>
         </div>
       </main>
+
+      <RejectIncidentDialog
+        open={rejecting !== null}
+        onOpenChange={(open) => !open && setRejecting(null)}
+        incidentTitle={rejecting?.[0]?.title}
+        count={rejecting?.length}
+        onReject={rejectIncidents}
+      />
+      <RejectionReasonsDialog open={showReasons} onOpenChange={setShowReasons} />
     </div>
   );
 }
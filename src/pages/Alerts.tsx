@@ -0,0 +1,273 @@
+// src/pages/Alerts.tsx
+
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import EmailDigestCard from "@/components/EmailDigestCard";
+import PhoneNumberCard from "@/components/PhoneNumberCard";
+import WatchZoneDialog from "@/components/WatchZoneDialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useIncidentCategories } from "@/hooks/useIncidentCategories";
+import { useNeighborhoods } from "@/hooks/useNeighborhoods";
+import { usePhoneNumber } from "@/hooks/usePhoneNumber";
+import { usePushNotifications } from "@/hooks/usePushNotifications";
+import { useWatchZones } from "@/hooks/useWatchZones";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { incidentSeverityConfig } from "@/lib/incidents";
+import {
+  NotificationChannel,
+  NotificationKind,
+  NotificationPreferences,
+  WatchZoneRow,
+  describeWatchZoneArea,
+  fetchNotificationPreferences,
+  notificationChannelConfig,
+  notificationKindConfig,
+  saveNotificationPreferences,
+} from "@/lib/notifications";
+import { ArrowLeft, BellRing, MapPin, Pencil, Plus, Send, Trash2 } from "lucide-react";
+
+const pushStateText = {
+  unsupported: "This browser can't show notifications from the site.",
+  denied: "Notifications are blocked for this site. Allow them in your browser's site settings.",
+  off: "Browser notifications are off on this device.",
+  on: "Browser notifications are on for this device.",
+};
+
+export default function AlertsPage() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user, can, isLoading } = useAuth();
+  const { zones, loading, refetch } = useWatchZones();
+  const { neighborhoods } = useNeighborhoods();
+  const { getCategory } = useIncidentCategories();
+
+  const [editing, setEditing] = useState<WatchZoneRow | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const preferencesKey = ["notification_preferences", user?.id];
+  const { data: savedPreferences } = useQuery({
+    queryKey: preferencesKey,
+    enabled: !!user,
+    queryFn: fetchNotificationPreferences,
+  });
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [savingPreferences, setSavingPreferences] = useState(false);
+  const push = usePushNotifications();
+  const { phoneNumber } = usePhoneNumber();
+
+  // Review queue alerts only make sense for moderators
+  const kinds = (Object.keys(notificationKindConfig) as NotificationKind[]).filter(
+    (kind) => kind !== "pending_report" || can("incidents.moderate")
+  );
+
+  const neighborhoodNames = new Map(neighborhoods.map((n) => [n.id, n.name]));
+
+  useEffect(() => {
+    if (!isLoading && !user) navigate("/auth");
+  }, [user, isLoading, navigate]);
+
+  useEffect(() => {
+    if (savedPreferences) setPreferences(savedPreferences);
+  }, [savedPreferences]);
+
+  const openDialog = (zone: WatchZoneRow | null) => {
+    setEditing(zone);
+    setDialogOpen(true);
+  };
+
+  async function setZoneActive(zone: WatchZoneRow, is_active: boolean) {
+    const { error } = await supabase.from("watch_zones").update({ is_active }).eq("id", zone.id);
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to update watch zone", variant: "destructive" });
+      return;
+    }
+    refetch();
+  }
+
+  async function deleteZone(zone: WatchZoneRow) {
+    if (!confirm(`Delete the "${zone.name}" watch zone?`)) return;
+
+    const { error } = await supabase.from("watch_zones").delete().eq("id", zone.id);
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to delete watch zone", variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Watch zone deleted" });
+    refetch();
+  }
+
+  const toggleChannel = (kind: NotificationKind, channel: NotificationChannel, checked: boolean) =>
+    setPreferences((prev) => ({
+      ...prev,
+      [kind]: checked ? [...prev[kind], channel] : prev[kind].filter((c) => c !== channel),
+    }));
+
+  async function savePreferences() {
+    setSavingPreferences(true);
+    try {
+      await saveNotificationPreferences(Object.fromEntries(kinds.map((kind) => [kind, preferences[kind]])));
+      queryClient.setQueryData(preferencesKey, preferences);
+      toast({ title: "Alert preferences saved" });
+    } catch {
+      toast({ title: "Error", description: "Failed to save alert preferences", variant: "destructive" });
+    }
+    setSavingPreferences(false);
+  }
+
+  return (
+    <div className="min-h-screen p-6 bg-background">
+      {/* HEADER */}
+      <div className="flex items-center gap-2 mb-6">
+        <Button variant="ghost" size="icon" onClick={() => navigate("/")}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <BellRing className="h-6 w-6 text-primary" />
+        <h1 className="text-2xl font-bold">Alerts</h1>
+      </div>
+
+      <div className="max-w-3xl space-y-6">
+        {/* WATCH ZONES */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <MapPin className="h-5 w-5 text-primary" /> Watch Zones
+                </CardTitle>
+                <CardDescription>
+                  Places you want to hear about, like your home, a school or your shop.
+                </CardDescription>
+              </div>
+              <Button size="sm" onClick={() => openDialog(null)}>
+                <Plus className="mr-1 h-4 w-4" /> Add zone
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {loading ? (
+              <div className="text-center py-6">Loading...</div>
+            ) : zones.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                You don't have any watch zones yet. Add one to be notified when incidents near it are approved.
+              </p>
+            ) : (
+              zones.map((zone) => (
+                <div key={zone.id} className="flex items-start gap-3 rounded-lg border border-border p-3">
+                  <Switch
+                    checked={zone.is_active}
+                    onCheckedChange={(checked) => setZoneActive(zone, checked)}
+                    className="mt-1"
+                    aria-label="Alerts on"
+                  />
+                  <div className="flex-1 space-y-1">
+                    <p className="font-medium">{zone.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {describeWatchZoneArea(zone, neighborhoodNames.get(zone.neighborhood_id))}
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {zone.categories.length === 0 ? (
+                        <Badge variant="outline">All categories</Badge>
+                      ) : (
+                        zone.categories.map((id) => (
+                          <Badge key={id} variant="outline">
+                            {getCategory(id).label}
+                          </Badge>
+                        ))
+                      )}
+                      {zone.min_severity !== "low" && (
+                        <Badge className={incidentSeverityConfig[zone.min_severity].className}>
+                          {incidentSeverityConfig[zone.min_severity].label}
+                          {zone.min_severity === "critical" ? " only" : " and above"}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                  <Button size="icon" variant="ghost" onClick={() => openDialog(zone)} aria-label="Edit">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" onClick={() => deleteZone(zone)} aria-label="Delete">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {/* DELIVERY */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Send className="h-5 w-5 text-primary" /> How to Reach You
+            </CardTitle>
+            <CardDescription>Where each kind of alert is sent. Untick a row to turn that kind off.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between gap-3 rounded-lg border border-border p-3">
+              <p className="text-sm text-muted-foreground">{pushStateText[push.state]}</p>
+              {push.state === "off" && (
+                <Button size="sm" variant="outline" onClick={push.enable} disabled={push.busy}>
+                  Turn on
+                </Button>
+              )}
+              {push.state === "on" && (
+                <Button size="sm" variant="outline" onClick={push.disable} disabled={push.busy}>
+                  Turn off
+                </Button>
+              )}
+            </div>
+
+            {preferences &&
+              kinds.map((kind) => (
+                <div key={kind} className="space-y-2">
+                  <div>
+                    <p className="text-sm font-medium">{notificationKindConfig[kind].label}</p>
+                    <p className="text-sm text-muted-foreground">{notificationKindConfig[kind].description}</p>
+                  </div>
+                  <div className="flex flex-wrap gap-4">
+                    {notificationKindConfig[kind].channels.map((channel) => (
+                      <label
+                        key={channel}
+                        className="flex items-center gap-2 text-sm"
+                        title={notificationChannelConfig[channel].description}
+                      >
+                        <Checkbox
+                          checked={preferences[kind].includes(channel)}
+                          // Texts need a verified number; one already ticked can still be unticked
+                          disabled={channel === "sms" && !phoneNumber && !preferences[kind].includes(channel)}
+                          onCheckedChange={(checked) => toggleChannel(kind, channel, checked === true)}
+                        />
+                        {notificationChannelConfig[channel].label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+
+            <Button onClick={savePreferences} disabled={!preferences || savingPreferences}>
+              {savingPreferences ? "Saving..." : "Save preferences"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* TEXT MESSAGES */}
+        <PhoneNumberCard />
+
+        {/* DIGEST */}
+        <EmailDigestCard />
+      </div>
+
+      <WatchZoneDialog open={dialogOpen} onOpenChange={setDialogOpen} zone={editing} onSaved={refetch} />
+    </div>
+  );
+}
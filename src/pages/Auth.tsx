@@ -7,6 +7,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Shield, Mail, Lock } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import { useSiteSettings } from "@/hooks/useSiteSettings";
 import { toast } from "@/hooks/use-toast";
 import { z } from "zod";
 
@@ -18,6 +19,7 @@ const authSchema = z.object({
 const Auth = () => {
   const navigate = useNavigate();
   const { user, signUp, signIn, isLoading } = useAuth();
+  const { settings } = useSiteSettings();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
@@ -102,7 +104,7 @@ const Auth = () => {
           <div className="flex items-center justify-center gap-2 mb-4">
             <Shield className="h-10 w-10 text-primary" />
           </div>
-          <CardTitle className="text-2xl">SafetyWatch</CardTitle>
+          <CardTitle className="text-2xl">{settings.site_name}</CardTitle>
           <CardDescription>
             Sign in to report and view neighborhood incidents
           </CardDescription>
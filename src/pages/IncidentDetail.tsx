@@ -0,0 +1,298 @@
+// src/pages/IncidentDetail.tsx
+
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { format, formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Clock, MapPin, PlayCircle, Share2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { usePageMeta } from "@/hooks/usePageMeta";
+import { useSiteSettings } from "@/hooks/useSiteSettings";
+import { useIncidentCategories } from "@/hooks/useIncidentCategories";
+import { Incident } from "@/components/IncidentCard";
+import IncidentMiniMap from "@/components/IncidentMiniMap";
+import StatusTimeline from "@/components/StatusTimeline";
+import IncidentComments from "@/components/IncidentComments";
+import ConfirmIncidentButton from "@/components/ConfirmIncidentButton";
+import AttachmentLightbox from "@/components/AttachmentLightbox";
+import {
+  PUBLIC_INCIDENT_STATUSES,
+  distanceMeters,
+  formatDistance,
+  incidentSeverityConfig,
+  incidentStatusConfig,
+  toIncident,
+} from "@/lib/incidents";
+import { loadIncidentAttachments } from "@/lib/media";
+
+const RELATED_RADIUS_METERS = 1000;
+const RELATED_LIMIT = 4;
+
+export default function IncidentDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+
+  const [incident, setIncident] = useState<Incident | null>(null);
+  const [related, setRelated] = useState<Incident[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const [commentCount, setCommentCount] = useState(0);
+
+  const { settings } = useSiteSettings();
+  const { getCategory } = useIncidentCategories();
+  const firstImage = incident?.attachments?.find((a) => a.kind === "image");
+
+  usePageMeta({
+    title: incident ? `${incident.title} · ${settings.site_name}` : undefined,
+    description: incident?.description.slice(0, 200),
+    image: firstImage?.url,
+  });
+
+  useEffect(() => {
+    if (id) fetchIncident(id);
+  }, [id]);
+
+  async function fetchIncident(incidentId: string) {
+    setLoading(true);
+
+    // RLS decides visibility: approved for everyone, pending for the reporter and admins
+    const { data, error } = await supabase
+      .from("incidents")
+      .select("*")
+      .eq("id", incidentId)
+      .maybeSingle();
+
+    if (error) console.error("Error fetching incident:", error);
+
+    if (!data) {
+      setIncident(null);
+      setRelated([]);
+      setLoading(false);
+      return;
+    }
+
+    const attachments = await loadIncidentAttachments([data.id]);
+    const current = toIncident(data, attachments.get(data.id));
+    setIncident(current);
+    setLoading(false);
+
+    if (current.coordinates) {
+      const { data: nearby } = await supabase
+        .rpc("incidents_near", {
+          _lat: current.coordinates.lat,
+          _lng: current.coordinates.lng,
+          _radius_meters: RELATED_RADIUS_METERS,
+        })
+        .select("*")
+        .in("status", PUBLIC_INCIDENT_STATUSES)
+        .neq("id", current.id)
+        .limit(RELATED_LIMIT);
+
+      setRelated((nearby || []).map((row) => toIncident(row)));
+    } else {
+      setRelated([]);
+    }
+  }
+
+  async function share() {
+    const url = window.location.href;
+
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: incident?.title, url });
+      } catch {
+        // Dismissed share sheet
+      }
+      return;
+    }
+
+    await navigator.clipboard.writeText(url);
+    toast({ title: "Link copied", description: "Share it with your neighbors." });
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!incident) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-background p-6 text-center">
+        <h1 className="text-2xl font-bold">Incident not found</h1>
+        <p className="text-muted-foreground">
+          It may have been removed, or it hasn't been approved yet.
+        </p>
+        <Button onClick={() => navigate("/")}>Back to reports</Button>
+      </div>
+    );
+  }
+
+  const category = getCategory(incident.type);
+  const statusConfig = incidentStatusConfig[incident.status];
+  const attachments = incident.attachments ?? [];
+
+  return (
+    <div className="min-h-screen p-6 bg-background">
+      {/* HEADER */}
+      <div className="flex items-center justify-between mb-6 max-w-5xl mx-auto">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-2xl font-bold">Incident Report</h1>
+        </div>
+        <Button variant="outline" onClick={share}>
+          <Share2 className="mr-2 h-4 w-4" /> Share
+        </Button>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3 max-w-5xl mx-auto">
+        {/* MAIN */}
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardContent className="p-6 space-y-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge className="text-white" style={{ backgroundColor: category.color }}>
+                  {category.label}
+                </Badge>
+                <Badge className={incidentSeverityConfig[incident.severity].className}>
+                  {incidentSeverityConfig[incident.severity].label}
+                </Badge>
+                {incident.status !== "approved" && statusConfig && (
+                  <Badge variant={statusConfig.variant}>{statusConfig.label}</Badge>
+                )}
+              </div>
+
+              <h2 className="text-2xl font-bold text-foreground">{incident.title}</h2>
+
+              {incident.status === "duplicate" && incident.duplicateOfId && (
+                <p className="text-sm text-muted-foreground">
+                  This report duplicates{" "}
+                  <Link to={`/incidents/${incident.duplicateOfId}`} className="text-primary hover:underline">
+                    another incident
+                  </Link>
+                  .
+                </p>
+              )}
+
+              <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                <div className="flex items-center gap-1">
+                  <MapPin className="h-4 w-4" />
+                  <span>{incident.location}</span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Clock className="h-4 w-4" />
+                  <span title={format(incident.timestamp, "PPp")}>
+                    {formatDistanceToNow(incident.timestamp, { addSuffix: true })}
+                  </span>
+                </div>
+              </div>
+
+              <p className="whitespace-pre-line text-foreground">{incident.description}</p>
+
+              <ConfirmIncidentButton incident={incident} />
+            </CardContent>
+          </Card>
+
+          {attachments.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Photos & Videos</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                  {attachments.map((attachment, i) => (
+                    <button
+                      key={attachment.id}
+                      type="button"
+                      onClick={() => setLightboxIndex(i)}
+                      className="relative aspect-square overflow-hidden rounded-lg border border-border bg-muted"
+                    >
+                      {attachment.kind === "video" ? (
+                        <PlayCircle className="absolute inset-0 m-auto h-10 w-10 text-muted-foreground" />
+                      ) : (
+                        <img
+                          src={attachment.thumbnailUrl ?? attachment.url}
+                          alt=""
+                          className="h-full w-full object-cover"
+                        />
+                      )}
+                    </button>
+                  ))}
+                </div>
+                <AttachmentLightbox
+                  attachments={attachments}
+                  index={lightboxIndex}
+                  onIndexChange={setLightboxIndex}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Comments{commentCount > 0 && ` (${commentCount})`}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <IncidentComments incident={incident} onCountChange={setCommentCount} />
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* SIDEBAR */}
+        <aside className="space-y-6">
+          {incident.coordinates && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Location</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <IncidentMiniMap coordinates={incident.coordinates} />
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Status History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <StatusTimeline incidentId={incident.id} />
+            </CardContent>
+          </Card>
+
+          {related.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Nearby Incidents</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {related.map((r) => (
+                  <Link
+                    key={r.id}
+                    to={`/incidents/${r.id}`}
+                    className="block rounded-lg border border-border p-3 hover:bg-muted"
+                  >
+                    <p className="font-medium text-foreground">{r.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {getCategory(r.type).label}
+                      {incident.coordinates && r.coordinates &&
+                        ` · ${formatDistance(distanceMeters(incident.coordinates, r.coordinates))} away`}
+                      {` · ${formatDistanceToNow(r.timestamp, { addSuffix: true })}`}
+                    </p>
+                  </Link>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </aside>
+      </div>
+    </div>
+  );
+}
@@ -1,58 +1,209 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useEffect, useMemo, useCallback, useRef } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import Hero from "@/components/Hero";
 import IncidentCard, { Incident } from "@/components/IncidentCard";
 import ReportForm from "@/components/ReportForm";
-import { Shield, AlertCircle, LogIn, LogOut, Settings } from "lucide-react";
+import NotificationBell from "@/components/NotificationBell";
+import IncidentMap from "@/components/IncidentMap";
+import IncidentFilters, { IncidentView } from "@/components/IncidentFilters";
+import { Badge } from "@/components/ui/badge";
+import { Shield, AlertCircle, ArrowUp, FileText, LogIn, LogOut, Settings } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import { useSiteSettings } from "@/hooks/useSiteSettings";
+import { IncidentChange, useIncidentsRealtime } from "@/hooks/useIncidentsRealtime";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
+import { loadIncidentAttachments, uploadAttachments } from "@/lib/media";
+import { loadCommentCounts } from "@/lib/comments";
+import {
+  IncidentRow,
+  IncidentScope,
+  NewIncidentReport,
+  PUBLIC_INCIDENT_STATUSES,
+  applyIncidentFilters,
+  distanceMeters,
+  isInIncidentScope,
+  isPublicIncidentStatus,
+  selectIncidentsInScope,
+  defaultIncidentFilters,
+  toIncident,
+  toIncidentInsert,
+} from "@/lib/incidents";
+
+function selectPublishedIncidents(scope: IncidentScope) {
+  const query = selectIncidentsInScope(scope).in("status", PUBLIC_INCIDENT_STATUSES);
+  return scope.kind === "all" ? query.order("created_at", { ascending: false }) : query;
+}
+
+async function withFeedDetails(rows: IncidentRow[]): Promise<Incident[]> {
+  const ids = rows.map((row) => row.id);
+  const [attachments, commentCounts] = await Promise.all([
+    loadIncidentAttachments(ids),
+    loadCommentCounts(ids),
+  ]);
+
+  return rows.map((row) => ({
+    ...toIncident(row, attachments.get(row.id)),
+    commentCount: commentCounts.get(row.id) ?? 0,
+  }));
+}
+
+// How often the feed is checked for reports that were unpublished or deleted
+const RESYNC_INTERVAL_MS = 60_000;
 
 const Index = () => {
   const navigate = useNavigate();
-  const { user, isAdmin, signOut, isLoading } = useAuth();
+  const { user, isAdmin, can, restriction, signOut, isLoading } = useAuth();
+  const { settings } = useSiteSettings();
 
   const [showReportForm, setShowReportForm] = useState(false);
   const [incidents, setIncidents] = useState<Incident[]>([]);
+  // Published since the feed loaded, held back until the user asks for them
+  const [incoming, setIncoming] = useState<IncidentRow[]>([]);
   const [loadingIncidents, setLoadingIncidents] = useState(true);
+  const [filters, setFilters] = useState(defaultIncidentFilters);
+  const [scope, setScope] = useState<IncidentScope>({ kind: "all" });
+  const [rejectedCount, setRejectedCount] = useState(0);
+  const incidentsRequest = useRef(0);
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const view: IncidentView = searchParams.get("view") === "map" ? "map" : "list";
+  const filteredIncidents = useMemo(
+    () => applyIncidentFilters(incidents, filters),
+    [incidents, filters]
+  );
+
+  const setView = (next: IncidentView) => {
+    setSearchParams(
+      (params) => {
+        if (next === "map") params.set("view", "map");
+        else params.delete("view");
+        return params;
+      },
+      { replace: true }
+    );
+  };
 
   const scrollToReports = () => {
     const section = document.getElementById("recent-reports-section");
     if (section) section.scrollIntoView({ behavior: "smooth" });
   };
 
+  // Lets reporters know a moderator sent one of their reports back
   useEffect(() => {
-    fetchIncidents();
-  }, []);
+    if (!user) {
+      setRejectedCount(0);
+      return;
+    }
 
-  const fetchIncidents = async () => {
+    supabase
+      .from("incidents")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", user.id)
+      .eq("status", "rejected")
+      .then(({ count }) => setRejectedCount(count ?? 0));
+  }, [user]);
+
+  // Switching scope quickly mustn't let an earlier scope's feed win
+  const fetchIncidents = useCallback(async () => {
+    const request = ++incidentsRequest.current;
     setLoadingIncidents(true);
 
-    const { data, error } = await supabase
-      .from("incidents")
-      .select("*")
-      .eq("status", "approved")
-      .order("created_at", { ascending: false });
+    const { data, error } = await selectPublishedIncidents(scope);
+    if (request !== incidentsRequest.current) return;
 
     if (error) console.error("Error fetching incidents:", error);
     else {
-      setIncidents(
-        (data || []).map((item) => ({
-          id: item.id,
-          type: item.type as Incident["type"],
-          title: item.title,
-          description: item.description,
-          location: item.location,
-          timestamp: new Date(item.created_at),
-        }))
-      );
+      const rows = data || [];
+      const loaded = new Set(rows.map((row) => row.id));
+      const withDetails = await withFeedDetails(rows);
+      if (request !== incidentsRequest.current) return;
+      setIncidents(withDetails);
+      // Keep anything published while this was loading
+      setIncoming((prev) => prev.filter((row) => !loaded.has(row.id) && isInIncidentScope(row, scope)));
     }
 
     setLoadingIncidents(false);
+  }, [scope]);
+
+  useEffect(() => {
+    fetchIncidents();
+  }, [fetchIncidents]);
+
+  // Reports already in the feed update in place; newly published ones wait
+  // behind the banner so the list doesn't shift while someone is reading it
+  const receiveIncident = (row: IncidentRow) => {
+    const visible = isPublicIncidentStatus(row.status) && isInIncidentScope(row, scope);
+
+    if (incidents.some((incident) => incident.id === row.id)) {
+      setIncidents((prev) =>
+        visible
+          ? prev.map((incident) =>
+              incident.id === row.id
+                ? { ...toIncident(row, incident.attachments), commentCount: incident.commentCount }
+                : incident
+            )
+          : prev.filter((incident) => incident.id !== row.id)
+      );
+      return;
+    }
+
+    setIncoming((prev) => {
+      const rest = prev.filter((pending) => pending.id !== row.id);
+      return visible ? [...rest, row] : rest;
+    });
+  };
+
+  const handleIncidentChange = (change: IncidentChange) => {
+    if (change.eventType !== "DELETE") {
+      receiveIncident(change.new);
+      return;
+    }
+
+    const id = change.old.id;
+    setIncidents((prev) => prev.filter((incident) => incident.id !== id));
+    setIncoming((prev) => prev.filter((row) => row.id !== id));
   };
 
-  const handleNewReport = async (report) => {
+  // Catch up on whatever changed while the connection was down, and every
+  // minute anyway. Reports that were deleted or unpublished meanwhile are gone
+  // from the refetch, and no event will arrive for them, so drop anything it
+  // doesn't include.
+  const resyncIncidents = async () => {
+    const { data, error } = await selectPublishedIncidents(scope);
+    if (error) {
+      console.error("Error resyncing incidents:", error);
+      return;
+    }
+
+    const rows = data || [];
+    const published = new Set(rows.map((row) => row.id));
+    setIncidents((prev) => prev.filter((incident) => published.has(incident.id)));
+    setIncoming((prev) => prev.filter((row) => published.has(row.id)));
+    rows.forEach(receiveIncident);
+  };
+
+  useIncidentsRealtime({
+    onChange: handleIncidentChange,
+    onReconnect: resyncIncidents,
+    resyncIntervalMs: RESYNC_INTERVAL_MS,
+  });
+
+  const showIncoming = async () => {
+    const rows = [...incoming].sort((a, b) => (b.created_at ?? "").localeCompare(a.created_at ?? ""));
+    setIncoming([]);
+
+    const added = await withFeedDetails(rows);
+    setIncidents((prev) => {
+      const shown = new Set(prev.map((incident) => incident.id));
+      return [...added.filter((incident) => !shown.has(incident.id)), ...prev];
+    });
+    scrollToReports();
+  };
+
+  const handleNewReport = async (report: NewIncidentReport) => {
     if (!user) {
       toast({
         title: "Authentication required",
@@ -60,13 +211,14 @@ const Index = () => {
         variant: "destructive",
       });
       navigate("/auth");
-      return;
+      return false;
     }
 
-    const { error } = await supabase.from("incidents").insert({
-      user_id: user.id,
-      ...report,
-    });
+    const { data, error } = await supabase
+      .from("incidents")
+      .insert(toIncidentInsert(report, user.id))
+      .select("id")
+      .single();
 
     if (error) {
       toast({
@@ -74,12 +226,28 @@ const Index = () => {
         description: "Failed to submit report.",
         variant: "destructive",
       });
+      return false;
+    }
+
+    const { error: uploadError } = await uploadAttachments(
+      data.id,
+      user.id,
+      report.attachments ?? []
+    );
+
+    if (uploadError) {
+      toast({
+        title: "Report submitted",
+        description: "Some attachments could not be uploaded.",
+        variant: "destructive",
+      });
     } else {
       toast({
         title: "Report submitted",
         description: "Your report is pending approval.",
       });
     }
+    return true;
   };
 
   const handleSignOut = async () => {
@@ -97,20 +265,30 @@ const Index = () => {
         <div className="container mx-auto px-4 py-4 flex items-center justify-between">
           <div className="flex items-center gap-2">
             <Shield className="h-8 w-8 text-primary" />
-            <span className="text-xl font-bold text-foreground">SafetyWatch</span>
+            <span className="text-xl font-bold text-foreground">{settings.site_name}</span>
           </div>
 
           <div className="flex items-center gap-2">
-            {isAdmin && (
+            {can("incidents.moderate") && (
               <Button variant="outline" onClick={() => navigate("/admin")}>
                 <Settings className="mr-2 h-4 w-4" />
-                Admin
+                {isAdmin ? "Admin" : "Moderate"}
               </Button>
             )}
 
             {user ? (
               <>
-                <Button onClick={() => setShowReportForm(true)}>
+                <NotificationBell />
+                <Button variant="outline" onClick={() => navigate("/me/reports")}>
+                  <FileText className="mr-2 h-4 w-4" />
+                  My Reports
+                  {rejectedCount > 0 && (
+                    <Badge variant="destructive" className="ml-2" title="Reports needing changes">
+                      {rejectedCount}
+                    </Badge>
+                  )}
+                </Button>
+                <Button onClick={() => setShowReportForm(true)} disabled={!!restriction}>
                   <AlertCircle className="mr-2 h-4 w-4" />
                   Report Incident
                 </Button>
@@ -127,11 +305,20 @@ const Index = () => {
             )}
           </div>
         </div>
+        {restriction && (
+          <div className="border-t border-destructive/50 bg-destructive/5 px-4 py-2 text-center text-sm text-destructive">
+            {restriction.banned_at
+              ? "Your account has been banned."
+              : `Your account is suspended until ${format(new Date(restriction.suspended_until), "PPp")}.`}{" "}
+            You can't post reports, comments or confirmations
+            {restriction.reason ? `. Reason: ${restriction.reason}` : "."}
+          </div>
+        )}
       </header>
 
       {/* Hero */}
       <Hero
-        onReportClick={() => (user ? setShowReportForm(true) : navigate("/auth"))}
+        onReportClick={() => (!user ? navigate("/auth") : !restriction && setShowReportForm(true))}
         onViewReportsClick={scrollToReports}
       />
 
@@ -139,22 +326,58 @@ const Index = () => {
       <section id="recent-reports-section" className="py-16 md:py-24">
         <div className="container mx-auto px-4">
           <h2 className="text-3xl font-bold mb-3">Recent Reports</h2>
-          <p className="text-muted-foreground mb-12">
+          <p className="text-muted-foreground mb-8">
             Stay informed about neighborhood activity
           </p>
 
+          <IncidentFilters
+            filters={filters}
+            onChange={setFilters}
+            scope={scope}
+            onScopeChange={setScope}
+            view={view}
+            onViewChange={setView}
+          />
+
+          {!loadingIncidents && incoming.length > 0 && (
+            <div className="flex justify-center mb-6">
+              <Button variant="secondary" className="rounded-full shadow-card" onClick={showIncoming}>
+                <ArrowUp className="mr-2 h-4 w-4" />
+                {incoming.length} new report{incoming.length === 1 ? "" : "s"}
+              </Button>
+            </div>
+          )}
+
           {loadingIncidents ? (
             <div className="flex justify-center py-12">
               <div className="animate-spin h-8 w-8 border-b-2 border-primary rounded-full"></div>
             </div>
+          ) : view === "map" ? (
+            <IncidentMap
+              incidents={filteredIncidents}
+              scope={scope}
+              onSearchArea={(bounds) => setScope({ kind: "bounds", bounds })}
+            />
           ) : incidents.length === 0 ? (
             <p className="text-center text-muted-foreground py-12">
-              No approved incidents yet.
+              {scope.kind === "all" ? "No approved incidents yet." : "No incidents in this area."}
+            </p>
+          ) : filteredIncidents.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">
+              No reports match your filters.
             </p>
           ) : (
             <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-              {incidents.map((incident) => (
-                <IncidentCard key={incident.id} incident={incident} />
+              {filteredIncidents.map((incident) => (
+                <IncidentCard
+                  key={incident.id}
+                  incident={incident}
+                  distanceMeters={
+                    scope.kind === "radius" && incident.coordinates
+                      ? distanceMeters(scope.center, incident.coordinates)
+                      : undefined
+                  }
+                />
               ))}
             </div>
           )}
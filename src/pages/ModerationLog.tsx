@@ -0,0 +1,321 @@
+// src/pages/ModerationLog.tsx
+
+import { Fragment, useCallback, useEffect, useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { endOfDay, endOfQuarter, format, startOfQuarter, subQuarters } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, ChevronDown, ChevronRight, Download, ScrollText } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import {
+  ModerationChanges,
+  ModerationEventRow,
+  describeModerationEvent,
+  downloadTextFile,
+  getModerationActionConfig,
+  moderationActionConfig,
+  moderationEventsToCsv,
+} from "@/lib/moderation";
+
+const PER_PAGE = 25;
+const EXPORT_BATCH = 1000;
+
+interface LogFilters {
+  action: string;
+  actor: string;
+  target: string;
+  // yyyy-MM-dd, as used by <input type="date">
+  from: string;
+  to: string;
+}
+
+const emptyFilters: LogFilters = { action: "all", actor: "", target: "", from: "", to: "" };
+
+function quarterRange(quartersAgo: number) {
+  const day = subQuarters(new Date(), quartersAgo);
+  return {
+    from: format(startOfQuarter(day), "yyyy-MM-dd"),
+    to: format(endOfQuarter(day), "yyyy-MM-dd"),
+  };
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+export default function ModerationLogPage() {
+  const navigate = useNavigate();
+  const { user, can, isLoading } = useAuth();
+  const canViewLog = can("moderation_log.view");
+
+  const [events, setEvents] = useState<ModerationEventRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [filters, setFilters] = useState(emptyFilters);
+  const [page, setPage] = useState(1);
+  const [totalCount, setTotalCount] = useState(0);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  // Only the latest page is shown, however the responses arrive
+  const eventsRequest = useRef(0);
+
+  useEffect(() => {
+    if (!isLoading && (!user || !canViewLog)) navigate("/");
+  }, [user, canViewLog, isLoading, navigate]);
+
+  function updateFilters(next: Partial<LogFilters>) {
+    setFilters((prev) => ({ ...prev, ...next }));
+    setPage(1);
+  }
+
+  const buildQuery = useCallback(() => {
+    const query = supabase
+      .from("moderation_events")
+      .select("*", { count: "exact" })
+      .order("created_at", { ascending: false });
+
+    if (filters.action !== "all") query.eq("action", filters.action);
+    if (filters.actor.trim()) query.ilike("actor_email", `%${filters.actor.trim()}%`);
+
+    // Accepts a bare id or a pasted /incidents/<id> link
+    const target = filters.target.match(/[0-9a-f]{8}-[0-9a-f-]{27}/i)?.[0];
+    if (target) query.eq("target_id", target);
+
+    if (filters.from) query.gte("created_at", new Date(`${filters.from}T00:00`).toISOString());
+    if (filters.to) query.lte("created_at", endOfDay(new Date(`${filters.to}T00:00`)).toISOString());
+
+    return query;
+  }, [filters]);
+
+  const fetchEvents = useCallback(async () => {
+    const request = ++eventsRequest.current;
+    setLoading(true);
+
+    const { data, count, error } = await buildQuery().range((page - 1) * PER_PAGE, page * PER_PAGE - 1);
+    if (request !== eventsRequest.current) return;
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to load moderation log", variant: "destructive" });
+    } else {
+      setEvents(data || []);
+      setTotalCount(count || 0);
+    }
+    setLoading(false);
+  }, [buildQuery, page]);
+
+  useEffect(() => {
+    if (canViewLog) fetchEvents();
+  }, [canViewLog, fetchEvents]);
+
+  // Exports every event matching the current filters, not just this page
+  async function exportCsv() {
+    setExporting(true);
+
+    const all: ModerationEventRow[] = [];
+    for (let offset = 0; ; offset += EXPORT_BATCH) {
+      const { data, error } = await buildQuery().range(offset, offset + EXPORT_BATCH - 1);
+
+      if (error) {
+        toast({ title: "Error", description: "Export failed", variant: "destructive" });
+        setExporting(false);
+        return;
+      }
+
+      all.push(...(data || []));
+      if (!data || data.length < EXPORT_BATCH) break;
+    }
+
+    const range = [filters.from, filters.to].filter(Boolean).join("_to_") || format(new Date(), "yyyy-MM-dd");
+    downloadTextFile(`moderation-log-${range}.csv`, moderationEventsToCsv(all));
+    setExporting(false);
+  }
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / PER_PAGE));
+
+  return (
+    <div className="min-h-screen p-6 bg-background">
+      {/* HEADER */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/admin")}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <ScrollText className="h-6 w-6 text-primary" />
+          <h1 className="text-2xl font-bold">Moderation Log</h1>
+        </div>
+        <Button onClick={exportCsv} disabled={exporting || totalCount === 0}>
+          <Download className="mr-2 h-4 w-4" />
+          {exporting ? "Exporting..." : `Export CSV (${totalCount})`}
+        </Button>
+      </div>
+
+      {/* FILTERS */}
+      <div className="flex flex-col md:flex-row md:flex-wrap md:items-center gap-3 mb-4">
+        <Select value={filters.action} onValueChange={(action) => updateFilters({ action })}>
+          <SelectTrigger className="md:w-52">
+            <SelectValue placeholder="All actions" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All actions</SelectItem>
+            {Object.entries(moderationActionConfig).map(([value, config]) => (
+              <SelectItem key={value} value={value}>
+                {config.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Input
+          placeholder="Actor email..."
+          value={filters.actor}
+          onChange={(e) => updateFilters({ actor: e.target.value })}
+          className="md:w-56"
+        />
+        <Input
+          placeholder="Target ID or incident link..."
+          value={filters.target}
+          onChange={(e) => updateFilters({ target: e.target.value })}
+          className="md:w-64"
+        />
+        <Input
+          type="date"
+          value={filters.from}
+          onChange={(e) => updateFilters({ from: e.target.value })}
+          className="md:w-40"
+          aria-label="From"
+        />
+        <Input
+          type="date"
+          value={filters.to}
+          onChange={(e) => updateFilters({ to: e.target.value })}
+          className="md:w-40"
+          aria-label="To"
+        />
+
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => updateFilters(quarterRange(0))}>
+            This quarter
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => updateFilters(quarterRange(1))}>
+            Last quarter
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => updateFilters(emptyFilters)}>
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      {/* EVENTS */}
+      <Card>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="p-8 text-center">Loading...</div>
+          ) : events.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">No moderation events found</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>When</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead>Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((event) => {
+                  const config = getModerationActionConfig(event.action);
+                  const changes = (event.changes ?? {}) as ModerationChanges;
+                  const isOpen = expanded === event.id;
+
+                  return (
+                    <Fragment key={event.id}>
+                      <TableRow
+                        className="cursor-pointer"
+                        onClick={() => setExpanded(isOpen ? null : event.id)}
+                      >
+                        <TableCell>
+                          {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {format(new Date(event.created_at), "PP p")}
+                        </TableCell>
+                        <TableCell>{event.actor_email ?? (event.actor_id ? event.actor_id : "System")}</TableCell>
+                        <TableCell>
+                          <Badge variant={config.variant}>{config.label}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          {event.target_table === "incidents" && event.action !== "incident.deleted" ? (
+                            <Link
+                              to={`/incidents/${event.target_id}`}
+                              onClick={(e) => e.stopPropagation()}
+                              className="hover:underline"
+                            >
+                              {describeModerationEvent(event)}
+                            </Link>
+                          ) : (
+                            describeModerationEvent(event)
+                          )}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{event.reason ?? "—"}</TableCell>
+                      </TableRow>
+
+                      {isOpen && (
+                        <TableRow className="bg-muted/40 hover:bg-muted/40">
+                          <TableCell />
+                          <TableCell colSpan={5}>
+                            <p className="text-xs text-muted-foreground mb-2">
+                              {event.target_table} · {event.target_id}
+                            </p>
+                            {Object.keys(changes).length > 0 ? (
+                              <ul className="space-y-1 text-sm">
+                                {Object.entries(changes).map(([field, change]) => (
+                                  <li key={field}>
+                                    <span className="font-medium">{field}</span>:{" "}
+                                    <span className="text-destructive line-through">{formatValue(change.from)}</span>{" "}
+                                    → <span className="text-green-600">{formatValue(change.to)}</span>
+                                  </li>
+                                ))}
+                              </ul>
+                            ) : (
+                              <pre className="text-xs whitespace-pre-wrap break-all">
+                                {JSON.stringify(event.before ?? event.after, null, 2)}
+                              </pre>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* PAGINATION */}
+      <div className="flex items-center justify-between mt-4">
+        <p className="text-sm">
+          Page {page} of {totalPages}
+        </p>
+        <div className="flex items-center gap-2">
+          <Button disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            Prev
+          </Button>
+          <Button disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+            Next
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
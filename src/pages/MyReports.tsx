@@ -0,0 +1,192 @@
+// src/pages/MyReports.tsx
+
+import { useCallback, useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, ChevronDown, ChevronRight, FileText, MapPin, Pencil, Undo2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useRejectionReasons } from "@/hooks/useRejectionReasons";
+import { useIncidentCategories } from "@/hooks/useIncidentCategories";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import EditReportDialog from "@/components/EditReportDialog";
+import StatusTimeline from "@/components/StatusTimeline";
+import {
+  IncidentRow,
+  incidentStatusConfig,
+  isPublicIncidentStatus,
+} from "@/lib/incidents";
+
+export default function MyReportsPage() {
+  const navigate = useNavigate();
+  const { user, isLoading } = useAuth();
+  // Inactive reasons too, so older rejections keep their label
+  const { reasons } = useRejectionReasons({ includeInactive: true });
+  const { getCategory } = useIncidentCategories();
+
+  const [reports, setReports] = useState<IncidentRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<IncidentRow | null>(null);
+  const [historyOpen, setHistoryOpen] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isLoading && !user) navigate("/auth");
+  }, [user, isLoading, navigate]);
+
+  const fetchReports = useCallback(async (userId: string) => {
+    setLoading(true);
+
+    const { data, error } = await supabase
+      .from("incidents")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to load your reports", variant: "destructive" });
+    } else {
+      setReports(data || []);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (user) fetchReports(user.id);
+  }, [user, fetchReports]);
+
+  const replaceReport = (updated: IncidentRow) =>
+    setReports((prev) => prev.map((report) => (report.id === updated.id ? updated : report)));
+
+  async function withdrawReport(report: IncidentRow) {
+    if (!confirm(`Withdraw "${report.title}"? It won't be reviewed or published.`)) return;
+
+    const { data, error } = await supabase.rpc("withdraw_incident", { _incident_id: report.id });
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to withdraw report", variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Report withdrawn" });
+    replaceReport(data);
+  }
+
+  return (
+    <div className="min-h-screen p-6 bg-background">
+      {/* HEADER */}
+      <div className="flex items-center gap-2 mb-6">
+        <Button variant="ghost" size="icon" onClick={() => navigate("/")}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <FileText className="h-6 w-6 text-primary" />
+        <h1 className="text-2xl font-bold">My Reports</h1>
+      </div>
+
+      {/* REPORTS */}
+      {loading ? (
+        <div className="text-center py-12">Loading...</div>
+      ) : reports.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">You haven't reported any incidents yet</div>
+      ) : (
+        <div className="max-w-3xl space-y-4">
+          {reports.map((report) => {
+            const status = incidentStatusConfig[report.status];
+            const reason = reasons.find((r) => r.id === report.rejection_reason_id);
+
+            return (
+              <Card key={report.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <CardTitle className="text-lg">
+                      {isPublicIncidentStatus(report.status) ? (
+                        <Link to={`/incidents/${report.id}`} className="hover:underline">
+                          {report.title}
+                        </Link>
+                      ) : (
+                        report.title
+                      )}
+                    </CardTitle>
+                    <Badge variant={status.variant}>{status.label}</Badge>
+                  </div>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                    <span>{getCategory(report.type).label}</span>
+                    <span className="flex items-center gap-1">
+                      <MapPin className="h-3 w-3" />
+                      {report.location}
+                    </span>
+                    <span>{formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}</span>
+                  </div>
+                </CardHeader>
+
+                <CardContent className="space-y-4">
+                  <p className="text-sm whitespace-pre-wrap">{report.description}</p>
+
+                  {report.status === "rejected" && (
+                    <div className="rounded-md border border-destructive/50 bg-destructive/5 p-3 space-y-1">
+                      <p className="text-sm font-medium text-destructive">
+                        Rejected{reason ? `: ${reason.label}` : ""}
+                      </p>
+                      {reason?.description && <p className="text-sm">{reason.description}</p>}
+                      {report.rejection_note && (
+                        <p className="text-sm">
+                          <span className="font-medium">Moderator note:</span> {report.rejection_note}
+                        </p>
+                      )}
+                      <Button size="sm" className="mt-2" onClick={() => setEditing(report)}>
+                        <Pencil className="mr-2 h-4 w-4" />
+                        Edit & resubmit
+                      </Button>
+                    </div>
+                  )}
+
+                  {report.status === "pending" && (
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setEditing(report)}>
+                        <Pencil className="mr-2 h-4 w-4" />
+                        Edit
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => withdrawReport(report)}>
+                        <Undo2 className="mr-2 h-4 w-4" />
+                        Withdraw
+                      </Button>
+                    </div>
+                  )}
+
+                  <div>
+                    <button
+                      type="button"
+                      className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+                      onClick={() => setHistoryOpen(historyOpen === report.id ? null : report.id)}
+                    >
+                      {historyOpen === report.id ? (
+                        <ChevronDown className="h-4 w-4" />
+                      ) : (
+                        <ChevronRight className="h-4 w-4" />
+                      )}
+                      Status history
+                    </button>
+                    {historyOpen === report.id && (
+                      <div className="mt-3">
+                        {/* Keyed on status so a fresh change shows up straight away */}
+                        <StatusTimeline key={report.status} incidentId={report.id} />
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <EditReportDialog
+        incident={editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSaved={replaceReport}
+      />
+    </div>
+  );
+}
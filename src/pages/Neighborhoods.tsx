@@ -0,0 +1,211 @@
+// src/pages/Neighborhoods.tsx
+
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, MapPinned, Plus, Save, Trash2, Undo2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useNeighborhoods } from "@/hooks/useNeighborhoods";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import NeighborhoodEditorMap from "@/components/NeighborhoodEditorMap";
+import { toPolygonGeoJson } from "@/lib/neighborhoods";
+import type { Coordinates } from "@/lib/incidents";
+
+const DEFAULT_COLOR = "#2563eb";
+
+export default function NeighborhoodsPage() {
+  const navigate = useNavigate();
+  const { user, can, isLoading } = useAuth();
+  const canManage = can("neighborhoods.manage");
+  const { neighborhoods, loading, refetch } = useNeighborhoods();
+
+  // null = creating a new neighborhood
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(DEFAULT_COLOR);
+  const [points, setPoints] = useState<Coordinates[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isLoading && (!user || !canManage)) navigate("/");
+  }, [user, canManage, isLoading, navigate]);
+
+  function startNew() {
+    setEditingId(null);
+    setName("");
+    setColor(DEFAULT_COLOR);
+    setPoints([]);
+  }
+
+  function select(id: string) {
+    const n = neighborhoods.find((item) => item.id === id);
+    if (!n) return;
+
+    setEditingId(n.id);
+    setName(n.name);
+    setColor(n.color);
+    setPoints(n.points);
+  }
+
+  async function save() {
+    if (!name.trim()) {
+      toast({ title: "Name required", variant: "destructive" });
+      return;
+    }
+    if (points.length < 3) {
+      toast({
+        title: "Boundary incomplete",
+        description: "Click the map to add at least three points.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const values = { name: name.trim(), color, boundary: toPolygonGeoJson(points) };
+    const { data, error } = editingId
+      ? await supabase.from("neighborhoods").update(values).eq("id", editingId).select("id").single()
+      : await supabase.from("neighborhoods").insert(values).select("id").single();
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save neighborhood",
+        variant: "destructive",
+      });
+    } else {
+      toast({ title: "Saved", description: `${values.name} boundary updated` });
+      setEditingId(data.id);
+      refetch();
+    }
+  }
+
+  async function remove() {
+    if (!editingId) return;
+    if (!confirm(`Delete ${name}? Incidents inside it will no longer be grouped.`)) return;
+
+    const { error } = await supabase.from("neighborhoods").delete().eq("id", editingId);
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to delete", variant: "destructive" });
+    } else {
+      toast({ title: "Deleted", description: `${name} removed` });
+      startNew();
+      refetch();
+    }
+  }
+
+  return (
+    <div className="min-h-screen p-6 bg-background">
+      {/* HEADER */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/admin")}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-2xl font-bold">Neighborhoods</h1>
+        </div>
+        <Button onClick={startNew}>
+          <Plus className="mr-2 h-4 w-4" /> New Neighborhood
+        </Button>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-4">
+        {/* LIST */}
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MapPinned className="h-5 w-5 text-primary" /> Areas
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {loading ? (
+              <p className="text-sm text-muted-foreground">Loading...</p>
+            ) : neighborhoods.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No neighborhoods drawn yet.</p>
+            ) : (
+              neighborhoods.map((n) => (
+                <Button
+                  key={n.id}
+                  variant={n.id === editingId ? "secondary" : "ghost"}
+                  className="w-full justify-start gap-2"
+                  onClick={() => select(n.id)}
+                >
+                  <span className="h-3 w-3 rounded-full" style={{ background: n.color }} />
+                  {n.name}
+                </Button>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {/* EDITOR */}
+        <Card className="lg:col-span-3">
+          <CardHeader>
+            <CardTitle>{editingId ? `Edit ${name}` : "New neighborhood"}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-col md:flex-row gap-4">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="neighborhood-name">Name</Label>
+                <Input
+                  id="neighborhood-name"
+                  placeholder="e.g. Green Park"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="neighborhood-color">Color</Label>
+                <Input
+                  id="neighborhood-color"
+                  type="color"
+                  value={color}
+                  onChange={(e) => setColor(e.target.value)}
+                  className="w-20 p-1"
+                />
+              </div>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              Click the map to add boundary points, drag a point to move it and right-click a
+              point to remove it. Click another area to edit it.
+            </p>
+
+            <NeighborhoodEditorMap
+              neighborhoods={neighborhoods}
+              editingId={editingId}
+              draftPoints={points}
+              draftColor={color}
+              onDraftChange={setPoints}
+              onSelect={select}
+            />
+
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={save} disabled={saving}>
+                <Save className="mr-2 h-4 w-4" /> {saving ? "Saving..." : "Save"}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setPoints(points.slice(0, -1))}
+                disabled={points.length === 0}
+              >
+                <Undo2 className="mr-2 h-4 w-4" /> Undo point
+              </Button>
+              {editingId && (
+                <Button variant="destructive" className="ml-auto" onClick={remove}>
+                  <Trash2 className="mr-2 h-4 w-4" /> Delete
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
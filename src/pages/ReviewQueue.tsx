@@ -0,0 +1,382 @@
+// src/pages/ReviewQueue.tsx
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ToastAction } from "@/components/ui/toast";
+import { ArrowLeft, Check, ChevronLeft, ChevronRight, Copy, Keyboard, RefreshCw, X } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useRejectionReasons } from "@/hooks/useRejectionReasons";
+import { useIncidentCategories } from "@/hooks/useIncidentCategories";
+import { supabase } from "@/integrations/supabase/client";
+import type { TablesUpdate } from "@/integrations/supabase/types";
+import { toast } from "@/hooks/use-toast";
+import AttachmentThumbnails from "@/components/AttachmentThumbnails";
+import RejectIncidentDialog, { IncidentRejection } from "@/components/RejectIncidentDialog";
+import { IncidentAttachment, loadIncidentAttachments } from "@/lib/media";
+import { updateIncidentStatuses } from "@/lib/moderation";
+import {
+  IncidentStatus,
+  IncidentWithConfidence,
+  UUID_PATTERN,
+  formatCoordinates,
+  getConfidenceLevel,
+  getIncidentCoordinates,
+  incidentSeverityConfig,
+  incidentStatusConfig,
+  openStreetMapUrl,
+} from "@/lib/incidents";
+
+const QUEUE_SIZE = 50;
+const UNDO_WINDOW_MS = 5000;
+
+const SHORTCUTS = [
+  { keys: "A", label: "Approve" },
+  { keys: "R", label: "Reject" },
+  { keys: "D", label: "Duplicate" },
+  { keys: "J / K", label: "Next / previous" },
+  { keys: "U", label: "Undo" },
+];
+
+// A decision is only written once its undo window has passed
+interface QueuedDecision {
+  incident: IncidentWithConfidence;
+  values: TablesUpdate<"incidents">;
+  reason: string | null;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+export default function ReviewQueuePage() {
+  const navigate = useNavigate();
+  const { user, can, isLoading } = useAuth();
+  const canModerate = can("incidents.moderate");
+  const { reasons: rejectionReasons } = useRejectionReasons();
+  const { getCategory } = useIncidentCategories();
+
+  const [queue, setQueue] = useState<IncidentWithConfidence[]>([]);
+  const [attachments, setAttachments] = useState(new Map<string, IncidentAttachment[]>());
+  const [loading, setLoading] = useState(true);
+  const [index, setIndex] = useState(0);
+  // Incidents handled this session, keyed to the status they were given
+  const [decided, setDecided] = useState(new Map<string, IncidentStatus>());
+  const [rejecting, setRejecting] = useState(false);
+  const pending = useRef<QueuedDecision | null>(null);
+
+  const current = queue[index] && !decided.has(queue[index].id) ? queue[index] : null;
+  const remaining = queue.length - decided.size;
+
+  const commit = useCallback(async (decision: QueuedDecision) => {
+    const { error } = await updateIncidentStatuses([decision.incident.id], decision.values, decision.reason);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: `Could not update "${decision.incident.title}". It's back in the queue.`,
+        variant: "destructive",
+      });
+      setDecided((prev) => {
+        const next = new Map(prev);
+        next.delete(decision.incident.id);
+        return next;
+      });
+    }
+  }, []);
+
+  const flush = useCallback(() => {
+    const decision = pending.current;
+    if (!decision) return;
+
+    clearTimeout(decision.timer);
+    pending.current = null;
+    return commit(decision);
+  }, [commit]);
+
+  const fetchQueue = useCallback(async () => {
+    await flush();
+    setLoading(true);
+
+    const { data, error } = await supabase
+      .from("incidents_with_confidence")
+      .select("*")
+      .eq("status", "pending")
+      .order("is_urgent", { ascending: false })
+      .order("created_at", { ascending: true })
+      .limit(QUEUE_SIZE);
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to load the review queue", variant: "destructive" });
+    } else {
+      setQueue(data || []);
+      setDecided(new Map());
+      setIndex(0);
+      setAttachments(await loadIncidentAttachments((data || []).map((i) => i.id)));
+    }
+
+    setLoading(false);
+  }, [flush]);
+
+  useEffect(() => {
+    if (!isLoading && (!user || !canModerate)) navigate("/");
+  }, [user, canModerate, isLoading, navigate]);
+
+  useEffect(() => {
+    if (canModerate) fetchQueue();
+  }, [canModerate, fetchQueue]);
+
+  // Don't lose a decision that's still inside its undo window
+  useEffect(() => {
+    const warn = (e: BeforeUnloadEvent) => {
+      if (pending.current) e.preventDefault();
+    };
+
+    window.addEventListener("beforeunload", warn);
+    return () => {
+      window.removeEventListener("beforeunload", warn);
+      flush();
+    };
+  }, [flush]);
+
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (rejecting || e.metaKey || e.ctrlKey || e.altKey) return;
+
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return;
+
+      switch (e.key.toLowerCase()) {
+        case "a":
+          decide({ status: "approved" });
+          break;
+        case "r":
+          if (current) setRejecting(true);
+          break;
+        case "d":
+          markDuplicate();
+          break;
+        case "j":
+          setIndex(step(index, 1));
+          break;
+        case "k":
+          setIndex(step(index, -1));
+          break;
+        case "u":
+          undo();
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    }
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
+
+  // Index of the nearest undecided incident from `from` in `direction`,
+  // or `from` itself when there is none
+  function step(from: number, direction: 1 | -1, skip = decided) {
+    for (let i = from + direction; i >= 0 && i < queue.length; i += direction) {
+      if (!skip.has(queue[i].id)) return i;
+    }
+    return from;
+  }
+
+  function decide(values: TablesUpdate<"incidents">, reason: string | null = null) {
+    if (!current) return;
+
+    // Only the latest decision can be undone
+    flush();
+
+    const incident = current;
+    const nextDecided = new Map(decided).set(incident.id, values.status);
+    setDecided(nextDecided);
+
+    const forward = step(index, 1, nextDecided);
+    setIndex(forward !== index ? forward : step(index, -1, nextDecided));
+
+    const decision: QueuedDecision = { incident, values, reason };
+    decision.timer = setTimeout(flush, UNDO_WINDOW_MS);
+    pending.current = decision;
+
+    toast({
+      title: `Marked as ${incidentStatusConfig[values.status].label.toLowerCase()}`,
+      description: incident.title,
+      duration: UNDO_WINDOW_MS,
+      action: (
+        <ToastAction altText="Undo" onClick={undo}>
+          Undo
+        </ToastAction>
+      ),
+    });
+  }
+
+  function undo() {
+    const decision = pending.current;
+    if (!decision) return;
+
+    clearTimeout(decision.timer);
+    pending.current = null;
+
+    setDecided((prev) => {
+      const next = new Map(prev);
+      next.delete(decision.incident.id);
+      return next;
+    });
+    setIndex(queue.findIndex((inc) => inc.id === decision.incident.id));
+    toast({ title: "Undone", description: decision.incident.title });
+  }
+
+  function markDuplicate() {
+    if (!current) return;
+
+    const original = prompt("Paste the link or ID of the original incident");
+    if (original === null) return;
+
+    const duplicateOf = original.match(UUID_PATTERN)?.[0];
+    if (!duplicateOf || duplicateOf === current.id) {
+      toast({
+        title: "Error",
+        description: "That doesn't look like another incident's link or ID",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    decide({ status: "duplicate", duplicate_of: duplicateOf });
+  }
+
+  async function rejectCurrent({ reasonId, note }: IncidentRejection) {
+    const reasonLabel = rejectionReasons.find((r) => r.id === reasonId)?.label;
+
+    decide(
+      { status: "rejected", rejection_reason_id: reasonId, rejection_note: note || null },
+      [reasonLabel, note].filter(Boolean).join(": ")
+    );
+    return true;
+  }
+
+  const coordinates = current && getIncidentCoordinates(current);
+  const confidence = current && getConfidenceLevel(current.confidence_score);
+
+  return (
+    <div className="min-h-screen p-6 bg-background">
+      {/* HEADER */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/admin")}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <Keyboard className="h-6 w-6 text-primary" />
+          <h1 className="text-2xl font-bold">Review Queue</h1>
+        </div>
+        <Button variant="outline" onClick={fetchQueue} disabled={loading}>
+          <RefreshCw className="mr-2 h-4 w-4" /> Reload
+        </Button>
+      </div>
+
+      <div className="max-w-3xl mx-auto space-y-4">
+        {!loading && queue.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-muted-foreground">
+              <span>{remaining} left</span>
+              <span>
+                {decided.size} of {queue.length} reviewed
+              </span>
+            </div>
+            <Progress value={(decided.size / queue.length) * 100} />
+          </div>
+        )}
+
+        {loading ? (
+          <div className="p-8 border rounded-lg text-center">Loading...</div>
+        ) : !current ? (
+          <div className="p-8 border rounded-lg text-center space-y-3">
+            <p className="font-medium">Nothing left to review</p>
+            <Button onClick={fetchQueue}>
+              <RefreshCw className="mr-2 h-4 w-4" /> Check for more
+            </Button>
+          </div>
+        ) : (
+          <Card className={current.is_urgent ? "border-destructive ring-2 ring-destructive/30" : undefined}>
+            <CardContent className="p-6 space-y-4">
+              <div className="flex items-center gap-2 flex-wrap">
+                <Badge variant="secondary">{getCategory(current.type).label}</Badge>
+                <Badge className={incidentSeverityConfig[current.severity].className}>
+                  {incidentSeverityConfig[current.severity].label}
+                </Badge>
+                <Badge
+                  className={confidence.className}
+                  title={`${current.confirmation_count} confirmations · reporter ${current.reporter_approved_count} approved / ${current.reporter_rejected_count} rejected · ${current.nearby_count} nearby reports`}
+                >
+                  {confidence.label} · {current.confidence_score}
+                </Badge>
+                <span className="ml-auto text-xs text-muted-foreground">
+                  {format(new Date(current.created_at), "PPp")}
+                </span>
+              </div>
+
+              <h2 className="text-xl font-semibold">{current.title}</h2>
+              <p className="whitespace-pre-wrap">{current.description}</p>
+              <p className="text-sm text-muted-foreground">
+                {current.location}
+                {coordinates && (
+                  <>
+                    {" · "}
+                    <a
+                      href={openStreetMapUrl(coordinates)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="underline hover:text-primary"
+                    >
+                      {formatCoordinates(coordinates)}
+                    </a>
+                  </>
+                )}
+              </p>
+
+              {attachments.has(current.id) && <AttachmentThumbnails attachments={attachments.get(current.id)} />}
+
+              <div className="flex items-center gap-2 flex-wrap border-t border-border pt-4">
+                <Button variant="ghost" size="icon" onClick={() => setIndex(step(index, -1))} aria-label="Previous">
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button onClick={() => decide({ status: "approved" })}>
+                  <Check className="mr-1 h-4 w-4" /> Approve
+                </Button>
+                <Button variant="destructive" onClick={() => setRejecting(true)}>
+                  <X className="mr-1 h-4 w-4" /> Reject
+                </Button>
+                <Button variant="secondary" onClick={markDuplicate}>
+                  <Copy className="mr-1 h-4 w-4" /> Duplicate
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => setIndex(step(index, 1))} aria-label="Next">
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* SHORTCUTS */}
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          {SHORTCUTS.map((s) => (
+            <span key={s.keys}>
+              <kbd className="rounded border border-border bg-muted px-1.5 py-0.5 font-mono">{s.keys}</kbd> {s.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <RejectIncidentDialog
+        open={rejecting}
+        onOpenChange={setRejecting}
+        incidentTitle={current?.title}
+        onReject={rejectCurrent}
+      />
+    </div>
+  );
+}
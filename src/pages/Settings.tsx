@@ -1,15 +1,101 @@
 // src/pages/Settings.tsx
 
+import { FormEvent, useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
+import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import IncidentCategoriesCard from "@/components/IncidentCategoriesCard";
 import { useAuth } from "@/hooks/useAuth";
-import { ArrowLeft, Settings, Globe, Bell, Shield } from "lucide-react";
+import { useSiteSettings, useUpdateSiteSettings } from "@/hooks/useSiteSettings";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { SiteSettings, siteSettingsSchema } from "@/lib/settings";
+import { ArrowLeft, Settings, Bell, Shield } from "lucide-react";
+
+// Same rules as sign-up
+const passwordSchema = z
+  .object({
+    password: z.string().min(6, "Password must be at least 6 characters").max(100),
+    confirm: z.string(),
+  })
+  .refine((values) => values.password === values.confirm, { message: "Passwords don't match" });
+
+const generalSchema = siteSettingsSchema.pick({ site_name: true, support_email: true });
+const notificationSchema = siteSettingsSchema.pick({ admin_alert_email: true, admin_alert_sms: true });
 
 export default function SettingsPage() {
   const navigate = useNavigate();
-  const { user, isAdmin } = useAuth();
+  const { user, can, isLoading } = useAuth();
+  const canManage = can("settings.manage");
+  const { settings, loading } = useSiteSettings();
+  const updateSettings = useUpdateSiteSettings();
+
+  const [form, setForm] = useState<SiteSettings>(settings);
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [savingPassword, setSavingPassword] = useState(false);
+  const formLoaded = useRef(false);
+
+  useEffect(() => {
+    if (!isLoading && (!user || !canManage)) navigate("/");
+  }, [user, canManage, isLoading, navigate]);
+
+  // Start from the saved values once they've loaded, but don't overwrite
+  // edits when they're refetched later
+  useEffect(() => {
+    if (loading || formLoaded.current) return;
+    formLoaded.current = true;
+    setForm(settings);
+  }, [loading, settings]);
+
+  const setField = (key: keyof SiteSettings, value: string) => setForm((prev) => ({ ...prev, [key]: value }));
+
+  function save(schema: typeof generalSchema | typeof notificationSchema) {
+    return (e: FormEvent) => {
+      e.preventDefault();
+
+      const validation = schema.safeParse(form);
+      if (!validation.success) {
+        toast({
+          title: "Validation Error",
+          description: validation.error.errors[0].message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      updateSettings.mutate(validation.data);
+    };
+  }
+
+  async function changePassword(e: FormEvent) {
+    e.preventDefault();
+
+    const validation = passwordSchema.safeParse({ password, confirm: confirmPassword });
+    if (!validation.success) {
+      toast({
+        title: "Validation Error",
+        description: validation.error.errors[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavingPassword(true);
+    const { error } = await supabase.auth.updateUser({ password });
+    setSavingPassword(false);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Password updated" });
+    setPassword("");
+    setConfirmPassword("");
+  }
 
   return (
     <div className="min-h-screen p-6 bg-background">
@@ -30,14 +116,29 @@ export default function SettingsPage() {
               <Settings className="h-5 w-5 text-primary" /> General Settings
             </CardTitle>
           </CardHeader>
-          <CardContent className="space-y-3">
-            <label className="text-sm font-medium">Site Name</label>
-            <Input placeholder="SafetyWatch" />
+          <CardContent>
+            <form onSubmit={save(generalSchema)} className="space-y-3">
+              <label htmlFor="site-name" className="text-sm font-medium">Site Name</label>
+              <Input
+                id="site-name"
+                placeholder="SafetyWatch"
+                value={form.site_name}
+                onChange={(e) => setField("site_name", e.target.value)}
+              />
 
-            <label className="text-sm font-medium">Support Email</label>
-            <Input placeholder="support@safetywatch.com" />
+              <label htmlFor="support-email" className="text-sm font-medium">Support Email</label>
+              <Input
+                id="support-email"
+                type="email"
+                placeholder="support@safetywatch.com"
+                value={form.support_email}
+                onChange={(e) => setField("support_email", e.target.value)}
+              />
 
-            <Button className="w-full mt-3">Save Changes</Button>
+              <Button type="submit" className="w-full mt-3" disabled={loading || updateSettings.isPending}>
+                Save Changes
+              </Button>
+            </form>
           </CardContent>
         </Card>
 
@@ -48,18 +149,40 @@ export default function SettingsPage() {
               <Bell className="h-5 w-5 text-primary" /> Notifications
             </CardTitle>
           </CardHeader>
-          <CardContent className="space-y-3">
-            <div>
-              <label className="text-sm font-medium">Admin Alerts</label>
-              <Input placeholder="admin@example.com" />
-            </div>
-
-            <div>
-              <label className="text-sm font-medium">SMS Number (Optional)</label>
-              <Input placeholder="+91 98765 43210" />
-            </div>
-
-            <Button className="w-full mt-3">Update Notifications</Button>
+          <CardContent>
+            <form onSubmit={save(notificationSchema)} className="space-y-3">
+              <div>
+                <label htmlFor="admin-alert-email" className="text-sm font-medium">Admin Alerts</label>
+                <Input
+                  id="admin-alert-email"
+                  type="email"
+                  placeholder="admin@example.com"
+                  value={form.admin_alert_email}
+                  onChange={(e) => setField("admin_alert_email", e.target.value)}
+                />
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Every report that lands in the review queue is emailed here.
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="admin-alert-sms" className="text-sm font-medium">SMS Number (Optional)</label>
+                <Input
+                  id="admin-alert-sms"
+                  type="tel"
+                  placeholder="+91 98765 43210"
+                  value={form.admin_alert_sms}
+                  onChange={(e) => setField("admin_alert_sms", e.target.value)}
+                />
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Critical reports waiting for review are texted here.
+                </p>
+              </div>
+
+              <Button type="submit" className="w-full mt-3" disabled={loading || updateSettings.isPending}>
+                Update Notifications
+              </Button>
+            </form>
           </CardContent>
         </Card>
 
@@ -70,15 +193,35 @@ export default function SettingsPage() {
               <Shield className="h-5 w-5 text-primary" /> Security
             </CardTitle>
           </CardHeader>
-          <CardContent className="space-y-3">
-            <label className="text-sm font-medium">Change Admin Password</label>
-            <Input type="password" placeholder="New password" />
+          <CardContent>
+            <form onSubmit={changePassword} className="space-y-3">
+              <label htmlFor="new-password" className="text-sm font-medium">Change Your Password</label>
+              <Input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                placeholder="New password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
 
-            <Input type="password" placeholder="Confirm password" />
+              <Input
+                type="password"
+                autoComplete="new-password"
+                placeholder="Confirm password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+              />
 
-            <Button className="w-full mt-3">Update Password</Button>
+              <Button type="submit" className="w-full mt-3" disabled={savingPassword}>
+                {savingPassword ? "Updating..." : "Update Password"}
+              </Button>
+            </form>
           </CardContent>
         </Card>
+
+        {/* INCIDENT CATEGORIES */}
+        <IncidentCategoriesCard />
       </div>
     </div>
   );
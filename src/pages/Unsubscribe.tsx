@@ -0,0 +1,78 @@
+// src/pages/Unsubscribe.tsx
+
+import { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useSiteSettings } from "@/hooks/useSiteSettings";
+import { supabase } from "@/integrations/supabase/client";
+import { MailX } from "lucide-react";
+
+// What each kind of email is called once it's been turned off
+const unsubscribedText: Record<string, string> = {
+  watch_zone: "watch zone alerts by email",
+  report_status: "updates on your reports by email",
+  pending_report: "review queue alerts by email",
+  digest: "the email digest",
+};
+
+// Landing page for the unsubscribe link in every email. The token in the link
+// is all it needs, so it works without signing in.
+export default function UnsubscribePage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const { settings } = useSiteSettings();
+
+  const [working, setWorking] = useState(false);
+  const [done, setDone] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(token ? null : "This unsubscribe link is incomplete.");
+
+  async function unsubscribe() {
+    setWorking(true);
+    const { data: kind, error } = await supabase.rpc("unsubscribe_email", { _token: token });
+    setWorking(false);
+
+    if (error) {
+      // Unknown or mangled tokens
+      const invalid = error.code === "P0002" || error.code === "22P02";
+      setError(invalid ? "This unsubscribe link is no longer valid." : "Something went wrong. Please try again.");
+      return;
+    }
+    setDone(unsubscribedText[kind] ?? "these emails");
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-muted p-6">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MailX className="h-5 w-5 text-primary" /> Unsubscribe
+          </CardTitle>
+          <CardDescription>Emails from {settings.site_name}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {done ? (
+            <p className="text-sm">You won't get {done} anymore.</p>
+          ) : error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : (
+            <>
+              <p className="text-sm">Stop getting this kind of email? Your other alerts stay as they are.</p>
+              <Button onClick={unsubscribe} disabled={working}>
+                {working ? "Unsubscribing..." : "Unsubscribe"}
+              </Button>
+            </>
+          )}
+
+          <p className="text-sm text-muted-foreground">
+            You can change all your alerts on the{" "}
+            <Link to="/me/alerts" className="text-primary underline hover:text-primary/90">
+              Alerts page
+            </Link>
+            .
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,72 +1,152 @@
 // src/pages/Users.tsx
 
-import { useEffect, useState } from "react";
+import { FormEvent, useCallback, useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { format, formatDistanceToNow } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Search, Shield, User, Trash2 } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  ArrowUpDown,
+  Ban,
+  Clock,
+  MapPinned,
+  MoreHorizontal,
+  Search,
+  ShieldCheck,
+  Trash2,
+} from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
+import { AccountStatus, UserListRow, UserSortColumn, accountStatusConfig, runAdminUserAction } from "@/lib/accounts";
+import { AppRole, ROLE_ORDER, primaryRole, roleConfig } from "@/lib/permissions";
+import AccountActionDialog, { AccountAction } from "@/components/AccountActionDialog";
+import ModeratorScopeDialog from "@/components/ModeratorScopeDialog";
 
-interface UserRow {
-  id: string;
-  email: string;
-  role: string;
-}
+const PER_PAGE = 25;
+
+const COLUMNS: { key: UserSortColumn; label: string; className?: string }[] = [
+  { key: "email", label: "User" },
+  { key: "created_at", label: "Signed up" },
+  { key: "last_sign_in_at", label: "Last sign-in" },
+  { key: "report_count", label: "Reports", className: "text-right" },
+  { key: "approval_rate", label: "Approval", className: "text-right" },
+  { key: "status", label: "Status" },
+];
 
 export default function UsersPage() {
   const navigate = useNavigate();
-  const { user, isAdmin, isLoading } = useAuth();
-  const [users, setUsers] = useState<UserRow[]>([]);
+  const { user, can, isLoading } = useAuth();
+  const canView = can("users.view");
+  // Moderators only see the list and its metrics
+  const canManage = can("users.manage");
+  const [users, setUsers] = useState<UserListRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState("");
+  // The search that was last submitted; typing alone doesn't refetch
+  const [query, setQuery] = useState("");
+  const [sort, setSort] = useState<{ column: UserSortColumn; ascending: boolean }>({
+    column: "created_at",
+    ascending: false,
+  });
+  const [page, setPage] = useState(1);
+  const [totalCount, setTotalCount] = useState(0);
+  const [scopeEditing, setScopeEditing] = useState<UserListRow | null>(null);
+  const [acting, setActing] = useState<{ id: string; email: string; action: AccountAction } | null>(null);
+  // Only the latest search, sort or page is shown, however the responses arrive
+  const usersRequest = useRef(0);
 
   useEffect(() => {
-    if (!isLoading && (!user || !isAdmin)) navigate("/");
-  }, [user, isAdmin, isLoading, navigate]);
-
-  useEffect(() => {
-    if (isAdmin) fetchUsers();
-  }, [isAdmin]);
+    if (!isLoading && (!user || !canView)) navigate("/");
+  }, [user, canView, isLoading, navigate]);
 
-  async function fetchUsers() {
+  const fetchUsers = useCallback(async () => {
+    const request = ++usersRequest.current;
     setLoading(true);
-    const { data, error } = await supabase
-      .from("user_roles")
-      .select("user_id, role, profiles(email)");
+
+    // Nulls last either way, so users without a sign-in or a decided report
+    // don't crowd the top of the list
+    const { data, count, error } = await supabase
+      .rpc("admin_list_users", { _search: query || undefined }, { count: "exact" })
+      .order(sort.column, { ascending: sort.ascending, nullsFirst: false })
+      .order("id")
+      .range((page - 1) * PER_PAGE, page * PER_PAGE - 1);
+    if (request !== usersRequest.current) return;
 
     if (error) {
       toast({ title: "Error", description: "Failed to fetch users", variant: "destructive" });
     } else {
-      const formatted = data.map((u: any) => ({
-        id: u.user_id,
-        role: u.role,
-        email: u.profiles?.email || "Unknown",
-      }));
-      setUsers(formatted);
+      setUsers(data || []);
+      setTotalCount(count || 0);
     }
     setLoading(false);
+  }, [query, sort, page]);
+
+  useEffect(() => {
+    if (canView) fetchUsers();
+  }, [canView, fetchUsers]);
+
+  function submitSearch(e: FormEvent) {
+    e.preventDefault();
+    setQuery(search.trim());
+    setPage(1);
+  }
+
+  function toggleSort(column: UserSortColumn) {
+    // Text columns read best A-Z, numbers and dates biggest/newest first
+    setSort((prev) =>
+      prev.column === column
+        ? { column, ascending: !prev.ascending }
+        : { column, ascending: column === "email" || column === "status" }
+    );
+    setPage(1);
   }
 
-  async function deleteUser(id: string) {
-    if (!confirm("Remove this user permanently?")) return;
+  async function changeRole(target: UserListRow, role: AppRole) {
+    const reason = prompt(
+      `Make ${target.email} ${roleConfig[role].label.toLowerCase()}? Add a reason for the moderation log (optional).`
+    );
+    if (reason === null) return;
 
-    const { error } = await supabase.from("user_roles").delete().eq("user_id", id);
+    const { error } = await runAdminUserAction({ action: "set_role", userId: target.id, role, reason });
 
     if (error) {
-      toast({ title: "Error", description: "Failed to delete user", variant: "destructive" });
+      toast({ title: "Error", description: error.message, variant: "destructive" });
     } else {
-      toast({ title: "User removed" });
+      toast({ title: "Role updated", description: `${target.email} is now ${roleConfig[role].label.toLowerCase()}` });
+    }
+    fetchUsers();
+  }
+
+  async function liftRestriction(target: UserListRow) {
+    const reason = prompt(`Lift the restriction on ${target.email}? Add a reason for the moderation log (optional).`);
+    if (reason === null) return;
+
+    const { error } = await runAdminUserAction({ action: "lift_restriction", userId: target.id, reason });
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Restriction lifted", description: target.email });
       fetchUsers();
     }
   }
 
-  const filteredUsers = users.filter((u) =>
-    u.email.toLowerCase().includes(search.toLowerCase())
-  );
+  const totalPages = Math.max(1, Math.ceil(totalCount / PER_PAGE));
 
   return (
     <div className="min-h-screen p-6 bg-background">
@@ -76,59 +156,179 @@ export default function UsersPage() {
           <Button variant="ghost" size="icon" onClick={() => navigate("/admin")}>
             <ArrowLeft className="h-5 w-5" />
           </Button>
-          <h1 className="text-2xl font-bold">User Management</h1>
+          <h1 className="text-2xl font-bold">{canManage ? "User Management" : "Users"}</h1>
         </div>
       </div>
 
       {/* SEARCH BAR */}
-      <div className="flex flex-col md:flex-row items-center gap-3 mb-4">
+      <form onSubmit={submitSearch} className="flex flex-col md:flex-row items-center gap-3 mb-4">
         <Input
           placeholder="Search users by email..."
           value={search}
           onChange={(e) => setSearch(e.target.value)}
           className="max-w-lg w-full"
         />
-        <Button variant="secondary">
+        <Button type="submit" variant="secondary">
           <Search className="w-4 h-4 mr-1" /> Search
         </Button>
-      </div>
+      </form>
 
       {/* USER LIST */}
-      {loading ? (
-        <div className="text-center py-10">Loading users...</div>
-      ) : filteredUsers.length === 0 ? (
-        <p className="text-center py-10 text-muted-foreground">No users found</p>
-      ) : (
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {filteredUsers.map((u) => (
-            <Card key={u.id}>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <User className="h-5 w-5 text-primary" />
-                  {u.email}
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                <Badge variant={u.role === "admin" ? "default" : "secondary"}>
-                  {u.role}
-                </Badge>
-
-                <div className="flex items-center justify-end gap-2">
-                  {u.role !== "admin" && (
-                    <Button
-                      size="sm"
-                      variant="destructive"
-                      onClick={() => deleteUser(u.id)}
-                    >
-                      <Trash2 className="h-4 w-4 mr-1" /> Remove
-                    </Button>
-                  )}
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+      <Card>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="text-center py-10">Loading users...</div>
+          ) : users.length === 0 ? (
+            <p className="text-center py-10 text-muted-foreground">No users found</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {COLUMNS.map((column) => (
+                    <TableHead key={column.key} className={column.className}>
+                      <button
+                        type="button"
+                        className="inline-flex items-center gap-1 hover:text-foreground"
+                        onClick={() => toggleSort(column.key)}
+                      >
+                        {column.label}
+                        {sort.column !== column.key ? (
+                          <ArrowUpDown className="h-3 w-3 opacity-50" />
+                        ) : sort.ascending ? (
+                          <ArrowUp className="h-3 w-3" />
+                        ) : (
+                          <ArrowDown className="h-3 w-3" />
+                        )}
+                      </button>
+                    </TableHead>
+                  ))}
+                  <TableHead>Role</TableHead>
+                  {canManage && <TableHead className="w-10" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map((u) => {
+                  const role = primaryRole(u.roles);
+                  const status = accountStatusConfig[u.status as AccountStatus];
+                  const isSelf = u.id === user?.id;
+
+                  return (
+                    <TableRow key={u.id}>
+                      <TableCell className="font-medium">{u.email}</TableCell>
+                      <TableCell className="whitespace-nowrap">{format(new Date(u.created_at), "PP")}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {u.last_sign_in_at
+                          ? formatDistanceToNow(new Date(u.last_sign_in_at), { addSuffix: true })
+                          : "Never"}
+                      </TableCell>
+                      <TableCell className="text-right">{u.report_count}</TableCell>
+                      <TableCell
+                        className="text-right"
+                        title={`${u.approved_count} published · ${u.rejected_count} rejected`}
+                      >
+                        {u.approval_rate === null ? "—" : `${Math.round(u.approval_rate * 100)}%`}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={status.variant}>
+                          {u.status === "suspended"
+                            ? `Suspended until ${format(new Date(u.suspended_until), "PP")}`
+                            : status.label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {isSelf || !canManage ? (
+                          <Badge variant={roleConfig[role].variant}>{roleConfig[role].label}</Badge>
+                        ) : (
+                          <Select value={role} onValueChange={(next) => changeRole(u, next as AppRole)}>
+                            <SelectTrigger className="w-32 h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {ROLE_ORDER.map((r) => (
+                                <SelectItem key={r} value={r}>
+                                  {roleConfig[r].label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </TableCell>
+                      {canManage && (
+                        <TableCell>
+                          {!isSelf && (
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button size="icon" variant="ghost" aria-label={`Actions for ${u.email}`}>
+                                  <MoreHorizontal className="h-4 w-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                {role === "moderator" && (
+                                  <DropdownMenuItem onClick={() => setScopeEditing(u)}>
+                                    <MapPinned className="h-4 w-4 mr-2" /> Scope
+                                  </DropdownMenuItem>
+                                )}
+                                {u.suspended_until || u.banned_at ? (
+                                  <DropdownMenuItem onClick={() => liftRestriction(u)}>
+                                    <ShieldCheck className="h-4 w-4 mr-2" />
+                                    {u.status === "active" ? "Clear expired suspension" : "Lift restriction"}
+                                  </DropdownMenuItem>
+                                ) : (
+                                  <>
+                                    <DropdownMenuItem onClick={() => setActing({ ...u, action: "suspend" })}>
+                                      <Clock className="h-4 w-4 mr-2" /> Suspend
+                                    </DropdownMenuItem>
+                                    <DropdownMenuItem onClick={() => setActing({ ...u, action: "ban" })}>
+                                      <Ban className="h-4 w-4 mr-2" /> Ban
+                                    </DropdownMenuItem>
+                                  </>
+                                )}
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem
+                                  className="text-destructive"
+                                  onClick={() => setActing({ ...u, action: "delete" })}
+                                >
+                                  <Trash2 className="h-4 w-4 mr-2" /> Delete
+                                </DropdownMenuItem>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* PAGINATION */}
+      <div className="flex items-center justify-between mt-4">
+        <p className="text-sm">
+          Page {page} of {totalPages} · {totalCount} users
+        </p>
+        <div className="flex items-center gap-2">
+          <Button disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            Prev
+          </Button>
+          <Button disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+            Next
+          </Button>
         </div>
-      )}
+      </div>
+
+      <AccountActionDialog
+        target={acting}
+        onOpenChange={(open) => !open && setActing(null)}
+        onDone={fetchUsers}
+      />
+
+      <ModeratorScopeDialog
+        moderator={scopeEditing}
+        onOpenChange={(open) => !open && setScopeEditing(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,5 @@
+import { vi } from "vitest";
+
+// The helpers under test build queries without sending them, and the real
+// client needs browser storage to load
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
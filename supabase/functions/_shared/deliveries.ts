@@ -0,0 +1,99 @@
+// The notification_deliveries outbox, shared by the per-channel senders
+// (send-push, send-email, send-sms). Each run claims a batch for its channel,
+// delivers it and records how each one went.
+
+import { createClient, SupabaseClient } from "jsr:@supabase/supabase-js@2";
+
+const BATCH_SIZE = 100;
+// Same limit as claim_notification_deliveries
+const MAX_ATTEMPTS = 5;
+
+export type Channel = "push" | "email" | "sms";
+
+export interface Delivery {
+  notification_id: string;
+  attempts: number;
+}
+
+export interface QueuedNotification {
+  id: string;
+  user_id: string | null;
+  recipient_email: string | null;
+  recipient_phone: string | null;
+  kind: string;
+  incident_id: string | null;
+  title: string;
+  body: string | null;
+  data: Record<string, unknown> | null;
+}
+
+// Anything but a retry is final
+export type Outcome = { status: "sent" | "skipped"; error?: string } | { status: "retry"; error: string };
+
+export function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+export function check(error: { message: string } | null) {
+  if (error) throw new Error(error.message);
+}
+
+// Senders are only ever called by pg_cron, with the service role key
+export function isServiceRequest(req: Request) {
+  return req.headers.get("Authorization") === `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`;
+}
+
+export function serviceClient() {
+  return createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"), {
+    auth: { persistSession: false },
+  });
+}
+
+// Same as notificationLink in src/lib/notifications.ts
+export function notificationLink(notification: QueuedNotification) {
+  if (notification.kind === "report_status") return "/me/reports";
+  if (notification.kind === "pending_report") return "/admin/review";
+  return notification.incident_id ? `/incidents/${notification.incident_id}` : "/";
+}
+
+// Claims a batch and loads the notifications behind it. Notifications deleted
+// since they were queued take their deliveries with them, so they're skipped.
+export async function claimDeliveries(admin: SupabaseClient, channel: Channel) {
+  const { data: deliveries, error } = await admin.rpc("claim_notification_deliveries", {
+    _channel: channel,
+    _limit: BATCH_SIZE,
+  });
+  check(error);
+  if (deliveries.length === 0) return [];
+
+  const { data: notifications, error: notificationsError } = await admin
+    .from("notifications")
+    .select("id, user_id, recipient_email, recipient_phone, kind, incident_id, title, body, data")
+    .in("id", deliveries.map((d: Delivery) => d.notification_id));
+  check(notificationsError);
+
+  return (deliveries as Delivery[]).flatMap((delivery) => {
+    const notification = notifications.find((n: QueuedNotification) => n.id === delivery.notification_id);
+    return notification ? [{ delivery, notification: notification as QueuedNotification }] : [];
+  });
+}
+
+export async function recordDelivery(admin: SupabaseClient, channel: Channel, delivery: Delivery, outcome: Outcome) {
+  const status =
+    outcome.status === "retry" ? (delivery.attempts >= MAX_ATTEMPTS ? "failed" : "pending") : outcome.status;
+
+  check(
+    (
+      await admin
+        .from("notification_deliveries")
+        .update({
+          status,
+          last_error: outcome.error?.slice(0, 500) ?? null,
+          sent_at: status === "sent" ? new Date().toISOString() : null,
+        })
+        .eq("notification_id", delivery.notification_id)
+        .eq("channel", channel)
+    ).error
+  );
+  return status;
+}
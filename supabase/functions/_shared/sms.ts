@@ -0,0 +1,117 @@
+// Where text messages go, picked with SMS_PROVIDER:
+//
+//   twilio  Twilio's Messages API: TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and
+//           TWILIO_FROM (a number or messaging service SID). TWILIO_API_URL
+//           points it at another service that speaks the same API.
+//   fake    prints each message to the function logs instead of sending it,
+//           so verification codes can be read from there in development
+//
+// New providers only need to implement SmsProvider and be added to
+// createSmsProvider.
+
+import { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+
+export interface SmsProvider {
+  // Resolves with the provider's id for the message
+  send(to: string, body: string): Promise<string>;
+}
+
+// E.164, matching the phone_numbers.phone check constraint
+export const PHONE_PATTERN = /^\+[1-9][0-9]{7,14}$/;
+
+// How many texts one number can get; older ones are in sms_messages
+const SMS_RATE_LIMITS = {
+  verification: { perHour: 3, perDay: 10 },
+  alert: { perHour: 5, perDay: 20 },
+};
+
+function twilioProvider(): SmsProvider {
+  const accountSid = Deno.env.get("TWILIO_ACCOUNT_SID");
+  const authToken = Deno.env.get("TWILIO_AUTH_TOKEN");
+  const from = Deno.env.get("TWILIO_FROM");
+  if (!accountSid || !authToken || !from) {
+    throw new Error("TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM must be set");
+  }
+  const apiUrl = Deno.env.get("TWILIO_API_URL") ?? "https://api.twilio.com";
+
+  return {
+    async send(to, body) {
+      const response = await fetch(`${apiUrl}/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({
+          To: to,
+          Body: body,
+          [from.startsWith("MG") ? "MessagingServiceSid" : "From"]: from,
+        }),
+      });
+
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(`Twilio ${response.status}: ${result.message ?? "request failed"}`);
+      return result.sid;
+    },
+  };
+}
+
+function fakeProvider(): SmsProvider {
+  return {
+    async send(to, body) {
+      const id = `fake-${crypto.randomUUID()}`;
+      console.log(`SMS ${id} to ${to}: ${body}`);
+      return id;
+    },
+  };
+}
+
+export function createSmsProvider(): SmsProvider {
+  const kind = Deno.env.get("SMS_PROVIDER") ?? "twilio";
+  switch (kind) {
+    case "twilio":
+      return twilioProvider();
+    case "fake":
+      return fakeProvider();
+    default:
+      throw new Error(`Unknown SMS_PROVIDER "${kind}"`);
+  }
+}
+
+type SmsPurpose = keyof typeof SMS_RATE_LIMITS;
+
+// Whether another text of this kind would take the number over its limits
+export async function isRateLimited(admin: SupabaseClient, phone: string, purpose: SmsPurpose) {
+  const limits = SMS_RATE_LIMITS[purpose];
+  const since = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+
+  const count = async (hours: number) => {
+    const { count, error } = await admin
+      .from("sms_messages")
+      .select("id", { count: "exact", head: true })
+      .eq("phone", phone)
+      .eq("purpose", purpose)
+      .gte("created_at", since(hours));
+    if (error) throw new Error(error.message);
+    return count ?? 0;
+  };
+
+  return (await count(1)) >= limits.perHour || (await count(24)) >= limits.perDay;
+}
+
+// Sends a text and logs it for the rate limits
+export async function sendSms(
+  admin: SupabaseClient,
+  provider: SmsProvider,
+  message: { phone: string; userId: string | null; purpose: SmsPurpose; body: string }
+) {
+  const providerMessageId = await provider.send(message.phone, message.body);
+
+  const { error } = await admin.from("sms_messages").insert({
+    phone: message.phone,
+    user_id: message.userId,
+    purpose: message.purpose,
+    provider_message_id: providerMessageId,
+  });
+  if (error) console.error("Failed to log sent SMS:", error);
+}
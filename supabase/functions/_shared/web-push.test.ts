@@ -0,0 +1,140 @@
+// deno test supabase/functions/_shared/web-push.test.ts
+
+import { assert, assertEquals, assertRejects } from "jsr:@std/assert@1";
+import { decodeBase64Url, deriveContentKeys, encodeBase64Url, sendWebPush, VapidKeys } from "./web-push.ts";
+
+const decoder = new TextDecoder();
+
+// What a browser holds for a subscription: an ECDH key pair and an auth secret
+async function browserSubscription() {
+  const keys = await crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, true, ["deriveBits"]);
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey("raw", keys.publicKey));
+  const authSecret = crypto.getRandomValues(new Uint8Array(16));
+
+  return {
+    privateKey: keys.privateKey,
+    publicKey,
+    authSecret,
+    keys: { endpoint: "https://push.example.com/send/abc", p256dh: encodeBase64Url(publicKey), auth: encodeBase64Url(authSecret) },
+  };
+}
+
+async function vapidKeys(): Promise<VapidKeys> {
+  const keys = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, true, ["sign", "verify"]);
+  const jwk = await crypto.subtle.exportKey("jwk", keys.privateKey);
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey("raw", keys.publicKey));
+
+  return { publicKey: encodeBase64Url(publicKey), privateKey: jwk.d!, subject: "mailto:alerts@example.com" };
+}
+
+// Sends through a stubbed fetch and returns the request the push service would get
+async function capturePush(...args: Parameters<typeof sendWebPush>) {
+  const originalFetch = globalThis.fetch;
+  let captured: { url: string; init: RequestInit } | undefined;
+  globalThis.fetch = (url, init) => {
+    captured = { url: String(url), init: init! };
+    return Promise.resolve(new Response(null, { status: 201 }));
+  };
+
+  try {
+    await sendWebPush(...args);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+
+  const headers = new Headers(captured!.init.headers);
+  return { url: captured!.url, headers, body: captured!.init.body as Uint8Array };
+}
+
+Deno.test("deriveContentKeys matches the RFC 8291 example", async () => {
+  const { contentKey, nonce } = await deriveContentKeys(
+    decodeBase64Url("kyrL1jIIOHEzg3sM2ZWRHDRB62YACZhhSlknJ672kSs"),
+    decodeBase64Url("BTBZMqHH6r4Tts7J_aSIgg"),
+    decodeBase64Url("BCVxsr7N_eNgVRqvHtD0zTZsEc6-VV-JvLexhqUzORcxaOzi6-AYWXvTBHm4bjyPjs7Vd8pZGH6SRpkNtoIAiw4"),
+    decodeBase64Url("BP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocInmYWAmS6TlzAC8wEqKK6PBru3jl7A8"),
+    decodeBase64Url("DGv6ra1nlYgDCS1FRnbzlw")
+  );
+
+  assertEquals(encodeBase64Url(contentKey), "oIhVW04MRdy2XN9CiKLxTg");
+  assertEquals(encodeBase64Url(nonce), "4h_95klXJ5E_qnoN");
+});
+
+Deno.test("sendWebPush encrypts the payload so only the subscriber can read it", async () => {
+  const subscriber = await browserSubscription();
+  const payload = JSON.stringify({ title: "Critical incident nearby", url: "/incidents/1" });
+
+  const { url, headers, body } = await capturePush(subscriber.keys, payload, await vapidKeys(), { ttl: 60, urgency: "high" });
+
+  assertEquals(url, subscriber.keys.endpoint);
+  assertEquals(headers.get("Content-Encoding"), "aes128gcm");
+  assertEquals(headers.get("TTL"), "60");
+  assertEquals(headers.get("Urgency"), "high");
+
+  // aes128gcm header: salt, record size, sender key length, sender key
+  const salt = body.slice(0, 16);
+  assertEquals(new DataView(body.buffer, body.byteOffset).getUint32(16), 4096);
+  const senderPublicKey = body.slice(21, 21 + body[20]);
+  assertEquals(senderPublicKey.length, 65);
+
+  const senderKey = await crypto.subtle.importKey("raw", senderPublicKey, { name: "ECDH", namedCurve: "P-256" }, false, []);
+  const ecdhSecret = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: "ECDH", public: senderKey }, subscriber.privateKey, 256)
+  );
+  const { contentKey, nonce } = await deriveContentKeys(
+    ecdhSecret,
+    subscriber.authSecret,
+    subscriber.publicKey,
+    senderPublicKey,
+    salt
+  );
+  const key = await crypto.subtle.importKey("raw", contentKey, "AES-GCM", false, ["decrypt"]);
+  const plaintext = new Uint8Array(
+    await crypto.subtle.decrypt({ name: "AES-GCM", iv: nonce }, key, body.slice(21 + senderPublicKey.length))
+  );
+
+  // Last record delimiter, no padding
+  assertEquals(plaintext[plaintext.length - 1], 2);
+  assertEquals(decoder.decode(plaintext.slice(0, -1)), payload);
+});
+
+Deno.test("sendWebPush signs a VAPID token for the push service's origin", async () => {
+  const subscriber = await browserSubscription();
+  const vapid = await vapidKeys();
+
+  const { headers } = await capturePush(subscriber.keys, "{}", vapid);
+  const match = headers.get("Authorization")?.match(/^vapid t=([^.]+)\.([^.]+)\.([^,]+), k=(.+)$/);
+  assert(match, "Authorization should be a VAPID header");
+
+  const [, header, claims, signature, publicKey] = match;
+  assertEquals(publicKey, vapid.publicKey);
+  assertEquals(JSON.parse(decoder.decode(decodeBase64Url(header))), { typ: "JWT", alg: "ES256" });
+
+  const { aud, exp, sub } = JSON.parse(decoder.decode(decodeBase64Url(claims)));
+  assertEquals(aud, "https://push.example.com");
+  assertEquals(sub, vapid.subject);
+  // Push services refuse tokens that live longer than a day
+  assert(exp > Date.now() / 1000 && exp <= Date.now() / 1000 + 24 * 60 * 60);
+
+  const verifyKey = await crypto.subtle.importKey("raw", decodeBase64Url(publicKey), { name: "ECDSA", namedCurve: "P-256" }, false, [
+    "verify",
+  ]);
+  assert(
+    await crypto.subtle.verify(
+      { name: "ECDSA", hash: "SHA-256" },
+      verifyKey,
+      decodeBase64Url(signature),
+      new TextEncoder().encode(`${header}.${claims}`)
+    ),
+    "VAPID signature should verify with the public key"
+  );
+});
+
+Deno.test("sendWebPush refuses payloads that don't fit in one record", async () => {
+  const subscriber = await browserSubscription();
+
+  await assertRejects(
+    async () => capturePush(subscriber.keys, "x".repeat(4096), await vapidKeys()),
+    Error,
+    "Push payload is too large"
+  );
+});
@@ -0,0 +1,158 @@
+// Web Push with nothing but WebCrypto and fetch: VAPID signing (RFC 8292)
+// and aes128gcm payload encryption (RFC 8291). Used by send-push, and by its
+// local endpoint stub to decrypt what it receives.
+
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface VapidKeys {
+  publicKey: string;
+  privateKey: string;
+  // mailto: or https: contact for push services that need to reach the sender
+  subject: string;
+}
+
+export interface PushOptions {
+  // Seconds the push service keeps the message for an offline browser
+  ttl?: number;
+  urgency?: "very-low" | "low" | "normal" | "high";
+}
+
+// Single record, so payloads must stay well under this
+const RECORD_SIZE = 4096;
+
+const encoder = new TextEncoder();
+
+export function encodeBase64Url(bytes: Uint8Array) {
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function decodeBase64Url(value: string) {
+  const base64 = (value + "=".repeat((4 - (value.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+export function concat(...parts: Uint8Array[]) {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+export async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number) {
+  const key = await crypto.subtle.importKey("raw", ikm, "HKDF", false, ["deriveBits"]);
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: "HKDF", hash: "SHA-256", salt, info }, key, length * 8));
+}
+
+// Content key and nonce shared by both ends, from the ECDH secret and the
+// subscription's auth secret
+export async function deriveContentKeys(
+  ecdhSecret: Uint8Array,
+  authSecret: Uint8Array,
+  receiverPublicKey: Uint8Array,
+  senderPublicKey: Uint8Array,
+  salt: Uint8Array
+) {
+  const keyInfo = concat(encoder.encode("WebPush: info\0"), receiverPublicKey, senderPublicKey);
+  const ikm = await hkdf(authSecret, ecdhSecret, keyInfo, 32);
+  const contentKey = await hkdf(salt, ikm, encoder.encode("Content-Encoding: aes128gcm\0"), 16);
+  const nonce = await hkdf(salt, ikm, encoder.encode("Content-Encoding: nonce\0"), 12);
+  return { contentKey, nonce };
+}
+
+async function encrypt(subscription: PushSubscriptionKeys, payload: string) {
+  const receiverPublicKey = decodeBase64Url(subscription.p256dh);
+  const receiverKey = await crypto.subtle.importKey("raw", receiverPublicKey, { name: "ECDH", namedCurve: "P-256" }, false, []);
+
+  // A fresh key pair and salt for every message
+  const sender = await crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, true, ["deriveBits"]);
+  const senderPublicKey = new Uint8Array(await crypto.subtle.exportKey("raw", sender.publicKey));
+  const ecdhSecret = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: "ECDH", public: receiverKey }, sender.privateKey, 256)
+  );
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+
+  const { contentKey, nonce } = await deriveContentKeys(
+    ecdhSecret,
+    decodeBase64Url(subscription.auth),
+    receiverPublicKey,
+    senderPublicKey,
+    salt
+  );
+
+  // 0x02 marks the last (and only) record
+  const plaintext = concat(encoder.encode(payload), new Uint8Array([2]));
+  if (plaintext.length + 16 > RECORD_SIZE) throw new Error("Push payload is too large");
+
+  const key = await crypto.subtle.importKey("raw", contentKey, "AES-GCM", false, ["encrypt"]);
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv: nonce }, key, plaintext));
+
+  const header = new Uint8Array(21);
+  header.set(salt);
+  new DataView(header.buffer).setUint32(16, RECORD_SIZE);
+  header[20] = senderPublicKey.length;
+
+  return concat(header, senderPublicKey, ciphertext);
+}
+
+async function vapidAuthorization(endpoint: string, vapid: VapidKeys) {
+  const publicKey = decodeBase64Url(vapid.publicKey);
+  const privateKey = await crypto.subtle.importKey(
+    "jwk",
+    {
+      kty: "EC",
+      crv: "P-256",
+      d: vapid.privateKey,
+      x: encodeBase64Url(publicKey.slice(1, 33)),
+      y: encodeBase64Url(publicKey.slice(33, 65)),
+    },
+    { name: "ECDSA", namedCurve: "P-256" },
+    false,
+    ["sign"]
+  );
+
+  const header = encodeBase64Url(encoder.encode(JSON.stringify({ typ: "JWT", alg: "ES256" })));
+  const claims = encodeBase64Url(
+    encoder.encode(
+      JSON.stringify({
+        aud: new URL(endpoint).origin,
+        exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+        sub: vapid.subject,
+      })
+    )
+  );
+  const signature = new Uint8Array(
+    await crypto.subtle.sign({ name: "ECDSA", hash: "SHA-256" }, privateKey, encoder.encode(`${header}.${claims}`))
+  );
+
+  return `vapid t=${header}.${claims}.${encodeBase64Url(signature)}, k=${vapid.publicKey}`;
+}
+
+// Resolves with the push service's response; 201 means accepted, and 404 or
+// 410 mean the subscription is gone for good
+export async function sendWebPush(
+  subscription: PushSubscriptionKeys,
+  payload: string,
+  vapid: VapidKeys,
+  options: PushOptions = {}
+) {
+  return fetch(subscription.endpoint, {
+    method: "POST",
+    headers: {
+      Authorization: await vapidAuthorization(subscription.endpoint, vapid),
+      "Content-Encoding": "aes128gcm",
+      "Content-Type": "application/octet-stream",
+      TTL: String(options.ttl ?? 24 * 60 * 60),
+      Urgency: options.urgency ?? "normal",
+    },
+    body: await encrypt(subscription, payload),
+  });
+}
@@ -0,0 +1,185 @@
+// Account actions that need more than RLS: changing roles, suspending,
+// banning and deleting users. Called from the Users page through
+// supabase.functions.invoke("admin-users", { body }).
+//
+// Table writes go through a client that carries the caller's session (and the
+// optional reason as x-moderation-reason), so RLS still applies and the audit
+// trigger records who did what. Only the Auth admin API and storage cleanup
+// use the service role key.
+//
+// Deploy with `supabase functions deploy admin-users`. SUPABASE_URL,
+// SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY are provided by Supabase.
+
+import { createClient, SupabaseClient } from "jsr:@supabase/supabase-js@2";
+
+const MEDIA_BUCKET = "incident-media";
+// Auth has no permanent ban, so a ban lasts a century
+const BAN_DURATION = "876000h";
+const ELEVATED_ROLES = ["admin", "moderator"];
+
+type AdminUserRequest =
+  | { action: "set_role"; userId: string; role: "admin" | "moderator" | "user"; reason?: string }
+  | { action: "suspend"; userId: string; until: string; reason?: string }
+  | { action: "ban"; userId: string; reason?: string }
+  | { action: "lift_restriction"; userId: string; reason?: string }
+  | { action: "delete"; userId: string; incidents: "anonymize" | "delete"; reason?: string };
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Same encoding as withModerationReason in src/lib/moderation.ts
+function encodeReason(reason?: string) {
+  const trimmed = reason?.trim();
+  if (!trimmed) return undefined;
+
+  let binary = "";
+  new TextEncoder().encode(trimmed).forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary);
+}
+
+function check(error: { message: string } | null) {
+  if (error) throw new HttpError(400, error.message);
+}
+
+async function setRole(caller: SupabaseClient, userId: string, role: string) {
+  const { data: current, error } = await caller.from("user_roles").select("role").eq("user_id", userId);
+  check(error);
+  const wasModerator = current.some((row) => row.role === "moderator");
+
+  check(
+    (await caller.from("user_roles").delete().eq("user_id", userId).in("role", ELEVATED_ROLES.filter((r) => r !== role)))
+      .error
+  );
+  if (role !== "user") {
+    check(
+      (await caller.from("user_roles").upsert({ user_id: userId, role }, { onConflict: "user_id,role", ignoreDuplicates: true }))
+        .error
+    );
+  }
+
+  // New moderators start out covering every neighborhood
+  if (role === "moderator" && !wasModerator) {
+    check((await caller.from("moderator_scopes").insert({ user_id: userId, neighborhood_id: null })).error);
+  }
+  if (role !== "moderator" && wasModerator) {
+    check((await caller.from("moderator_scopes").delete().eq("user_id", userId)).error);
+  }
+}
+
+async function restrict(caller: SupabaseClient, callerId: string, userId: string, values: Record<string, unknown>) {
+  const { error } = await caller
+    .from("account_restrictions")
+    .upsert({ user_id: userId, created_by: callerId, suspended_until: null, banned_at: null, ...values });
+  check(error);
+}
+
+async function handle(request: AdminUserRequest, caller: SupabaseClient, admin: SupabaseClient, callerId: string) {
+  const reason = request.reason?.trim() || null;
+
+  switch (request.action) {
+    case "set_role":
+      if (!["admin", "moderator", "user"].includes(request.role)) throw new HttpError(400, "Unknown role");
+      await setRole(caller, request.userId, request.role);
+      return;
+
+    case "suspend": {
+      const until = new Date(request.until);
+      if (isNaN(until.getTime()) || until <= new Date()) {
+        throw new HttpError(400, "Suspensions need an end date in the future");
+      }
+      await restrict(caller, callerId, request.userId, { suspended_until: until.toISOString(), reason });
+      return;
+    }
+
+    case "ban":
+      await restrict(caller, callerId, request.userId, { banned_at: new Date().toISOString(), reason });
+      // Also stops them signing in or refreshing their session
+      check((await admin.auth.admin.updateUserById(request.userId, { ban_duration: BAN_DURATION })).error);
+      return;
+
+    case "lift_restriction":
+      check((await caller.from("account_restrictions").delete().eq("user_id", request.userId)).error);
+      check((await admin.auth.admin.updateUserById(request.userId, { ban_duration: "none" })).error);
+      return;
+
+    case "delete": {
+      if (!["anonymize", "delete"].includes(request.incidents)) {
+        throw new HttpError(400, "Choose whether to anonymize or delete their incidents");
+      }
+
+      const { data: paths, error } = await caller.rpc("prepare_account_deletion", {
+        _user_id: request.userId,
+        _delete_incidents: request.incidents === "delete",
+      });
+      check(error);
+
+      if (paths.length > 0) {
+        const { error: storageError } = await admin.storage.from(MEDIA_BUCKET).remove(paths);
+        if (storageError) console.error("Failed to remove media of deleted account:", storageError);
+      }
+
+      // Confirmations, roles and the profile cascade with the auth user; what's
+      // left of their comments stays up without an author
+      check((await admin.auth.admin.deleteUser(request.userId)).error);
+      return;
+    }
+
+    default:
+      throw new HttpError(400, "Unknown action");
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
+
+  try {
+    const body: AdminUserRequest = await req.json();
+    const reason = encodeReason(body.reason);
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const caller = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY"), {
+      global: {
+        headers: {
+          Authorization: req.headers.get("Authorization") ?? "",
+          ...(reason ? { "x-moderation-reason": reason } : {}),
+        },
+      },
+      auth: { persistSession: false },
+    });
+    const admin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+
+    const {
+      data: { user },
+    } = await caller.auth.getUser();
+    if (!user) throw new HttpError(401, "Not signed in");
+
+    const { data: allowed } = await caller.rpc("has_permission", { _user_id: user.id, _permission: "users.manage" });
+    if (!allowed) throw new HttpError(403, "Not allowed to manage users");
+    if (!body.userId || body.userId === user.id) throw new HttpError(400, "You can't change your own account here");
+
+    await handle(body, caller, admin, user.id);
+    return json({ ok: true });
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status === 500) console.error("admin-users failed:", error);
+    return json({ error: error instanceof Error ? error.message : "Unexpected error" }, status);
+  }
+});
@@ -0,0 +1,143 @@
+// Delivers queued email: alerts and status changes for users who turned on
+// the email channel, new-report alerts to the admin alert address from the
+// Settings page, and the digests queued by queue_email_digests. Works through
+// notification_deliveries the same way as send-push.
+//
+// Meant to be called every minute by pg_cron (see SETUP.md) with the service
+// role key as the bearer token; anyone else is turned away.
+//
+// Deploy with `supabase functions deploy send-email` after setting SITE_URL
+// (used in links), EMAIL_FROM and the transport settings described in
+// transport.ts.
+
+import { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import {
+  check,
+  claimDeliveries,
+  isServiceRequest,
+  json,
+  Outcome,
+  QueuedNotification,
+  recordDelivery,
+  serviceClient,
+} from "../_shared/deliveries.ts";
+import { IncidentSummary, render } from "./templates.ts";
+import { createEmailTransport, EmailTransport } from "./transport.ts";
+
+async function loadIncidents(admin: SupabaseClient, notifications: QueuedNotification[]) {
+  const ids = new Set<string>();
+  for (const notification of notifications) {
+    if (notification.incident_id) ids.add(notification.incident_id);
+    for (const id of (notification.data?.incident_ids as string[]) ?? []) ids.add(id);
+  }
+  if (ids.size === 0) return new Map<string, IncidentSummary>();
+
+  const { data, error } = await admin
+    .from("incidents")
+    .select("id, title, location, severity, status, created_at, category:incident_categories(label)")
+    .in("id", [...ids]);
+  check(error);
+
+  return new Map<string, IncidentSummary>(
+    data.map((row: Omit<IncidentSummary, "category"> & { category: { label: string } | null }) => [
+      row.id,
+      { ...row, category: row.category?.label ?? "Incident" },
+    ])
+  );
+}
+
+async function loadAddresses(admin: SupabaseClient, notifications: QueuedNotification[]) {
+  const userIds = [...new Set(notifications.flatMap((n) => (n.user_id ? [n.user_id] : [])))];
+  if (userIds.length === 0) return new Map<string, string>();
+
+  // From Auth rather than profiles: that copy can be edited by its owner and
+  // goes stale when the address changes. Only confirmed addresses get mail.
+  const users = await Promise.all(
+    userIds.map(async (id) => {
+      const { data, error } = await admin.auth.admin.getUserById(id);
+      // Deleted since the notification was queued
+      if (error?.status === 404) return null;
+      check(error);
+      return data.user;
+    })
+  );
+  return new Map<string, string>(
+    users.filter((user) => user?.email && user.email_confirmed_at).map((user) => [user.id, user.email])
+  );
+}
+
+async function siteName(admin: SupabaseClient) {
+  const { data } = await admin.from("site_settings").select("value").eq("key", "site_name").maybeSingle();
+  return typeof data?.value === "string" && data.value ? data.value : "SafetyWatch";
+}
+
+async function deliver(
+  admin: SupabaseClient,
+  transport: EmailTransport,
+  notification: QueuedNotification,
+  to: string | undefined,
+  incidents: Map<string, IncidentSummary>,
+  context: { siteName: string; siteUrl: string }
+): Promise<Outcome> {
+  if (!to) return { status: "skipped", error: "No email address" };
+
+  // Accounts get a link that turns off this kind of email without signing in
+  let unsubscribeUrl: string | undefined;
+  if (notification.user_id) {
+    const { data: token, error } = await admin.rpc("email_unsubscribe_token", {
+      _user_id: notification.user_id,
+      _kind: notification.kind,
+    });
+    check(error);
+    unsubscribeUrl = `${context.siteUrl}/unsubscribe?token=${token}`;
+  }
+
+  const message = render(notification, incidents, { ...context, unsubscribeUrl });
+
+  try {
+    await transport.send({
+      to,
+      ...message,
+      headers: unsubscribeUrl ? { "List-Unsubscribe": `<${unsubscribeUrl}>` } : undefined,
+    });
+    return { status: "sent" };
+  } catch (error) {
+    return { status: "retry", error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+async function sendBatch(admin: SupabaseClient, transport: EmailTransport, siteUrl: string) {
+  const counts = { sent: 0, skipped: 0, pending: 0, failed: 0 };
+  const batch = await claimDeliveries(admin, "email");
+  if (batch.length === 0) return counts;
+
+  const notifications = batch.map(({ notification }) => notification);
+  const [incidents, addresses, name] = await Promise.all([
+    loadIncidents(admin, notifications),
+    loadAddresses(admin, notifications),
+    siteName(admin),
+  ]);
+
+  for (const { delivery, notification } of batch) {
+    const to = notification.recipient_email ?? addresses.get(notification.user_id ?? "");
+    const outcome = await deliver(admin, transport, notification, to, incidents, { siteName: name, siteUrl });
+    counts[await recordDelivery(admin, "email", delivery, outcome)]++;
+  }
+
+  return counts;
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
+  if (!isServiceRequest(req)) return json({ error: "Not allowed" }, 401);
+
+  const siteUrl = Deno.env.get("SITE_URL")?.replace(/\/+$/, "");
+  if (!siteUrl) return json({ error: "SITE_URL must be set" }, 500);
+
+  try {
+    return json(await sendBatch(serviceClient(), createEmailTransport(), siteUrl));
+  } catch (error) {
+    console.error("send-email failed:", error);
+    return json({ error: error instanceof Error ? error.message : "Unexpected error" }, 500);
+  }
+});
@@ -0,0 +1,162 @@
+// Email for each kind of notification. Every template describes its message
+// the same way (intro, incidents, a button, why it was sent), and render()
+// turns that into matching plain text and HTML.
+
+import { QueuedNotification } from "../_shared/deliveries.ts";
+
+export interface IncidentSummary {
+  id: string;
+  title: string;
+  location: string;
+  severity: string;
+  status: string;
+  category: string;
+  created_at: string;
+}
+
+export interface TemplateContext {
+  siteName: string;
+  siteUrl: string;
+  // Set for mail to an account; the admin alert address has none
+  unsubscribeUrl?: string;
+}
+
+interface EmailContent {
+  subject: string;
+  intro: string;
+  incidents: IncidentSummary[];
+  more?: number;
+  action: { label: string; path: string };
+  reason: string;
+}
+
+const SEVERITY_LABELS: Record<string, string> = { low: "Low", medium: "Medium", high: "High", critical: "Critical" };
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+function describe(notification: QueuedNotification, incidents: Map<string, IncidentSummary>): EmailContent {
+  const incident = notification.incident_id ? incidents.get(notification.incident_id) : undefined;
+  const listed = incident ? [incident] : [];
+
+  switch (notification.kind) {
+    case "pending_report":
+      return {
+        subject: notification.title,
+        intro: "A report is waiting for review.",
+        incidents: listed,
+        action: { label: "Open the review queue", path: "/admin/review" },
+        reason: notification.user_id
+          ? "You're getting this because you turned on email for review queue alerts."
+          : "You're getting this because this address is set for admin alerts on the Settings page.",
+      };
+
+    case "report_status":
+      return {
+        subject: notification.title,
+        intro:
+          incident?.status === "rejected"
+            ? "A moderator sent your report back. Open it to see why, then edit and resubmit it."
+            : "A moderator has updated your report.",
+        incidents: listed,
+        action: { label: "See your reports", path: "/me/reports" },
+        reason: "You're getting this because you turned on email for updates on your reports.",
+      };
+
+    case "watch_zone":
+      return {
+        subject: notification.title,
+        intro: "A new incident was published in one of your watch zones.",
+        incidents: listed,
+        action: { label: "View the incident", path: `/incidents/${notification.incident_id}` },
+        reason: "You're getting this because you turned on email for watch zone alerts.",
+      };
+
+    case "digest": {
+      const ids = (notification.data?.incident_ids as string[]) ?? [];
+      const digestIncidents = ids.flatMap((id) => {
+        const listedIncident = incidents.get(id);
+        return listedIncident ? [listedIncident] : [];
+      });
+      const total = Number(notification.data?.total ?? digestIncidents.length);
+      return {
+        subject: notification.title,
+        intro: notification.data?.frequency === "daily" ? "Here's what was reported today." : "Here's what was reported this week.",
+        incidents: digestIncidents,
+        more: total - digestIncidents.length,
+        action: { label: "Open the map", path: "/" },
+        reason: `You're getting this because you signed up for ${notification.data?.frequency} email digests.`,
+      };
+    }
+
+    default:
+      return {
+        subject: notification.title,
+        intro: notification.body ?? "",
+        incidents: listed,
+        action: { label: "Open", path: "/" },
+        reason: "You're getting this because of your alert settings.",
+      };
+  }
+}
+
+function incidentLine(incident: IncidentSummary) {
+  return `${incident.category}, ${SEVERITY_LABELS[incident.severity] ?? incident.severity} severity, ${incident.location}`;
+}
+
+export function render(
+  notification: QueuedNotification,
+  incidents: Map<string, IncidentSummary>,
+  context: TemplateContext
+) {
+  const content = describe(notification, incidents);
+  const actionUrl = `${context.siteUrl}${content.action.path}`;
+  const alertsUrl = `${context.siteUrl}/me/alerts`;
+
+  const text = [
+    content.intro,
+    ...content.incidents.map(
+      (incident) => `- ${incident.title}\n  ${incidentLine(incident)}\n  ${context.siteUrl}/incidents/${incident.id}`
+    ),
+    (content.more ?? 0) > 0 ? `...and ${content.more} more.` : "",
+    `${content.action.label}: ${actionUrl}`,
+    "--",
+    content.reason,
+    context.unsubscribeUrl ? `Unsubscribe: ${context.unsubscribeUrl}\nAll alert settings: ${alertsUrl}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  const html = `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#f4f4f5;font-family:system-ui,-apple-system,sans-serif;color:#18181b">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">
+      <p style="margin:0 0 16px;font-weight:600;color:#2563eb">${escapeHtml(context.siteName)}</p>
+      <h1 style="margin:0 0 12px;font-size:20px">${escapeHtml(content.subject)}</h1>
+      <p style="margin:0 0 16px">${escapeHtml(content.intro)}</p>
+      ${content.incidents
+        .map(
+          (incident) => `<div style="border:1px solid #e4e4e7;border-radius:6px;padding:12px;margin-bottom:8px">
+        <a href="${escapeHtml(`${context.siteUrl}/incidents/${incident.id}`)}" style="font-weight:600;color:#18181b">${escapeHtml(incident.title)}</a>
+        <div style="font-size:14px;color:#71717a">${escapeHtml(incidentLine(incident))}</div>
+      </div>`
+        )
+        .join("\n      ")}
+      ${(content.more ?? 0) > 0 ? `<p style="font-size:14px;color:#71717a">...and ${content.more} more.</p>` : ""}
+      <p style="margin:24px 0">
+        <a href="${escapeHtml(actionUrl)}" style="background:#2563eb;color:#ffffff;padding:10px 16px;border-radius:6px;text-decoration:none">${escapeHtml(content.action.label)}</a>
+      </p>
+      <p style="margin:0;font-size:12px;color:#71717a">
+        ${escapeHtml(content.reason)}
+        ${
+          context.unsubscribeUrl
+            ? `<a href="${escapeHtml(context.unsubscribeUrl)}" style="color:#71717a">Unsubscribe</a> or <a href="${escapeHtml(alertsUrl)}" style="color:#71717a">change your alert settings</a>.`
+            : ""
+        }
+      </p>
+    </div>
+  </body>
+</html>`;
+
+  return { subject: `${content.subject} - ${context.siteName}`, text, html };
+}
@@ -0,0 +1,63 @@
+// Where outgoing email goes, picked with EMAIL_TRANSPORT:
+//
+//   smtp (default)  any SMTP server: SMTP_HOST, SMTP_PORT, SMTP_SECURE,
+//                   SMTP_USER and SMTP_PASS. Point it at MailHog
+//                   (SMTP_PORT=1025) to catch mail in development.
+//   log             prints each message instead of sending it
+//
+// EMAIL_FROM is the sender for every message. New transports only need to
+// implement EmailTransport and be added to createEmailTransport.
+
+import nodemailer from "npm:nodemailer@6";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  headers?: Record<string, string>;
+}
+
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+function smtpTransport(from: string): EmailTransport {
+  const user = Deno.env.get("SMTP_USER");
+  const transporter = nodemailer.createTransport({
+    host: Deno.env.get("SMTP_HOST") ?? "localhost",
+    port: Number(Deno.env.get("SMTP_PORT") ?? 1025),
+    // Implicit TLS, usually on port 465; otherwise STARTTLS when offered
+    secure: Deno.env.get("SMTP_SECURE") === "true",
+    auth: user ? { user, pass: Deno.env.get("SMTP_PASS") } : undefined,
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail({ from, ...message });
+    },
+  };
+}
+
+function logTransport(from: string): EmailTransport {
+  return {
+    async send(message) {
+      console.log(`Email from ${from} to ${message.to}: ${message.subject}\n\n${message.text}`);
+    },
+  };
+}
+
+export function createEmailTransport(): EmailTransport {
+  const from = Deno.env.get("EMAIL_FROM");
+  if (!from) throw new Error("EMAIL_FROM must be set");
+
+  const kind = Deno.env.get("EMAIL_TRANSPORT") ?? "smtp";
+  switch (kind) {
+    case "smtp":
+      return smtpTransport(from);
+    case "log":
+      return logTransport(from);
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${kind}"`);
+  }
+}
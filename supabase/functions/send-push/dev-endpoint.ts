@@ -0,0 +1,103 @@
+// A stand-in for a browser's push service, for testing send-push locally.
+// It makes up a subscription, prints the SQL that registers it for a user,
+// then checks the VAPID signature on every push it receives, decrypts the
+// payload and logs it.
+//
+//   deno run --allow-net --allow-env supabase/functions/send-push/dev-endpoint.ts you@example.com
+//
+// Received messages are listed at GET /messages. Set PUSH_STUB_STATUS=410 to
+// answer like a push service whose subscription has expired. The endpoint
+// uses host.docker.internal because the local edge runtime runs in Docker;
+// override it with PUSH_STUB_HOST.
+
+import { decodeBase64Url, deriveContentKeys, encodeBase64Url } from "../_shared/web-push.ts";
+
+const port = Number(Deno.env.get("PUSH_STUB_PORT") ?? 8787);
+const host = Deno.env.get("PUSH_STUB_HOST") ?? "host.docker.internal";
+const replyStatus = Number(Deno.env.get("PUSH_STUB_STATUS") ?? 201);
+const email = Deno.args[0] ?? "you@example.com";
+
+const received: unknown[] = [];
+
+// What a browser would hold: its own ECDH key pair and an auth secret
+const browserKeys = await crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, true, ["deriveBits"]);
+const browserPublicKey = new Uint8Array(await crypto.subtle.exportKey("raw", browserKeys.publicKey));
+const authSecret = crypto.getRandomValues(new Uint8Array(16));
+const endpoint = `http://${host}:${port}/push`;
+
+console.log(`Push endpoint stub listening on port ${port}. Register it with:
+
+DELETE FROM public.push_subscriptions WHERE endpoint = '${endpoint}';
+INSERT INTO public.push_subscriptions (user_id, endpoint, p256dh, auth)
+SELECT id, '${endpoint}', '${encodeBase64Url(browserPublicKey)}', '${encodeBase64Url(authSecret)}'
+FROM auth.users WHERE email = '${email}';
+`);
+
+async function verifyVapid(authorization: string | null) {
+  const match = authorization?.match(/^vapid t=([^,]+),\s*k=(.+)$/);
+  if (!match) throw new Error("Missing VAPID authorization");
+
+  const [token, publicKey] = [match[1], match[2]];
+  const [header, claims, signature] = token.split(".");
+  const key = await crypto.subtle.importKey("raw", decodeBase64Url(publicKey), { name: "ECDSA", namedCurve: "P-256" }, false, [
+    "verify",
+  ]);
+  const valid = await crypto.subtle.verify(
+    { name: "ECDSA", hash: "SHA-256" },
+    key,
+    decodeBase64Url(signature),
+    new TextEncoder().encode(`${header}.${claims}`)
+  );
+  if (!valid) throw new Error("Bad VAPID signature");
+
+  return JSON.parse(new TextDecoder().decode(decodeBase64Url(claims)));
+}
+
+async function decrypt(body: Uint8Array) {
+  const salt = body.slice(0, 16);
+  const keyLength = body[20];
+  const senderPublicKey = body.slice(21, 21 + keyLength);
+  const ciphertext = body.slice(21 + keyLength);
+
+  const senderKey = await crypto.subtle.importKey("raw", senderPublicKey, { name: "ECDH", namedCurve: "P-256" }, false, []);
+  const ecdhSecret = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: "ECDH", public: senderKey }, browserKeys.privateKey, 256)
+  );
+  const { contentKey, nonce } = await deriveContentKeys(ecdhSecret, authSecret, browserPublicKey, senderPublicKey, salt);
+
+  const key = await crypto.subtle.importKey("raw", contentKey, "AES-GCM", false, ["decrypt"]);
+  const plaintext = new Uint8Array(await crypto.subtle.decrypt({ name: "AES-GCM", iv: nonce }, key, ciphertext));
+
+  // Drop the padding: zeros after a 0x02 delimiter
+  const end = plaintext.lastIndexOf(2);
+  return new TextDecoder().decode(plaintext.slice(0, end));
+}
+
+Deno.serve({ port }, async (req) => {
+  const url = new URL(req.url);
+
+  if (req.method === "GET" && url.pathname === "/messages") {
+    return new Response(JSON.stringify(received, null, 2), { headers: { "Content-Type": "application/json" } });
+  }
+  if (req.method !== "POST" || url.pathname !== "/push") return new Response("Not found", { status: 404 });
+
+  try {
+    const claims = await verifyVapid(req.headers.get("Authorization"));
+    if (req.headers.get("Content-Encoding") !== "aes128gcm") throw new Error("Expected aes128gcm content encoding");
+
+    const message = {
+      receivedAt: new Date().toISOString(),
+      claims,
+      ttl: req.headers.get("TTL"),
+      urgency: req.headers.get("Urgency"),
+      payload: JSON.parse(await decrypt(new Uint8Array(await req.arrayBuffer()))),
+    };
+    received.push(message);
+    console.log(JSON.stringify(message, null, 2));
+
+    return new Response(null, { status: replyStatus });
+  } catch (error) {
+    console.error("Rejected push:", error);
+    return new Response(error instanceof Error ? error.message : "Bad request", { status: 400 });
+  }
+});
@@ -0,0 +1,121 @@
+// Delivers queued push notifications. Notifications with the push channel get
+// a row in notification_deliveries; each run claims a batch, sends it to every
+// browser the user subscribed and records the outcome. Failed sends go back in
+// the queue until claim_notification_deliveries stops retrying them.
+//
+// Meant to be called every minute by pg_cron (see SETUP.md) with the service
+// role key as the bearer token; anyone else is turned away.
+//
+// Deploy with `supabase functions deploy send-push` after setting the
+// VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT secrets. For local
+// testing, dev-endpoint.ts stands in for a browser's push service.
+
+import { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import {
+  check,
+  claimDeliveries,
+  isServiceRequest,
+  json,
+  notificationLink,
+  Outcome,
+  QueuedNotification,
+  recordDelivery,
+  serviceClient,
+} from "../_shared/deliveries.ts";
+import { sendWebPush, VapidKeys } from "../_shared/web-push.ts";
+
+interface Subscription {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+async function deliver(
+  admin: SupabaseClient,
+  notification: QueuedNotification,
+  subscriptions: Subscription[],
+  vapid: VapidKeys
+): Promise<Outcome> {
+  if (subscriptions.length === 0) return { status: "skipped", error: "No browsers subscribed" };
+
+  const payload = JSON.stringify({
+    title: notification.title,
+    body: notification.body,
+    url: notificationLink(notification),
+    tag: `${notification.kind}:${notification.incident_id ?? notification.id}`,
+  });
+  const urgency = notification.kind === "pending_report" ? "high" : "normal";
+
+  const results = await Promise.all(
+    subscriptions.map(async (subscription) => {
+      try {
+        const response = await sendWebPush(subscription, payload, vapid, { urgency });
+        return { subscription, status: response.status, error: response.ok ? null : await response.text() };
+      } catch (error) {
+        return { subscription, status: 0, error: error instanceof Error ? error.message : String(error) };
+      }
+    })
+  );
+
+  // The browser unsubscribed or the user cleared its data
+  const gone = results.filter((r) => r.status === 404 || r.status === 410).map((r) => r.subscription.id);
+  if (gone.length > 0) check((await admin.from("push_subscriptions").delete().in("id", gone)).error);
+
+  const delivered = results.filter((r) => r.status >= 200 && r.status < 300).map((r) => r.subscription.id);
+  if (delivered.length > 0) {
+    check(
+      (await admin.from("push_subscriptions").update({ last_used_at: new Date().toISOString() }).in("id", delivered))
+        .error
+    );
+    return { status: "sent" };
+  }
+
+  const failed = results.find((r) => r.status !== 404 && r.status !== 410);
+  if (!failed) return { status: "skipped", error: "Every subscription had expired" };
+  return { status: "retry", error: `${failed.status || "Network error"}: ${failed.error}` };
+}
+
+async function sendBatch(admin: SupabaseClient, vapid: VapidKeys) {
+  const counts = { sent: 0, skipped: 0, pending: 0, failed: 0 };
+  const batch = await claimDeliveries(admin, "push");
+  if (batch.length === 0) return counts;
+
+  const { data: subscriptions, error } = await admin
+    .from("push_subscriptions")
+    .select("id, user_id, endpoint, p256dh, auth")
+    .in("user_id", [...new Set(batch.map(({ notification }) => notification.user_id))]);
+  check(error);
+
+  for (const { delivery, notification } of batch) {
+    const outcome = await deliver(
+      admin,
+      notification,
+      subscriptions.filter((s: Subscription) => s.user_id === notification.user_id),
+      vapid
+    );
+    counts[await recordDelivery(admin, "push", delivery, outcome)]++;
+  }
+
+  return counts;
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
+  if (!isServiceRequest(req)) return json({ error: "Not allowed" }, 401);
+
+  const publicKey = Deno.env.get("VAPID_PUBLIC_KEY");
+  const privateKey = Deno.env.get("VAPID_PRIVATE_KEY");
+  const subject = Deno.env.get("VAPID_SUBJECT");
+  if (!publicKey || !privateKey || !subject) {
+    return json({ error: "VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT must be set" }, 500);
+  }
+
+  try {
+    return json(await sendBatch(serviceClient(), { publicKey, privateKey, subject }));
+  } catch (error) {
+    console.error("send-push failed:", error);
+    return json({ error: error instanceof Error ? error.message : "Unexpected error" }, 500);
+  }
+});
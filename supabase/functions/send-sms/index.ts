@@ -0,0 +1,152 @@
+// Delivers queued text messages. Only critical incidents get them (see
+// queue_notification_deliveries): watch zone alerts and review queue alerts
+// for users who verified a number and turned on text messages, and critical
+// reports to the admin alert number from the Settings page. Works through
+// notification_deliveries the same way as send-push.
+//
+// Texts that land in a user's quiet hours are skipped rather than held, as is
+// anything past a number's rate limit.
+//
+// Meant to be called every minute by pg_cron (see SETUP.md) with the service
+// role key as the bearer token; anyone else is turned away.
+//
+// Deploy with `supabase functions deploy send-sms` after setting SITE_URL
+// (used in links) and the provider settings described in _shared/sms.ts.
+
+import { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import {
+  check,
+  claimDeliveries,
+  isServiceRequest,
+  json,
+  notificationLink,
+  Outcome,
+  QueuedNotification,
+  recordDelivery,
+  serviceClient,
+} from "../_shared/deliveries.ts";
+import { createSmsProvider, isRateLimited, sendSms, SmsProvider } from "../_shared/sms.ts";
+
+// Two segments; carriers split anything longer
+const MAX_LENGTH = 320;
+
+interface PhoneNumber {
+  user_id: string;
+  phone: string;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  time_zone: string;
+}
+
+// Minutes since midnight for "HH:MM" or "HH:MM:SS"
+function minutes(time: string) {
+  const [hours, mins] = time.split(":").map(Number);
+  return hours * 60 + mins;
+}
+
+function inQuietHours(number: PhoneNumber, now = new Date()) {
+  if (!number.quiet_hours_start || !number.quiet_hours_end) return false;
+
+  let local: string;
+  try {
+    local = new Intl.DateTimeFormat("en-GB", {
+      timeZone: number.time_zone,
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).format(now);
+  } catch {
+    // An unknown time zone; treat it as UTC
+    local = now.toISOString().slice(11, 16);
+  }
+
+  const current = minutes(local);
+  const start = minutes(number.quiet_hours_start);
+  const end = minutes(number.quiet_hours_end);
+  // A start after the end spans midnight, like 22:00 to 07:00
+  return start <= end ? current >= start && current < end : current >= start || current < end;
+}
+
+async function loadPhoneNumbers(admin: SupabaseClient, notifications: QueuedNotification[]) {
+  const userIds = [...new Set(notifications.flatMap((n) => (n.user_id ? [n.user_id] : [])))];
+  if (userIds.length === 0) return new Map<string, PhoneNumber>();
+
+  const { data, error } = await admin
+    .from("phone_numbers")
+    .select("user_id, phone, quiet_hours_start, quiet_hours_end, time_zone")
+    .in("user_id", userIds);
+  check(error);
+  return new Map<string, PhoneNumber>(data.map((n: PhoneNumber) => [n.user_id, n]));
+}
+
+async function siteName(admin: SupabaseClient) {
+  const { data } = await admin.from("site_settings").select("value").eq("key", "site_name").maybeSingle();
+  return typeof data?.value === "string" && data.value ? data.value : "SafetyWatch";
+}
+
+function message(notification: QueuedNotification, context: { siteName: string; siteUrl: string }) {
+  const link = `${context.siteUrl}${notificationLink(notification)}`;
+  const text = [`${context.siteName}: ${notification.title}`, notification.body].filter(Boolean).join(" - ");
+  // Always keep the link whole
+  const room = MAX_LENGTH - link.length - 1;
+  return `${text.length > room ? `${text.slice(0, room - 1).trimEnd()}…` : text} ${link}`;
+}
+
+async function deliver(
+  admin: SupabaseClient,
+  provider: SmsProvider,
+  notification: QueuedNotification,
+  number: PhoneNumber | undefined,
+  context: { siteName: string; siteUrl: string }
+): Promise<Outcome> {
+  const phone = notification.recipient_phone ?? number?.phone;
+  if (!phone) return { status: "skipped", error: "No verified phone number" };
+  if (number && inQuietHours(number)) return { status: "skipped", error: "Quiet hours" };
+  if (await isRateLimited(admin, phone, "alert")) return { status: "skipped", error: "Rate limited" };
+
+  try {
+    await sendSms(admin, provider, {
+      phone,
+      userId: notification.user_id,
+      purpose: "alert",
+      body: message(notification, context),
+    });
+    return { status: "sent" };
+  } catch (error) {
+    return { status: "retry", error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+async function sendBatch(admin: SupabaseClient, provider: SmsProvider, siteUrl: string) {
+  const counts = { sent: 0, skipped: 0, pending: 0, failed: 0 };
+  const batch = await claimDeliveries(admin, "sms");
+  if (batch.length === 0) return counts;
+
+  const [numbers, name] = await Promise.all([
+    loadPhoneNumbers(admin, batch.map(({ notification }) => notification)),
+    siteName(admin),
+  ]);
+
+  for (const { delivery, notification } of batch) {
+    const number = notification.recipient_phone ? undefined : numbers.get(notification.user_id ?? "");
+    const outcome = await deliver(admin, provider, notification, number, { siteName: name, siteUrl });
+    counts[await recordDelivery(admin, "sms", delivery, outcome)]++;
+  }
+
+  return counts;
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
+  if (!isServiceRequest(req)) return json({ error: "Not allowed" }, 401);
+
+  const siteUrl = Deno.env.get("SITE_URL")?.replace(/\/+$/, "");
+  if (!siteUrl) return json({ error: "SITE_URL must be set" }, 500);
+
+  try {
+    return json(await sendBatch(serviceClient(), createSmsProvider(), siteUrl));
+  } catch (error) {
+    console.error("send-sms failed:", error);
+    return json({ error: error instanceof Error ? error.message : "Unexpected error" }, 500);
+  }
+});
@@ -0,0 +1,177 @@
+// Phone number verification for text alerts. Called from the Alerts page
+// through supabase.functions.invoke("sms-verify", { body }):
+//
+//   { action: "start", phone }   texts a six-digit code to the number
+//   { action: "confirm", code }  saves the number once the code matches
+//
+// Codes are stored hashed in phone_verifications and expire after ten
+// minutes or five wrong guesses. Texts count towards the per-number rate
+// limits in _shared/sms.ts, and each user gets a few codes a day.
+//
+// Deploy with `supabase functions deploy sms-verify` after setting
+// SMS_PROVIDER and its settings (see _shared/sms.ts).
+
+import { createClient, SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import { createSmsProvider, isRateLimited, PHONE_PATTERN, sendSms } from "../_shared/sms.ts";
+
+const CODE_TTL_MINUTES = 10;
+const MAX_ATTEMPTS = 5;
+// Between two codes for the same user
+const RESEND_DELAY_SECONDS = 60;
+// Codes one user can have sent in a day, whatever the number, so an account
+// can't cycle through numbers to send texts
+const MAX_CODES_PER_DAY = 5;
+
+type SmsVerifyRequest = { action: "start"; phone: string } | { action: "confirm"; code: string };
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function check(error: { message: string } | null) {
+  if (error) throw new HttpError(400, error.message);
+}
+
+// Salted with the user id, so the same code hashes differently for each user
+async function hashCode(userId: string, code: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${userId}:${code}`));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function codesSentToday(admin: SupabaseClient, userId: string) {
+  const { count, error } = await admin
+    .from("sms_messages")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .eq("purpose", "verification")
+    .gte("created_at", new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString());
+  check(error);
+  return count ?? 0;
+}
+
+async function start(admin: SupabaseClient, userId: string, phone: string) {
+  if (!PHONE_PATTERN.test(phone ?? "")) {
+    throw new HttpError(400, "Enter the number with its country code, like +14155550123");
+  }
+
+  const { data: pending, error } = await admin
+    .from("phone_verifications")
+    .select("created_at")
+    .eq("user_id", userId)
+    .maybeSingle();
+  check(error);
+  if (pending && Date.now() - new Date(pending.created_at).getTime() < RESEND_DELAY_SECONDS * 1000) {
+    throw new HttpError(429, "Wait a minute before asking for another code");
+  }
+  if ((await codesSentToday(admin, userId)) >= MAX_CODES_PER_DAY) {
+    throw new HttpError(429, "You've asked for too many codes today. Try again tomorrow.");
+  }
+  if (await isRateLimited(admin, phone, "verification")) {
+    throw new HttpError(429, "Too many codes have been sent to this number. Try again later.");
+  }
+
+  const code = String(crypto.getRandomValues(new Uint32Array(1))[0] % 1_000_000).padStart(6, "0");
+  check(
+    (
+      await admin.from("phone_verifications").upsert({
+        user_id: userId,
+        phone,
+        code_hash: await hashCode(userId, code),
+        attempts: 0,
+        expires_at: new Date(Date.now() + CODE_TTL_MINUTES * 60 * 1000).toISOString(),
+        created_at: new Date().toISOString(),
+      })
+    ).error
+  );
+
+  const { data: setting } = await admin.from("site_settings").select("value").eq("key", "site_name").maybeSingle();
+  const siteName = typeof setting?.value === "string" && setting.value ? setting.value : "SafetyWatch";
+  await sendSms(admin, createSmsProvider(), {
+    phone,
+    userId,
+    purpose: "verification",
+    body: `Your ${siteName} code is ${code}. It expires in ${CODE_TTL_MINUTES} minutes.`,
+  });
+}
+
+async function confirm(admin: SupabaseClient, userId: string, code: string) {
+  const { data: pending, error } = await admin
+    .from("phone_verifications")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+  check(error);
+
+  if (!pending || new Date(pending.expires_at) <= new Date()) {
+    throw new HttpError(400, "Your code has expired. Ask for a new one.");
+  }
+  if (pending.attempts >= MAX_ATTEMPTS) throw new HttpError(400, "Too many wrong codes. Ask for a new one.");
+
+  if ((await hashCode(userId, code?.trim() ?? "")) !== pending.code_hash) {
+    check((await admin.from("phone_verifications").update({ attempts: pending.attempts + 1 }).eq("user_id", userId)).error);
+    throw new HttpError(400, "That code isn't right");
+  }
+
+  // Quiet hours carry over when the number changes
+  check(
+    (
+      await admin
+        .from("phone_numbers")
+        .upsert({ user_id: userId, phone: pending.phone, verified_at: new Date().toISOString() })
+    ).error
+  );
+  check((await admin.from("phone_verifications").delete().eq("user_id", userId)).error);
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
+
+  try {
+    const body: SmsVerifyRequest = await req.json();
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const caller = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY"), {
+      global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+      auth: { persistSession: false },
+    });
+    const admin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: { persistSession: false },
+    });
+
+    const {
+      data: { user },
+    } = await caller.auth.getUser();
+    if (!user) throw new HttpError(401, "Not signed in");
+
+    switch (body.action) {
+      case "start":
+        await start(admin, user.id, body.phone);
+        break;
+      case "confirm":
+        await confirm(admin, user.id, body.code);
+        break;
+      default:
+        throw new HttpError(400, "Unknown action");
+    }
+    return json({ ok: true });
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status === 500) console.error("sms-verify failed:", error);
+    return json({ error: error instanceof Error ? error.message : "Unexpected error" }, status);
+  }
+});
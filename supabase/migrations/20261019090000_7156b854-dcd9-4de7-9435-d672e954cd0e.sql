@@ -0,0 +1,26 @@
+-- Enable PostGIS for spatial columns and queries
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+
+-- Store the exact point picked on the map alongside the free-text location
+ALTER TABLE public.incidents
+  ADD COLUMN latitude DOUBLE PRECISION,
+  ADD COLUMN longitude DOUBLE PRECISION,
+  ADD COLUMN location_accuracy DOUBLE PRECISION;
+
+ALTER TABLE public.incidents
+  ADD CONSTRAINT incidents_coordinates_pair CHECK ((latitude IS NULL) = (longitude IS NULL)),
+  ADD CONSTRAINT incidents_latitude_range CHECK (latitude IS NULL OR latitude BETWEEN -90 AND 90),
+  ADD CONSTRAINT incidents_longitude_range CHECK (longitude IS NULL OR longitude BETWEEN -180 AND 180),
+  ADD CONSTRAINT incidents_location_accuracy_positive CHECK (location_accuracy IS NULL OR location_accuracy >= 0);
+
+-- Real geography point derived from latitude/longitude, used for spatial queries
+ALTER TABLE public.incidents
+  ADD COLUMN geo extensions.geography(Point, 4326)
+  GENERATED ALWAYS AS (
+    CASE
+      WHEN latitude IS NOT NULL AND longitude IS NOT NULL
+        THEN extensions.ST_SetSRID(extensions.ST_MakePoint(longitude, latitude), 4326)::extensions.geography
+    END
+  ) STORED;
+
+CREATE INDEX incidents_geo_idx ON public.incidents USING GIST (geo);
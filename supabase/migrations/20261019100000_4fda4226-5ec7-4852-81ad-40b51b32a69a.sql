@@ -0,0 +1,54 @@
+-- Saved home location used for "near me" queries
+ALTER TABLE public.profiles
+  ADD COLUMN home_label TEXT,
+  ADD COLUMN home_latitude DOUBLE PRECISION,
+  ADD COLUMN home_longitude DOUBLE PRECISION;
+
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_home_coordinates_pair CHECK ((home_latitude IS NULL) = (home_longitude IS NULL)),
+  ADD CONSTRAINT profiles_home_latitude_range CHECK (home_latitude IS NULL OR home_latitude BETWEEN -90 AND 90),
+  ADD CONSTRAINT profiles_home_longitude_range CHECK (home_longitude IS NULL OR home_longitude BETWEEN -180 AND 180);
+
+-- Incidents within _radius_meters of a point, nearest first.
+-- Runs as the caller so the incidents RLS policies still apply.
+CREATE OR REPLACE FUNCTION public.incidents_near(
+  _lat DOUBLE PRECISION,
+  _lng DOUBLE PRECISION,
+  _radius_meters DOUBLE PRECISION
+)
+RETURNS SETOF public.incidents
+LANGUAGE SQL
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+  SELECT i.*
+  FROM public.incidents i
+  WHERE i.geo IS NOT NULL
+    AND ST_DWithin(i.geo, ST_SetSRID(ST_MakePoint(_lng, _lat), 4326)::geography, _radius_meters)
+  ORDER BY i.geo <-> ST_SetSRID(ST_MakePoint(_lng, _lat), 4326)::geography
+$$;
+
+-- Incidents inside a bounding box (e.g. the current map viewport),
+-- nearest to the centre of the box first.
+CREATE OR REPLACE FUNCTION public.incidents_in_bounds(
+  _south DOUBLE PRECISION,
+  _west DOUBLE PRECISION,
+  _north DOUBLE PRECISION,
+  _east DOUBLE PRECISION
+)
+RETURNS SETOF public.incidents
+LANGUAGE SQL
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+  SELECT i.*
+  FROM public.incidents i
+  WHERE i.geo IS NOT NULL
+    AND i.geo && ST_MakeEnvelope(_west, _south, _east, _north, 4326)::geography
+  ORDER BY i.geo <-> ST_SetSRID(ST_MakePoint((_west + _east) / 2, (_south + _north) / 2), 4326)::geography
+$$;
+
+GRANT EXECUTE ON FUNCTION public.incidents_near(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.incidents_in_bounds(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO anon, authenticated;
@@ -0,0 +1,93 @@
+-- Neighborhoods covered by the watch group, drawn by admins as polygons
+CREATE TABLE public.neighborhoods (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  color TEXT NOT NULL DEFAULT '#2563eb',
+  -- GeoJSON Polygon as edited in the admin map
+  boundary JSONB NOT NULL,
+  geo extensions.geography(Polygon, 4326)
+    GENERATED ALWAYS AS (extensions.ST_GeomFromGeoJSON(boundary::text)::extensions.geography) STORED,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX neighborhoods_geo_idx ON public.neighborhoods USING GIST (geo);
+
+ALTER TABLE public.neighborhoods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view neighborhoods" ON public.neighborhoods
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can create neighborhoods" ON public.neighborhoods
+  FOR INSERT WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update neighborhoods" ON public.neighborhoods
+  FOR UPDATE USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete neighborhoods" ON public.neighborhoods
+  FOR DELETE USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_neighborhoods_updated_at
+  BEFORE UPDATE ON public.neighborhoods
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Each incident belongs to the neighborhood containing its point
+ALTER TABLE public.incidents
+  ADD COLUMN neighborhood_id UUID REFERENCES public.neighborhoods(id) ON DELETE SET NULL;
+
+CREATE INDEX incidents_neighborhood_id_idx ON public.incidents (neighborhood_id);
+
+-- Neighborhood containing a point (the smallest one if polygons overlap)
+CREATE OR REPLACE FUNCTION public.neighborhood_at(_lat DOUBLE PRECISION, _lng DOUBLE PRECISION)
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT n.id
+  FROM public.neighborhoods n
+  WHERE _lat IS NOT NULL
+    AND _lng IS NOT NULL
+    AND ST_Covers(n.geo, ST_SetSRID(ST_MakePoint(_lng, _lat), 4326)::geography)
+  ORDER BY ST_Area(n.geo)
+  LIMIT 1
+$$;
+
+-- Generated columns are not available in BEFORE triggers, so work from lat/lng
+CREATE OR REPLACE FUNCTION public.assign_incident_neighborhood()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.neighborhood_id = public.neighborhood_at(NEW.latitude, NEW.longitude);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_incident_neighborhood
+  BEFORE INSERT OR UPDATE OF latitude, longitude ON public.incidents
+  FOR EACH ROW EXECUTE FUNCTION public.assign_incident_neighborhood();
+
+-- Re-home existing incidents whenever a boundary is drawn, edited or removed
+CREATE OR REPLACE FUNCTION public.reassign_incident_neighborhoods()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.incidents
+  SET neighborhood_id = public.neighborhood_at(latitude, longitude)
+  WHERE geo IS NOT NULL
+    AND neighborhood_id IS DISTINCT FROM public.neighborhood_at(latitude, longitude);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER reassign_incident_neighborhoods
+  AFTER INSERT OR UPDATE OF boundary OR DELETE ON public.neighborhoods
+  FOR EACH STATEMENT EXECUTE FUNCTION public.reassign_incident_neighborhoods();
@@ -0,0 +1,81 @@
+-- Private bucket for incident photos and videos.
+-- Objects are stored as <incident_id>/<file> so policies can follow the incident.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'incident-media',
+  'incident-media',
+  false,
+  52428800,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'video/mp4', 'video/webm', 'video/quicktime']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Attachment metadata
+CREATE TABLE public.incident_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  incident_id UUID REFERENCES public.incidents(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  thumbnail_path TEXT,
+  mime_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  width INTEGER,
+  height INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX incident_attachments_incident_id_idx ON public.incident_attachments (incident_id);
+
+ALTER TABLE public.incident_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Visible whenever the incident itself is visible to the caller (the incidents
+-- RLS policies apply inside the subquery): approved incidents for everyone,
+-- pending ones only for the reporter and admins.
+CREATE POLICY "Attachments follow incident visibility" ON public.incident_attachments
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.incidents i WHERE i.id = incident_id)
+  );
+
+CREATE POLICY "Reporters can attach files to own incidents" ON public.incident_attachments
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.incidents i
+      WHERE i.id = incident_id AND i.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Reporters can delete own attachments" ON public.incident_attachments
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can delete attachments" ON public.incident_attachments
+  FOR DELETE USING (public.has_role(auth.uid(), 'admin'));
+
+-- Storage policies mirror the table above, keyed on the incident folder
+CREATE POLICY "Incident media follows incident visibility" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'incident-media'
+    AND EXISTS (
+      SELECT 1 FROM public.incidents i
+      WHERE i.id::text = (storage.foldername(name))[1]
+    )
+  );
+
+CREATE POLICY "Reporters can upload media to own incidents" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'incident-media'
+    AND EXISTS (
+      SELECT 1 FROM public.incidents i
+      WHERE i.id::text = (storage.foldername(name))[1]
+        AND i.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Reporters and admins can delete incident media" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'incident-media'
+    AND (
+      owner = auth.uid()
+      OR public.has_role(auth.uid(), 'admin')
+    )
+  );
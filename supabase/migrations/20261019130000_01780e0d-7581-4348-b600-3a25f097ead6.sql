@@ -0,0 +1,51 @@
+-- Every status an incident has been through, shown on its detail page
+CREATE TABLE public.incident_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  incident_id UUID REFERENCES public.incidents(id) ON DELETE CASCADE NOT NULL,
+  from_status incident_status,
+  to_status incident_status NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX incident_status_history_incident_id_idx
+  ON public.incident_status_history (incident_id, created_at);
+
+ALTER TABLE public.incident_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Same visibility as the incident itself (incidents RLS applies in the subquery)
+CREATE POLICY "Status history follows incident visibility" ON public.incident_status_history
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.incidents i WHERE i.id = incident_id)
+  );
+
+-- Rows are only ever written by this trigger
+CREATE OR REPLACE FUNCTION public.record_incident_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.incident_status_history (incident_id, from_status, to_status, changed_by)
+    VALUES (
+      NEW.id,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+      NEW.status,
+      auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_incident_status_change
+  AFTER INSERT OR UPDATE OF status ON public.incidents
+  FOR EACH ROW EXECUTE FUNCTION public.record_incident_status_change();
+
+-- Seed history for incidents that existed before this table
+INSERT INTO public.incident_status_history (incident_id, from_status, to_status, changed_by, created_at)
+SELECT id, NULL, status, user_id, created_at
+FROM public.incidents;
@@ -0,0 +1,134 @@
+-- Follow-up comments on approved incidents. Replies point at the comment they
+-- answer through parent_id, which forms the threads.
+CREATE TABLE public.incident_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  incident_id UUID REFERENCES public.incidents(id) ON DELETE CASCADE NOT NULL,
+  parent_id UUID REFERENCES public.incident_comments(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  body TEXT NOT NULL,
+  is_official_update BOOLEAN NOT NULL DEFAULT false,
+  edited_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT incident_comments_body_length CHECK (
+    deleted_at IS NOT NULL OR char_length(btrim(body)) BETWEEN 1 AND 2000
+  )
+);
+
+CREATE INDEX incident_comments_incident_id_idx ON public.incident_comments (incident_id, created_at);
+CREATE INDEX incident_comments_parent_id_idx ON public.incident_comments (parent_id);
+
+ALTER TABLE public.incident_comments ENABLE ROW LEVEL SECURITY;
+
+-- Only the reporter of the incident and admins may post official updates
+CREATE OR REPLACE FUNCTION public.can_post_official_update(_user_id UUID, _incident_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin')
+    OR EXISTS (
+      SELECT 1 FROM public.incidents
+      WHERE id = _incident_id AND user_id = _user_id
+    )
+$$;
+
+-- Same visibility as the incident itself (incidents RLS applies in the subquery)
+CREATE POLICY "Comments follow incident visibility" ON public.incident_comments
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.incidents i WHERE i.id = incident_id)
+  );
+
+CREATE POLICY "Users can comment on approved incidents" ON public.incident_comments
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.incidents i
+      WHERE i.id = incident_id AND i.status = 'approved'
+    )
+    AND (NOT is_official_update OR public.can_post_official_update(auth.uid(), incident_id))
+  );
+
+CREATE POLICY "Users can update own comments" ON public.incident_comments
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (NOT is_official_update OR public.can_post_official_update(auth.uid(), incident_id))
+  );
+
+-- Admins moderate by soft-deleting; there is no DELETE policy for anyone
+CREATE POLICY "Admins can update comments" ON public.incident_comments
+  FOR UPDATE USING (public.has_role(auth.uid(), 'admin'));
+
+-- Keeps threads consistent and turns edits/deletes into the right bookkeeping:
+-- replies must stay on their parent's incident, the author and thread position
+-- can't change, and deleting a comment blanks its body but keeps the row so
+-- replies underneath it still have a place in the thread.
+CREATE OR REPLACE FUNCTION public.prepare_incident_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.incident_comments
+      WHERE id = NEW.parent_id AND incident_id = NEW.incident_id
+    ) THEN
+      RAISE EXCEPTION 'Reply must belong to the same incident as its parent comment';
+    END IF;
+
+    NEW.edited_at = NULL;
+    NEW.deleted_at = NULL;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted comments cannot be changed';
+  END IF;
+
+  NEW.incident_id = OLD.incident_id;
+  NEW.parent_id = OLD.parent_id;
+  NEW.user_id = OLD.user_id;
+  NEW.created_at = OLD.created_at;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at = NOW();
+    NEW.body = '';
+    NEW.is_official_update = false;
+  ELSIF NEW.body IS DISTINCT FROM OLD.body THEN
+    NEW.edited_at = NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_incident_comment
+  BEFORE INSERT OR UPDATE ON public.incident_comments
+  FOR EACH ROW EXECUTE FUNCTION public.prepare_incident_comment();
+
+CREATE TRIGGER update_incident_comments_updated_at
+  BEFORE UPDATE ON public.incident_comments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Number of visible, non-deleted comments per incident, for the feed cards.
+-- Runs as the caller so the RLS policies above still apply.
+CREATE OR REPLACE FUNCTION public.incident_comment_counts(_incident_ids UUID[])
+RETURNS TABLE (incident_id UUID, comment_count INTEGER)
+LANGUAGE SQL
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT c.incident_id, COUNT(*)::INTEGER
+  FROM public.incident_comments c
+  WHERE c.incident_id = ANY(_incident_ids)
+    AND c.deleted_at IS NULL
+  GROUP BY c.incident_id
+$$;
+
+GRANT EXECUTE ON FUNCTION public.incident_comment_counts(UUID[]) TO anon, authenticated;
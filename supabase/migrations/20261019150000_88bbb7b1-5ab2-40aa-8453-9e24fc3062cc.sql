@@ -0,0 +1,119 @@
+-- "I saw this too": one confirmation per user per incident
+CREATE TABLE public.incident_confirmations (
+  incident_id UUID REFERENCES public.incidents(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (incident_id, user_id)
+);
+
+CREATE INDEX incident_confirmations_user_id_idx ON public.incident_confirmations (user_id);
+
+ALTER TABLE public.incident_confirmations ENABLE ROW LEVEL SECURITY;
+
+-- Who confirmed what stays private; everyone else sees incidents.confirmation_count
+CREATE POLICY "Users can view own confirmations" ON public.incident_confirmations
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all confirmations" ON public.incident_confirmations
+  FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can confirm approved incidents of others" ON public.incident_confirmations
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.incidents i
+      WHERE i.id = incident_id
+        AND i.status = 'approved'
+        AND i.user_id <> auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can withdraw own confirmations" ON public.incident_confirmations
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Denormalized count so feeds can show it without exposing the voters
+ALTER TABLE public.incidents
+  ADD COLUMN confirmation_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.update_incident_confirmation_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.incidents
+  SET confirmation_count = (
+    SELECT COUNT(*) FROM public.incident_confirmations c
+    WHERE c.incident_id = COALESCE(NEW.incident_id, OLD.incident_id)
+  )
+  WHERE id = COALESCE(NEW.incident_id, OLD.incident_id);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER update_incident_confirmation_count
+  AFTER INSERT OR DELETE ON public.incident_confirmations
+  FOR EACH ROW EXECUTE FUNCTION public.update_incident_confirmation_count();
+
+-- Reporters can't seed their own count
+CREATE OR REPLACE FUNCTION public.reset_incident_confirmation_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.confirmation_count = 0;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_incident_confirmation_count
+  BEFORE INSERT ON public.incidents
+  FOR EACH ROW EXECUTE FUNCTION public.reset_incident_confirmation_count();
+
+CREATE INDEX IF NOT EXISTS incidents_user_id_idx ON public.incidents (user_id);
+
+-- Incidents with a 0-100 confidence score for the moderation queue, made of:
+--   50% confirmations       1 - e^(-confirmations / 3)
+--   30% reporter record     (approved + 1) / (approved + rejected + 2) over the
+--                           reporter's other incidents, so new reporters start at 0.5
+--   20% nearby reports      1 - e^(-n / 2), n = other non-rejected incidents
+--                           within 500 m and 24 hours
+-- Runs as the caller, so only admins get scores computed over every incident.
+CREATE VIEW public.incidents_with_confidence
+WITH (security_invoker = true)
+AS
+SELECT
+  i.*,
+  track.approved_count AS reporter_approved_count,
+  track.rejected_count AS reporter_rejected_count,
+  nearby.nearby_count,
+  ROUND(
+    100 * (
+      0.5 * (1 - EXP(-i.confirmation_count / 3.0))
+      + 0.3 * (track.approved_count + 1)::NUMERIC / (track.approved_count + track.rejected_count + 2)
+      + 0.2 * (1 - EXP(-nearby.nearby_count / 2.0))
+    )
+  )::INTEGER AS confidence_score
+FROM public.incidents i
+CROSS JOIN LATERAL (
+  SELECT
+    COUNT(*) FILTER (WHERE o.status = 'approved')::INTEGER AS approved_count,
+    COUNT(*) FILTER (WHERE o.status = 'rejected')::INTEGER AS rejected_count
+  FROM public.incidents o
+  WHERE o.user_id = i.user_id AND o.id <> i.id
+) track
+CROSS JOIN LATERAL (
+  SELECT COUNT(*)::INTEGER AS nearby_count
+  FROM public.incidents o
+  WHERE i.geo IS NOT NULL
+    AND o.id <> i.id
+    AND o.status <> 'rejected'
+    AND o.created_at BETWEEN i.created_at - INTERVAL '24 hours' AND i.created_at + INTERVAL '24 hours'
+    AND extensions.ST_DWithin(o.geo, i.geo, 500)
+) nearby;
+
+REVOKE ALL ON public.incidents_with_confidence FROM anon;
+GRANT SELECT ON public.incidents_with_confidence TO authenticated;
@@ -0,0 +1,7 @@
+-- Lifecycle states beyond moderation. New enum values can't be used in the
+-- transaction that adds them, so the state machine lives in the next migration.
+ALTER TYPE public.incident_status ADD VALUE IF NOT EXISTS 'under_review' AFTER 'pending';
+ALTER TYPE public.incident_status ADD VALUE IF NOT EXISTS 'active' AFTER 'approved';
+ALTER TYPE public.incident_status ADD VALUE IF NOT EXISTS 'resolved' AFTER 'active';
+ALTER TYPE public.incident_status ADD VALUE IF NOT EXISTS 'archived' AFTER 'rejected';
+ALTER TYPE public.incident_status ADD VALUE IF NOT EXISTS 'duplicate' AFTER 'archived';
@@ -0,0 +1,163 @@
+-- Allowed status changes. Kept in a table so the rule is data, not code;
+-- INCIDENT_STATUS_TRANSITIONS in src/lib/incidents.ts mirrors it for the admin UI.
+CREATE TABLE public.incident_status_transitions (
+  from_status incident_status NOT NULL,
+  to_status incident_status NOT NULL,
+  PRIMARY KEY (from_status, to_status),
+  CHECK (from_status <> to_status)
+);
+
+INSERT INTO public.incident_status_transitions (from_status, to_status) VALUES
+  ('pending', 'under_review'),
+  ('pending', 'approved'),
+  ('pending', 'active'),
+  ('pending', 'rejected'),
+  ('pending', 'duplicate'),
+  ('under_review', 'approved'),
+  ('under_review', 'active'),
+  ('under_review', 'rejected'),
+  ('under_review', 'duplicate'),
+  ('approved', 'active'),
+  ('approved', 'resolved'),
+  ('approved', 'archived'),
+  ('approved', 'duplicate'),
+  ('active', 'resolved'),
+  ('active', 'archived'),
+  ('active', 'duplicate'),
+  ('resolved', 'active'),
+  ('resolved', 'archived'),
+  ('rejected', 'under_review'),
+  ('rejected', 'archived'),
+  ('duplicate', 'under_review'),
+  ('duplicate', 'archived');
+
+ALTER TABLE public.incident_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view status transitions" ON public.incident_status_transitions
+  FOR SELECT USING (true);
+
+-- Statuses the public feed shows; everything else is only visible to the
+-- reporter and admins
+CREATE OR REPLACE FUNCTION public.is_public_incident_status(_status incident_status)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT _status IN ('approved', 'active', 'resolved')
+$$;
+
+DROP POLICY "Anyone can view approved incidents" ON public.incidents;
+
+CREATE POLICY "Anyone can view published incidents" ON public.incidents
+  FOR SELECT USING (public.is_public_incident_status(status));
+
+-- Duplicates point at the report they repeat
+ALTER TABLE public.incidents
+  ADD COLUMN duplicate_of UUID REFERENCES public.incidents(id) ON DELETE SET NULL,
+  ADD CONSTRAINT incidents_duplicate_of_self CHECK (duplicate_of IS NULL OR duplicate_of <> id);
+
+-- New reports always start as pending unless an admin files them, and every
+-- later change has to be listed in incident_status_transitions
+CREATE OR REPLACE FUNCTION public.enforce_incident_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+      NEW.status = 'pending';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status
+    AND NOT EXISTS (
+      SELECT 1 FROM public.incident_status_transitions
+      WHERE from_status = OLD.status AND to_status = NEW.status
+    )
+  THEN
+    RAISE EXCEPTION 'Invalid incident status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'duplicate' AND NEW.duplicate_of IS NULL THEN
+    RAISE EXCEPTION 'A duplicate incident must reference the original (duplicate_of)'
+      USING ERRCODE = 'check_violation';
+  ELSIF NEW.status <> 'duplicate' THEN
+    NEW.duplicate_of = NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_incident_status_transition
+  BEFORE INSERT OR UPDATE OF status, duplicate_of ON public.incidents
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_incident_status_transition();
+
+-- Comments and confirmations stay open for every published status
+DROP POLICY "Users can comment on approved incidents" ON public.incident_comments;
+
+CREATE POLICY "Users can comment on published incidents" ON public.incident_comments
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.incidents i
+      WHERE i.id = incident_id AND public.is_public_incident_status(i.status)
+    )
+    AND (NOT is_official_update OR public.can_post_official_update(auth.uid(), incident_id))
+  );
+
+DROP POLICY "Users can confirm approved incidents of others" ON public.incident_confirmations;
+
+CREATE POLICY "Users can confirm published incidents of others" ON public.incident_confirmations
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.incidents i
+      WHERE i.id = incident_id
+        AND public.is_public_incident_status(i.status)
+        AND i.user_id <> auth.uid()
+    )
+  );
+
+-- Views expand incidents.* when they're created, so rebuild the confidence view
+-- to pick up duplicate_of. Published and archived reports now count towards a
+-- reporter's record; rejected ones and duplicates count against it.
+DROP VIEW public.incidents_with_confidence;
+
+CREATE VIEW public.incidents_with_confidence
+WITH (security_invoker = true)
+AS
+SELECT
+  i.*,
+  track.approved_count AS reporter_approved_count,
+  track.rejected_count AS reporter_rejected_count,
+  nearby.nearby_count,
+  ROUND(
+    100 * (
+      0.5 * (1 - EXP(-i.confirmation_count / 3.0))
+      + 0.3 * (track.approved_count + 1)::NUMERIC / (track.approved_count + track.rejected_count + 2)
+      + 0.2 * (1 - EXP(-nearby.nearby_count / 2.0))
+    )
+  )::INTEGER AS confidence_score
+FROM public.incidents i
+CROSS JOIN LATERAL (
+  SELECT
+    COUNT(*) FILTER (WHERE public.is_public_incident_status(o.status) OR o.status = 'archived')::INTEGER AS approved_count,
+    COUNT(*) FILTER (WHERE o.status IN ('rejected', 'duplicate'))::INTEGER AS rejected_count
+  FROM public.incidents o
+  WHERE o.user_id = i.user_id AND o.id <> i.id
+) track
+CROSS JOIN LATERAL (
+  SELECT COUNT(*)::INTEGER AS nearby_count
+  FROM public.incidents o
+  WHERE i.geo IS NOT NULL
+    AND o.id <> i.id
+    AND o.status NOT IN ('rejected', 'duplicate')
+    AND o.created_at BETWEEN i.created_at - INTERVAL '24 hours' AND i.created_at + INTERVAL '24 hours'
+    AND extensions.ST_DWithin(o.geo, i.geo, 500)
+) nearby;
+
+REVOKE ALL ON public.incidents_with_confidence FROM anon;
+GRANT SELECT ON public.incidents_with_confidence TO authenticated;
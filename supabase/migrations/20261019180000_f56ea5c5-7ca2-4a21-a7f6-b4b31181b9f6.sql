@@ -0,0 +1,134 @@
+-- Append-only record of moderation actions. Rows are only ever written by the
+-- triggers below, so changes made outside the admin UI are recorded too.
+CREATE TABLE public.moderation_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Snapshot, so the log stays readable after the actor's account is gone
+  actor_email TEXT,
+  action TEXT NOT NULL,
+  target_table TEXT NOT NULL,
+  target_id UUID,
+  before JSONB,
+  after JSONB,
+  -- Changed columns only: { "<column>": { "from": ..., "to": ... } }
+  changes JSONB,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX moderation_events_created_at_idx ON public.moderation_events (created_at DESC);
+CREATE INDEX moderation_events_actor_id_idx ON public.moderation_events (actor_id);
+CREATE INDEX moderation_events_target_idx ON public.moderation_events (target_table, target_id);
+
+ALTER TABLE public.moderation_events ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for admins; there are no write policies for anyone
+CREATE POLICY "Admins can view moderation events" ON public.moderation_events
+  FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+-- The admin UI passes an optional reason as a base64-encoded
+-- x-moderation-reason header, which PostgREST exposes per request
+CREATE OR REPLACE FUNCTION public.current_moderation_reason()
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _encoded TEXT := NULLIF(current_setting('request.headers', true), '')::json ->> 'x-moderation-reason';
+BEGIN
+  IF _encoded IS NULL OR _encoded = '' THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN convert_from(decode(_encoded, 'base64'), 'UTF8');
+EXCEPTION WHEN others THEN
+  RETURN _encoded;
+END;
+$$;
+
+-- Generic audit trigger. TG_ARGV[0] is the entity name used in the action
+-- ("incident" -> "incident.deleted"), TG_ARGV[1] the column holding the target id.
+CREATE OR REPLACE FUNCTION public.log_moderation_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entity TEXT := TG_ARGV[0];
+  _target_column TEXT := COALESCE(TG_ARGV[1], 'id');
+  -- Derived or bookkeeping columns that don't count as a moderation change
+  _ignored TEXT[] := ARRAY['geo', 'updated_at', 'confirmation_count', 'neighborhood_id', 'edited_at'];
+  _before JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) - 'geo' END;
+  _after JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) - 'geo' END;
+  _changes JSONB;
+  _action TEXT;
+  _actor UUID := auth.uid();
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    SELECT jsonb_object_agg(n.key, jsonb_build_object('from', o.value, 'to', n.value))
+    INTO _changes
+    FROM jsonb_each(_after) n
+    JOIN jsonb_each(_before) o USING (key)
+    WHERE n.value IS DISTINCT FROM o.value
+      AND NOT n.key = ANY(_ignored);
+
+    IF _changes IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  _action := CASE
+    WHEN _entity = 'incident' AND TG_OP = 'UPDATE' AND _changes ? 'status' THEN 'incident.status_changed'
+    WHEN _entity = 'user_role' AND TG_OP = 'INSERT' THEN 'user_role.granted'
+    WHEN _entity = 'user_role' AND TG_OP = 'DELETE' THEN 'user_role.revoked'
+    WHEN _entity = 'comment' AND TG_OP = 'UPDATE' AND _changes ? 'deleted_at' THEN 'comment.removed'
+    WHEN TG_OP = 'INSERT' THEN _entity || '.created'
+    WHEN TG_OP = 'UPDATE' THEN _entity || '.updated'
+    ELSE _entity || '.deleted'
+  END;
+
+  -- Not moderation: the default role every new account gets at signup, and
+  -- authors editing or deleting their own comments
+  IF _action = 'user_role.granted' AND _actor IS NULL AND _after ->> 'role' = 'user' THEN
+    RETURN NULL;
+  END IF;
+  IF _entity = 'comment' AND _actor IS NOT DISTINCT FROM (_before ->> 'user_id')::UUID THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.moderation_events (
+    actor_id, actor_email, action, target_table, target_id, before, after, changes, reason
+  )
+  VALUES (
+    _actor,
+    (SELECT email FROM auth.users WHERE id = _actor),
+    _action,
+    TG_TABLE_NAME,
+    (COALESCE(_after, _before) ->> _target_column)::UUID,
+    _before,
+    _after,
+    _changes,
+    public.current_moderation_reason()
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_incident_moderation
+  AFTER UPDATE OR DELETE ON public.incidents
+  FOR EACH ROW EXECUTE FUNCTION public.log_moderation_event('incident');
+
+CREATE TRIGGER log_user_role_moderation
+  AFTER INSERT OR UPDATE OR DELETE ON public.user_roles
+  FOR EACH ROW EXECUTE FUNCTION public.log_moderation_event('user_role', 'user_id');
+
+CREATE TRIGGER log_comment_moderation
+  AFTER UPDATE ON public.incident_comments
+  FOR EACH ROW EXECUTE FUNCTION public.log_moderation_event('comment');
+
+CREATE TRIGGER log_neighborhood_moderation
+  AFTER INSERT OR UPDATE OR DELETE ON public.neighborhoods
+  FOR EACH ROW EXECUTE FUNCTION public.log_moderation_event('neighborhood');
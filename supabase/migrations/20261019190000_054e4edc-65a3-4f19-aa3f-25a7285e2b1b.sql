@@ -0,0 +1,170 @@
+-- Reasons admins pick from when rejecting a report; editable from the admin panel
+CREATE TABLE public.rejection_reasons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,
+  label TEXT NOT NULL,
+  -- Shown to the reporter alongside the label
+  description TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO public.rejection_reasons (code, label, description, sort_order) VALUES
+  ('duplicate', 'Duplicate', 'This incident has already been reported.', 10),
+  ('insufficient_detail', 'Insufficient detail', 'Please add more detail about what happened, when and where.', 20),
+  ('not_safety_issue', 'Not a safety issue', 'This doesn''t appear to be a neighborhood safety concern.', 30),
+  ('personal_info', 'Contains personal info', 'Please remove names, phone numbers, plates or other personal details.', 40);
+
+ALTER TABLE public.rejection_reasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view rejection reasons" ON public.rejection_reasons
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can insert rejection reasons" ON public.rejection_reasons
+  FOR INSERT WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update rejection reasons" ON public.rejection_reasons
+  FOR UPDATE USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete rejection reasons" ON public.rejection_reasons
+  FOR DELETE USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_rejection_reasons_updated_at
+  BEFORE UPDATE ON public.rejection_reasons
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Why an incident was rejected, visible to its reporter through the
+-- "Users can view own incidents" policy
+ALTER TABLE public.incidents
+  ADD COLUMN rejection_reason_id UUID REFERENCES public.rejection_reasons(id) ON DELETE SET NULL,
+  ADD COLUMN rejection_note TEXT;
+
+-- Reporters send a rejected report back to the queue after editing it
+INSERT INTO public.incident_status_transitions (from_status, to_status)
+VALUES ('rejected', 'pending')
+ON CONFLICT DO NOTHING;
+
+-- Same rules as before, plus: rejection details only live on rejected incidents
+CREATE OR REPLACE FUNCTION public.enforce_incident_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+      NEW.status = 'pending';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status
+    AND NOT EXISTS (
+      SELECT 1 FROM public.incident_status_transitions
+      WHERE from_status = OLD.status AND to_status = NEW.status
+    )
+  THEN
+    RAISE EXCEPTION 'Invalid incident status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'duplicate' AND NEW.duplicate_of IS NULL THEN
+    RAISE EXCEPTION 'A duplicate incident must reference the original (duplicate_of)'
+      USING ERRCODE = 'check_violation';
+  ELSIF NEW.status <> 'duplicate' THEN
+    NEW.duplicate_of = NULL;
+  END IF;
+
+  IF NEW.status <> 'rejected' THEN
+    NEW.rejection_reason_id = NULL;
+    NEW.rejection_note = NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER enforce_incident_status_transition ON public.incidents;
+
+CREATE TRIGGER enforce_incident_status_transition
+  BEFORE INSERT OR UPDATE OF status, duplicate_of, rejection_reason_id, rejection_note ON public.incidents
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_incident_status_transition();
+
+-- Lets a reporter edit their rejected report and send it back for review.
+-- Reporters have no UPDATE policy on incidents, so this is the only way in.
+CREATE OR REPLACE FUNCTION public.resubmit_incident(
+  _incident_id UUID,
+  _type incident_type,
+  _title TEXT,
+  _description TEXT,
+  _location TEXT
+)
+RETURNS public.incidents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _incident public.incidents;
+BEGIN
+  UPDATE public.incidents
+  SET
+    type = _type,
+    title = btrim(_title),
+    description = btrim(_description),
+    location = btrim(_location),
+    status = 'pending'
+  WHERE id = _incident_id
+    AND user_id = auth.uid()
+    AND status = 'rejected'
+  RETURNING * INTO _incident;
+
+  IF _incident.id IS NULL THEN
+    RAISE EXCEPTION 'Only your own rejected reports can be resubmitted'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN _incident;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.resubmit_incident(UUID, incident_type, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Rebuild the confidence view to pick up the new incident columns
+DROP VIEW public.incidents_with_confidence;
+
+CREATE VIEW public.incidents_with_confidence
+WITH (security_invoker = true)
+AS
+SELECT
+  i.*,
+  track.approved_count AS reporter_approved_count,
+  track.rejected_count AS reporter_rejected_count,
+  nearby.nearby_count,
+  ROUND(
+    100 * (
+      0.5 * (1 - EXP(-i.confirmation_count / 3.0))
+      + 0.3 * (track.approved_count + 1)::NUMERIC / (track.approved_count + track.rejected_count + 2)
+      + 0.2 * (1 - EXP(-nearby.nearby_count / 2.0))
+    )
+  )::INTEGER AS confidence_score
+FROM public.incidents i
+CROSS JOIN LATERAL (
+  SELECT
+    COUNT(*) FILTER (WHERE public.is_public_incident_status(o.status) OR o.status = 'archived')::INTEGER AS approved_count,
+    COUNT(*) FILTER (WHERE o.status IN ('rejected', 'duplicate'))::INTEGER AS rejected_count
+  FROM public.incidents o
+  WHERE o.user_id = i.user_id AND o.id <> i.id
+) track
+CROSS JOIN LATERAL (
+  SELECT COUNT(*)::INTEGER AS nearby_count
+  FROM public.incidents o
+  WHERE i.geo IS NOT NULL
+    AND o.id <> i.id
+    AND o.status NOT IN ('rejected', 'duplicate')
+    AND o.created_at BETWEEN i.created_at - INTERVAL '24 hours' AND i.created_at + INTERVAL '24 hours'
+    AND extensions.ST_DWithin(o.geo, i.geo, 500)
+) nearby;
+
+REVOKE ALL ON public.incidents_with_confidence FROM anon;
+GRANT SELECT ON public.incidents_with_confidence TO authenticated;
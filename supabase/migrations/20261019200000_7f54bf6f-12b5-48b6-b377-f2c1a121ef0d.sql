@@ -0,0 +1,3 @@
+-- Reporters can take back a report that hasn't been reviewed yet. Used by the
+-- next migration, since a new enum value can't be used in the same transaction.
+ALTER TYPE public.incident_status ADD VALUE IF NOT EXISTS 'withdrawn' AFTER 'duplicate';
@@ -0,0 +1,223 @@
+-- Reporters withdraw their own pending reports
+INSERT INTO public.incident_status_transitions (from_status, to_status)
+VALUES ('pending', 'withdrawn')
+ON CONFLICT DO NOTHING;
+
+-- Same rules as before, plus: only the reporter can withdraw a report
+CREATE OR REPLACE FUNCTION public.enforce_incident_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+      NEW.status = 'pending';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status
+    AND NOT EXISTS (
+      SELECT 1 FROM public.incident_status_transitions
+      WHERE from_status = OLD.status AND to_status = NEW.status
+    )
+  THEN
+    RAISE EXCEPTION 'Invalid incident status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  ELSIF NEW.status = 'withdrawn' AND NEW.status IS DISTINCT FROM OLD.status
+    AND auth.uid() IS DISTINCT FROM NEW.user_id
+  THEN
+    RAISE EXCEPTION 'Only the reporter can withdraw an incident'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.status = 'duplicate' AND NEW.duplicate_of IS NULL THEN
+    RAISE EXCEPTION 'A duplicate incident must reference the original (duplicate_of)'
+      USING ERRCODE = 'check_violation';
+  ELSIF NEW.status <> 'duplicate' THEN
+    NEW.duplicate_of = NULL;
+  END IF;
+
+  IF NEW.status <> 'rejected' THEN
+    NEW.rejection_reason_id = NULL;
+    NEW.rejection_note = NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Lets a reporter fix their report before a moderator picks it up.
+-- Reporters have no UPDATE policy on incidents, so edits go through here.
+CREATE OR REPLACE FUNCTION public.update_pending_incident(
+  _incident_id UUID,
+  _type incident_type,
+  _title TEXT,
+  _description TEXT,
+  _location TEXT
+)
+RETURNS public.incidents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _incident public.incidents;
+BEGIN
+  UPDATE public.incidents
+  SET
+    type = _type,
+    title = btrim(_title),
+    description = btrim(_description),
+    location = btrim(_location)
+  WHERE id = _incident_id
+    AND user_id = auth.uid()
+    AND status = 'pending'
+  RETURNING * INTO _incident;
+
+  IF _incident.id IS NULL THEN
+    RAISE EXCEPTION 'Only your own pending reports can be edited'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN _incident;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.withdraw_incident(_incident_id UUID)
+RETURNS public.incidents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _incident public.incidents;
+BEGIN
+  UPDATE public.incidents
+  SET status = 'withdrawn'
+  WHERE id = _incident_id
+    AND user_id = auth.uid()
+    AND status = 'pending'
+  RETURNING * INTO _incident;
+
+  IF _incident.id IS NULL THEN
+    RAISE EXCEPTION 'Only your own pending reports can be withdrawn'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN _incident;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_pending_incident(UUID, incident_type, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.withdraw_incident(UUID) TO authenticated;
+
+-- Reporters editing, withdrawing or resubmitting their own reports isn't
+-- moderation, so keep it out of the moderation log
+CREATE OR REPLACE FUNCTION public.log_moderation_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entity TEXT := TG_ARGV[0];
+  _target_column TEXT := COALESCE(TG_ARGV[1], 'id');
+  -- Derived or bookkeeping columns that don't count as a moderation change
+  _ignored TEXT[] := ARRAY['geo', 'updated_at', 'confirmation_count', 'neighborhood_id', 'edited_at'];
+  _before JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) - 'geo' END;
+  _after JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) - 'geo' END;
+  _changes JSONB;
+  _action TEXT;
+  _actor UUID := auth.uid();
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    SELECT jsonb_object_agg(n.key, jsonb_build_object('from', o.value, 'to', n.value))
+    INTO _changes
+    FROM jsonb_each(_after) n
+    JOIN jsonb_each(_before) o USING (key)
+    WHERE n.value IS DISTINCT FROM o.value
+      AND NOT n.key = ANY(_ignored);
+
+    IF _changes IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  _action := CASE
+    WHEN _entity = 'incident' AND TG_OP = 'UPDATE' AND _changes ? 'status' THEN 'incident.status_changed'
+    WHEN _entity = 'user_role' AND TG_OP = 'INSERT' THEN 'user_role.granted'
+    WHEN _entity = 'user_role' AND TG_OP = 'DELETE' THEN 'user_role.revoked'
+    WHEN _entity = 'comment' AND TG_OP = 'UPDATE' AND _changes ? 'deleted_at' THEN 'comment.removed'
+    WHEN TG_OP = 'INSERT' THEN _entity || '.created'
+    WHEN TG_OP = 'UPDATE' THEN _entity || '.updated'
+    ELSE _entity || '.deleted'
+  END;
+
+  -- Not moderation: the default role every new account gets at signup, and
+  -- authors changing their own comments or (non-admin) reports
+  IF _action = 'user_role.granted' AND _actor IS NULL AND _after ->> 'role' = 'user' THEN
+    RETURN NULL;
+  END IF;
+  IF _entity = 'comment' AND _actor IS NOT DISTINCT FROM (_before ->> 'user_id')::UUID THEN
+    RETURN NULL;
+  END IF;
+  IF _entity = 'incident' AND TG_OP = 'UPDATE'
+    AND _actor IS NOT DISTINCT FROM (_before ->> 'user_id')::UUID
+    AND NOT public.has_role(_actor, 'admin')
+  THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.moderation_events (
+    actor_id, actor_email, action, target_table, target_id, before, after, changes, reason
+  )
+  VALUES (
+    _actor,
+    (SELECT email FROM auth.users WHERE id = _actor),
+    _action,
+    TG_TABLE_NAME,
+    (COALESCE(_after, _before) ->> _target_column)::UUID,
+    _before,
+    _after,
+    _changes,
+    public.current_moderation_reason()
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+-- Withdrawn reports don't corroborate nearby ones. Same columns, so the view
+-- can be replaced in place.
+CREATE OR REPLACE VIEW public.incidents_with_confidence
+WITH (security_invoker = true)
+AS
+SELECT
+  i.*,
+  track.approved_count AS reporter_approved_count,
+  track.rejected_count AS reporter_rejected_count,
+  nearby.nearby_count,
+  ROUND(
+    100 * (
+      0.5 * (1 - EXP(-i.confirmation_count / 3.0))
+      + 0.3 * (track.approved_count + 1)::NUMERIC / (track.approved_count + track.rejected_count + 2)
+      + 0.2 * (1 - EXP(-nearby.nearby_count / 2.0))
+    )
+  )::INTEGER AS confidence_score
+FROM public.incidents i
+CROSS JOIN LATERAL (
+  SELECT
+    COUNT(*) FILTER (WHERE public.is_public_incident_status(o.status) OR o.status = 'archived')::INTEGER AS approved_count,
+    COUNT(*) FILTER (WHERE o.status IN ('rejected', 'duplicate'))::INTEGER AS rejected_count
+  FROM public.incidents o
+  WHERE o.user_id = i.user_id AND o.id <> i.id
+) track
+CROSS JOIN LATERAL (
+  SELECT COUNT(*)::INTEGER AS nearby_count
+  FROM public.incidents o
+  WHERE i.geo IS NOT NULL
+    AND o.id <> i.id
+    AND o.status NOT IN ('rejected', 'duplicate', 'withdrawn')
+    AND o.created_at BETWEEN i.created_at - INTERVAL '24 hours' AND i.created_at + INTERVAL '24 hours'
+    AND extensions.ST_DWithin(o.geo, i.geo, 500)
+) nearby;
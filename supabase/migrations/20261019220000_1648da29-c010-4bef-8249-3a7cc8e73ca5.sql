@@ -0,0 +1,3 @@
+-- Volunteers who triage reports without full admin rights. Permissions and
+-- policies for the new role are in the next migration.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'moderator' AFTER 'admin';
@@ -0,0 +1,206 @@
+-- What each role may do. Policies check permissions rather than roles, so a
+-- role's rights can change without touching every policy.
+CREATE TABLE public.role_permissions (
+  role app_role NOT NULL,
+  permission TEXT NOT NULL,
+  PRIMARY KEY (role, permission)
+);
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'incidents.moderate'),
+  ('admin', 'incidents.delete'),
+  ('admin', 'comments.moderate'),
+  ('admin', 'users.manage'),
+  ('admin', 'neighborhoods.manage'),
+  ('admin', 'rejection_reasons.manage'),
+  ('admin', 'moderation_log.view'),
+  ('admin', 'settings.manage'),
+  ('moderator', 'incidents.moderate'),
+  ('moderator', 'comments.moderate');
+
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view role permissions" ON public.role_permissions
+  FOR SELECT USING (true);
+
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id UUID, _permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    JOIN public.role_permissions rp ON rp.role = ur.role
+    WHERE ur.user_id = _user_id AND rp.permission = _permission
+  )
+$$;
+
+-- Permissions of the signed-in user, loaded once by the app at sign-in
+CREATE OR REPLACE FUNCTION public.get_my_permissions()
+RETURNS SETOF TEXT
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT rp.permission
+  FROM public.user_roles ur
+  JOIN public.role_permissions rp ON rp.role = ur.role
+  WHERE ur.user_id = auth.uid()
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_my_permissions() TO authenticated;
+
+-- Where a moderator may act. A row without a neighborhood covers all of them;
+-- a moderator with no rows can't moderate anything, so deleting the last
+-- neighborhood in someone's scope never widens it.
+CREATE TABLE public.moderator_scopes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  neighborhood_id UUID REFERENCES public.neighborhoods(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX moderator_scopes_user_neighborhood_idx
+  ON public.moderator_scopes (user_id, COALESCE(neighborhood_id, '00000000-0000-0000-0000-000000000000'::UUID));
+
+ALTER TABLE public.moderator_scopes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own moderator scopes" ON public.moderator_scopes
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "User managers can view moderator scopes" ON public.moderator_scopes
+  FOR SELECT USING (public.has_permission(auth.uid(), 'users.manage'));
+
+CREATE POLICY "User managers can add moderator scopes" ON public.moderator_scopes
+  FOR INSERT WITH CHECK (public.has_permission(auth.uid(), 'users.manage'));
+
+CREATE POLICY "User managers can remove moderator scopes" ON public.moderator_scopes
+  FOR DELETE USING (public.has_permission(auth.uid(), 'users.manage'));
+
+-- Admins act everywhere; anyone else needs the permission and a matching scope
+CREATE OR REPLACE FUNCTION public.has_scoped_permission(_user_id UUID, _permission TEXT, _neighborhood_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin')
+    OR (
+      public.has_permission(_user_id, _permission)
+      AND EXISTS (
+        SELECT 1 FROM public.moderator_scopes
+        WHERE user_id = _user_id
+          AND (neighborhood_id IS NULL OR neighborhood_id = _neighborhood_id)
+      )
+    )
+$$;
+
+-- Incidents: moderators see and triage reports in their neighborhoods
+CREATE POLICY "Moderators can view incidents in scope" ON public.incidents
+  FOR SELECT USING (public.has_scoped_permission(auth.uid(), 'incidents.moderate', neighborhood_id));
+
+CREATE POLICY "Moderators can update incidents in scope" ON public.incidents
+  FOR UPDATE USING (public.has_scoped_permission(auth.uid(), 'incidents.moderate', neighborhood_id))
+  WITH CHECK (public.has_scoped_permission(auth.uid(), 'incidents.moderate', neighborhood_id));
+
+DROP POLICY "Admins can delete incidents" ON public.incidents;
+
+CREATE POLICY "Incident deleters can delete incidents" ON public.incidents
+  FOR DELETE USING (public.has_permission(auth.uid(), 'incidents.delete'));
+
+-- Moderating is changing the status; the report itself stays the reporter's
+CREATE OR REPLACE FUNCTION public.restrict_moderator_incident_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _moderated TEXT[] := ARRAY[
+    'status', 'duplicate_of', 'rejection_reason_id', 'rejection_note',
+    'updated_at', 'confirmation_count', 'neighborhood_id', 'geo'
+  ];
+BEGIN
+  IF auth.uid() IS DISTINCT FROM OLD.user_id
+    AND public.has_role(auth.uid(), 'moderator')
+    AND NOT public.has_role(auth.uid(), 'admin')
+    AND (to_jsonb(NEW) - _moderated) IS DISTINCT FROM (to_jsonb(OLD) - _moderated)
+  THEN
+    RAISE EXCEPTION 'Moderators can only change the status of an incident'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER restrict_moderator_incident_update
+  BEFORE UPDATE ON public.incidents
+  FOR EACH ROW EXECUTE FUNCTION public.restrict_moderator_incident_update();
+
+-- Comments: moderators remove (soft-delete) comments in their neighborhoods,
+-- but unlike admins can't rewrite them
+CREATE POLICY "Moderators can remove comments in scope" ON public.incident_comments
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.incidents i
+      WHERE i.id = incident_id
+        AND public.has_scoped_permission(auth.uid(), 'comments.moderate', i.neighborhood_id)
+    )
+  )
+  WITH CHECK (deleted_at IS NOT NULL);
+
+-- Roles: user managers see everyone's roles and emails, and grant or revoke roles
+CREATE POLICY "User managers can view roles" ON public.user_roles
+  FOR SELECT USING (public.has_permission(auth.uid(), 'users.manage'));
+
+CREATE POLICY "User managers can grant roles" ON public.user_roles
+  FOR INSERT WITH CHECK (public.has_permission(auth.uid(), 'users.manage'));
+
+CREATE POLICY "User managers can revoke roles" ON public.user_roles
+  FOR DELETE USING (public.has_permission(auth.uid(), 'users.manage'));
+
+CREATE POLICY "User managers can view profiles" ON public.profiles
+  FOR SELECT USING (public.has_permission(auth.uid(), 'users.manage'));
+
+-- Admin-only areas now check the matching permission
+DROP POLICY "Admins can create neighborhoods" ON public.neighborhoods;
+DROP POLICY "Admins can update neighborhoods" ON public.neighborhoods;
+DROP POLICY "Admins can delete neighborhoods" ON public.neighborhoods;
+
+CREATE POLICY "Neighborhood managers can create neighborhoods" ON public.neighborhoods
+  FOR INSERT WITH CHECK (public.has_permission(auth.uid(), 'neighborhoods.manage'));
+
+CREATE POLICY "Neighborhood managers can update neighborhoods" ON public.neighborhoods
+  FOR UPDATE USING (public.has_permission(auth.uid(), 'neighborhoods.manage'));
+
+CREATE POLICY "Neighborhood managers can delete neighborhoods" ON public.neighborhoods
+  FOR DELETE USING (public.has_permission(auth.uid(), 'neighborhoods.manage'));
+
+DROP POLICY "Admins can insert rejection reasons" ON public.rejection_reasons;
+DROP POLICY "Admins can update rejection reasons" ON public.rejection_reasons;
+DROP POLICY "Admins can delete rejection reasons" ON public.rejection_reasons;
+
+CREATE POLICY "Reason managers can insert rejection reasons" ON public.rejection_reasons
+  FOR INSERT WITH CHECK (public.has_permission(auth.uid(), 'rejection_reasons.manage'));
+
+CREATE POLICY "Reason managers can update rejection reasons" ON public.rejection_reasons
+  FOR UPDATE USING (public.has_permission(auth.uid(), 'rejection_reasons.manage'));
+
+CREATE POLICY "Reason managers can delete rejection reasons" ON public.rejection_reasons
+  FOR DELETE USING (public.has_permission(auth.uid(), 'rejection_reasons.manage'));
+
+DROP POLICY "Admins can view moderation events" ON public.moderation_events;
+
+CREATE POLICY "Log viewers can view moderation events" ON public.moderation_events
+  FOR SELECT USING (public.has_permission(auth.uid(), 'moderation_log.view'));
+
+-- Scope changes are moderation too
+CREATE TRIGGER log_moderator_scope_moderation
+  AFTER INSERT OR DELETE ON public.moderator_scopes
+  FOR EACH ROW EXECUTE FUNCTION public.log_moderation_event('moderator_scope', 'user_id');
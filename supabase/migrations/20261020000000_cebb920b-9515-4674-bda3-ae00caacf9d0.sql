@@ -0,0 +1,232 @@
+-- Suspensions and bans. One row per restricted account; lifting the
+-- restriction deletes the row. Written by the admin-users edge function with
+-- the caller's session, so the audit trigger records who did it.
+CREATE TABLE public.account_restrictions (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Suspensions expire on their own; a ban stays until it's lifted
+  suspended_until TIMESTAMP WITH TIME ZONE,
+  banned_at TIMESTAMP WITH TIME ZONE,
+  reason TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT account_restrictions_kind CHECK (suspended_until IS NOT NULL OR banned_at IS NOT NULL)
+);
+
+ALTER TABLE public.account_restrictions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own restriction" ON public.account_restrictions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "User managers can view restrictions" ON public.account_restrictions
+  FOR SELECT USING (public.has_permission(auth.uid(), 'users.manage'));
+
+CREATE POLICY "User managers can add restrictions" ON public.account_restrictions
+  FOR INSERT WITH CHECK (public.has_permission(auth.uid(), 'users.manage') AND user_id <> auth.uid());
+
+CREATE POLICY "User managers can update restrictions" ON public.account_restrictions
+  FOR UPDATE USING (public.has_permission(auth.uid(), 'users.manage') AND user_id <> auth.uid());
+
+CREATE POLICY "User managers can lift restrictions" ON public.account_restrictions
+  FOR DELETE USING (public.has_permission(auth.uid(), 'users.manage'));
+
+CREATE TRIGGER update_account_restrictions_updated_at
+  BEFORE UPDATE ON public.account_restrictions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER log_account_restriction_moderation
+  AFTER INSERT OR UPDATE OR DELETE ON public.account_restrictions
+  FOR EACH ROW EXECUTE FUNCTION public.log_moderation_event('account_restriction', 'user_id');
+
+CREATE OR REPLACE FUNCTION public.is_account_restricted(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.account_restrictions
+    WHERE user_id = _user_id
+      AND (banned_at IS NOT NULL OR suspended_until > NOW())
+  )
+$$;
+
+-- Restricted accounts can still sign in (until banned) and read, but can't
+-- post anything new
+DROP POLICY "Authenticated users can create incidents" ON public.incidents;
+
+CREATE POLICY "Authenticated users can create incidents" ON public.incidents
+  FOR INSERT WITH CHECK (auth.uid() = user_id AND NOT public.is_account_restricted(auth.uid()));
+
+DROP POLICY "Reporters can attach files to own incidents" ON public.incident_attachments;
+
+CREATE POLICY "Reporters can attach files to own incidents" ON public.incident_attachments
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND NOT public.is_account_restricted(auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM public.incidents i
+      WHERE i.id = incident_id AND i.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY "Users can comment on published incidents" ON public.incident_comments;
+
+CREATE POLICY "Users can comment on published incidents" ON public.incident_comments
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND NOT public.is_account_restricted(auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM public.incidents i
+      WHERE i.id = incident_id AND public.is_public_incident_status(i.status)
+    )
+    AND (NOT is_official_update OR public.can_post_official_update(auth.uid(), incident_id))
+  );
+
+-- Anonymized incidents have no reporter, so compare with IS DISTINCT FROM
+DROP POLICY "Users can confirm published incidents of others" ON public.incident_confirmations;
+
+CREATE POLICY "Users can confirm published incidents of others" ON public.incident_confirmations
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND NOT public.is_account_restricted(auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM public.incidents i
+      WHERE i.id = incident_id
+        AND public.is_public_incident_status(i.status)
+        AND i.user_id IS DISTINCT FROM auth.uid()
+    )
+  );
+
+-- Incidents and their media can outlive the reporter's account. Deleting an
+-- account anonymizes them unless they're removed first.
+ALTER TABLE public.incidents ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE public.incidents DROP CONSTRAINT incidents_user_id_fkey;
+ALTER TABLE public.incidents
+  ADD CONSTRAINT incidents_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.incident_attachments ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE public.incident_attachments DROP CONSTRAINT incident_attachments_user_id_fkey;
+ALTER TABLE public.incident_attachments
+  ADD CONSTRAINT incident_attachments_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- So can comments, and replies outlive a parent comment that's removed
+-- outright instead of taking the rest of the thread with it
+ALTER TABLE public.incident_comments ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE public.incident_comments DROP CONSTRAINT incident_comments_user_id_fkey;
+ALTER TABLE public.incident_comments
+  ADD CONSTRAINT incident_comments_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.incident_comments DROP CONSTRAINT incident_comments_parent_id_fkey;
+ALTER TABLE public.incident_comments
+  ADD CONSTRAINT incident_comments_parent_id_fkey
+  FOREIGN KEY (parent_id) REFERENCES public.incident_comments(id) ON DELETE SET NULL;
+
+-- Same as before, except that the foreign keys above may detach a comment,
+-- deleted or not, from its author or parent
+CREATE OR REPLACE FUNCTION public.prepare_incident_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.incident_comments
+      WHERE id = NEW.parent_id AND incident_id = NEW.incident_id
+    ) THEN
+      RAISE EXCEPTION 'Reply must belong to the same incident as its parent comment';
+    END IF;
+
+    NEW.edited_at = NULL;
+    NEW.deleted_at = NULL;
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.user_id IS NULL AND OLD.user_id IS NOT NULL OR NEW.parent_id IS NULL AND OLD.parent_id IS NOT NULL)
+    AND (NEW.user_id IS NULL OR NEW.user_id = OLD.user_id)
+    AND (NEW.parent_id IS NULL OR NEW.parent_id = OLD.parent_id)
+    AND (NEW.incident_id, NEW.body, NEW.is_official_update, NEW.edited_at, NEW.deleted_at, NEW.created_at)
+      IS NOT DISTINCT FROM (OLD.incident_id, OLD.body, OLD.is_official_update, OLD.edited_at, OLD.deleted_at, OLD.created_at)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted comments cannot be changed';
+  END IF;
+
+  NEW.incident_id = OLD.incident_id;
+  NEW.parent_id = OLD.parent_id;
+  NEW.user_id = OLD.user_id;
+  NEW.created_at = OLD.created_at;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at = NOW();
+    NEW.body = '';
+    NEW.is_official_update = false;
+  ELSIF NEW.body IS DISTINCT FROM OLD.body THEN
+    NEW.edited_at = NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- First half of deleting an account, called by the admin-users edge function
+-- with the caller's session before it removes the auth user. Either deletes
+-- the user's incidents and blanks their comments, or leaves both up without
+-- their name, so it all shows up in the moderation log under the caller.
+-- Returns the storage paths of deleted media for the function to remove.
+CREATE OR REPLACE FUNCTION public.prepare_account_deletion(_user_id UUID, _delete_incidents BOOLEAN)
+RETURNS SETOF TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile public.profiles;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'users.manage') THEN
+    RAISE EXCEPTION 'Not allowed to delete accounts' USING ERRCODE = '42501';
+  END IF;
+  IF _user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot delete your own account here' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _profile FROM public.profiles WHERE id = _user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Account not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _delete_incidents THEN
+    RETURN QUERY
+      SELECT path
+      FROM public.incident_attachments a
+      JOIN public.incidents i ON i.id = a.incident_id
+      CROSS JOIN LATERAL unnest(ARRAY[a.storage_path, a.thumbnail_path]) AS path
+      WHERE i.user_id = _user_id AND path IS NOT NULL;
+
+    DELETE FROM public.incidents WHERE user_id = _user_id;
+
+    -- Comments elsewhere are soft-deleted, so replies to them stay in place
+    UPDATE public.incident_comments SET deleted_at = NOW() WHERE user_id = _user_id AND deleted_at IS NULL;
+  ELSE
+    UPDATE public.incidents SET user_id = NULL WHERE user_id = _user_id;
+    UPDATE public.incident_attachments SET user_id = NULL WHERE user_id = _user_id;
+  END IF;
+
+  -- auth.users has no audit trigger, so record the deletion itself here
+  INSERT INTO public.moderation_events (actor_id, actor_email, action, target_table, target_id, before, reason)
+  VALUES (
+    auth.uid(),
+    (SELECT email FROM auth.users WHERE id = auth.uid()),
+    'account.deleted',
+    'profiles',
+    _user_id,
+    to_jsonb(_profile) || jsonb_build_object('incidents', CASE WHEN _delete_incidents THEN 'deleted' ELSE 'anonymized' END),
+    public.current_moderation_reason()
+  );
+END;
+$$;
@@ -0,0 +1,75 @@
+-- Moderators get the Users page read-only, to spot prolific reporters and
+-- spammers; the account actions stay behind users.manage
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'users.view'),
+  ('moderator', 'users.view');
+
+-- One row per account for the Users page, with the sign-in dates from
+-- auth.users and each user's reporting record. Search happens here; sorting
+-- and paging are applied by PostgREST on top (order=, limit/offset and
+-- Prefer: count=exact all work on set-returning functions).
+CREATE OR REPLACE FUNCTION public.admin_list_users(_search TEXT DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  last_sign_in_at TIMESTAMP WITH TIME ZONE,
+  roles public.app_role[],
+  report_count INTEGER,
+  approved_count INTEGER,
+  rejected_count INTEGER,
+  -- Published share of decided reports; null until one has been decided
+  approval_rate NUMERIC,
+  status TEXT,
+  suspended_until TIMESTAMP WITH TIME ZONE,
+  banned_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'users.view') THEN
+    RAISE EXCEPTION 'Not allowed to list users' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    u.id,
+    u.email::TEXT,
+    u.created_at,
+    u.last_sign_in_at,
+    COALESCE(
+      (SELECT array_agg(r.role ORDER BY r.role) FROM public.user_roles r WHERE r.user_id = u.id),
+      '{}'
+    ),
+    stats.report_count,
+    stats.approved_count,
+    stats.rejected_count,
+    CASE
+      WHEN stats.approved_count + stats.rejected_count > 0
+      THEN ROUND(stats.approved_count::NUMERIC / (stats.approved_count + stats.rejected_count), 2)
+    END,
+    CASE
+      WHEN ar.banned_at IS NOT NULL THEN 'banned'
+      WHEN ar.suspended_until > NOW() THEN 'suspended'
+      ELSE 'active'
+    END,
+    ar.suspended_until,
+    ar.banned_at
+  FROM auth.users u
+  CROSS JOIN LATERAL (
+    SELECT
+      COUNT(*)::INTEGER AS report_count,
+      COUNT(*) FILTER (WHERE public.is_public_incident_status(i.status))::INTEGER AS approved_count,
+      COUNT(*) FILTER (WHERE i.status = 'rejected')::INTEGER AS rejected_count
+    FROM public.incidents i
+    WHERE i.user_id = u.id
+  ) stats
+  LEFT JOIN public.account_restrictions ar ON ar.user_id = u.id
+  WHERE NULLIF(btrim(_search), '') IS NULL
+    OR u.email ILIKE '%' || replace(replace(btrim(_search), '%', '\%'), '_', '\_') || '%';
+END;
+$$;
@@ -0,0 +1,50 @@
+-- Site-wide settings edited on the Settings page. Values are JSON so each key
+-- keeps its own type; the app validates them against a zod schema.
+CREATE TABLE public.site_settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  -- Public settings (like the site name) are readable by everyone, including
+  -- signed-out visitors and the incident-og edge function
+  is_public BOOLEAN NOT NULL DEFAULT false,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.site_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view public settings" ON public.site_settings
+  FOR SELECT USING (is_public);
+
+CREATE POLICY "Settings managers can view settings" ON public.site_settings
+  FOR SELECT USING (public.has_permission(auth.uid(), 'settings.manage'));
+
+CREATE POLICY "Settings managers can add settings" ON public.site_settings
+  FOR INSERT WITH CHECK (public.has_permission(auth.uid(), 'settings.manage'));
+
+CREATE POLICY "Settings managers can update settings" ON public.site_settings
+  FOR UPDATE USING (public.has_permission(auth.uid(), 'settings.manage'));
+
+CREATE TRIGGER update_site_settings_updated_at
+  BEFORE UPDATE ON public.site_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.site_settings (key, value, is_public) VALUES
+  ('site_name', '"SafetyWatch"', true),
+  ('support_email', '""', true),
+  ('admin_alert_email', '""', false),
+  ('admin_alert_sms', '""', false)
+ON CONFLICT (key) DO NOTHING;
+
+-- For server-side code (triggers, email functions) that needs a setting as text
+CREATE OR REPLACE FUNCTION public.site_setting(_key TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT value #>> '{}' FROM public.site_settings WHERE key = _key
+$$;
+
+-- Private settings included, so not callable from the API
+REVOKE EXECUTE ON FUNCTION public.site_setting(TEXT) FROM PUBLIC, anon, authenticated;
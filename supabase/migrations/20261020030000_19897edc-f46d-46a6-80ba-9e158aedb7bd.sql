@@ -0,0 +1,187 @@
+CREATE TYPE public.incident_severity AS ENUM ('low', 'medium', 'high', 'critical');
+
+-- Incident types, managed from the Settings page. The id is the slug stored
+-- on incidents.type. Categories are retired rather than deleted, so older
+-- incidents keep their label and color.
+CREATE TABLE public.incident_categories (
+  id TEXT PRIMARY KEY CHECK (id ~ '^[a-z0-9_]+$'),
+  label TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT '#64748b' CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  -- lucide icon name; the app falls back to a generic tag for unknown names
+  icon TEXT NOT NULL DEFAULT 'tag',
+  default_severity incident_severity NOT NULL DEFAULT 'medium',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.incident_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view incident categories" ON public.incident_categories
+  FOR SELECT USING (true);
+
+CREATE POLICY "Settings managers can add incident categories" ON public.incident_categories
+  FOR INSERT WITH CHECK (public.has_permission(auth.uid(), 'settings.manage'));
+
+CREATE POLICY "Settings managers can update incident categories" ON public.incident_categories
+  FOR UPDATE USING (public.has_permission(auth.uid(), 'settings.manage'));
+
+-- Everything the app offered before, including the types the database enum
+-- never had
+INSERT INTO public.incident_categories (id, label, color, icon, default_severity, sort_order) VALUES
+  ('suspicious', 'Suspicious Activity', '#f59e0b', 'eye', 'medium', 10),
+  ('theft', 'Theft', '#ef4444', 'wallet', 'high', 20),
+  ('vandalism', 'Vandalism', '#f97316', 'spray-can', 'medium', 30),
+  ('assault', 'Assault', '#b91c1c', 'shield-alert', 'critical', 40),
+  ('noise', 'Noise Complaint', '#3b82f6', 'volume-2', 'low', 50),
+  ('emergency', 'Emergency', '#dc2626', 'siren', 'critical', 60),
+  ('road_hazard', 'Road Hazard', '#0284c7', 'construction', 'medium', 70),
+  ('other', 'Other', '#64748b', 'circle-help', 'low', 1000)
+ON CONFLICT (id) DO NOTHING;
+
+-- incidents.type becomes a reference to the table. The view and the two
+-- reporter RPCs depend on the enum, so they're rebuilt around the change.
+DROP VIEW public.incidents_with_confidence;
+DROP FUNCTION public.update_pending_incident(UUID, incident_type, TEXT, TEXT, TEXT);
+DROP FUNCTION public.resubmit_incident(UUID, incident_type, TEXT, TEXT, TEXT);
+
+ALTER TABLE public.incidents ALTER COLUMN type TYPE TEXT USING type::TEXT;
+ALTER TABLE public.incidents
+  ADD CONSTRAINT incidents_type_fkey FOREIGN KEY (type) REFERENCES public.incident_categories(id) ON UPDATE CASCADE;
+
+DROP TYPE public.incident_type;
+
+-- Retired categories can't be picked for new reports, but an edited report
+-- may keep the one it already has
+CREATE OR REPLACE FUNCTION public.is_selectable_incident_category(_category TEXT, _current TEXT DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT _category = _current
+    OR EXISTS (SELECT 1 FROM public.incident_categories WHERE id = _category AND is_active)
+$$;
+
+DROP POLICY "Authenticated users can create incidents" ON public.incidents;
+
+CREATE POLICY "Authenticated users can create incidents" ON public.incidents
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND NOT public.is_account_restricted(auth.uid())
+    AND public.is_selectable_incident_category(type)
+  );
+
+CREATE OR REPLACE FUNCTION public.update_pending_incident(
+  _incident_id UUID,
+  _type TEXT,
+  _title TEXT,
+  _description TEXT,
+  _location TEXT
+)
+RETURNS public.incidents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _incident public.incidents;
+BEGIN
+  UPDATE public.incidents
+  SET
+    type = _type,
+    title = btrim(_title),
+    description = btrim(_description),
+    location = btrim(_location)
+  WHERE id = _incident_id
+    AND user_id = auth.uid()
+    AND status = 'pending'
+    AND NOT public.is_account_restricted(auth.uid())
+    AND public.is_selectable_incident_category(_type, type)
+  RETURNING * INTO _incident;
+
+  IF _incident.id IS NULL THEN
+    RAISE EXCEPTION 'Only your own pending reports can be edited'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN _incident;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.resubmit_incident(
+  _incident_id UUID,
+  _type TEXT,
+  _title TEXT,
+  _description TEXT,
+  _location TEXT
+)
+RETURNS public.incidents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _incident public.incidents;
+BEGIN
+  UPDATE public.incidents
+  SET
+    type = _type,
+    title = btrim(_title),
+    description = btrim(_description),
+    location = btrim(_location),
+    status = 'pending'
+  WHERE id = _incident_id
+    AND user_id = auth.uid()
+    AND status = 'rejected'
+    AND NOT public.is_account_restricted(auth.uid())
+    AND public.is_selectable_incident_category(_type, type)
+  RETURNING * INTO _incident;
+
+  IF _incident.id IS NULL THEN
+    RAISE EXCEPTION 'Only your own rejected reports can be resubmitted'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN _incident;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_pending_incident(UUID, TEXT, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resubmit_incident(UUID, TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+CREATE VIEW public.incidents_with_confidence
+WITH (security_invoker = true)
+AS
+SELECT
+  i.*,
+  track.approved_count AS reporter_approved_count,
+  track.rejected_count AS reporter_rejected_count,
+  nearby.nearby_count,
+  ROUND(
+    100 * (
+      0.5 * (1 - EXP(-i.confirmation_count / 3.0))
+      + 0.3 * (track.approved_count + 1)::NUMERIC / (track.approved_count + track.rejected_count + 2)
+      + 0.2 * (1 - EXP(-nearby.nearby_count / 2.0))
+    )
+  )::INTEGER AS confidence_score
+FROM public.incidents i
+CROSS JOIN LATERAL (
+  SELECT
+    COUNT(*) FILTER (WHERE public.is_public_incident_status(o.status) OR o.status = 'archived')::INTEGER AS approved_count,
+    COUNT(*) FILTER (WHERE o.status IN ('rejected', 'duplicate'))::INTEGER AS rejected_count
+  FROM public.incidents o
+  WHERE o.user_id = i.user_id AND o.id <> i.id
+) track
+CROSS JOIN LATERAL (
+  SELECT COUNT(*)::INTEGER AS nearby_count
+  FROM public.incidents o
+  WHERE i.geo IS NOT NULL
+    AND o.id <> i.id
+    AND o.status NOT IN ('rejected', 'duplicate', 'withdrawn')
+    AND o.created_at BETWEEN i.created_at - INTERVAL '24 hours' AND i.created_at + INTERVAL '24 hours'
+    AND extensions.ST_DWithin(o.geo, i.geo, 500)
+) nearby;
+
+REVOKE ALL ON public.incidents_with_confidence FROM anon;
+GRANT SELECT ON public.incidents_with_confidence TO authenticated;
@@ -0,0 +1,88 @@
+-- Picked by the reporter (defaulting to the category's severity) and
+-- overridable by moderators
+ALTER TABLE public.incidents
+  ADD COLUMN severity incident_severity NOT NULL DEFAULT 'medium';
+
+-- Backfill from the categories without logging a moderation event or bumping
+-- updated_at for every existing report
+ALTER TABLE public.incidents DISABLE TRIGGER log_incident_moderation;
+ALTER TABLE public.incidents DISABLE TRIGGER update_incidents_updated_at;
+
+UPDATE public.incidents i
+SET severity = c.default_severity
+FROM public.incident_categories c
+WHERE c.id = i.type;
+
+ALTER TABLE public.incidents ENABLE TRIGGER log_incident_moderation;
+ALTER TABLE public.incidents ENABLE TRIGGER update_incidents_updated_at;
+
+-- The view's i.* is fixed when it's created, so rebuild it to pick up the new
+-- column. is_urgent floats critical reports still awaiting a decision to the
+-- top of the moderation queue.
+DROP VIEW public.incidents_with_confidence;
+
+CREATE VIEW public.incidents_with_confidence
+WITH (security_invoker = true)
+AS
+SELECT
+  i.*,
+  track.approved_count AS reporter_approved_count,
+  track.rejected_count AS reporter_rejected_count,
+  nearby.nearby_count,
+  ROUND(
+    100 * (
+      0.5 * (1 - EXP(-i.confirmation_count / 3.0))
+      + 0.3 * (track.approved_count + 1)::NUMERIC / (track.approved_count + track.rejected_count + 2)
+      + 0.2 * (1 - EXP(-nearby.nearby_count / 2.0))
+    )
+  )::INTEGER AS confidence_score,
+  (i.severity = 'critical' AND i.status IN ('pending', 'under_review')) AS is_urgent
+FROM public.incidents i
+CROSS JOIN LATERAL (
+  SELECT
+    COUNT(*) FILTER (WHERE public.is_public_incident_status(o.status) OR o.status = 'archived')::INTEGER AS approved_count,
+    COUNT(*) FILTER (WHERE o.status IN ('rejected', 'duplicate'))::INTEGER AS rejected_count
+  FROM public.incidents o
+  WHERE o.user_id = i.user_id AND o.id <> i.id
+) track
+CROSS JOIN LATERAL (
+  SELECT COUNT(*)::INTEGER AS nearby_count
+  FROM public.incidents o
+  WHERE i.geo IS NOT NULL
+    AND o.id <> i.id
+    AND o.status NOT IN ('rejected', 'duplicate', 'withdrawn')
+    AND o.created_at BETWEEN i.created_at - INTERVAL '24 hours' AND i.created_at + INTERVAL '24 hours'
+    AND extensions.ST_DWithin(o.geo, i.geo, 500)
+) nearby;
+
+REVOKE ALL ON public.incidents_with_confidence FROM anon;
+GRANT SELECT ON public.incidents_with_confidence TO authenticated;
+
+CREATE INDEX incidents_urgent_idx ON public.incidents (created_at)
+  WHERE severity = 'critical' AND status IN ('pending', 'under_review');
+
+-- Moderators may override the severity as well as the status
+CREATE OR REPLACE FUNCTION public.restrict_moderator_incident_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _moderated TEXT[] := ARRAY[
+    'status', 'severity', 'duplicate_of', 'rejection_reason_id', 'rejection_note',
+    'updated_at', 'confirmation_count', 'neighborhood_id', 'geo'
+  ];
+BEGIN
+  IF auth.uid() IS DISTINCT FROM OLD.user_id
+    AND public.has_role(auth.uid(), 'moderator')
+    AND NOT public.has_role(auth.uid(), 'admin')
+    AND (to_jsonb(NEW) - _moderated) IS DISTINCT FROM (to_jsonb(OLD) - _moderated)
+  THEN
+    RAISE EXCEPTION 'Moderators can only change the status or severity of an incident'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,8 @@
+-- Stream incident changes to the feed and the moderation panel. Realtime
+-- checks each change against the incidents select policies, so subscribers
+-- only receive rows they could already query.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.incidents;
+
+-- Otherwise updates leave out large values they didn't touch (like a long
+-- description), and subscribers would render the row with them missing
+ALTER TABLE public.incidents REPLICA IDENTITY FULL;
@@ -0,0 +1,162 @@
+CREATE TYPE public.notification_channel AS ENUM ('in_app', 'push', 'email', 'sms');
+
+-- Areas a user wants to hear about: a point and radius, or a whole
+-- neighborhood, narrowed down by category and severity
+CREATE TABLE public.watch_zones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 60),
+  latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  radius_meters INTEGER,
+  neighborhood_id UUID REFERENCES public.neighborhoods(id) ON DELETE CASCADE,
+  -- incident_categories ids; empty means every category
+  categories TEXT[] NOT NULL DEFAULT '{}',
+  min_severity incident_severity NOT NULL DEFAULT 'low',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  geo extensions.geography(Point, 4326)
+    GENERATED ALWAYS AS (
+      CASE
+        WHEN latitude IS NOT NULL AND longitude IS NOT NULL
+          THEN extensions.ST_SetSRID(extensions.ST_MakePoint(longitude, latitude), 4326)::extensions.geography
+      END
+    ) STORED,
+  CONSTRAINT watch_zones_area CHECK (
+    (neighborhood_id IS NULL AND latitude IS NOT NULL AND longitude IS NOT NULL AND radius_meters BETWEEN 100 AND 10000)
+    OR (neighborhood_id IS NOT NULL AND latitude IS NULL AND longitude IS NULL AND radius_meters IS NULL)
+  )
+);
+
+CREATE INDEX watch_zones_user_id_idx ON public.watch_zones (user_id);
+CREATE INDEX watch_zones_neighborhood_id_idx ON public.watch_zones (neighborhood_id);
+CREATE INDEX watch_zones_geo_idx ON public.watch_zones USING GIST (geo);
+
+ALTER TABLE public.watch_zones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own watch zones" ON public.watch_zones
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add own watch zones" ON public.watch_zones
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own watch zones" ON public.watch_zones
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own watch zones" ON public.watch_zones
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_watch_zones_updated_at
+  BEFORE UPDATE ON public.watch_zones
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- How each kind of notification reaches a user. No row means the default of
+-- in-app only; an empty list turns that kind off.
+CREATE TABLE public.notification_preferences (
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CONSTRAINT notification_preferences_kind CHECK (kind IN ('watch_zone')),
+  channels notification_channel[] NOT NULL DEFAULT '{in_app}',
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, kind)
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notification preferences" ON public.notification_preferences
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add own notification preferences" ON public.notification_preferences
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notification preferences" ON public.notification_preferences
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One row per notification. The in-app list reads it directly; other
+-- channels deliver from it.
+CREATE TABLE public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL,
+  incident_id UUID REFERENCES public.incidents(id) ON DELETE CASCADE,
+  watch_zone_id UUID REFERENCES public.watch_zones(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  -- The user's channels for this kind when it was created
+  channels notification_channel[] NOT NULL,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX notifications_user_id_created_at_idx ON public.notifications (user_id, created_at DESC);
+
+-- An incident alerts each user once, however many of their zones it falls in
+CREATE UNIQUE INDEX notifications_watch_zone_once_idx ON public.notifications (user_id, incident_id)
+  WHERE kind = 'watch_zone';
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications" ON public.notifications
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notifications" ON public.notifications
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notifications" ON public.notifications
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Marking as read is the only change users can make
+REVOKE UPDATE ON public.notifications FROM anon, authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- Fan an incident out to matching watch zones the first time it's published.
+-- Reporters don't get alerts about their own reports.
+CREATE OR REPLACE FUNCTION public.notify_watch_zones()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_public_incident_status(NEW.status)
+    OR (TG_OP = 'UPDATE' AND public.is_public_incident_status(OLD.status)) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, kind, incident_id, watch_zone_id, title, body, channels)
+  SELECT DISTINCT ON (z.user_id)
+    z.user_id,
+    'watch_zone',
+    NEW.id,
+    z.id,
+    format('%s in %s', c.label, z.name),
+    NEW.title,
+    COALESCE(p.channels, '{in_app}')
+  FROM public.watch_zones z
+  JOIN public.incident_categories c ON c.id = NEW.type
+  LEFT JOIN public.notification_preferences p ON p.user_id = z.user_id AND p.kind = 'watch_zone'
+  WHERE z.is_active
+    AND z.user_id IS DISTINCT FROM NEW.user_id
+    AND (cardinality(z.categories) = 0 OR NEW.type = ANY (z.categories))
+    AND NEW.severity >= z.min_severity
+    AND (
+      z.neighborhood_id = NEW.neighborhood_id
+      OR extensions.ST_DWithin(z.geo, NEW.geo, z.radius_meters)
+    )
+    AND cardinality(COALESCE(p.channels, '{in_app}')) > 0
+  ORDER BY z.user_id, z.created_at
+  ON CONFLICT (user_id, incident_id) WHERE kind = 'watch_zone' DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_watch_zones
+  AFTER INSERT OR UPDATE OF status ON public.incidents
+  FOR EACH ROW EXECUTE FUNCTION public.notify_watch_zones();
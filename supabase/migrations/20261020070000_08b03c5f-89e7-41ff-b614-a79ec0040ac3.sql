@@ -0,0 +1,276 @@
+-- Reporters hear about status changes on their reports, and moderators can
+-- opt in to hearing about new reports waiting for review
+ALTER TABLE public.notification_preferences DROP CONSTRAINT notification_preferences_kind;
+ALTER TABLE public.notification_preferences
+  ADD CONSTRAINT notification_preferences_kind CHECK (kind IN ('watch_zone', 'report_status', 'pending_report'));
+
+-- A user's channels for a kind, falling back to the kind's default. Review
+-- queue alerts are off until a moderator turns them on.
+CREATE OR REPLACE FUNCTION public.notification_channels(_user_id UUID, _kind TEXT)
+RETURNS notification_channel[]
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT channels FROM public.notification_preferences WHERE user_id = _user_id AND kind = _kind),
+    CASE _kind WHEN 'pending_report' THEN '{}' ELSE '{in_app}' END::notification_channel[]
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notification_channels(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.notify_watch_zones()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_public_incident_status(NEW.status)
+    OR (TG_OP = 'UPDATE' AND public.is_public_incident_status(OLD.status)) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, kind, incident_id, watch_zone_id, title, body, channels)
+  SELECT DISTINCT ON (z.user_id)
+    z.user_id,
+    'watch_zone',
+    NEW.id,
+    z.id,
+    format('%s in %s', c.label, z.name),
+    NEW.title,
+    p.channels
+  FROM public.watch_zones z
+  JOIN public.incident_categories c ON c.id = NEW.type
+  CROSS JOIN LATERAL (SELECT public.notification_channels(z.user_id, 'watch_zone') AS channels) p
+  WHERE z.is_active
+    AND z.user_id IS DISTINCT FROM NEW.user_id
+    AND (cardinality(z.categories) = 0 OR NEW.type = ANY (z.categories))
+    AND NEW.severity >= z.min_severity
+    AND (
+      z.neighborhood_id = NEW.neighborhood_id
+      OR extensions.ST_DWithin(z.geo, NEW.geo, z.radius_meters)
+    )
+    AND cardinality(p.channels) > 0
+  ORDER BY z.user_id, z.created_at
+  ON CONFLICT (user_id, incident_id) WHERE kind = 'watch_zone' DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Tell the reporter when someone else moves their report along. Their own
+-- withdrawals and resubmissions don't need a notification.
+CREATE OR REPLACE FUNCTION public.notify_report_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _channels notification_channel[];
+BEGIN
+  IF NEW.status = OLD.status OR NEW.user_id IS NULL OR auth.uid() IS NOT DISTINCT FROM NEW.user_id THEN
+    RETURN NULL;
+  END IF;
+
+  _channels := public.notification_channels(NEW.user_id, 'report_status');
+  IF cardinality(_channels) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, kind, incident_id, title, body, channels)
+  VALUES (
+    NEW.user_id,
+    'report_status',
+    NEW.id,
+    'Your report ' || CASE NEW.status
+      WHEN 'pending' THEN 'is back in the review queue'
+      WHEN 'under_review' THEN 'is being reviewed'
+      WHEN 'approved' THEN 'was approved'
+      WHEN 'active' THEN 'is marked active'
+      WHEN 'resolved' THEN 'was resolved'
+      WHEN 'rejected' THEN 'needs changes'
+      WHEN 'archived' THEN 'was archived'
+      WHEN 'duplicate' THEN 'was marked as a duplicate'
+      ELSE 'was updated'
+    END,
+    NEW.title,
+    _channels
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_report_status
+  AFTER UPDATE OF status ON public.incidents
+  FOR EACH ROW EXECUTE FUNCTION public.notify_report_status();
+
+-- Tell moderators covering the neighborhood about reports entering the queue,
+-- whether new or resubmitted
+CREATE OR REPLACE FUNCTION public.notify_pending_report()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'pending' OR (TG_OP = 'UPDATE' AND OLD.status = 'pending') THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, kind, incident_id, title, body, channels)
+  SELECT
+    m.user_id,
+    'pending_report',
+    NEW.id,
+    CASE WHEN NEW.severity = 'critical' THEN 'Urgent: ' ELSE '' END || format('New %s report to review', c.label),
+    NEW.title,
+    p.channels
+  FROM (SELECT DISTINCT user_id FROM public.user_roles) m
+  JOIN public.incident_categories c ON c.id = NEW.type
+  CROSS JOIN LATERAL (SELECT public.notification_channels(m.user_id, 'pending_report') AS channels) p
+  WHERE m.user_id IS DISTINCT FROM NEW.user_id
+    AND public.has_scoped_permission(m.user_id, 'incidents.moderate', NEW.neighborhood_id)
+    AND cardinality(p.channels) > 0;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_pending_report
+  AFTER INSERT OR UPDATE OF status ON public.incidents
+  FOR EACH ROW EXECUTE FUNCTION public.notify_pending_report();
+
+-- Outbox for every channel except in-app, which reads notifications directly.
+-- Senders claim rows with claim_notification_deliveries and record the result.
+CREATE TABLE public.notification_deliveries (
+  notification_id UUID NOT NULL REFERENCES public.notifications(id) ON DELETE CASCADE,
+  channel notification_channel NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CONSTRAINT notification_deliveries_status CHECK (status IN ('pending', 'sending', 'sent', 'skipped', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  claimed_at TIMESTAMP WITH TIME ZONE,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (notification_id, channel)
+);
+
+CREATE INDEX notification_deliveries_queue_idx ON public.notification_deliveries (channel, created_at)
+  WHERE status IN ('pending', 'sending');
+
+-- Only senders, using the service role, touch deliveries
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.queue_notification_deliveries()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.notification_deliveries (notification_id, channel)
+  SELECT NEW.id, channel
+  FROM unnest(NEW.channels) AS channel
+  WHERE channel <> 'in_app';
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER queue_notification_deliveries
+  AFTER INSERT ON public.notifications
+  FOR EACH ROW EXECUTE FUNCTION public.queue_notification_deliveries();
+
+-- Hands a batch of deliveries to one sender. Claims left behind by a sender
+-- that crashed are picked up again after five minutes, up to five attempts.
+CREATE OR REPLACE FUNCTION public.claim_notification_deliveries(_channel notification_channel, _limit INTEGER DEFAULT 100)
+RETURNS SETOF public.notification_deliveries
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.notification_deliveries d
+  SET status = 'sending', attempts = d.attempts + 1, claimed_at = NOW()
+  FROM (
+    SELECT notification_id, channel
+    FROM public.notification_deliveries
+    WHERE channel = _channel
+      AND attempts < 5
+      AND (status = 'pending' OR (status = 'sending' AND claimed_at < NOW() - INTERVAL '5 minutes'))
+    ORDER BY created_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  ) batch
+  WHERE d.notification_id = batch.notification_id AND d.channel = batch.channel
+  RETURNING d.*
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_notification_deliveries(notification_channel, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Browsers a user has allowed to show push notifications
+CREATE TABLE public.push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX push_subscriptions_user_id_idx ON public.push_subscriptions (user_id);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own push subscriptions" ON public.push_subscriptions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own push subscriptions" ON public.push_subscriptions
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- A browser has one subscription whoever signs in on it, so registering moves
+-- it to the current user instead of failing on the endpoint
+CREATE OR REPLACE FUNCTION public.register_push_subscription(
+  _endpoint TEXT,
+  _p256dh TEXT,
+  _auth TEXT,
+  _user_agent TEXT DEFAULT NULL
+)
+RETURNS public.push_subscriptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _subscription public.push_subscriptions;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to turn on push notifications' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- send-push posts to this URL from the server, so only accept the browsers'
+  -- own push services rather than any address a user cares to send
+  IF _endpoint !~ '^https://(fcm\.googleapis\.com|updates\.push\.services\.mozilla\.com|web\.push\.apple\.com|[a-z0-9-]+\.notify\.windows\.com)/' THEN
+    RAISE EXCEPTION 'Unsupported push service' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO public.push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  VALUES (auth.uid(), _endpoint, _p256dh, _auth, _user_agent)
+  ON CONFLICT (endpoint) DO UPDATE
+    SET user_id = EXCLUDED.user_id,
+      p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth,
+      user_agent = EXCLUDED.user_agent
+  RETURNING * INTO _subscription;
+
+  RETURN _subscription;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.register_push_subscription(TEXT, TEXT, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,194 @@
+-- Notifications can also go to an address that isn't an account (the admin
+-- alert address from the Settings page), and can carry extra data for the
+-- email templates
+ALTER TABLE public.notifications ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE public.notifications ADD COLUMN recipient_email TEXT;
+ALTER TABLE public.notifications ADD COLUMN data JSONB;
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_recipient CHECK ((user_id IS NULL) <> (recipient_email IS NULL));
+
+-- Same as before, plus an email to the admin alert address when one is set
+CREATE OR REPLACE FUNCTION public.notify_pending_report()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _title TEXT;
+  _admin_email TEXT := NULLIF(btrim(public.site_setting('admin_alert_email')), '');
+BEGIN
+  IF NEW.status <> 'pending' OR (TG_OP = 'UPDATE' AND OLD.status = 'pending') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT CASE WHEN NEW.severity = 'critical' THEN 'Urgent: ' ELSE '' END || format('New %s report to review', c.label)
+  INTO _title
+  FROM public.incident_categories c
+  WHERE c.id = NEW.type;
+
+  INSERT INTO public.notifications (user_id, kind, incident_id, title, body, channels)
+  SELECT m.user_id, 'pending_report', NEW.id, _title, NEW.title, p.channels
+  FROM (SELECT DISTINCT user_id FROM public.user_roles) m
+  CROSS JOIN LATERAL (SELECT public.notification_channels(m.user_id, 'pending_report') AS channels) p
+  WHERE m.user_id IS DISTINCT FROM NEW.user_id
+    AND public.has_scoped_permission(m.user_id, 'incidents.moderate', NEW.neighborhood_id)
+    AND cardinality(p.channels) > 0;
+
+  IF _admin_email IS NOT NULL THEN
+    INSERT INTO public.notifications (recipient_email, kind, incident_id, title, body, channels)
+    VALUES (_admin_email, 'pending_report', NEW.id, _title, NEW.title, '{email}');
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Opt-in summaries of newly published incidents, by email. An empty list of
+-- neighborhoods covers the whole site.
+CREATE TABLE public.email_digests (
+  user_id UUID PRIMARY KEY DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  frequency TEXT NOT NULL CONSTRAINT email_digests_frequency CHECK (frequency IN ('daily', 'weekly')),
+  neighborhood_ids UUID[] NOT NULL DEFAULT '{}',
+  last_sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.email_digests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own email digest" ON public.email_digests
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add own email digest" ON public.email_digests
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own email digest" ON public.email_digests
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own email digest" ON public.email_digests
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_email_digests_updated_at
+  BEFORE UPDATE ON public.email_digests
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Queues one digest notification per subscriber with anything to report.
+-- Run by pg_cron (see SETUP.md); the email itself is built by send-email.
+CREATE OR REPLACE FUNCTION public.queue_email_digests(_frequency TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _period INTERVAL := CASE _frequency WHEN 'daily' THEN INTERVAL '1 day' ELSE INTERVAL '7 days' END;
+  _queued INTEGER;
+BEGIN
+  WITH due AS (
+    SELECT d.user_id, d.neighborhood_ids, GREATEST(d.last_sent_at, NOW() - _period) AS since
+    FROM public.email_digests d
+    WHERE d.frequency = _frequency
+  ),
+  summary AS (
+    SELECT
+      due.user_id,
+      due.since,
+      COUNT(i.id)::INTEGER AS total,
+      -- The template lists the most serious ones first
+      (array_agg(i.id ORDER BY i.severity DESC, i.created_at DESC))[1:20] AS incident_ids
+    FROM due
+    JOIN public.incidents i
+      ON public.is_public_incident_status(i.status)
+      AND i.created_at >= due.since
+      AND (cardinality(due.neighborhood_ids) = 0 OR i.neighborhood_id = ANY (due.neighborhood_ids))
+      AND i.user_id IS DISTINCT FROM due.user_id
+    GROUP BY due.user_id, due.since
+  )
+  INSERT INTO public.notifications (user_id, kind, title, channels, data)
+  SELECT
+    user_id,
+    'digest',
+    format('%s new %s this %s', total, CASE WHEN total = 1 THEN 'incident' ELSE 'incidents' END,
+      CASE _frequency WHEN 'daily' THEN 'day' ELSE 'week' END),
+    '{email}',
+    jsonb_build_object('frequency', _frequency, 'since', since, 'total', total, 'incident_ids', to_jsonb(incident_ids))
+  FROM summary;
+
+  GET DIAGNOSTICS _queued = ROW_COUNT;
+
+  UPDATE public.email_digests SET last_sent_at = NOW() WHERE frequency = _frequency;
+
+  RETURN _queued;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.queue_email_digests(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- One token per user and kind of email, used in unsubscribe links. Knowing
+-- the token is enough to unsubscribe, so links work without signing in.
+CREATE TABLE public.email_unsubscribe_tokens (
+  token UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, kind)
+);
+
+ALTER TABLE public.email_unsubscribe_tokens ENABLE ROW LEVEL SECURITY;
+
+-- For send-email, which puts the link in every email to a user
+CREATE OR REPLACE FUNCTION public.email_unsubscribe_token(_user_id UUID, _kind TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _token UUID;
+BEGIN
+  INSERT INTO public.email_unsubscribe_tokens (user_id, kind)
+  VALUES (_user_id, _kind)
+  ON CONFLICT (user_id, kind) DO NOTHING;
+
+  SELECT token INTO _token FROM public.email_unsubscribe_tokens WHERE user_id = _user_id AND kind = _kind;
+  RETURN _token;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.email_unsubscribe_token(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Stops one kind of email for the token's user, leaving their other channels
+-- alone. Returns the kind so the page can say what was turned off.
+CREATE OR REPLACE FUNCTION public.unsubscribe_email(_token UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _subscription public.email_unsubscribe_tokens;
+BEGIN
+  SELECT * INTO _subscription FROM public.email_unsubscribe_tokens WHERE token = _token;
+
+  IF _subscription.token IS NULL THEN
+    RAISE EXCEPTION 'This unsubscribe link is no longer valid' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _subscription.kind = 'digest' THEN
+    DELETE FROM public.email_digests WHERE user_id = _subscription.user_id;
+  ELSE
+    INSERT INTO public.notification_preferences (user_id, kind, channels)
+    VALUES (
+      _subscription.user_id,
+      _subscription.kind,
+      array_remove(public.notification_channels(_subscription.user_id, _subscription.kind), 'email')
+    )
+    ON CONFLICT (user_id, kind) DO UPDATE SET channels = array_remove(notification_preferences.channels, 'email');
+  END IF;
+
+  RETURN _subscription.kind;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.unsubscribe_email(UUID) TO anon, authenticated;
@@ -0,0 +1,139 @@
+-- Text messages are kept for critical incidents. They go to a user's verified
+-- phone number, or to the admin alert number from the Settings page.
+ALTER TABLE public.notifications ADD COLUMN recipient_phone TEXT;
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_recipient;
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_recipient CHECK (num_nonnulls(user_id, recipient_email, recipient_phone) = 1);
+
+-- A user's phone number, added through the sms-verify Edge Function once
+-- they've entered the code sent to it. Users can only change their quiet
+-- hours, or remove the number.
+CREATE TABLE public.phone_numbers (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- E.164, like +14155550123
+  phone TEXT NOT NULL CHECK (phone ~ '^\+[1-9][0-9]{7,14}$'),
+  verified_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  -- No texts between these local times; a start after the end spans midnight
+  quiet_hours_start TIME,
+  quiet_hours_end TIME,
+  time_zone TEXT NOT NULL DEFAULT 'UTC',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT phone_numbers_quiet_hours CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+ALTER TABLE public.phone_numbers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own phone number" ON public.phone_numbers
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own phone number" ON public.phone_numbers
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own phone number" ON public.phone_numbers
+  FOR DELETE USING (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE ON public.phone_numbers FROM anon, authenticated;
+GRANT UPDATE (quiet_hours_start, quiet_hours_end, time_zone) ON public.phone_numbers TO authenticated;
+
+CREATE TRIGGER update_phone_numbers_updated_at
+  BEFORE UPDATE ON public.phone_numbers
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The code waiting to be entered, one per user. Only sms-verify reads it.
+CREATE TABLE public.phone_verifications (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  phone TEXT NOT NULL,
+  code_hash TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.phone_verifications ENABLE ROW LEVEL SECURITY;
+
+-- Every text sent, for the per-number rate limits
+CREATE TABLE public.sms_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  phone TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  purpose TEXT NOT NULL CONSTRAINT sms_messages_purpose CHECK (purpose IN ('verification', 'alert')),
+  provider_message_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX sms_messages_phone_created_at_idx ON public.sms_messages (phone, created_at DESC);
+
+ALTER TABLE public.sms_messages ENABLE ROW LEVEL SECURITY;
+
+-- Only queue texts that can go out: critical incidents, to someone with a
+-- number to send them to
+CREATE OR REPLACE FUNCTION public.queue_notification_deliveries()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.notification_deliveries (notification_id, channel)
+  SELECT NEW.id, channel
+  FROM unnest(NEW.channels) AS channel
+  WHERE channel <> 'in_app'
+    AND (
+      channel <> 'sms'
+      OR (
+        EXISTS (SELECT 1 FROM public.incidents WHERE id = NEW.incident_id AND severity = 'critical')
+        AND (
+          NEW.recipient_phone IS NOT NULL
+          OR EXISTS (SELECT 1 FROM public.phone_numbers WHERE user_id = NEW.user_id)
+        )
+      )
+    );
+
+  RETURN NULL;
+END;
+$$;
+
+-- Same as before, plus a text to the admin alert number for critical reports
+CREATE OR REPLACE FUNCTION public.notify_pending_report()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _title TEXT;
+  _admin_email TEXT := NULLIF(btrim(public.site_setting('admin_alert_email')), '');
+  -- Stored as typed on the Settings page, spaces and all
+  _admin_phone TEXT := NULLIF(regexp_replace(COALESCE(public.site_setting('admin_alert_sms'), ''), '[^0-9+]', '', 'g'), '');
+BEGIN
+  IF NEW.status <> 'pending' OR (TG_OP = 'UPDATE' AND OLD.status = 'pending') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT CASE WHEN NEW.severity = 'critical' THEN 'Urgent: ' ELSE '' END || format('New %s report to review', c.label)
+  INTO _title
+  FROM public.incident_categories c
+  WHERE c.id = NEW.type;
+
+  INSERT INTO public.notifications (user_id, kind, incident_id, title, body, channels)
+  SELECT m.user_id, 'pending_report', NEW.id, _title, NEW.title, p.channels
+  FROM (SELECT DISTINCT user_id FROM public.user_roles) m
+  CROSS JOIN LATERAL (SELECT public.notification_channels(m.user_id, 'pending_report') AS channels) p
+  WHERE m.user_id IS DISTINCT FROM NEW.user_id
+    AND public.has_scoped_permission(m.user_id, 'incidents.moderate', NEW.neighborhood_id)
+    AND cardinality(p.channels) > 0;
+
+  IF _admin_email IS NOT NULL THEN
+    INSERT INTO public.notifications (recipient_email, kind, incident_id, title, body, channels)
+    VALUES (_admin_email, 'pending_report', NEW.id, _title, NEW.title, '{email}');
+  END IF;
+
+  IF _admin_phone IS NOT NULL AND NEW.severity = 'critical' THEN
+    INSERT INTO public.notifications (recipient_phone, kind, incident_id, title, body, channels)
+    VALUES (_admin_phone, 'pending_report', NEW.id, _title, NEW.title, '{sms}');
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
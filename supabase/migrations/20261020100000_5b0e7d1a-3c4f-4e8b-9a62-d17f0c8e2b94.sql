@@ -0,0 +1,27 @@
+-- Bulk delete removes an incident's media after the incident itself, so the
+-- files have to stay visible and removable to whoever can delete incidents
+-- once their folder no longer matches a row.
+DROP POLICY "Incident media follows incident visibility" ON storage.objects;
+
+CREATE POLICY "Incident media follows incident visibility" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'incident-media'
+    AND (
+      EXISTS (
+        SELECT 1 FROM public.incidents i
+        WHERE i.id::text = (storage.foldername(name))[1]
+      )
+      OR public.has_permission(auth.uid(), 'incidents.delete')
+    )
+  );
+
+DROP POLICY "Reporters and admins can delete incident media" ON storage.objects;
+
+CREATE POLICY "Reporters and admins can delete incident media" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'incident-media'
+    AND (
+      owner = auth.uid()
+      OR public.has_permission(auth.uid(), 'incidents.delete')
+    )
+  );
@@ -0,0 +1,48 @@
+-- Tighter moderator rules for incident updates:
+--   * confirmation_count and neighborhood_id are kept by triggers on other
+--     tables (confirmations, neighborhood boundaries), so they're only
+--     accepted from those nested writes, never from a moderator's own UPDATE
+--   * on their own report a moderator gets what any reporter gets through
+--     update_pending_incident and resubmit_incident, but can't decide on it
+CREATE OR REPLACE FUNCTION public.restrict_moderator_incident_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- geo is generated from latitude/longitude, which aren't in the list, and
+  -- isn't computed yet in a BEFORE trigger
+  _allowed TEXT[] := ARRAY[
+    'status', 'severity', 'duplicate_of', 'rejection_reason_id', 'rejection_note',
+    'updated_at', 'geo'
+  ];
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'moderator') OR public.has_role(auth.uid(), 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  IF pg_trigger_depth() > 1 THEN
+    _allowed := _allowed || ARRAY['confirmation_count', 'neighborhood_id'];
+  END IF;
+
+  IF auth.uid() = OLD.user_id THEN
+    IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status NOT IN ('pending', 'withdrawn') THEN
+      RAISE EXCEPTION 'Moderators can''t decide on their own reports'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    -- Editing it while pending, or editing and resubmitting it
+    IF OLD.status = 'pending' OR NEW.status = 'pending' THEN
+      _allowed := _allowed || ARRAY['type', 'title', 'description', 'location'];
+    END IF;
+  END IF;
+
+  IF (to_jsonb(NEW) - _allowed) IS DISTINCT FROM (to_jsonb(OLD) - _allowed) THEN
+    RAISE EXCEPTION 'Moderators can only change the status or severity of an incident'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
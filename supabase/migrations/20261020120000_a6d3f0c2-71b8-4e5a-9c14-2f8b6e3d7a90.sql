@@ -0,0 +1,55 @@
+-- Two corrections to the confidence score:
+--   * Only published incidents can be confirmed, so reports awaiting a
+--     decision (pending or under review) are scored on what they have:
+--       60% reporter record, 40% nearby reports
+--     Everything else keeps the 50/30/20 split with confirmations.
+--   * Rejected and duplicate reports can be archived too, so an archived
+--     report only counts towards the reporter's record if it was published
+--     at some point.
+-- Same columns, so the view can be replaced in place and keeps its grants.
+CREATE OR REPLACE VIEW public.incidents_with_confidence
+WITH (security_invoker = true)
+AS
+SELECT
+  i.*,
+  track.approved_count AS reporter_approved_count,
+  track.rejected_count AS reporter_rejected_count,
+  nearby.nearby_count,
+  ROUND(
+    100 * CASE
+      WHEN i.status IN ('pending', 'under_review') THEN
+        0.6 * (track.approved_count + 1)::NUMERIC / (track.approved_count + track.rejected_count + 2)
+        + 0.4 * (1 - EXP(-nearby.nearby_count / 2.0))
+      ELSE
+        0.5 * (1 - EXP(-i.confirmation_count / 3.0))
+        + 0.3 * (track.approved_count + 1)::NUMERIC / (track.approved_count + track.rejected_count + 2)
+        + 0.2 * (1 - EXP(-nearby.nearby_count / 2.0))
+    END
+  )::INTEGER AS confidence_score,
+  (i.severity = 'critical' AND i.status IN ('pending', 'under_review')) AS is_urgent
+FROM public.incidents i
+CROSS JOIN LATERAL (
+  SELECT
+    COUNT(*) FILTER (
+      WHERE public.is_public_incident_status(o.status)
+        OR (
+          o.status = 'archived'
+          AND EXISTS (
+            SELECT 1 FROM public.incident_status_history h
+            WHERE h.incident_id = o.id AND public.is_public_incident_status(h.to_status)
+          )
+        )
+    )::INTEGER AS approved_count,
+    COUNT(*) FILTER (WHERE o.status IN ('rejected', 'duplicate'))::INTEGER AS rejected_count
+  FROM public.incidents o
+  WHERE o.user_id = i.user_id AND o.id <> i.id
+) track
+CROSS JOIN LATERAL (
+  SELECT COUNT(*)::INTEGER AS nearby_count
+  FROM public.incidents o
+  WHERE i.geo IS NOT NULL
+    AND o.id <> i.id
+    AND o.status NOT IN ('rejected', 'duplicate', 'withdrawn')
+    AND o.created_at BETWEEN i.created_at - INTERVAL '24 hours' AND i.created_at + INTERVAL '24 hours'
+    AND extensions.ST_DWithin(o.geo, i.geo, 500)
+) nearby;
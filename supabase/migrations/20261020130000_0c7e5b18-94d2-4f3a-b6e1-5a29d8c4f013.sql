@@ -0,0 +1,6 @@
+-- Status history is public for published incidents, and changed_by would
+-- show which moderator acted on each report. Keep that column to the service
+-- role; the timeline only needs the statuses and when they changed.
+REVOKE SELECT ON public.incident_status_history FROM anon, authenticated;
+GRANT SELECT (id, incident_id, from_status, to_status, created_at)
+  ON public.incident_status_history TO anon, authenticated;
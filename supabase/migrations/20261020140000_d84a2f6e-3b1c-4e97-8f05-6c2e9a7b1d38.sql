@@ -0,0 +1,28 @@
+-- Media can only be added while a report is still pending, so nothing reaches
+-- a published incident without review, and not by restricted accounts. The
+-- storage policy now matches the attachments table on both counts.
+DROP POLICY "Reporters can attach files to own incidents" ON public.incident_attachments;
+
+CREATE POLICY "Reporters can attach files to own incidents" ON public.incident_attachments
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND NOT public.is_account_restricted(auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM public.incidents i
+      WHERE i.id = incident_id AND i.user_id = auth.uid() AND i.status = 'pending'
+    )
+  );
+
+DROP POLICY "Reporters can upload media to own incidents" ON storage.objects;
+
+CREATE POLICY "Reporters can upload media to own incidents" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'incident-media'
+    AND NOT public.is_account_restricted(auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM public.incidents i
+      WHERE i.id::text = (storage.foldername(name))[1]
+        AND i.user_id = auth.uid()
+        AND i.status = 'pending'
+    )
+  );
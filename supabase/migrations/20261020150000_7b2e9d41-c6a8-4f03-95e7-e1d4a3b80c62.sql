@@ -0,0 +1,44 @@
+-- Same as before, but only checks the scope of admins and moderators instead
+-- of every user with a role, which is everyone
+CREATE OR REPLACE FUNCTION public.notify_pending_report()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _title TEXT;
+  _admin_email TEXT := NULLIF(btrim(public.site_setting('admin_alert_email')), '');
+  -- Stored as typed on the Settings page, spaces and all
+  _admin_phone TEXT := NULLIF(regexp_replace(COALESCE(public.site_setting('admin_alert_sms'), ''), '[^0-9+]', '', 'g'), '');
+BEGIN
+  IF NEW.status <> 'pending' OR (TG_OP = 'UPDATE' AND OLD.status = 'pending') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT CASE WHEN NEW.severity = 'critical' THEN 'Urgent: ' ELSE '' END || format('New %s report to review', c.label)
+  INTO _title
+  FROM public.incident_categories c
+  WHERE c.id = NEW.type;
+
+  INSERT INTO public.notifications (user_id, kind, incident_id, title, body, channels)
+  SELECT m.user_id, 'pending_report', NEW.id, _title, NEW.title, p.channels
+  FROM (SELECT DISTINCT user_id FROM public.user_roles WHERE role IN ('admin', 'moderator')) m
+  CROSS JOIN LATERAL (SELECT public.notification_channels(m.user_id, 'pending_report') AS channels) p
+  WHERE m.user_id IS DISTINCT FROM NEW.user_id
+    AND public.has_scoped_permission(m.user_id, 'incidents.moderate', NEW.neighborhood_id)
+    AND cardinality(p.channels) > 0;
+
+  IF _admin_email IS NOT NULL THEN
+    INSERT INTO public.notifications (recipient_email, kind, incident_id, title, body, channels)
+    VALUES (_admin_email, 'pending_report', NEW.id, _title, NEW.title, '{email}');
+  END IF;
+
+  IF _admin_phone IS NOT NULL AND NEW.severity = 'critical' THEN
+    INSERT INTO public.notifications (recipient_phone, kind, incident_id, title, body, channels)
+    VALUES (_admin_phone, 'pending_report', NEW.id, _title, NEW.title, '{sms}');
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
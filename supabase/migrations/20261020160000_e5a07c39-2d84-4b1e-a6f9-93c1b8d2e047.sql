@@ -0,0 +1,2 @@
+-- For sms-verify's daily cap on codes per user, across numbers
+CREATE INDEX sms_messages_user_id_created_at_idx ON public.sms_messages (user_id, created_at DESC);
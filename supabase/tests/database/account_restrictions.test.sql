@@ -0,0 +1,55 @@
+-- Suspensions and bans: is_account_restricted and the policies that use it
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(7);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-4000-8000-000000000001', 'admin@example.com'),
+  ('00000000-0000-4000-8000-000000000002', 'banned@example.com'),
+  ('00000000-0000-4000-8000-000000000003', 'suspended@example.com'),
+  ('00000000-0000-4000-8000-000000000004', 'expired@example.com'),
+  ('00000000-0000-4000-8000-000000000005', 'resident@example.com');
+INSERT INTO public.user_roles (user_id, role) VALUES ('00000000-0000-4000-8000-000000000001', 'admin');
+
+INSERT INTO public.account_restrictions (user_id, banned_at, suspended_until) VALUES
+  ('00000000-0000-4000-8000-000000000002', NOW(), NULL),
+  ('00000000-0000-4000-8000-000000000003', NULL, NOW() + INTERVAL '3 days'),
+  ('00000000-0000-4000-8000-000000000004', NULL, NOW() - INTERVAL '1 day');
+
+SELECT ok(public.is_account_restricted('00000000-0000-4000-8000-000000000002'), 'a ban applies');
+SELECT ok(public.is_account_restricted('00000000-0000-4000-8000-000000000003'), 'a suspension applies until it ends');
+SELECT ok(NOT public.is_account_restricted('00000000-0000-4000-8000-000000000004'), 'an expired suspension no longer applies');
+SELECT ok(NOT public.is_account_restricted('00000000-0000-4000-8000-000000000005'), 'accounts without a restriction are free to post');
+
+SET LOCAL ROLE authenticated;
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-8000-000000000003"}', true);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.incidents (user_id, type, title, description, location)
+     VALUES ('00000000-0000-4000-8000-000000000003', 'theft', 't', 'd', 'l') $$,
+  '42501',
+  'new row violates row-level security policy for table "incidents"',
+  'a suspended account can''t report incidents'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-8000-000000000004"}', true);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.incidents (user_id, type, title, description, location)
+     VALUES ('00000000-0000-4000-8000-000000000004', 'theft', 't', 'd', 'l') $$,
+  'an account whose suspension ended can report again'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-8000-000000000001"}', true);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.account_restrictions (user_id, banned_at)
+     VALUES ('00000000-0000-4000-8000-000000000001', NOW()) $$,
+  '42501',
+  'new row violates row-level security policy for table "account_restrictions"',
+  'admins can''t restrict their own account'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
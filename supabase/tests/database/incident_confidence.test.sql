@@ -0,0 +1,90 @@
+-- Reporter record, nearby reports and confirmations behind incidents_with_confidence
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(8);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-4000-8000-000000000001', 'reporter@example.com'),
+  ('00000000-0000-4000-8000-000000000002', 'neighbor@example.com'),
+  ('00000000-0000-4000-8000-000000000003', 'witness1@example.com'),
+  ('00000000-0000-4000-8000-000000000004', 'witness2@example.com'),
+  ('00000000-0000-4000-8000-000000000005', 'witness3@example.com');
+
+-- The reporter's history: two published reports (one since archived), one
+-- rejected, and one rejected and then archived
+INSERT INTO public.incidents (id, user_id, type, title, description, location) VALUES
+  ('10000000-0000-4000-8000-00000000000a', '00000000-0000-4000-8000-000000000001', 'theft', 'Published', 'd', 'l'),
+  ('10000000-0000-4000-8000-00000000000b', '00000000-0000-4000-8000-000000000001', 'theft', 'Published, archived', 'd', 'l'),
+  ('10000000-0000-4000-8000-00000000000c', '00000000-0000-4000-8000-000000000001', 'theft', 'Rejected, archived', 'd', 'l'),
+  ('10000000-0000-4000-8000-00000000000d', '00000000-0000-4000-8000-000000000001', 'theft', 'Rejected', 'd', 'l'),
+  ('10000000-0000-4000-8000-00000000000e', '00000000-0000-4000-8000-000000000001', 'theft', 'Under review', 'd', 'l');
+
+UPDATE public.incidents SET status = 'approved'
+WHERE id IN ('10000000-0000-4000-8000-00000000000a', '10000000-0000-4000-8000-00000000000b');
+UPDATE public.incidents SET status = 'rejected'
+WHERE id IN ('10000000-0000-4000-8000-00000000000c', '10000000-0000-4000-8000-00000000000d');
+UPDATE public.incidents SET status = 'archived'
+WHERE id IN ('10000000-0000-4000-8000-00000000000b', '10000000-0000-4000-8000-00000000000c');
+UPDATE public.incidents SET status = 'under_review' WHERE id = '10000000-0000-4000-8000-00000000000e';
+
+-- A new pending report, with a neighbor's report about 100 m away
+INSERT INTO public.incidents (id, user_id, type, title, description, location, latitude, longitude) VALUES
+  ('10000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000001', 'theft', 'Pending', 'd', 'l', 52.37, 4.89),
+  ('10000000-0000-4000-8000-000000000002', '00000000-0000-4000-8000-000000000002', 'theft', 'Nearby', 'd', 'l', 52.3709, 4.89);
+
+INSERT INTO public.incident_confirmations (incident_id, user_id) VALUES
+  ('10000000-0000-4000-8000-00000000000a', '00000000-0000-4000-8000-000000000003'),
+  ('10000000-0000-4000-8000-00000000000a', '00000000-0000-4000-8000-000000000004'),
+  ('10000000-0000-4000-8000-00000000000a', '00000000-0000-4000-8000-000000000005');
+
+SELECT is(
+  (SELECT reporter_approved_count FROM public.incidents_with_confidence WHERE id = '10000000-0000-4000-8000-000000000001'),
+  2,
+  'published reports count towards the record, archived ones only if they were published'
+);
+
+SELECT is(
+  (SELECT reporter_rejected_count FROM public.incidents_with_confidence WHERE id = '10000000-0000-4000-8000-000000000001'),
+  1,
+  'rejected reports count against the record'
+);
+
+SELECT is(
+  (SELECT nearby_count FROM public.incidents_with_confidence WHERE id = '10000000-0000-4000-8000-000000000001'),
+  1,
+  'reports within 500 m and a day of each other count as nearby'
+);
+
+-- 60% of a (2 + 1) / (2 + 1 + 2) record, plus 40% of 1 - e^(-1/2) for the nearby report
+SELECT is(
+  (SELECT confidence_score FROM public.incidents_with_confidence WHERE id = '10000000-0000-4000-8000-000000000001'),
+  52,
+  'a pending report is scored on the reporter and nearby reports only'
+);
+
+SELECT is(
+  (SELECT confidence_score FROM public.incidents_with_confidence WHERE id = '10000000-0000-4000-8000-00000000000e'),
+  36,
+  'a report under review is scored like a pending one'
+);
+
+SELECT is(
+  (SELECT confirmation_count FROM public.incidents WHERE id = '10000000-0000-4000-8000-00000000000a'),
+  3,
+  'confirmations are counted on the incident'
+);
+
+-- 50% of 1 - e^(-3/3) for the confirmations, plus 30% of a (1 + 1) / (1 + 1 + 2) record
+SELECT is(
+  (SELECT confidence_score FROM public.incidents_with_confidence WHERE id = '10000000-0000-4000-8000-00000000000a'),
+  47,
+  'a published report is scored mostly on its confirmations'
+);
+
+SELECT ok(
+  NOT has_table_privilege('anon', 'public.incidents_with_confidence', 'SELECT'),
+  'signed-out visitors can''t read the scores'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
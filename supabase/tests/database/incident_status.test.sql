@@ -0,0 +1,112 @@
+-- Status lifecycle enforced by enforce_incident_status_transition
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(12);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-4000-8000-000000000001', 'reporter@example.com'),
+  ('00000000-0000-4000-8000-000000000002', 'admin@example.com');
+INSERT INTO public.user_roles (user_id, role) VALUES ('00000000-0000-4000-8000-000000000002', 'admin');
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-8000-000000000001"}', true);
+
+INSERT INTO public.incidents (id, user_id, type, title, description, location, status) VALUES
+  ('10000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000001', 'theft', 'Bike stolen', 'From the rack', 'Station', 'approved'),
+  ('10000000-0000-4000-8000-000000000002', '00000000-0000-4000-8000-000000000001', 'theft', 'Bike stolen again', 'Same rack', 'Station', 'pending');
+
+SELECT is(
+  (SELECT status FROM public.incidents WHERE id = '10000000-0000-4000-8000-000000000001'),
+  'pending'::incident_status,
+  'a new report starts as pending whatever status it was sent with'
+);
+
+SELECT lives_ok(
+  $$ UPDATE public.incidents SET status = 'under_review' WHERE id = '10000000-0000-4000-8000-000000000001';
+     UPDATE public.incidents SET status = 'approved' WHERE id = '10000000-0000-4000-8000-000000000001';
+     UPDATE public.incidents SET status = 'resolved' WHERE id = '10000000-0000-4000-8000-000000000001' $$,
+  'a report can be reviewed, approved and resolved'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.incidents SET status = 'pending' WHERE id = '10000000-0000-4000-8000-000000000001' $$,
+  '23514',
+  'Invalid incident status transition from resolved to pending',
+  'a published report can''t go back to pending'
+);
+
+SELECT lives_ok(
+  $$ UPDATE public.incidents SET status = 'archived' WHERE id = '10000000-0000-4000-8000-000000000001' $$,
+  'a resolved report can be archived'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.incidents SET status = 'active' WHERE id = '10000000-0000-4000-8000-000000000001' $$,
+  '23514',
+  'Invalid incident status transition from archived to active',
+  'archived is final'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.incidents SET status = 'duplicate' WHERE id = '10000000-0000-4000-8000-000000000002' $$,
+  '23514',
+  'A duplicate incident must reference the original (duplicate_of)',
+  'a duplicate has to point at the original'
+);
+
+UPDATE public.incidents
+SET status = 'rejected',
+  rejection_reason_id = (SELECT id FROM public.rejection_reasons ORDER BY sort_order LIMIT 1),
+  rejection_note = 'Please add where it happened'
+WHERE id = '10000000-0000-4000-8000-000000000002';
+
+UPDATE public.incidents SET status = 'pending' WHERE id = '10000000-0000-4000-8000-000000000002';
+
+SELECT is(
+  (SELECT rejection_note FROM public.incidents WHERE id = '10000000-0000-4000-8000-000000000002'),
+  NULL,
+  'rejection details are cleared when a rejected report is resubmitted'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-8000-000000000002"}', true);
+
+SELECT throws_ok(
+  $$ UPDATE public.incidents SET status = 'withdrawn' WHERE id = '10000000-0000-4000-8000-000000000002' $$,
+  '42501',
+  'Only the reporter can withdraw an incident',
+  'nobody else can withdraw a report, admins included'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-8000-000000000001"}', true);
+
+SELECT lives_ok(
+  $$ UPDATE public.incidents SET status = 'withdrawn' WHERE id = '10000000-0000-4000-8000-000000000002' $$,
+  'the reporter can withdraw a pending report'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.incidents SET status = 'pending' WHERE id = '10000000-0000-4000-8000-000000000002' $$,
+  '23514',
+  'Invalid incident status transition from withdrawn to pending',
+  'withdrawn is final'
+);
+
+SELECT is(
+  (SELECT array_agg(to_status ORDER BY created_at, to_status)::TEXT
+   FROM public.incident_status_history WHERE incident_id = '10000000-0000-4000-8000-000000000001'),
+  '{pending,under_review,approved,resolved,archived}',
+  'every status change is recorded in the history'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-8000-000000000002"}', true);
+
+INSERT INTO public.incidents (id, user_id, type, title, description, location, status) VALUES
+  ('10000000-0000-4000-8000-000000000003', '00000000-0000-4000-8000-000000000002', 'theft', 'Car broken into', 'Window smashed', 'Car park', 'active');
+
+SELECT is(
+  (SELECT status FROM public.incidents WHERE id = '10000000-0000-4000-8000-000000000003'),
+  'active'::incident_status,
+  'admins can file a report straight into a published status'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,68 @@
+-- What log_moderation_event writes to moderation_events, and what it leaves out
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(6);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-4000-8000-000000000001', 'admin@example.com'),
+  ('00000000-0000-4000-8000-000000000002', 'reporter@example.com'),
+  ('00000000-0000-4000-8000-000000000003', 'witness@example.com');
+INSERT INTO public.user_roles (user_id, role) VALUES ('00000000-0000-4000-8000-000000000001', 'admin');
+
+INSERT INTO public.incidents (id, user_id, type, title, description, location) VALUES
+  ('10000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000002', 'theft', 'Bike stolen', 'd', 'l');
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.moderation_events WHERE action = 'user_role.granted'),
+  1,
+  'granting a role is logged, but not the default role every account gets at signup'
+);
+
+-- The app sends the reason base64-encoded in a request header
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-8000-000000000001"}', true);
+SELECT set_config(
+  'request.headers',
+  json_build_object('x-moderation-reason', encode(convert_to('Confirmé par la gare', 'UTF8'), 'base64'))::TEXT,
+  true
+);
+
+UPDATE public.incidents SET status = 'approved' WHERE id = '10000000-0000-4000-8000-000000000001';
+
+SELECT is(
+  (SELECT action FROM public.moderation_events WHERE target_id = '10000000-0000-4000-8000-000000000001'),
+  'incident.status_changed',
+  'a status change is logged as one'
+);
+
+SELECT is(
+  (SELECT actor_email FROM public.moderation_events WHERE target_id = '10000000-0000-4000-8000-000000000001'),
+  'admin@example.com',
+  'the event records who acted'
+);
+
+SELECT is(
+  (SELECT changes -> 'status' FROM public.moderation_events WHERE target_id = '10000000-0000-4000-8000-000000000001'),
+  '{"from": "pending", "to": "approved"}'::JSONB,
+  'the event records what changed'
+);
+
+SELECT is(
+  (SELECT reason FROM public.moderation_events WHERE target_id = '10000000-0000-4000-8000-000000000001'),
+  'Confirmé par la gare',
+  'the reason is decoded from the request header'
+);
+
+SELECT set_config('request.headers', '', true);
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-8000-000000000003"}', true);
+
+INSERT INTO public.incident_confirmations (incident_id, user_id) VALUES
+  ('10000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000003');
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.moderation_events WHERE target_id = '10000000-0000-4000-8000-000000000001'),
+  1,
+  'bookkeeping updates such as the confirmation count aren''t logged'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
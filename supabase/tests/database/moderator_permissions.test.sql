@@ -0,0 +1,111 @@
+-- Role permissions, neighborhood scopes and what restrict_moderator_incident_update
+-- lets a moderator change
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(15);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-4000-8000-000000000001', 'admin@example.com'),
+  ('00000000-0000-4000-8000-000000000002', 'moderator@example.com'),
+  ('00000000-0000-4000-8000-000000000003', 'reporter@example.com');
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('00000000-0000-4000-8000-000000000001', 'admin'),
+  ('00000000-0000-4000-8000-000000000002', 'moderator');
+
+INSERT INTO public.neighborhoods (id, name, boundary) VALUES
+  ('20000000-0000-4000-8000-000000000001', 'North',
+   '{"type": "Polygon", "coordinates": [[[4.85, 52.35], [4.95, 52.35], [4.95, 52.40], [4.85, 52.40], [4.85, 52.35]]]}'),
+  ('20000000-0000-4000-8000-000000000002', 'South',
+   '{"type": "Polygon", "coordinates": [[[4.85, 52.30], [4.95, 52.30], [4.95, 52.34], [4.85, 52.34], [4.85, 52.30]]]}');
+INSERT INTO public.moderator_scopes (user_id, neighborhood_id) VALUES
+  ('00000000-0000-4000-8000-000000000002', '20000000-0000-4000-8000-000000000001');
+
+INSERT INTO public.incidents (id, user_id, type, title, description, location, latitude, longitude) VALUES
+  ('10000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000003', 'theft', 'In scope', 'd', 'l', 52.37, 4.89),
+  ('10000000-0000-4000-8000-000000000002', '00000000-0000-4000-8000-000000000003', 'theft', 'Out of scope', 'd', 'l', 52.32, 4.89),
+  ('10000000-0000-4000-8000-000000000003', '00000000-0000-4000-8000-000000000002', 'theft', 'Own, pending', 'd', 'l', 52.37, 4.89),
+  ('10000000-0000-4000-8000-000000000004', '00000000-0000-4000-8000-000000000002', 'theft', 'Own, approved', 'd', 'l', 52.37, 4.89);
+UPDATE public.incidents SET status = 'approved' WHERE id = '10000000-0000-4000-8000-000000000004';
+
+SELECT ok(public.has_permission('00000000-0000-4000-8000-000000000002', 'incidents.moderate'), 'moderators can moderate incidents');
+SELECT ok(NOT public.has_permission('00000000-0000-4000-8000-000000000002', 'settings.manage'), 'moderators can''t manage settings');
+SELECT ok(NOT public.has_permission('00000000-0000-4000-8000-000000000003', 'incidents.moderate'), 'residents have no moderation permissions');
+
+SELECT ok(
+  public.has_scoped_permission('00000000-0000-4000-8000-000000000002', 'incidents.moderate', '20000000-0000-4000-8000-000000000001'),
+  'a moderator has their permissions in their own neighborhood'
+);
+SELECT ok(
+  NOT public.has_scoped_permission('00000000-0000-4000-8000-000000000002', 'incidents.moderate', '20000000-0000-4000-8000-000000000002'),
+  'a moderator has no permissions in other neighborhoods'
+);
+SELECT ok(
+  public.has_scoped_permission('00000000-0000-4000-8000-000000000001', 'incidents.moderate', '20000000-0000-4000-8000-000000000002'),
+  'admins have every permission everywhere'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-8000-000000000002", "role": "authenticated"}', true);
+SET LOCAL ROLE authenticated;
+
+SELECT lives_ok(
+  $$ UPDATE public.incidents SET status = 'approved', severity = 'high' WHERE id = '10000000-0000-4000-8000-000000000001' $$,
+  'a moderator can approve a report in scope and set its severity'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.incidents SET confirmation_count = 99 WHERE id = '10000000-0000-4000-8000-000000000001' $$,
+  '42501',
+  'Moderators can only change the status or severity of an incident',
+  'a moderator can''t set the confirmation count'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.incidents SET latitude = 52.32 WHERE id = '10000000-0000-4000-8000-000000000001' $$,
+  '42501',
+  'Moderators can only change the status or severity of an incident',
+  'a moderator can''t move a report out of their neighborhood'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.incident_confirmations (incident_id, user_id)
+     VALUES ('10000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000002') $$,
+  'a moderator can still confirm a report, which updates its count'
+);
+
+UPDATE public.incidents SET status = 'approved' WHERE id = '10000000-0000-4000-8000-000000000002';
+
+SELECT throws_ok(
+  $$ UPDATE public.incidents SET status = 'approved' WHERE id = '10000000-0000-4000-8000-000000000003' $$,
+  '42501',
+  'Moderators can''t decide on their own reports',
+  'a moderator can''t approve their own report'
+);
+
+SELECT lives_ok(
+  $$ SELECT public.update_pending_incident('10000000-0000-4000-8000-000000000003', 'theft', 'Own, edited', 'd', 'l') $$,
+  'a moderator can edit their own pending report like any reporter'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.incidents SET title = 'Rewritten' WHERE id = '10000000-0000-4000-8000-000000000004' $$,
+  '42501',
+  'Moderators can only change the status or severity of an incident',
+  'a moderator can''t rewrite their own published report'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT status FROM public.incidents WHERE id = '10000000-0000-4000-8000-000000000002'),
+  'pending'::incident_status,
+  'a moderator''s update doesn''t reach reports outside their neighborhoods'
+);
+
+SELECT is(
+  (SELECT confirmation_count FROM public.incidents WHERE id = '10000000-0000-4000-8000-000000000001'),
+  1,
+  'the confirmation was counted'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
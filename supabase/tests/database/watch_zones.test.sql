@@ -0,0 +1,75 @@
+-- Who notify_watch_zones alerts when an incident is published
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(7);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-4000-8000-000000000001', 'reporter@example.com'),
+  ('00000000-0000-4000-8000-000000000002', 'nearby@example.com'),
+  ('00000000-0000-4000-8000-000000000003', 'far@example.com'),
+  ('00000000-0000-4000-8000-000000000004', 'vandalism-only@example.com');
+
+INSERT INTO public.watch_zones (user_id, name, latitude, longitude, radius_meters, categories, min_severity) VALUES
+  ('00000000-0000-4000-8000-000000000001', 'Home', 52.37, 4.89, 500, '{}', 'low'),
+  ('00000000-0000-4000-8000-000000000002', 'Home', 52.37, 4.89, 500, '{}', 'medium'),
+  ('00000000-0000-4000-8000-000000000003', 'Office', 52.30, 4.89, 500, '{}', 'low'),
+  ('00000000-0000-4000-8000-000000000004', 'Home', 52.37, 4.89, 500, '{vandalism}', 'low');
+
+INSERT INTO public.incidents (id, user_id, type, severity, title, description, location, latitude, longitude) VALUES
+  ('10000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000001', 'theft', 'high', 'Bike stolen', 'd', 'l', 52.371, 4.89),
+  ('10000000-0000-4000-8000-000000000002', '00000000-0000-4000-8000-000000000001', 'theft', 'low', 'Bike bell stolen', 'd', 'l', 52.371, 4.89);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.notifications WHERE kind = 'watch_zone'),
+  0,
+  'nobody is alerted about a report that isn''t published yet'
+);
+
+UPDATE public.incidents SET status = 'approved';
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.notifications
+   WHERE kind = 'watch_zone' AND user_id = '00000000-0000-4000-8000-000000000002'
+     AND incident_id = '10000000-0000-4000-8000-000000000001'),
+  1,
+  'a zone within the radius is alerted when the report is published'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.notifications
+   WHERE kind = 'watch_zone' AND user_id = '00000000-0000-4000-8000-000000000002'
+     AND incident_id = '10000000-0000-4000-8000-000000000002'),
+  0,
+  'a zone isn''t alerted below its minimum severity'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.notifications WHERE user_id = '00000000-0000-4000-8000-000000000003'),
+  0,
+  'a zone further away than its radius isn''t alerted'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.notifications WHERE user_id = '00000000-0000-4000-8000-000000000004'),
+  0,
+  'a zone isn''t alerted about categories it doesn''t follow'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.notifications
+   WHERE kind = 'watch_zone' AND user_id = '00000000-0000-4000-8000-000000000001'),
+  0,
+  'reporters aren''t alerted about their own reports'
+);
+
+UPDATE public.incidents SET status = 'active' WHERE id = '10000000-0000-4000-8000-000000000001';
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.notifications
+   WHERE kind = 'watch_zone' AND user_id = '00000000-0000-4000-8000-000000000002'),
+  1,
+  'moving between published statuses doesn''t alert again'
+);
+
+SELECT * FROM finish();
+ROLLBACK;